@@ -0,0 +1,64 @@
+/* ==========================================================================
+ * Dev Tool: Post an SES notification fixture to the SNS endpoint
+ *
+ * Run: node _post_ses_fixture.mjs <bounce|complaint|delivery|subscription-confirmation> [options]
+ *
+ *   --to <email>           Override the recipient address
+ *   --message-id <id>      Override the Message-ID header (use the
+ *                          providerMessageId of a real send to match it)
+ *   --url <endpoint>       Default: http://localhost:3000/api/v1/email/sns
+ *
+ * Fixtures are not signed, so start the dev server with
+ * SES_SNS_VERIFY_SIGNATURES=false (ignored in production).
+ * ========================================================================== */
+
+import { readFileSync } from 'node:fs';
+
+const FIXTURES = new URL('./src/lib/engine/__tests__/fixtures/ses/', import.meta.url);
+
+const [name, ...rest] = process.argv.slice(2);
+if (!name) {
+    console.error('Usage: node _post_ses_fixture.mjs <bounce|complaint|delivery|subscription-confirmation> [--to email] [--message-id id] [--url endpoint]');
+    process.exit(1);
+}
+
+const options = {};
+for (let i = 0; i < rest.length; i += 2) {
+    options[rest[i].replace(/^--/, '')] = rest[i + 1];
+}
+
+let envelope;
+try {
+    envelope = JSON.parse(readFileSync(new URL(`${name}.json`, FIXTURES), 'utf8'));
+} catch {
+    console.error(`ERROR: No fixture named "${name}"`);
+    process.exit(1);
+}
+
+if (envelope.Type === 'Notification' && (options.to || options['message-id'])) {
+    const message = JSON.parse(envelope.Message);
+    if (options.to) {
+        message.mail.destination = [options.to];
+        message.mail.commonHeaders.to = [options.to];
+        for (const r of message.bounce?.bouncedRecipients ?? []) r.emailAddress = options.to;
+        for (const r of message.complaint?.complainedRecipients ?? []) r.emailAddress = options.to;
+        if (message.delivery) message.delivery.recipients = [options.to];
+    }
+    if (options['message-id']) {
+        message.mail.commonHeaders.messageId = options['message-id'];
+    }
+    envelope.Message = JSON.stringify(message);
+}
+
+const url = options.url ?? 'http://localhost:3000/api/v1/email/sns';
+const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain; charset=UTF-8', 'x-amz-sns-message-type': envelope.Type },
+    body: JSON.stringify(envelope),
+});
+
+console.log(`${res.status} ${res.statusText}`);
+console.log(JSON.stringify(await res.json().catch(() => null), null, 2));
+if (res.status === 403) {
+    console.log('\nHint: set SES_SNS_VERIFY_SIGNATURES=false for local testing.');
+}
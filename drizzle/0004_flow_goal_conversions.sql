@@ -0,0 +1 @@
+ALTER TABLE "flow_enrollments" ADD COLUMN "converted_at" timestamp with time zone;
\ No newline at end of file
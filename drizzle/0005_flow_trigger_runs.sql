@@ -0,0 +1,3 @@
+ALTER TABLE "flow_definitions" ADD COLUMN "last_triggered_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "flow_definitions" ADD COLUMN "trigger_run_pending" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "flow_definitions" ADD COLUMN "trigger_run_cursor" uuid;
\ No newline at end of file
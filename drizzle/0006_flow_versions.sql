@@ -0,0 +1,16 @@
+CREATE TABLE "flow_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"flow_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"nodes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"edges" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"variables" jsonb DEFAULT '[]'::jsonb,
+	"migration" jsonb,
+	"published_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "flow_versions" ADD CONSTRAINT "flow_versions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "flow_versions" ADD CONSTRAINT "flow_versions_flow_id_flow_definitions_id_fk" FOREIGN KEY ("flow_id") REFERENCES "public"."flow_definitions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "flow_versions_flow_version_idx" ON "flow_versions" USING btree ("flow_id","version");--> statement-breakpoint
+CREATE INDEX "flow_versions_org_idx" ON "flow_versions" USING btree ("organization_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE "email_queue" ADD COLUMN "flow_id" uuid;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "flow_node_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "enrollment_id" uuid;--> statement-breakpoint
+ALTER TABLE "email_tracking_events" ADD COLUMN "flow_id" uuid;--> statement-breakpoint
+ALTER TABLE "email_tracking_events" ADD COLUMN "flow_node_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "email_tracking_events" ADD COLUMN "enrollment_id" uuid;--> statement-breakpoint
+CREATE INDEX "email_queue_flow_idx" ON "email_queue" USING btree ("organization_id","flow_id");--> statement-breakpoint
+CREATE INDEX "tracking_events_flow_idx" ON "email_tracking_events" USING btree ("organization_id","flow_id");--> statement-breakpoint
+CREATE INDEX "tracking_events_enrollment_idx" ON "email_tracking_events" USING btree ("enrollment_id");--> statement-breakpoint
+-- Backfill flow attribution recorded in metadata before these columns existed
+UPDATE "email_tracking_events" SET "flow_id" = ("metadata"->>'flowId')::uuid, "flow_node_id" = "metadata"->>'nodeId', "enrollment_id" = ("metadata"->>'enrollmentId')::uuid WHERE "flow_id" IS NULL AND "metadata" ? 'flowId';
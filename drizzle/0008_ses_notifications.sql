@@ -0,0 +1,6 @@
+ALTER TABLE "email_queue" ADD COLUMN "delivered_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "bounced_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "complained_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "email_sends" ADD COLUMN "complained_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "email_queue_provider_message_idx" ON "email_queue" USING btree ("provider_message_id");--> statement-breakpoint
+CREATE INDEX "email_sends_provider_message_idx" ON "email_sends" USING btree ("provider_message_id");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."suppression_event_action" AS ENUM('added', 'renewed', 'escalated', 'removed');--> statement-breakpoint
+CREATE TABLE "email_suppression_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"email" varchar(320) NOT NULL,
+	"action" "suppression_event_action" NOT NULL,
+	"reason" "suppression_reason" NOT NULL,
+	"source" varchar(255) DEFAULT 'system' NOT NULL,
+	"bounce_count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp with time zone,
+	"metadata" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "email_settings" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_suppression_events" ADD CONSTRAINT "email_suppression_events_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "email_suppression_events_email_idx" ON "email_suppression_events" USING btree ("organization_id","email","created_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "email_queue" ADD COLUMN "claim_token" uuid;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "lease_expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "email_queue_lease_idx" ON "email_queue" USING btree ("status","lease_expires_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "email_queue" ADD COLUMN "provider" varchar(20);
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TYPE "public"."warmup_status" AS ENUM('warming', 'held', 'completed');--> statement-breakpoint
+CREATE TABLE "email_warmup_plans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"domain" varchar(255) NOT NULL,
+	"status" "warmup_status" DEFAULT 'warming' NOT NULL,
+	"schedule" jsonb NOT NULL,
+	"phase_days" integer DEFAULT 2 NOT NULL,
+	"phase" integer DEFAULT 0 NOT NULL,
+	"daily_cap" integer NOT NULL,
+	"phase_started_on" varchar(10) NOT NULL,
+	"phase_sent" integer DEFAULT 0 NOT NULL,
+	"sent_on" varchar(10),
+	"sent_today" integer DEFAULT 0 NOT NULL,
+	"last_evaluated_on" varchar(10),
+	"last_decision" jsonb,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_warmup_plans" ADD CONSTRAINT "email_warmup_plans_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "warmup_org_domain_idx" ON "email_warmup_plans" USING btree ("organization_id","domain");--> statement-breakpoint
+CREATE INDEX "warmup_status_idx" ON "email_warmup_plans" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TYPE "public"."deliverability_alert_metric" AS ENUM('bounce_rate', 'complaint_rate');--> statement-breakpoint
+CREATE TYPE "public"."deliverability_alert_severity" AS ENUM('warning', 'critical');--> statement-breakpoint
+CREATE TYPE "public"."deliverability_dimension" AS ENUM('org', 'sending_domain', 'source', 'mailbox_provider');--> statement-breakpoint
+CREATE TABLE "deliverability_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"date" varchar(10) NOT NULL,
+	"dimension" "deliverability_dimension" NOT NULL,
+	"key" varchar(255) DEFAULT '' NOT NULL,
+	"metric" "deliverability_alert_metric" NOT NULL,
+	"severity" "deliverability_alert_severity" NOT NULL,
+	"rate" real NOT NULL,
+	"threshold" real NOT NULL,
+	"sent" integer NOT NULL,
+	"acknowledged_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "deliverability_breakdowns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"date" varchar(10) NOT NULL,
+	"dimension" "deliverability_dimension" NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"sent" integer DEFAULT 0 NOT NULL,
+	"delivered" integer DEFAULT 0 NOT NULL,
+	"opened" integer DEFAULT 0 NOT NULL,
+	"clicked" integer DEFAULT 0 NOT NULL,
+	"bounced" integer DEFAULT 0 NOT NULL,
+	"spam" integer DEFAULT 0 NOT NULL,
+	"unsubscribed" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "message_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "deliverability_alerts" ADD CONSTRAINT "deliverability_alerts_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deliverability_breakdowns" ADD CONSTRAINT "deliverability_breakdowns_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "deliverability_alert_key_idx" ON "deliverability_alerts" USING btree ("organization_id","date","dimension","key","metric","severity");--> statement-breakpoint
+CREATE INDEX "deliverability_alert_org_idx" ON "deliverability_alerts" USING btree ("organization_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "deliverability_breakdown_key_idx" ON "deliverability_breakdowns" USING btree ("organization_id","date","dimension","key");--> statement-breakpoint
+CREATE INDEX "email_queue_message_idx" ON "email_queue" USING btree ("organization_id","message_id");--> statement-breakpoint
+CREATE INDEX "email_queue_sent_at_idx" ON "email_queue" USING btree ("sent_at");
\ No newline at end of file
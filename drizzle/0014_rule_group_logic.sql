@@ -0,0 +1,3 @@
+-- Rule groups read 'AND' / 'OR'; older builders stored lowercase logic.
+UPDATE "segments" SET "filter_logic" = upper("filter_logic") WHERE "filter_logic" <> upper("filter_logic");--> statement-breakpoint
+UPDATE "personalization_rules" SET "filter_logic" = upper("filter_logic") WHERE "filter_logic" <> upper("filter_logic");
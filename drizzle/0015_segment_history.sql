@@ -0,0 +1,38 @@
+CREATE TYPE "public"."segment_membership_change" AS ENUM('entered', 'exited');--> statement-breakpoint
+CREATE TABLE "segment_membership_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"segment_id" uuid NOT NULL,
+	"tracked_user_id" uuid NOT NULL,
+	"change" "segment_membership_change" NOT NULL,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "segment_size_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"segment_id" uuid NOT NULL,
+	"date" varchar(10) NOT NULL,
+	"member_count" integer DEFAULT 0 NOT NULL,
+	"entered" integer DEFAULT 0 NOT NULL,
+	"exited" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "segment_membership_events" ADD CONSTRAINT "segment_membership_events_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_membership_events" ADD CONSTRAINT "segment_membership_events_segment_id_segments_id_fk" FOREIGN KEY ("segment_id") REFERENCES "public"."segments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_membership_events" ADD CONSTRAINT "segment_membership_events_tracked_user_id_tracked_users_id_fk" FOREIGN KEY ("tracked_user_id") REFERENCES "public"."tracked_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_size_snapshots" ADD CONSTRAINT "segment_size_snapshots_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_size_snapshots" ADD CONSTRAINT "segment_size_snapshots_segment_id_segments_id_fk" FOREIGN KEY ("segment_id") REFERENCES "public"."segments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "seg_member_event_segment_idx" ON "segment_membership_events" USING btree ("segment_id","occurred_at");--> statement-breakpoint
+CREATE INDEX "seg_member_event_user_idx" ON "segment_membership_events" USING btree ("tracked_user_id");--> statement-breakpoint
+CREATE INDEX "seg_snapshot_org_idx" ON "segment_size_snapshots" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "seg_snapshot_segment_date_idx" ON "segment_size_snapshots" USING btree ("segment_id","date");--> statement-breakpoint
+-- Seed the log with what the membership rows still know: the latest entry, and the exit where closed.
+INSERT INTO "segment_membership_events" ("organization_id", "segment_id", "tracked_user_id", "change", "occurred_at")
+SELECT s."organization_id", m."segment_id", m."tracked_user_id", 'entered', m."entered_at"
+FROM "segment_memberships" m JOIN "segments" s ON s."id" = m."segment_id";--> statement-breakpoint
+INSERT INTO "segment_membership_events" ("organization_id", "segment_id", "tracked_user_id", "change", "occurred_at")
+SELECT s."organization_id", m."segment_id", m."tracked_user_id", 'exited', m."exited_at"
+FROM "segment_memberships" m JOIN "segments" s ON s."id" = m."segment_id"
+WHERE m."exited_at" IS NOT NULL;
@@ -8,6 +8,7 @@
  *  - View required DNS records with copy-to-clipboard
  *  - One-click DNS verification (SPF, DKIM, DMARC, MX)
  *  - Auth score per domain
+ *  - Warm-up progress and daily caps of new sending domains
  *  - Best practices guide
  * ========================================================================== */
 
@@ -86,8 +87,28 @@ interface SendingDomain {
     lastCheckedAt: string | null;
 }
 
+interface WarmupPlan {
+    id: string;
+    domain: string;
+    status: 'warming' | 'held' | 'completed';
+    phase: number;
+    totalPhases: number;
+    dailyCap: number;
+    sentToday: number;
+    phaseStartedOn: string;
+    startedAt: string;
+    estimatedCompletionOn: string | null;
+    lastDecision: { action: string; reason: string; date: string } | null;
+}
+
 /* ── Helpers ────────────────────────────────────────────────────────── */
 
+const warmupStyles: Record<WarmupPlan['status'], string> = {
+    warming: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300',
+    held: 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300',
+    completed: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300',
+};
+
 const statusStyles: Record<string, string> = {
     verified: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300',
     partial: 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300',
@@ -122,6 +143,7 @@ function CopyButton({ text }: { text: string }) {
 
 export default function DeliverabilityDashboard() {
     const [domains, setDomains] = useState<SendingDomain[]>([]);
+    const [warmupPlans, setWarmupPlans] = useState<WarmupPlan[]>([]);
     const [loading, setLoading] = useState(true);
 
     // Add domain dialog
@@ -142,11 +164,18 @@ export default function DeliverabilityDashboard() {
     /* ── Fetch ──────────────────────────────────────── */
     const fetchData = useCallback(async () => {
         try {
-            const res = await fetch('/api/v1/domains');
+            const [res, warmupRes] = await Promise.all([
+                fetch('/api/v1/domains'),
+                fetch('/api/v1/email/warmup'),
+            ]);
             if (res.ok) {
                 const j = await res.json();
                 setDomains(j.data ?? []);
             }
+            if (warmupRes.ok) {
+                const j = await warmupRes.json();
+                setWarmupPlans(j.data?.plans ?? []);
+            }
         } catch {
             /* ignore */
         } finally {
@@ -220,6 +249,21 @@ export default function DeliverabilityDashboard() {
         }
     };
 
+    /* ── End Warm-up ────────────────────────────────── */
+    const handleEndWarmup = async (domain: string) => {
+        try {
+            const res = await fetch(`/api/v1/email/warmup?domain=${encodeURIComponent(domain)}`, { method: 'DELETE' });
+            if (res.ok) {
+                await fetchData();
+                toast({ title: 'Warm-up ended', description: `${domain} is no longer capped.` });
+            } else {
+                toast({ title: 'Error', description: `Failed to end warm-up for ${domain}.`, variant: 'destructive' });
+            }
+        } catch {
+            toast({ title: 'Error', description: `Failed to end warm-up for ${domain}.`, variant: 'destructive' });
+        }
+    };
+
     /* ── Verify All ─────────────────────────────────── */
     const handleVerifyAll = async () => {
         setVerifying('__all__');
@@ -662,6 +706,74 @@ export default function DeliverabilityDashboard() {
                 </CardContent>
             </Card>
 
+            {/* ── Domain Warm-up ──────────────────────────────── */}
+            {warmupPlans.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <TrendingUp className="h-5 w-5" />
+                            Domain Warm-up
+                        </CardTitle>
+                        <CardDescription>
+                            New sending domains ramp up their daily volume phase by phase. Email over
+                            today&apos;s cap is queued for tomorrow; high bounce or complaint rates hold or
+                            roll back a phase.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid gap-4 md:grid-cols-2">
+                            {warmupPlans.map((plan) => (
+                                <div key={plan.id} className="rounded-lg border p-4 space-y-3">
+                                    <div className="flex items-center justify-between">
+                                        <p className="font-mono text-sm font-medium">{plan.domain}</p>
+                                        <Badge variant="outline" className={cn('capitalize', warmupStyles[plan.status])}>
+                                            {plan.status}
+                                        </Badge>
+                                    </div>
+                                    <div>
+                                        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                                            <span>Phase {plan.phase} of {plan.totalPhases}</span>
+                                            <span>{Math.round(((plan.status === 'completed' ? plan.totalPhases : plan.phase - 1) / plan.totalPhases) * 100)}%</span>
+                                        </div>
+                                        <Progress value={((plan.status === 'completed' ? plan.totalPhases : plan.phase - 1) / plan.totalPhases) * 100} className="h-2" />
+                                    </div>
+                                    {plan.status !== 'completed' && (
+                                        <div className="grid grid-cols-2 gap-2 text-xs">
+                                            <div>
+                                                <span className="text-muted-foreground">Sent Today</span>
+                                                <p className="font-medium">{plan.sentToday.toLocaleString()}</p>
+                                            </div>
+                                            <div>
+                                                <span className="text-muted-foreground">Daily Cap</span>
+                                                <p className="font-medium">{plan.dailyCap.toLocaleString()}</p>
+                                            </div>
+                                            <div>
+                                                <span className="text-muted-foreground">Phase Started</span>
+                                                <p className="font-medium">{plan.phaseStartedOn}</p>
+                                            </div>
+                                            <div>
+                                                <span className="text-muted-foreground">Est. Completion</span>
+                                                <p className="font-medium">{plan.estimatedCompletionOn ?? '-'}</p>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {plan.lastDecision && plan.lastDecision.action !== 'none' && (
+                                        <p className="text-xs text-muted-foreground">
+                                            <span className="capitalize">{plan.lastDecision.action}</span> on {plan.lastDecision.date}: {plan.lastDecision.reason}
+                                        </p>
+                                    )}
+                                    {plan.status !== 'completed' && (
+                                        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleEndWarmup(plan.domain)}>
+                                            End Warm-up
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* ── Best Practices ──────────────────────────────── */}
             <Card>
                 <CardHeader>
@@ -690,8 +802,8 @@ export default function DeliverabilityDashboard() {
                         <BestPracticeCard
                             icon={<TrendingUp className="h-5 w-5 text-purple-600" />}
                             title="Warm Up Gradually"
-                            description="If you're sending from a new domain or IP, start with small volumes and increase over 2-4 weeks to build sender reputation."
-                            status="info"
+                            description="New sending domains start on a warm-up plan that caps daily volume and ramps it up over 2-4 weeks to build sender reputation."
+                            status={warmupPlans.some(p => p.status !== 'completed') ? 'pending' : 'info'}
                         />
                         <BestPracticeCard
                             icon={<AlertTriangle className="h-5 w-5 text-amber-600" />}
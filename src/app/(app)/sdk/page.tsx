@@ -265,6 +265,7 @@ const API_ENDPOINTS = [
   { method: 'GET', path: '/api/v1/analytics/kpi', desc: 'KPI summary dashboard' },
   { method: 'GET', path: '/api/v1/analytics/revenue', desc: 'Revenue & waterfall data' },
   { method: 'GET', path: '/api/v1/analytics/retention', desc: 'Retention cohort data' },
+  { method: 'GET', path: '/api/v1/analytics/segments', desc: 'Segment size history & enters/exits' },
   { method: 'GET', path: '/api/v1/webhooks', desc: 'List webhooks' },
   { method: 'POST', path: '/api/v1/webhooks', desc: 'Create a webhook' },
   { method: 'GET', path: '/api/v1/keys', desc: 'List API keys (masked)' },
@@ -285,6 +286,8 @@ const WEBHOOK_EVENT_OPTIONS = [
   'event.tracked',
   'flow.triggered',
   'flow.completed',
+  'segment.entered',
+  'segment.exited',
 ];
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -26,20 +26,44 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, ComposedChart, CartesianGrid, Legend, Line, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import type { ConditionLogic, RuleGroup, RuleNode } from '@/lib/definitions';
+import { flattenRules, isRuleGroup, MAX_RULE_GROUP_DEPTH, normalizeRuleLogic } from '@/lib/engine/rule-groups';
 import {
     PlusCircle, MoreHorizontal, Users, Filter, RefreshCw, Eye,
-    Pencil, Trash2, Play, Layers,
+    Pencil, Trash2, Play, Layers, LineChart as LineChartIcon,
+    ChevronLeft, ChevronRight, Mail,
 } from 'lucide-react';
 
 /* ── Types ──────────────────────────────────────────────────────────── */
 
+interface EventPropertyFilter {
+    property: string;
+    operator: string;
+    value?: unknown;
+}
+
+interface EventCondition {
+    measure: 'count' | 'first_occurred' | 'last_occurred';
+    withinDays?: number;
+    where?: EventPropertyFilter[];
+}
+
 interface SegmentFilter {
     field: string;
+    fieldSource?: 'user' | 'account' | 'event' | 'computed';
     operator: string;
     value: unknown;
+    event?: EventCondition;
 }
 
+/** A rule or a nested AND/OR group of rules */
+type SegmentRuleNode = RuleNode<SegmentFilter>;
+type SegmentRuleGroup = RuleGroup<SegmentFilter>;
+
 interface Segment {
     id: string;
     name: string;
@@ -47,7 +71,7 @@ interface Segment {
     status: string;
     type: string;
     filterLogic: string;
-    filters: SegmentFilter[];
+    filters: SegmentRuleNode[];
     matchedUserCount: number;
     lastEvaluatedAt: string | null;
     tags: string[];
@@ -55,11 +79,46 @@ interface Segment {
     updatedAt: string;
 }
 
+/** Week-over-week size change from /api/v1/analytics/segments */
+interface SegmentTrend {
+    current: number | null;
+    previous: number | null;
+    change: number | null;
+    changePct: number | null;
+    entered: number;
+    exited: number;
+}
+
+interface SegmentHistoryData {
+    series: Array<{ date: string; memberCount: number | null; entered: number | null; exited: number | null }>;
+    weekOverWeek: SegmentTrend;
+    flappers: Array<{
+        trackedUserId: string;
+        userId: string;
+        name: string | null;
+        email: string | null;
+        entered: number;
+        exited: number;
+        lastChangeAt: string;
+    }>;
+}
+
 interface PreviewUser {
     id: string;
-    email?: string | null;
-    name?: string | null;
+    userId: string;
+    email: string | null;
+    name: string | null;
     lifecycleState: string;
+    accountName: string | null;
+}
+
+/** Response of POST /api/v1/segments/preview */
+interface SegmentPreview {
+    totalUsers: number;
+    matched: number;
+    emailable: number;
+    funnel: Array<{ index: number; rule: SegmentRuleNode; matched: number; remaining: number; eliminated: number }>;
+    sample: { items: PreviewUser[]; total: number; limit: number; offset: number; hasMore: boolean };
 }
 
 /* ── Constants ──────────────────────────────────────────────────────── */
@@ -70,6 +129,12 @@ const statusStyles: Record<string, string> = {
     archived: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
 };
 
+const historyChartConfig = {
+    memberCount: { label: 'Members', color: 'hsl(var(--chart-1))' },
+    entered: { label: 'Entered', color: 'hsl(var(--chart-2))' },
+    exited: { label: 'Exited', color: 'hsl(var(--chart-4))' },
+};
+
 const FIELD_OPTIONS = [
     { value: 'lifecycleState', label: 'Lifecycle State' },
     { value: 'plan', label: 'Plan' },
@@ -78,6 +143,7 @@ const FIELD_OPTIONS = [
     { value: 'expansionScore', label: 'Expansion Score' },
     { value: 'loginFrequency7d', label: 'Login Frequency (7d)' },
     { value: 'loginFrequency30d', label: 'Login Frequency (30d)' },
+    { value: 'lastLoginDaysAgo', label: 'Last Login (days ago)' },
     { value: 'sessionDepthMinutes', label: 'Session Depth (min)' },
     { value: 'npsScore', label: 'NPS Score' },
     { value: 'seatCount', label: 'Seat Count' },
@@ -91,6 +157,79 @@ const FIELD_OPTIONS = [
     { value: 'tags', label: 'Tags' },
 ];
 
+const COMPUTED_FIELD_OPTIONS = [
+    { value: 'daysSinceSignup', label: 'Days Since Signup' },
+    { value: 'daysSinceLastLogin', label: 'Days Since Last Login' },
+    { value: 'daysSinceActivation', label: 'Days Since Activation' },
+    { value: 'daysInLifecycleState', label: 'Days in Lifecycle State' },
+    { value: 'seatUtilization', label: 'Seat Utilization (%)' },
+    { value: 'apiUtilization', label: 'API Utilization (%)' },
+];
+
+const SOURCE_OPTIONS = [
+    { value: 'user', label: 'Property' },
+    { value: 'computed', label: 'Computed' },
+    { value: 'event', label: 'Event' },
+];
+
+const EVENT_MEASURE_OPTIONS = [
+    { value: 'count', label: 'Times performed' },
+    { value: 'first_occurred', label: 'Days since first time' },
+    { value: 'last_occurred', label: 'Days since last time' },
+];
+
+const NUMERIC_OPERATOR_OPTIONS = [
+    { value: 'equals', label: '=' },
+    { value: 'not_equals', label: '≠' },
+    { value: 'greater_than', label: '>' },
+    { value: 'less_than', label: '<' },
+    { value: 'greater_or_equal', label: '≥' },
+    { value: 'less_or_equal', label: '≤' },
+];
+
+/** first / last occurrence is unset when the user never did the event */
+const OCCURRENCE_OPERATOR_OPTIONS = [
+    ...NUMERIC_OPERATOR_OPTIONS,
+    { value: 'is_set', label: 'ever' },
+    { value: 'is_not_set', label: 'never' },
+];
+
+const DEFAULT_RULES: Record<string, SegmentFilter> = {
+    user: { field: 'lifecycleState', fieldSource: 'user', operator: 'equals', value: '' },
+    computed: { field: 'daysSinceSignup', fieldSource: 'computed', operator: 'greater_than', value: '' },
+    event: { field: '', fieldSource: 'event', operator: 'greater_or_equal', value: 1, event: { measure: 'count', withinDays: 30 } },
+};
+
+/** Sample users per preview page */
+const PREVIEW_PAGE_SIZE = 25;
+
+/** One-line summary of a rule or group for the preview funnel */
+function describeRule(node: SegmentRuleNode): string {
+    if (isRuleGroup(node)) {
+        return `Group: ${node.rules.map(describeRule).join(` ${normalizeRuleLogic(node.logic)} `)}`;
+    }
+    if (node.fieldSource === 'event') {
+        const measure = EVENT_MEASURE_OPTIONS.find((o) => o.value === node.event?.measure)?.label ?? 'Times performed';
+        const within = node.event?.withinDays ? ` in ${node.event.withinDays}d` : '';
+        const op = OCCURRENCE_OPERATOR_OPTIONS.find((o) => o.value === node.operator)?.label ?? node.operator;
+        return `${node.field}: ${measure}${within} ${op}${node.operator.startsWith('is_') ? '' : ` ${String(node.value ?? '')}`}`;
+    }
+    const field = [...FIELD_OPTIONS, ...COMPUTED_FIELD_OPTIONS].find((o) => o.value === node.field)?.label ?? node.field;
+    const op = OPERATOR_OPTIONS.find((o) => o.value === node.operator)?.label ?? node.operator;
+    return `${field} ${op.toLowerCase()}${node.operator.startsWith('is_') ? '' : ` ${String(node.value ?? '')}`}`;
+}
+
+/** Drop rules without a field or operator, and groups left empty */
+function completeRules(nodes: SegmentRuleNode[]): SegmentRuleNode[] {
+    return nodes.flatMap((node): SegmentRuleNode[] => {
+        if (isRuleGroup(node)) {
+            const rules = completeRules(node.rules);
+            return rules.length > 0 ? [{ ...node, rules }] : [];
+        }
+        return node.field && node.operator ? [node] : [];
+    });
+}
+
 const OPERATOR_OPTIONS = [
     { value: 'equals', label: 'Equals' },
     { value: 'not_equals', label: 'Not Equals' },
@@ -122,21 +261,25 @@ export default function SegmentsPage() {
     const [formName, setFormName] = useState('');
     const [formDesc, setFormDesc] = useState('');
     const [formType, setFormType] = useState<'dynamic' | 'static'>('dynamic');
-    const [formLogic, setFormLogic] = useState<'and' | 'or'>('and');
-    const [formFilters, setFormFilters] = useState<SegmentFilter[]>([
-        { field: 'lifecycleState', operator: 'equals', value: '' },
+    const [formLogic, setFormLogic] = useState<ConditionLogic>('AND');
+    const [formFilters, setFormFilters] = useState<SegmentRuleNode[]>([
+        { ...DEFAULT_RULES.user },
     ]);
     const [saving, setSaving] = useState(false);
 
     // Preview dialog
     const [previewOpen, setPreviewOpen] = useState(false);
     const [previewLoading, setPreviewLoading] = useState(false);
-    const [previewUsers, setPreviewUsers] = useState<PreviewUser[]>([]);
-    const [previewCount, setPreviewCount] = useState(0);
+    const [preview, setPreview] = useState<SegmentPreview | null>(null);
+    const [previewDefinition, setPreviewDefinition] = useState<{ filters: SegmentRuleNode[]; logic: string } | null>(null);
 
     // Evaluate state
     const [evaluating, setEvaluating] = useState<string | null>(null);
 
+    // Size history
+    const [trends, setTrends] = useState<Record<string, SegmentTrend>>({});
+    const [historySegment, setHistorySegment] = useState<Segment | null>(null);
+
     // Delete confirmation
     const [deleteId, setDeleteId] = useState<string | null>(null);
 
@@ -153,7 +296,18 @@ export default function SegmentsPage() {
         }
     }, []);
 
-    useEffect(() => { fetchSegments(); }, [fetchSegments]);
+    const fetchTrends = useCallback(async () => {
+        try {
+            const res = await fetch('/api/v1/analytics/segments');
+            if (res.ok) {
+                const json = await res.json();
+                const rows = (json.data?.segments ?? []) as Array<{ segmentId: string; weekOverWeek: SegmentTrend }>;
+                setTrends(Object.fromEntries(rows.map((r) => [r.segmentId, r.weekOverWeek])));
+            }
+        } catch { /* ignore */ }
+    }, []);
+
+    useEffect(() => { fetchSegments(); fetchTrends(); }, [fetchSegments, fetchTrends]);
 
     /* ── Actions ─────────────────────────────────────── */
     const openCreate = () => {
@@ -161,8 +315,8 @@ export default function SegmentsPage() {
         setFormName('');
         setFormDesc('');
         setFormType('dynamic');
-        setFormLogic('and');
-        setFormFilters([{ field: 'lifecycleState', operator: 'equals', value: '' }]);
+        setFormLogic('AND');
+        setFormFilters([{ ...DEFAULT_RULES.user }]);
         setDialogOpen(true);
     };
 
@@ -171,8 +325,8 @@ export default function SegmentsPage() {
         setFormName(seg.name);
         setFormDesc(seg.description ?? '');
         setFormType(seg.type as 'dynamic' | 'static');
-        setFormLogic(seg.filterLogic as 'and' | 'or');
-        setFormFilters(seg.filters.length > 0 ? seg.filters : [{ field: 'lifecycleState', operator: 'equals', value: '' }]);
+        setFormLogic(normalizeRuleLogic(seg.filterLogic));
+        setFormFilters(seg.filters.length > 0 ? seg.filters : [{ ...DEFAULT_RULES.user }]);
         setDialogOpen(true);
     };
 
@@ -185,7 +339,7 @@ export default function SegmentsPage() {
                 description: formDesc,
                 type: formType,
                 filterLogic: formLogic,
-                filters: formFilters.filter(f => f.field && f.operator),
+                filters: completeRules(formFilters),
                 status: 'active',
             };
             if (editing) payload.id = editing.id;
@@ -227,38 +381,26 @@ export default function SegmentsPage() {
         } finally { setEvaluating(null); }
     };
 
-    const previewSegment = async (filters: SegmentFilter[], logic: 'and' | 'or') => {
+    const previewSegment = async (filters: SegmentRuleNode[], logic: string, offset = 0) => {
         setPreviewLoading(true);
         setPreviewOpen(true);
+        setPreviewDefinition({ filters, logic });
         try {
-            const res = await fetch('/api/v1/segments', {
+            const res = await fetch('/api/v1/segments/preview', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ action: 'preview', filters, filterLogic: logic }),
+                body: JSON.stringify({ filters, filterLogic: logic, limit: PREVIEW_PAGE_SIZE, offset }),
             });
             if (res.ok) {
                 const json = await res.json();
-                setPreviewUsers((json.data?.users ?? []) as PreviewUser[]);
-                setPreviewCount(json.data?.count ?? 0);
+                setPreview((json.data ?? null) as SegmentPreview | null);
+            } else {
+                setPreview(null);
+                toast({ title: 'Error', description: 'Failed to preview segment.', variant: 'destructive' });
             }
         } finally { setPreviewLoading(false); }
     };
 
-    /* ── Filter helpers ─────────────────────────────── */
-    const addFilter = () => {
-        setFormFilters([...formFilters, { field: 'mrr', operator: 'greater_than', value: '' }]);
-    };
-
-    const removeFilter = (idx: number) => {
-        setFormFilters(formFilters.filter((_, i) => i !== idx));
-    };
-
-    const updateFilter = (idx: number, key: keyof SegmentFilter, val: unknown) => {
-        const updated = [...formFilters];
-        updated[idx] = { ...updated[idx], [key]: val };
-        setFormFilters(updated);
-    };
-
     /* ── Computed ───────────────────────────────────── */
     const filtered = statusFilter === 'all'
         ? segments
@@ -381,6 +523,7 @@ export default function SegmentsPage() {
                                     <TableHead>Type</TableHead>
                                     <TableHead>Rules</TableHead>
                                     <TableHead>Matched Users</TableHead>
+                                    <TableHead>7d Change</TableHead>
                                     <TableHead>Last Evaluated</TableHead>
                                     <TableHead><span className="sr-only">Actions</span></TableHead>
                                 </TableRow>
@@ -407,11 +550,14 @@ export default function SegmentsPage() {
                                             <Badge variant="outline" className="capitalize">{seg.type}</Badge>
                                         </TableCell>
                                         <TableCell className="tabular-nums">
-                                            {seg.filters.length} {seg.filters.length > 1 ? `(${seg.filterLogic.toUpperCase()})` : ''}
+                                            {flattenRules(seg.filters).length} {seg.filters.length > 1 ? `(${seg.filterLogic.toUpperCase()})` : ''}
                                         </TableCell>
                                         <TableCell className="tabular-nums font-medium">
                                             {seg.matchedUserCount.toLocaleString()}
                                         </TableCell>
+                                        <TableCell className="tabular-nums text-xs">
+                                            <TrendLabel trend={trends[seg.id]} />
+                                        </TableCell>
                                         <TableCell className="text-xs text-muted-foreground">
                                             {seg.lastEvaluatedAt
                                                 ? new Date(seg.lastEvaluatedAt).toLocaleString()
@@ -436,10 +582,14 @@ export default function SegmentsPage() {
                                                         <Play className="h-3.5 w-3.5 mr-2" />
                                                         {evaluating === seg.id ? 'Evaluating...' : 'Evaluate Now'}
                                                     </DropdownMenuItem>
-                                                    <DropdownMenuItem onClick={() => previewSegment(seg.filters, seg.filterLogic as 'and' | 'or')}>
+                                                    <DropdownMenuItem onClick={() => previewSegment(seg.filters, seg.filterLogic)}>
                                                         <Eye className="h-3.5 w-3.5 mr-2" />
                                                         Preview Users
                                                     </DropdownMenuItem>
+                                                    <DropdownMenuItem onClick={() => setHistorySegment(seg)}>
+                                                        <LineChartIcon className="h-3.5 w-3.5 mr-2" />
+                                                        View History
+                                                    </DropdownMenuItem>
                                                     <DropdownMenuSeparator />
                                                     <DropdownMenuItem className="text-destructive" onClick={() => setDeleteId(seg.id)}>
                                                         <Trash2 className="h-3.5 w-3.5 mr-2" />
@@ -452,7 +602,7 @@ export default function SegmentsPage() {
                                 ))}
                                 {filtered.length === 0 && (
                                     <TableRow>
-                                        <TableCell colSpan={7} className="py-12 text-center text-muted-foreground">
+                                        <TableCell colSpan={8} className="py-12 text-center text-muted-foreground">
                                             {segments.length === 0
                                                 ? 'No segments yet. Create your first segment to get started.'
                                                 : 'No segments match this filter.'}
@@ -500,11 +650,11 @@ export default function SegmentsPage() {
                                 </div>
                                 <div>
                                     <Label>Logic</Label>
-                                    <Select value={formLogic} onValueChange={(v) => setFormLogic(v as 'and' | 'or')}>
+                                    <Select value={formLogic} onValueChange={(v) => setFormLogic(v as ConditionLogic)}>
                                         <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
                                         <SelectContent>
-                                            <SelectItem value="and">AND (all rules)</SelectItem>
-                                            <SelectItem value="or">OR (any rule)</SelectItem>
+                                            <SelectItem value="AND">AND (all rules)</SelectItem>
+                                            <SelectItem value="OR">OR (any rule)</SelectItem>
                                         </SelectContent>
                                     </Select>
                                 </div>
@@ -524,68 +674,16 @@ export default function SegmentsPage() {
 
                         {/* Filter Rules */}
                         <div>
-                            <div className="flex items-center justify-between mb-2">
-                                <Label className="text-sm font-medium">Filter Rules</Label>
-                                <Button variant="outline" size="sm" onClick={addFilter}>
-                                    <PlusCircle className="mr-1 h-3.5 w-3.5" />
-                                    Add Rule
-                                </Button>
-                            </div>
-                            <div className="space-y-2">
-                                {formFilters.map((filter, idx) => (
-                                    <div key={idx} className="flex items-center gap-2 rounded-md border p-2 bg-muted/30">
-                                        <Select
-                                            value={filter.field}
-                                            onValueChange={(v) => updateFilter(idx, 'field', v)}
-                                        >
-                                            <SelectTrigger className="w-44 h-8 text-xs">
-                                                <SelectValue placeholder="Field" />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                {FIELD_OPTIONS.map(f => (
-                                                    <SelectItem key={f.value} value={f.value}>
-                                                        {f.label}
-                                                    </SelectItem>
-                                                ))}
-                                            </SelectContent>
-                                        </Select>
-
-                                        <Select
-                                            value={filter.operator}
-                                            onValueChange={(v) => updateFilter(idx, 'operator', v)}
-                                        >
-                                            <SelectTrigger className="w-40 h-8 text-xs">
-                                                <SelectValue placeholder="Operator" />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                {OPERATOR_OPTIONS.map(o => (
-                                                    <SelectItem key={o.value} value={o.value}>
-                                                        {o.label}
-                                                    </SelectItem>
-                                                ))}
-                                            </SelectContent>
-                                        </Select>
-
-                                        {filter.operator !== 'is_set' && filter.operator !== 'is_not_set' && (
-                                            <Input
-                                                className="h-8 text-xs flex-1"
-                                                value={String(filter.value ?? '')}
-                                                onChange={(e) => updateFilter(idx, 'value', e.target.value)}
-                                                placeholder={filter.operator === 'between' ? 'min,max' : 'Value'}
-                                            />
-                                        )}
-
-                                        <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            className="h-8 w-8 p-0 flex-shrink-0"
-                                            onClick={() => removeFilter(idx)}
-                                            disabled={formFilters.length <= 1}
-                                        >
-                                            <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
-                                        </Button>
-                                    </div>
-                                ))}
+                            <Label className="text-sm font-medium">Filter Rules</Label>
+                            <div className="mt-2">
+                                <SegmentRuleGroupEditor
+                                    group={{ logic: formLogic, rules: formFilters }}
+                                    depth={1}
+                                    onChange={(g) => {
+                                        setFormLogic(g.logic);
+                                        setFormFilters(g.rules);
+                                    }}
+                                />
                             </div>
                         </div>
                     </div>
@@ -593,7 +691,7 @@ export default function SegmentsPage() {
                     <DialogFooter className="flex justify-between sm:justify-between">
                         <Button
                             variant="outline"
-                            onClick={() => previewSegment(formFilters.filter(f => f.field && f.operator), formLogic)}
+                            onClick={() => previewSegment(completeRules(formFilters), formLogic)}
                         >
                             <Eye className="mr-2 h-4 w-4" />
                             Preview
@@ -610,49 +708,124 @@ export default function SegmentsPage() {
 
             {/* ── Preview Dialog ──────────────────────────────────── */}
             <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
-                <DialogContent className="max-w-lg max-h-[70vh] overflow-y-auto">
+                <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
                     <DialogHeader>
                         <DialogTitle>Segment Preview</DialogTitle>
                         <DialogDescription>
-                            {previewLoading ? 'Evaluating...' : `${previewCount} user(s) match the current rules`}
+                            {previewLoading && !preview
+                                ? 'Evaluating...'
+                                : preview
+                                    ? `${preview.matched.toLocaleString()} of ${preview.totalUsers.toLocaleString()} user(s) match the current rules`
+                                    : 'The rules could not be evaluated.'}
                         </DialogDescription>
                     </DialogHeader>
-                    {previewLoading ? (
+                    {previewLoading && !preview ? (
                         <div className="space-y-2">
                             {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
                         </div>
-                    ) : (
-                        <Table>
-                            <TableHeader>
-                                <TableRow>
-                                    <TableHead>Name</TableHead>
-                                    <TableHead>Email</TableHead>
-                                    <TableHead>State</TableHead>
-                                </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                                {previewUsers.map(u => (
-                                    <TableRow key={u.id}>
-                                        <TableCell className="font-medium">{u.name || '-'}</TableCell>
-                                        <TableCell className="text-xs">{u.email || '-'}</TableCell>
-                                        <TableCell>
-                                            <Badge variant="outline" className="capitalize text-xs">{u.lifecycleState}</Badge>
-                                        </TableCell>
-                                    </TableRow>
-                                ))}
-                                {previewUsers.length === 0 && (
+                    ) : preview && (
+                        <div className="space-y-4">
+                            <div className="flex items-center gap-2 text-sm">
+                                <Mail className="h-4 w-4 text-muted-foreground" />
+                                <span>
+                                    <span className="font-medium tabular-nums">{preview.emailable.toLocaleString()}</span>
+                                    {' '}emailable (has an address, not suppressed)
+                                </span>
+                            </div>
+
+                            {preview.funnel.length > 1 && (
+                                <div>
+                                    <Label className="text-sm font-medium">
+                                        Rule Funnel ({previewDefinition?.logic === 'OR' ? 'any rule' : 'all rules'})
+                                    </Label>
+                                    <Table className="mt-2">
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Rule</TableHead>
+                                                <TableHead className="text-right">Matches</TableHead>
+                                                <TableHead className="text-right">Remaining</TableHead>
+                                                <TableHead className="text-right">Eliminated</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {preview.funnel.map((step) => (
+                                                <TableRow key={step.index}>
+                                                    <TableCell className="text-xs">{describeRule(step.rule)}</TableCell>
+                                                    <TableCell className="text-right tabular-nums">{step.matched.toLocaleString()}</TableCell>
+                                                    <TableCell className="text-right tabular-nums">{step.remaining.toLocaleString()}</TableCell>
+                                                    <TableCell className="text-right tabular-nums text-muted-foreground">
+                                                        {step.eliminated > 0 ? `-${step.eliminated.toLocaleString()}` : '0'}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+
+                            <Table>
+                                <TableHeader>
                                     <TableRow>
-                                        <TableCell colSpan={3} className="py-6 text-center text-muted-foreground">
-                                            No users matched the rules.
-                                        </TableCell>
+                                        <TableHead>Name</TableHead>
+                                        <TableHead>Email</TableHead>
+                                        <TableHead>Account</TableHead>
+                                        <TableHead>State</TableHead>
                                     </TableRow>
-                                )}
-                            </TableBody>
-                        </Table>
+                                </TableHeader>
+                                <TableBody>
+                                    {preview.sample.items.map(u => (
+                                        <TableRow key={u.id}>
+                                            <TableCell className="font-medium">{u.name || u.userId}</TableCell>
+                                            <TableCell className="text-xs">{u.email || '-'}</TableCell>
+                                            <TableCell className="text-xs">{u.accountName || '-'}</TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline" className="capitalize text-xs">{u.lifecycleState}</Badge>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {preview.sample.items.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={4} className="py-6 text-center text-muted-foreground">
+                                                No users matched the rules.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+
+                            {preview.sample.total > preview.sample.limit && previewDefinition && (
+                                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                    <span>
+                                        {preview.sample.offset + 1}-{preview.sample.offset + preview.sample.items.length} of {preview.sample.total.toLocaleString()}
+                                    </span>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={previewLoading || preview.sample.offset === 0}
+                                            onClick={() => previewSegment(previewDefinition.filters, previewDefinition.logic, Math.max(0, preview.sample.offset - preview.sample.limit))}
+                                        >
+                                            <ChevronLeft className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={previewLoading || !preview.sample.hasMore}
+                                            onClick={() => previewSegment(previewDefinition.filters, previewDefinition.logic, preview.sample.offset + preview.sample.limit)}
+                                        >
+                                            <ChevronRight className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
                     )}
                 </DialogContent>
             </Dialog>
 
+            {/* ── History Dialog ──────────────────────────────────── */}
+            <SegmentHistoryDialog segment={historySegment} onClose={() => setHistorySegment(null)} />
+
             {/* Delete Confirmation */}
             <ConfirmDialog
                 open={!!deleteId}
@@ -664,3 +837,436 @@ export default function SegmentsPage() {
         </div>
     );
 }
+
+/* ── Size History ────────────────────────────────────────────────────── */
+
+function TrendLabel({ trend }: { trend?: SegmentTrend }) {
+    if (!trend || trend.change === null) return <span className="text-muted-foreground">-</span>;
+    const sign = trend.change > 0 ? '+' : '';
+    return (
+        <span className={cn(
+            trend.change > 0 && 'text-green-600 dark:text-green-400',
+            trend.change < 0 && 'text-red-600 dark:text-red-400',
+        )}>
+            {sign}{trend.change.toLocaleString()}
+            {trend.changePct !== null && ` (${sign}${trend.changePct}%)`}
+        </span>
+    );
+}
+
+function SegmentHistoryDialog({ segment, onClose }: { segment: Segment | null; onClose: () => void }) {
+    const [history, setHistory] = useState<SegmentHistoryData | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!segment) return;
+        let cancelled = false;
+        setLoading(true);
+        setHistory(null);
+        fetch(`/api/v1/analytics/segments?segmentId=${segment.id}`)
+            .then((res) => (res.ok ? res.json() : null))
+            .then((json) => { if (!cancelled) setHistory((json?.data ?? null) as SegmentHistoryData | null); })
+            .catch(() => { /* ignore */ })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [segment]);
+
+    const hasData = history?.series.some((p) => p.memberCount !== null) ?? false;
+
+    return (
+        <Dialog open={!!segment} onOpenChange={(open) => { if (!open) onClose(); }}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{segment?.name} - Size History</DialogTitle>
+                    <DialogDescription>
+                        Daily members, enters and exits over the last 30 days.
+                        {history && history.weekOverWeek.change !== null && (
+                            <> Week over week: <TrendLabel trend={history.weekOverWeek} />.</>
+                        )}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {loading ? (
+                    <Skeleton className="h-64 w-full" />
+                ) : !hasData ? (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                        No snapshots yet. Sizes are recorded daily by the scheduler.
+                    </p>
+                ) : (
+                    <ChartContainer config={historyChartConfig} className="min-h-[200px] w-full h-64">
+                        <ComposedChart data={history!.series}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis
+                                dataKey="date"
+                                tickFormatter={(str) => format(new Date(`${str}T00:00:00`), 'MMM d')}
+                                stroke="hsl(var(--muted-foreground))"
+                                tickLine={false}
+                                axisLine={false}
+                            />
+                            <YAxis yAxisId="members" stroke="hsl(var(--muted-foreground))" tickLine={false} axisLine={false} />
+                            <YAxis yAxisId="changes" orientation="right" stroke="hsl(var(--muted-foreground))" tickLine={false} axisLine={false} />
+                            <ChartTooltip content={<ChartTooltipContent />} />
+                            <Legend />
+                            <Bar yAxisId="changes" dataKey="entered" fill="var(--color-entered)" radius={2} />
+                            <Bar yAxisId="changes" dataKey="exited" fill="var(--color-exited)" radius={2} />
+                            <Line yAxisId="members" type="monotone" dataKey="memberCount" stroke="var(--color-memberCount)" strokeWidth={2} dot={false} connectNulls />
+                        </ComposedChart>
+                    </ChartContainer>
+                )}
+
+                {history && history.flappers.length > 0 && (
+                    <div>
+                        <Label className="text-sm font-medium">Entered and exited in this period</Label>
+                        <Table className="mt-2">
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>User</TableHead>
+                                    <TableHead>Entered</TableHead>
+                                    <TableHead>Exited</TableHead>
+                                    <TableHead>Last Change</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {history.flappers.map((u) => (
+                                    <TableRow key={u.trackedUserId}>
+                                        <TableCell>
+                                            <p className="font-medium">{u.name || u.userId}</p>
+                                            {u.email && <p className="text-xs text-muted-foreground">{u.email}</p>}
+                                        </TableCell>
+                                        <TableCell className="tabular-nums">{u.entered}</TableCell>
+                                        <TableCell className="tabular-nums">{u.exited}</TableCell>
+                                        <TableCell className="text-xs text-muted-foreground">
+                                            {new Date(u.lastChangeAt).toLocaleString()}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+/* ── Event Rule Editor ───────────────────────────────────────────────── */
+
+function EventRuleEditor({
+    filter, onChange, onSourceChange, onRemove, canRemove,
+}: {
+    filter: SegmentFilter;
+    onChange: (filter: SegmentFilter) => void;
+    onSourceChange: (source: string) => void;
+    onRemove: () => void;
+    canRemove: boolean;
+}) {
+    const event: EventCondition = filter.event ?? { measure: 'count' };
+    const where = event.where ?? [];
+    const setEvent = (next: Partial<EventCondition>) => onChange({ ...filter, event: { ...event, ...next } });
+    const setWhere = (idx: number, next: Partial<EventPropertyFilter>) =>
+        setEvent({ where: where.map((w, i) => (i === idx ? { ...w, ...next } : w)) });
+    const operators = event.measure === 'count' ? NUMERIC_OPERATOR_OPTIONS : OCCURRENCE_OPERATOR_OPTIONS;
+
+    return (
+        <div className="space-y-2 rounded-md border p-2 bg-muted/30">
+            <div className="flex items-center gap-2">
+                <Select value="event" onValueChange={onSourceChange}>
+                    <SelectTrigger className="w-28 h-8 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {SOURCE_OPTIONS.map(o => (
+                            <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                <Input
+                    className="h-8 text-xs w-40"
+                    value={filter.field}
+                    onChange={(e) => onChange({ ...filter, field: e.target.value })}
+                    placeholder="Event name, e.g. feature_used"
+                />
+
+                <Select
+                    value={event.measure}
+                    onValueChange={(v) => onChange({
+                        ...filter,
+                        operator: v === 'count' ? 'greater_or_equal' : 'less_or_equal',
+                        event: { ...event, measure: v as EventCondition['measure'] },
+                    })}
+                >
+                    <SelectTrigger className="w-44 h-8 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {EVENT_MEASURE_OPTIONS.map(o => (
+                            <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 flex-shrink-0 ml-auto"
+                    onClick={onRemove}
+                    disabled={!canRemove}
+                >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                </Button>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Select value={filter.operator} onValueChange={(v) => onChange({ ...filter, operator: v })}>
+                    <SelectTrigger className="w-20 h-8 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {operators.map(o => (
+                            <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                {filter.operator !== 'is_set' && filter.operator !== 'is_not_set' && (
+                    <Input
+                        type="number"
+                        min={0}
+                        className="h-8 text-xs w-20"
+                        value={String(filter.value ?? '')}
+                        onChange={(e) => onChange({ ...filter, value: e.target.value === '' ? '' : Number(e.target.value) })}
+                    />
+                )}
+                <span>{event.measure === 'count' ? 'times' : 'days ago'}, in the last</span>
+                <Input
+                    type="number"
+                    min={1}
+                    className="h-8 text-xs w-20"
+                    value={event.withinDays ?? ''}
+                    onChange={(e) => setEvent({ withinDays: e.target.value ? Number(e.target.value) : undefined })}
+                    placeholder="all"
+                />
+                <span>days</span>
+            </div>
+
+            {where.map((w, i) => (
+                <div key={i} className="flex items-center gap-2 pl-4">
+                    <span className="text-xs text-muted-foreground">where</span>
+                    <Input
+                        className="h-8 text-xs w-36"
+                        value={w.property}
+                        onChange={(e) => setWhere(i, { property: e.target.value })}
+                        placeholder="Property, e.g. plan"
+                    />
+                    <Select value={w.operator} onValueChange={(v) => setWhere(i, { operator: v })}>
+                        <SelectTrigger className="w-36 h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {OPERATOR_OPTIONS.filter(o => o.value !== 'between').map(o => (
+                                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {w.operator !== 'is_set' && w.operator !== 'is_not_set' && (
+                        <Input
+                            className="h-8 text-xs flex-1"
+                            value={String(w.value ?? '')}
+                            onChange={(e) => setWhere(i, { value: e.target.value })}
+                            placeholder="Value"
+                        />
+                    )}
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 flex-shrink-0"
+                        onClick={() => setEvent({ where: where.filter((_, j) => j !== i) })}
+                    >
+                        <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                </div>
+            ))}
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setEvent({ where: [...where, { property: '', operator: 'equals', value: '' }] })}
+            >
+                <PlusCircle className="mr-1 h-3 w-3" />
+                Property filter
+            </Button>
+        </div>
+    );
+}
+
+/* ── Rule Group Editor ───────────────────────────────────────────────── */
+
+function SegmentRuleGroupEditor({
+    group, depth, onChange, onRemove,
+}: {
+    group: SegmentRuleGroup;
+    depth: number;
+    onChange: (group: SegmentRuleGroup) => void;
+    onRemove?: () => void;
+}) {
+    const setRules = (rules: SegmentRuleNode[]) => onChange({ ...group, rules });
+    const updateNode = (idx: number, node: SegmentRuleNode) => setRules(group.rules.map((n, i) => (i === idx ? node : n)));
+    const removeNode = (idx: number) => setRules(group.rules.filter((_, i) => i !== idx));
+    const canRemove = depth > 1 || group.rules.length > 1;
+
+    return (
+        <div className={cn('space-y-2', depth > 1 && 'rounded-md border border-dashed p-2')}>
+            {depth > 1 && (
+                <div className="flex items-center gap-2">
+                    <Select value={group.logic} onValueChange={(v) => onChange({ ...group, logic: v as ConditionLogic })}>
+                        <SelectTrigger className="w-40 h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="AND">All of (AND)</SelectItem>
+                            <SelectItem value="OR">Any of (OR)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0 flex-shrink-0 ml-auto" onClick={onRemove}>
+                        <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                </div>
+            )}
+
+            {group.rules.map((node, idx) => isRuleGroup(node) ? (
+                <SegmentRuleGroupEditor
+                    key={idx}
+                    group={node}
+                    depth={depth + 1}
+                    onChange={(next) => updateNode(idx, next)}
+                    onRemove={() => removeNode(idx)}
+                />
+            ) : node.fieldSource === 'event' ? (
+                <EventRuleEditor
+                    key={idx}
+                    filter={node}
+                    onChange={(next) => updateNode(idx, next)}
+                    onSourceChange={(v) => updateNode(idx, { ...DEFAULT_RULES[v] })}
+                    onRemove={() => removeNode(idx)}
+                    canRemove={canRemove}
+                />
+            ) : (
+                <PropertyRuleEditor
+                    key={idx}
+                    filter={node}
+                    onChange={(next) => updateNode(idx, next)}
+                    onSourceChange={(v) => updateNode(idx, { ...DEFAULT_RULES[v] })}
+                    onRemove={() => removeNode(idx)}
+                    canRemove={canRemove}
+                />
+            ))}
+
+            <div className="flex gap-2">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRules([...group.rules, { field: 'mrr', fieldSource: 'user', operator: 'greater_than', value: '' }])}
+                >
+                    <PlusCircle className="mr-1 h-3.5 w-3.5" />
+                    Add Rule
+                </Button>
+                {depth < MAX_RULE_GROUP_DEPTH && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRules([
+                            ...group.rules,
+                            { logic: group.logic === 'AND' ? 'OR' : 'AND', rules: [{ ...DEFAULT_RULES.user }] },
+                        ])}
+                    >
+                        <Layers className="mr-1 h-3.5 w-3.5" />
+                        Add Group
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+/* ── Property Rule Editor ────────────────────────────────────────────── */
+
+function PropertyRuleEditor({
+    filter, onChange, onSourceChange, onRemove, canRemove,
+}: {
+    filter: SegmentFilter;
+    onChange: (filter: SegmentFilter) => void;
+    onSourceChange: (source: string) => void;
+    onRemove: () => void;
+    canRemove: boolean;
+}) {
+    return (
+        <div className="flex items-center gap-2 rounded-md border p-2 bg-muted/30">
+            <Select
+                value={filter.fieldSource ?? 'user'}
+                onValueChange={onSourceChange}
+            >
+                <SelectTrigger className="w-28 h-8 text-xs">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {SOURCE_OPTIONS.map(o => (
+                        <SelectItem key={o.value} value={o.value}>
+                            {o.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            <Select
+                value={filter.field}
+                onValueChange={(v) => onChange({ ...filter, field: v })}
+            >
+                <SelectTrigger className="w-44 h-8 text-xs">
+                    <SelectValue placeholder="Field" />
+                </SelectTrigger>
+                <SelectContent>
+                    {(filter.fieldSource === 'computed' ? COMPUTED_FIELD_OPTIONS : FIELD_OPTIONS).map(f => (
+                        <SelectItem key={f.value} value={f.value}>
+                            {f.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            <Select
+                value={filter.operator}
+                onValueChange={(v) => onChange({ ...filter, operator: v })}
+            >
+                <SelectTrigger className="w-40 h-8 text-xs">
+                    <SelectValue placeholder="Operator" />
+                </SelectTrigger>
+                <SelectContent>
+                    {OPERATOR_OPTIONS.map(o => (
+                        <SelectItem key={o.value} value={o.value}>
+                            {o.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {filter.operator !== 'is_set' && filter.operator !== 'is_not_set' && (
+                <Input
+                    className="h-8 text-xs flex-1"
+                    value={String(filter.value ?? '')}
+                    onChange={(e) => onChange({ ...filter, value: e.target.value })}
+                    placeholder={filter.operator === 'between' ? 'min,max' : 'Value'}
+                />
+            )}
+
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 flex-shrink-0"
+                onClick={onRemove}
+                disabled={!canRemove}
+            >
+                <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+/* ==========================================================================
+ * GET /api/v1/analytics/segments - Segment size history
+ *
+ *   ?from=2026-02-01&to=2026-02-28     Enters, exits and week-over-week
+ *                                      change of every segment
+ *   ?segmentId=...&from=...&to=...     Daily size series, week-over-week
+ *                                      change and users who flapped in and out
+ *
+ * The range defaults to the last 30 days (UTC) and spans at most 180.
+ * ========================================================================== */
+
+import { NextRequest } from 'next/server';
+import { authenticate, apiSuccess, apiError, apiValidationError } from '@/lib/api/auth';
+import { getSegmentHistory, getSegmentHistorySummaries } from '@/lib/engine/segment-history';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 180;
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, ['read'], 'analysis');
+  if (!auth.success) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+  const from = params.get('from') ?? new Date(Date.now() - 29 * 86_400_000).toISOString().slice(0, 10);
+  const to = params.get('to') ?? new Date().toISOString().slice(0, 10);
+  const segmentId = params.get('segmentId');
+
+  const errors: Array<{ field: string; message: string; received?: unknown }> = [];
+  if (!DAY_PATTERN.test(from)) errors.push({ field: 'from', message: 'Must be YYYY-MM-DD', received: from });
+  if (!DAY_PATTERN.test(to)) errors.push({ field: 'to', message: 'Must be YYYY-MM-DD', received: to });
+  if (errors.length === 0) {
+    const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000 + 1;
+    if (!(days >= 1 && days <= MAX_RANGE_DAYS)) {
+      errors.push({ field: 'to', message: `Must be on or after from, at most ${MAX_RANGE_DAYS} days later`, received: to });
+    }
+  }
+  if (errors.length > 0) return apiValidationError(errors);
+
+  if (!segmentId) {
+    const segments = await getSegmentHistorySummaries(auth.orgId, { from, to });
+    return apiSuccess({ from, to, segments }, 200, auth.startTime, auth.requestId, auth.rateLimit);
+  }
+
+  const history = await getSegmentHistory(auth.orgId, segmentId, { from, to });
+  if (!history) return apiError('NOT_FOUND', `Segment "${segmentId}" not found.`, 404);
+
+  return apiSuccess(
+    { segmentId, ...history },
+    200,
+    auth.startTime,
+    auth.requestId,
+    auth.rateLimit,
+  );
+}
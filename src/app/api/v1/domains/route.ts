@@ -4,6 +4,7 @@
  * Handles domain registration, DNS verification, and listing.
  * When AWS SES is configured, domains are registered as SES email
  * identities behind the scenes so SES can sign DKIM automatically.
+ * A newly added domain starts on a warm-up plan that caps its daily volume.
  * ==========================================================================
  */
 
@@ -17,6 +18,7 @@ import {
     registerDomainIdentity,
 } from '@/lib/engine/ses-identity';
 import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
+import { getWarmupPlans, startWarmupPlan } from '@/lib/engine/email';
 
 function normalizeDomain(input: string): string {
     return input
@@ -135,6 +137,10 @@ export async function POST(request: NextRequest) {
                 },
             });
 
+            // New domains warm up; re-adding one keeps its existing plan
+            const plans = await getWarmupPlans(orgId);
+            const warmup = plans.find((p) => p.domain === domain) ?? await startWarmupPlan(orgId, domain);
+
             return NextResponse.json(
                 {
                     success: true,
@@ -142,6 +148,7 @@ export async function POST(request: NextRequest) {
                         domain: saved,
                         requiredRecords: requiredRecords.records,
                         sesManaged: sesEnabled,
+                        warmup,
                     },
                 },
                 { status: 201 },
@@ -186,14 +186,15 @@ export async function POST(request: NextRequest) {
                         campaignId: campaign.id,
                         userId: email.trackedUserId,
                         orgId,
-                        priority: 'normal',
+                        priority: 'bulk',
                         trackOpens: true,
                         trackClicks: true,
                     });
 
                     if (sendResult.success) {
                         successCount++;
-                        if (sendRecord?.id) {
+                        // Throttled sends stay queued until the retry processor delivers them
+                        if (sendRecord?.id && !sendResult.deferred) {
                             await (await import('@/lib/db/operations')).updateEmailSendStatus(
                                 sendRecord.id,
                                 'sent',
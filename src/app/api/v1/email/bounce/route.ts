@@ -8,7 +8,12 @@
  *   • ISP feedback loops (complaint reports)
  *   • Manual bounce imports
  *
- * Each notification is processed and added to the suppression list.
+ * Amazon SES feedback arrives natively via SNS at /api/v1/email/sns, and
+ * raw DSN / ARF emails can be posted to /api/v1/email/reports.
+ *
+ * Each notification is processed and added to the suppression list, and
+ * bounces and complaints are fed to the event pipeline as `email.bounced`
+ * / `email.complained` events on the recipient's tracked user.
  * Authenticated via API key (same as other v1 routes).
  * ═══════════════════════════════════════════════════════════════════════ */
 
@@ -21,6 +26,7 @@ import {
     getSuppressionStats,
     getAllSuppressions,
 } from '@/lib/engine/email';
+import { emitEmailEvent } from '@/lib/engine/email-events';
 
 export const runtime = 'nodejs';
 
@@ -34,7 +40,9 @@ export const runtime = 'nodejs';
  *   "bounceType": "hard" | "soft" | "undetermined",
  *   "diagnosticCode": "550 5.1.1 User unknown",
  *   "feedbackType": "abuse" | "fraud" | "other",
- *   "source": "smtp_bounce_report"
+ *   "source": "smtp_bounce_report",
+ *   "messageId": "msg_...",          (optional, tracking message ID)
+ *   "campaignId": "..."              (optional)
  * }
  *
  * Batch:
@@ -84,6 +92,13 @@ export async function POST(request: NextRequest): Promise<Response> {
                 const diagnosticCode = item.diagnosticCode as string | undefined;
                 const source = (item.source as string) ?? 'bounce_webhook';
                 recordBounce(email, bounceType, diagnosticCode, source, authResult.orgId);
+                void emitEmailEvent({
+                    type: 'bounce',
+                    recipientEmail: email,
+                    bounceType,
+                    diagnosticCode,
+                    ...emailReference(item),
+                }, authResult.orgId).catch((err) => console.error('[email-bounce] Email event error:', err));
                 results.push({ email, action: 'bounced', reason: `${bounceType} bounce` });
                 break;
             }
@@ -92,6 +107,12 @@ export async function POST(request: NextRequest): Promise<Response> {
                 const feedbackType = item.feedbackType as string | undefined;
                 const source = (item.source as string) ?? 'complaint_webhook';
                 recordComplaint(email, feedbackType, source, authResult.orgId);
+                void emitEmailEvent({
+                    type: 'complaint',
+                    recipientEmail: email,
+                    feedbackType,
+                    ...emailReference(item),
+                }, authResult.orgId).catch((err) => console.error('[email-bounce] Email event error:', err));
                 results.push({ email, action: 'complained', reason: feedbackType ?? 'abuse' });
                 break;
             }
@@ -114,6 +135,14 @@ export async function POST(request: NextRequest): Promise<Response> {
     });
 }
 
+/** Optional message / campaign the notification refers to. */
+function emailReference(item: Record<string, unknown>): { messageId?: string; campaignId?: string } {
+    return {
+        ...(typeof item.messageId === 'string' ? { messageId: item.messageId } : {}),
+        ...(typeof item.campaignId === 'string' ? { campaignId: item.campaignId } : {}),
+    };
+}
+
 /**
  * GET - Retrieve suppression list and statistics.
  */
@@ -126,11 +155,14 @@ export async function GET(request: NextRequest): Promise<Response> {
     const { searchParams } = new URL(request.url);
     const includeList = searchParams.get('list') === 'true';
 
-    const stats = getSuppressionStats(authResult.orgId);
+    const [stats, suppressions] = await Promise.all([
+        getSuppressionStats(authResult.orgId),
+        includeList ? getAllSuppressions(authResult.orgId) : undefined,
+    ]);
 
     return NextResponse.json({
         success: true,
         stats,
-        ...(includeList ? { suppressions: getAllSuppressions(authResult.orgId) } : {}),
+        ...(suppressions ? { suppressions } : {}),
     });
 }
@@ -0,0 +1,116 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Deliverability Route - Daily Rollup, Breakdowns and Alerts
+ *
+ * GET   /api/v1/email/deliverability?from=2026-02-01&to=2026-02-28&dimension=sending_domain
+ *       Daily totals, breakdown rows (optionally one dimension) and alerts
+ * POST  /api/v1/email/deliverability   Recompute the org's recent days now:
+ * {
+ *   "days": 30                          optional, default ROLLUP_LOOKBACK_DAYS
+ * }
+ * PATCH /api/v1/email/deliverability   Acknowledge an alert:
+ * {
+ *   "alertId": "..."
+ * }
+ *
+ * The scheduler keeps the rollup current; POST backfills history or
+ * refreshes it immediately. Authenticated via API key or dashboard session.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import { getDeliverabilityMetrics } from '@/lib/db/operations';
+import {
+    rollupDeliverabilityMetrics,
+    getDeliverabilityBreakdowns,
+    getDeliverabilityAlerts,
+    acknowledgeDeliverabilityAlert,
+    DELIVERABILITY_THRESHOLDS,
+    ROLLUP_LOOKBACK_DAYS,
+    type DeliverabilityDimension,
+} from '@/lib/engine/email';
+
+export const runtime = 'nodejs';
+
+const DIMENSIONS: DeliverabilityDimension[] = ['sending_domain', 'source', 'mailbox_provider'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_BACKFILL_DAYS = 90;
+
+export async function GET(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['read']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') ?? new Date(Date.now() - 29 * 86_400_000).toISOString().slice(0, 10);
+    const to = params.get('to') ?? new Date().toISOString().slice(0, 10);
+    const dimension = params.get('dimension');
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to)) {
+        return NextResponse.json({ success: false, error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (dimension && !DIMENSIONS.includes(dimension as DeliverabilityDimension)) {
+        return NextResponse.json({ success: false, error: `dimension must be one of: ${DIMENSIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const [metrics, breakdowns, alerts] = await Promise.all([
+        getDeliverabilityMetrics(authResult.orgId, { startDate: from, endDate: to }),
+        getDeliverabilityBreakdowns(authResult.orgId, {
+            startDate: from,
+            endDate: to,
+            dimension: (dimension as DeliverabilityDimension | null) ?? undefined,
+        }),
+        getDeliverabilityAlerts(authResult.orgId, { since: from }),
+    ]);
+
+    return NextResponse.json({
+        success: true,
+        data: { from, to, metrics, breakdowns, alerts, thresholds: DELIVERABILITY_THRESHOLDS },
+    });
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const days = body.days ?? ROLLUP_LOOKBACK_DAYS;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_BACKFILL_DAYS) {
+        return NextResponse.json({ success: false, error: `days must be an integer from 1 to ${MAX_BACKFILL_DAYS}` }, { status: 400 });
+    }
+
+    const summary = await rollupDeliverabilityMetrics({ orgId: authResult.orgId, days });
+    return NextResponse.json({ success: true, data: summary });
+}
+
+export async function PATCH(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    if (typeof body.alertId !== 'string' || !body.alertId) {
+        return NextResponse.json({ success: false, error: 'alertId is required' }, { status: 400 });
+    }
+
+    const acknowledged = await acknowledgeDeliverabilityAlert(authResult.orgId, body.alertId);
+    if (!acknowledged) {
+        return NextResponse.json({ success: false, error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
@@ -0,0 +1,69 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Report Ingestion Route - Raw DSN Bounces & ARF Complaints
+ *
+ * POST /api/v1/email/reports
+ *
+ * For SMTP setups (e.g. Postfix relays) where bounces come back as
+ * RFC 3464 delivery status notifications and ISP feedback loops send
+ * RFC 5965 ARF reports. POST the raw MIME message as the request body:
+ *
+ *   curl -X POST https://app.example.com/api/v1/email/reports \
+ *     -H "Authorization: Bearer <api key>" \
+ *     -H "Content-Type: message/rfc822" \
+ *     --data-binary @bounce.eml
+ *
+ * e.g. from a Postfix pipe transport on the bounce mailbox. The original
+ * send is matched by the Message-ID of the attached original message,
+ * failed recipients and complainers are suppressed, and `email.bounced`
+ * / `email.complained` events emitted. Other mail (auto-replies,
+ * out-of-office) is rejected with 422 so it can be routed elsewhere.
+ * Authenticated via API key (same as other v1 routes).
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import { parseEmailReport } from '@/lib/engine/email';
+import { applyEmailReport } from '@/lib/engine/email-reports';
+
+export const runtime = 'nodejs';
+
+/** Largest report accepted (original messages are usually attached) */
+const MAX_REPORT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * POST - Ingest one raw DSN or ARF email.
+ *
+ * Query: ?source=postfix_pipe   (optional, recorded on suppressions)
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const raw = await request.text();
+    if (!raw.trim()) {
+        return NextResponse.json({ success: false, error: 'Empty body - expected a raw MIME message' }, { status: 400 });
+    }
+    if (Buffer.byteLength(raw) > MAX_REPORT_BYTES) {
+        return NextResponse.json({ success: false, error: 'Report too large' }, { status: 413 });
+    }
+
+    const report = parseEmailReport(raw);
+    if (!report) {
+        return NextResponse.json(
+            { success: false, error: 'Not a delivery status notification or ARF feedback report' },
+            { status: 422 },
+        );
+    }
+
+    const source = new URL(request.url).searchParams.get('source') ?? undefined;
+
+    try {
+        const result = await applyEmailReport(report, authResult.orgId, source);
+        return NextResponse.json({ success: true, data: result });
+    } catch (err) {
+        console.error('[email-reports] Report processing error:', err);
+        return NextResponse.json({ success: false, error: 'Processing failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,83 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Sending Limits Route - Per-Org Email Throttles
+ *
+ * GET /api/v1/email/sending-limits   The org's limits and system defaults
+ * PUT /api/v1/email/sending-limits   Replace the org's limits:
+ * {
+ *   "perSecond": 5,                               all of the org's email
+ *   "domains": { "gmail.com": 2, "outlook.com": 1 }   per recipient domain
+ * }
+ *
+ * Limits are emails per second. Recipient domains of one mailbox
+ * provider share a limit (googlemail.com counts as gmail.com). Critical
+ * and high priority email may use the full limit; bulk only half of it.
+ * Authenticated via API key or dashboard session.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import { getOrgSendingLimits, updateOrgSendingLimits, DEFAULT_DOMAIN_LIMITS } from '@/lib/engine/email';
+import type { SendingLimits } from '@/lib/db/schema';
+
+export const runtime = 'nodejs';
+
+function isRate(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['read']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const limits = await getOrgSendingLimits(authResult.orgId);
+    return NextResponse.json({
+        success: true,
+        data: {
+            limits,
+            defaults: {
+                perSecond: Number(process.env.EMAIL_ORG_RATE_LIMIT) || Number(process.env.EMAIL_RATE_LIMIT) || 10,
+                domains: DEFAULT_DOMAIN_LIMITS,
+            },
+        },
+    });
+}
+
+export async function PUT(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const limits: SendingLimits = {};
+    if (body.perSecond !== undefined && body.perSecond !== null) {
+        if (!isRate(body.perSecond)) {
+            return NextResponse.json({ success: false, error: 'perSecond must be a positive number' }, { status: 400 });
+        }
+        limits.perSecond = body.perSecond;
+    }
+    if (body.domains !== undefined && body.domains !== null) {
+        if (typeof body.domains !== 'object' || Array.isArray(body.domains)) {
+            return NextResponse.json({ success: false, error: 'domains must be an object of domain → per-second limit' }, { status: 400 });
+        }
+        const domains: Record<string, number> = {};
+        for (const [domain, rate] of Object.entries(body.domains as Record<string, unknown>)) {
+            if (!isRate(rate)) {
+                return NextResponse.json({ success: false, error: `Limit for ${domain} must be a positive number` }, { status: 400 });
+            }
+            domains[domain.trim().toLowerCase()] = rate;
+        }
+        limits.domains = domains;
+    }
+
+    const saved = await updateOrgSendingLimits(authResult.orgId, limits);
+    return NextResponse.json({ success: true, data: { limits: saved } });
+}
@@ -0,0 +1,94 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Amazon SES Notification Route - SNS Bounce, Complaint & Delivery Feed
+ *
+ * POST /api/v1/email/sns
+ *
+ * Subscribe this URL (HTTPS) to the SNS topic your SES identity or
+ * configuration set publishes to. Handles:
+ *   • SubscriptionConfirmation - confirmed automatically
+ *   • Notification             - SES Bounce / Complaint / Delivery
+ *   • UnsubscribeConfirmation  - acknowledged
+ *
+ * Public (SNS cannot send API keys): every message must carry a valid
+ * SNS signature, and the topic must be in SES_SNS_TOPIC_ARNS when set.
+ * Matched sends are updated, bounced and complaining addresses are
+ * suppressed, and `email.bounced` / `email.complained` events emitted.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+    parseSnsEnvelope,
+    verifySnsSignature,
+    snsSignatureVerificationEnabled,
+    isAllowedSnsTopic,
+    confirmSnsSubscription,
+    parseSesNotification,
+    processSesNotification,
+} from '@/lib/engine/ses-notifications';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest): Promise<Response> {
+    // SNS posts JSON with a text/plain content type
+    let body: unknown;
+    try {
+        body = JSON.parse(await request.text());
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const envelope = parseSnsEnvelope(body);
+    if (!envelope) {
+        return NextResponse.json({ success: false, error: 'Not an SNS message' }, { status: 400 });
+    }
+
+    if (!isAllowedSnsTopic(envelope.TopicArn)) {
+        return NextResponse.json({ success: false, error: 'Topic not allowed' }, { status: 403 });
+    }
+
+    if (snsSignatureVerificationEnabled()) {
+        const invalid = await verifySnsSignature(envelope);
+        if (invalid) {
+            console.warn(`[ses-sns] Rejected message ${envelope.MessageId}: ${invalid}`);
+            return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 403 });
+        }
+    }
+
+    /* ═══ Subscription Lifecycle ═══ */
+
+    if (envelope.Type === 'SubscriptionConfirmation') {
+        try {
+            await confirmSnsSubscription(envelope);
+        } catch (err) {
+            console.error('[ses-sns] Subscription confirmation error:', err);
+            return NextResponse.json({ success: false, error: 'Subscription confirmation failed' }, { status: 502 });
+        }
+        console.log(`[ses-sns] Confirmed subscription to ${envelope.TopicArn}`);
+        return NextResponse.json({ success: true, data: { confirmed: true, topicArn: envelope.TopicArn } });
+    }
+
+    if (envelope.Type === 'UnsubscribeConfirmation') {
+        console.log(`[ses-sns] Unsubscribed from ${envelope.TopicArn}`);
+        return NextResponse.json({ success: true, data: { unsubscribed: true } });
+    }
+
+    /* ═══ SES Notifications ═══ */
+
+    const notification = parseSesNotification(envelope.Message);
+    if (!notification) {
+        // Other SES event types (Send, Open, ...) - acknowledge so SNS stops retrying
+        return NextResponse.json({ success: true, data: { ignored: true } });
+    }
+
+    try {
+        const result = await processSesNotification(notification);
+        if (!result.matched) {
+            console.warn(`[ses-sns] No send matches SES message ${result.sesMessageId}`);
+        }
+        return NextResponse.json({ success: true, data: result });
+    } catch (err) {
+        console.error('[ses-sns] Notification processing error:', err);
+        // 500 lets SNS retry with its delivery policy
+        return NextResponse.json({ success: false, error: 'Processing failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Suppression Policy Route - Soft-Bounce Expiry & Escalation
+ *
+ * GET /api/v1/email/suppressions/policy   Current policy (with defaults)
+ * PUT /api/v1/email/suppressions/policy   Update any of:
+ * {
+ *   "softBounceBaseHours": 72,         first soft-bounce suppression
+ *   "softBounceMultiplier": 2,         expiry growth per further bounce
+ *   "softBounceMaxHours": 720,         expiry cap
+ *   "softBounceEscalationCount": 3,    soft bounces before permanent
+ *   "softBounceWindowDays": 30         window the bounces are counted in
+ * }
+ *
+ * Authenticated via API key or dashboard session.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import {
+    getSuppressionPolicy,
+    updateSuppressionPolicy,
+    DEFAULT_SUPPRESSION_POLICY,
+    type SuppressionPolicy,
+} from '@/lib/engine/email';
+
+export const runtime = 'nodejs';
+
+const POLICY_FIELDS = Object.keys(DEFAULT_SUPPRESSION_POLICY) as Array<keyof SuppressionPolicy>;
+
+export async function GET(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['read']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const policy = await getSuppressionPolicy(authResult.orgId);
+    return NextResponse.json({ success: true, data: { policy, defaults: DEFAULT_SUPPRESSION_POLICY } });
+}
+
+export async function PUT(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const updates: Partial<SuppressionPolicy> = {};
+    for (const field of POLICY_FIELDS) {
+        if (body[field] === undefined) continue;
+        const value = body[field];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+            return NextResponse.json({ success: false, error: `${field} must be a positive number` }, { status: 400 });
+        }
+        updates[field] = value;
+    }
+    if (Object.keys(updates).length === 0) {
+        return NextResponse.json(
+            { success: false, error: `Provide at least one of: ${POLICY_FIELDS.join(', ')}` },
+            { status: 400 },
+        );
+    }
+
+    const policy = await updateSuppressionPolicy(updates, authResult.orgId);
+    return NextResponse.json({ success: true, data: { policy } });
+}
@@ -0,0 +1,69 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Suppressions Route - Lookup, Audit History & Release
+ *
+ * GET    /api/v1/email/suppressions?email=ada@example.org
+ *          Current suppression (reason, bounce count, when it lifts) and
+ *          the address's audit history, newest first
+ * DELETE /api/v1/email/suppressions?email=ada@example.org
+ *          Release the address (recorded in the history)
+ *
+ * Authenticated via API key or dashboard session.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import { getSuppressionEntry, getSuppressionHistory, removeSuppression } from '@/lib/engine/email';
+
+export const runtime = 'nodejs';
+
+function emailParam(request: NextRequest): string | null {
+    const email = new URL(request.url).searchParams.get('email')?.trim();
+    return email && email.includes('@') ? email : null;
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['read']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const email = emailParam(request);
+    if (!email) {
+        return NextResponse.json({ success: false, error: 'email query parameter is required' }, { status: 400 });
+    }
+
+    const [suppression, history] = await Promise.all([
+        getSuppressionEntry(email, authResult.orgId),
+        getSuppressionHistory(email, authResult.orgId),
+    ]);
+
+    return NextResponse.json({
+        success: true,
+        data: {
+            email: email.toLowerCase(),
+            suppressed: suppression !== null,
+            suppression,
+            /** null when not suppressed or suppressed permanently */
+            releasesAt: suppression?.expiresAt ?? null,
+            history,
+        },
+    });
+}
+
+export async function DELETE(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const email = emailParam(request);
+    if (!email) {
+        return NextResponse.json({ success: false, error: 'email query parameter is required' }, { status: 400 });
+    }
+
+    const removed = await removeSuppression(email, authResult.orgId, 'api');
+    if (!removed) {
+        return NextResponse.json({ success: false, error: 'Address is not suppressed' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: { email: email.toLowerCase(), removed: true } });
+}
@@ -8,7 +8,10 @@
  *   • type=open  → Records open event, returns 1x1 transparent GIF
  *   • type=click → Records click event, redirects (302) to original URL
  *
- * Tokens are HMAC-SHA256 signed to prevent tampering.
+ * Tokens are HMAC-SHA256 signed to prevent tampering. Tokens from flow
+ * emails carry the flow step, so engagement also feeds A/B split stats
+ * and the flow's per-step email metrics. Opens and clicks are also fed to
+ * the event pipeline as `email.opened` / `email.clicked` events.
  * ═══════════════════════════════════════════════════════════════════════ */
 
 import { NextResponse } from 'next/server';
@@ -17,6 +20,8 @@ import {
     recordTrackingEvent,
     TRACKING_PIXEL_GIF,
 } from '@/lib/engine/email';
+import { recordSplitEngagement, recordFlowEmailEngagement } from '@/lib/engine/flow-stats';
+import { emitEmailEvent } from '@/lib/engine/email-events';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -55,14 +60,26 @@ export async function GET(request: Request): Promise<Response> {
 
     if (token.type === 'open') {
         // ── Open Tracking ──────────────────────────────────────────
-        recordTrackingEvent({
+        void recordTrackingEvent({
             messageId: token.messageId,
             type: 'open',
             timestamp: new Date().toISOString(),
             recipientEmail: token.email,
             campaignId: token.campaignId,
+            flow: token.flow,
             metadata: { userAgent, ip },
-        });
+        }).then(() => token.flow && Promise.all([
+            recordSplitEngagement(token.flow, 'open'),
+            recordFlowEmailEngagement(token.flow, token.messageId, 'open'),
+        ]))
+            .catch((err) => console.error('[email-track] Flow engagement error:', err));
+        void emitEmailEvent({
+            type: 'open',
+            recipientEmail: token.email,
+            messageId: token.messageId,
+            campaignId: token.campaignId,
+            flow: token.flow,
+        }).catch((err) => console.error('[email-track] Email event error:', err));
 
         return new Response(TRACKING_PIXEL_GIF, {
             status: 200,
@@ -78,14 +95,27 @@ export async function GET(request: Request): Promise<Response> {
 
     if (token.type === 'click' && token.url) {
         // ── Click Tracking ─────────────────────────────────────────
-        recordTrackingEvent({
+        void recordTrackingEvent({
             messageId: token.messageId,
             type: 'click',
             timestamp: new Date().toISOString(),
             recipientEmail: token.email,
             campaignId: token.campaignId,
+            flow: token.flow,
             metadata: { url: token.url, userAgent, ip },
-        });
+        }).then(() => token.flow && Promise.all([
+            recordSplitEngagement(token.flow, 'click'),
+            recordFlowEmailEngagement(token.flow, token.messageId, 'click'),
+        ]))
+            .catch((err) => console.error('[email-track] Flow engagement error:', err));
+        void emitEmailEvent({
+            type: 'click',
+            recipientEmail: token.email,
+            messageId: token.messageId,
+            campaignId: token.campaignId,
+            flow: token.flow,
+            url: token.url,
+        }).catch((err) => console.error('[email-track] Email event error:', err));
 
         // Validate destination URL to prevent open redirect attacks
         try {
@@ -0,0 +1,107 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Transport Route - Per-Org Email Provider Selection
+ *
+ * GET /api/v1/email/transport   The org's selection, the provider chain
+ *                               for its default From domain and the health
+ *                               of every configured provider
+ * PUT /api/v1/email/transport   Replace the org's selection:
+ * {
+ *   "primary": "postmark",
+ *   "secondary": "ses",
+ *   "domains": { "news.acme.com": { "primary": "sendgrid", "secondary": "ses" } }
+ * }
+ *
+ * The secondary provider takes over while the primary fails its health
+ * check. Providers must be configured on the platform (credentials in the
+ * environment). Authenticated via API key or dashboard session.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import {
+    getOrgTransportSettings,
+    updateOrgTransportSettings,
+    resolveProviderChain,
+    getConfiguredProviders,
+    checkTransportHealth,
+    isEmailProviderName,
+    type EmailProviderName,
+    type EmailTransportSettings,
+} from '@/lib/engine/email';
+
+export const runtime = 'nodejs';
+
+function parseProvider(value: unknown, field: string): { name: EmailProviderName } | { error: string } {
+    const configured = getConfiguredProviders();
+    if (!isEmailProviderName(value) || value === 'log') {
+        return { error: `${field} must be one of: ${configured.join(', ') || '(none configured)'}` };
+    }
+    if (!configured.includes(value)) return { error: `${field}: provider "${value}" is not configured on this platform` };
+    return { name: value };
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['read']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const settings = await getOrgTransportSettings(authResult.orgId);
+    const defaultDomain = (process.env.EMAIL_FROM ?? 'noreply@lifecycleos.app').split('@')[1] ?? '';
+    const chain = await resolveProviderChain(authResult.orgId, defaultDomain);
+    const providers = await Promise.all(
+        getConfiguredProviders().map(async (name) => ({ name, health: await checkTransportHealth(name) })),
+    );
+
+    return NextResponse.json({ success: true, data: { settings, chain, providers } });
+}
+
+export async function PUT(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const settings: EmailTransportSettings = {};
+    for (const field of ['primary', 'secondary'] as const) {
+        if (body[field] === undefined || body[field] === null) continue;
+        const parsed = parseProvider(body[field], field);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+        settings[field] = parsed.name;
+    }
+
+    if (body.domains !== undefined && body.domains !== null) {
+        if (typeof body.domains !== 'object' || Array.isArray(body.domains)) {
+            return NextResponse.json({ success: false, error: 'domains must be an object of sending domain → { primary, secondary }' }, { status: 400 });
+        }
+        const domains: NonNullable<EmailTransportSettings['domains']> = {};
+        for (const [domain, route] of Object.entries(body.domains as Record<string, Record<string, unknown> | null>)) {
+            const primary = parseProvider(route?.primary, `domains.${domain}.primary`);
+            if ('error' in primary) {
+                return NextResponse.json({ success: false, error: primary.error }, { status: 400 });
+            }
+            const key = domain.trim().toLowerCase();
+            domains[key] = { primary: primary.name };
+            if (route?.secondary !== undefined && route.secondary !== null) {
+                const secondary = parseProvider(route.secondary, `domains.${domain}.secondary`);
+                if ('error' in secondary) {
+                    return NextResponse.json({ success: false, error: secondary.error }, { status: 400 });
+                }
+                domains[key].secondary = secondary.name;
+            }
+        }
+        settings.domains = domains;
+    }
+
+    const saved = await updateOrgTransportSettings(authResult.orgId, settings);
+    return NextResponse.json({ success: true, data: { settings: saved } });
+}
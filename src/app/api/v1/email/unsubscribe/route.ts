@@ -15,6 +15,7 @@ import {
     isSuppressed,
     resolveOrgIdFromCampaign,
 } from '@/lib/engine/email';
+import { emitEmailEvent } from '@/lib/engine/email-events';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -95,8 +96,8 @@ export async function POST(request: Request): Promise<Response> {
         return new Response('Invalid or expired unsubscribe link', { status: 400 });
     }
 
-    // Resolve orgId from campaign for suppression list
-    const orgId = await resolveOrgIdFromCampaign(token.campaignId);
+    // Resolve orgId from the flow context or campaign for suppression list
+    const orgId = token.flow?.orgId ?? await resolveOrgIdFromCampaign(token.campaignId);
 
     // Record in suppression list
     recordUnsubscribe(token.email, 'unsubscribe_link', token.campaignId, orgId ?? undefined);
@@ -108,8 +109,18 @@ export async function POST(request: Request): Promise<Response> {
         timestamp: new Date().toISOString(),
         recipientEmail: token.email,
         campaignId: token.campaignId,
+        flow: token.flow,
     });
 
+    // Feed the pipeline (flows, segments, webhooks)
+    void emitEmailEvent({
+        type: 'unsubscribe',
+        recipientEmail: token.email,
+        messageId: token.messageId,
+        campaignId: token.campaignId,
+        flow: token.flow,
+    }, orgId ?? undefined).catch((err) => console.error('[email-unsubscribe] Email event error:', err));
+
     // Check if this is an RFC 8058 one-click unsubscribe (from email client)
     const contentType = request.headers.get('content-type') ?? '';
     if (contentType.includes('application/x-www-form-urlencoded')) {
@@ -0,0 +1,103 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Warm-up Route - Sending Domain Warm-up Plans
+ *
+ * GET    /api/v1/email/warmup               The org's plans with today's usage
+ * POST   /api/v1/email/warmup               Start (or restart) a plan:
+ * {
+ *   "domain": "mail.acme.com",
+ *   "schedule": [50, 100, 250, 500, 1000],   optional daily caps by phase
+ *   "phaseDays": 2                           optional days per phase
+ * }
+ * DELETE /api/v1/email/warmup?domain=x      End warm-up early (uncapped)
+ *
+ * Plans start automatically when a sending domain is added. The scheduler
+ * advances, holds or rolls them back daily from bounce and complaint rates.
+ * Authenticated via API key or dashboard session.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { authenticate } from '@/lib/api/auth';
+import {
+    getWarmupPlans,
+    startWarmupPlan,
+    completeWarmupPlan,
+    DEFAULT_WARMUP_SCHEDULE,
+    DEFAULT_WARMUP_PHASE_DAYS,
+    DEFAULT_WARMUP_THRESHOLDS,
+} from '@/lib/engine/email';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['read']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const plans = await getWarmupPlans(authResult.orgId);
+    return NextResponse.json({
+        success: true,
+        data: {
+            plans,
+            defaults: {
+                schedule: DEFAULT_WARMUP_SCHEDULE,
+                phaseDays: DEFAULT_WARMUP_PHASE_DAYS,
+                thresholds: DEFAULT_WARMUP_THRESHOLDS,
+            },
+        },
+    });
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const domain = typeof body.domain === 'string' ? body.domain.trim().toLowerCase() : '';
+    if (!domain.includes('.')) {
+        return NextResponse.json({ success: false, error: 'domain is required' }, { status: 400 });
+    }
+
+    if (body.schedule !== undefined && (
+        !Array.isArray(body.schedule)
+        || body.schedule.length === 0
+        || !body.schedule.every((cap) => typeof cap === 'number' && Number.isFinite(cap) && cap >= 1)
+    )) {
+        return NextResponse.json({ success: false, error: 'schedule must be a non-empty array of daily caps (at least 1)' }, { status: 400 });
+    }
+    if (body.phaseDays !== undefined && (typeof body.phaseDays !== 'number' || !(body.phaseDays >= 1))) {
+        return NextResponse.json({ success: false, error: 'phaseDays must be a number of at least 1' }, { status: 400 });
+    }
+
+    const plan = await startWarmupPlan(authResult.orgId, domain, {
+        schedule: body.schedule as number[] | undefined,
+        phaseDays: body.phaseDays as number | undefined,
+    });
+    return NextResponse.json({ success: true, data: plan }, { status: 201 });
+}
+
+export async function DELETE(request: NextRequest): Promise<Response> {
+    const authResult = await authenticate(request, ['write']);
+    if (!authResult.success) {
+        return authResult.response!;
+    }
+
+    const domain = request.nextUrl.searchParams.get('domain');
+    if (!domain) {
+        return NextResponse.json({ success: false, error: 'domain query parameter is required' }, { status: 400 });
+    }
+
+    const ended = await completeWarmupPlan(authResult.orgId, domain);
+    if (!ended) {
+        return NextResponse.json({ success: false, error: `No active warm-up plan for ${domain}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+}
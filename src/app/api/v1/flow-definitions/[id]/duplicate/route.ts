@@ -6,8 +6,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
-import { duplicateFlowDefinition } from '@/lib/db/operations';
+import { duplicateFlowDefinition, upsertFlowDefinition } from '@/lib/db/operations';
 import { mapFlowDefToUI } from '@/lib/db/mappers';
+import { prepareWebhookTriggers, issuedWebhookSecrets, redactFlowSecrets } from '@/lib/engine/inbound-webhooks';
+import type { FlowNodeDef } from '@/lib/definitions';
 
 function jsonSuccess<T>(data: T, status = 200) {
   return NextResponse.json({ success: true, data }, { status });
@@ -29,5 +31,13 @@ export async function POST(_request: NextRequest, ctx: RouteContext) {
   const { id } = await ctx.params;
   const copy = await duplicateFlowDefinition(orgId, id);
   if (!copy) return jsonError('NOT_FOUND', `Flow definition '${id}' not found.`, 404);
-  return jsonSuccess(mapFlowDefToUI(copy), 201);
+
+  // A copy must not accept requests signed for the original flow
+  const nodes = copy.nodes as FlowNodeDef[];
+  if (nodes.some((n) => n.data?.triggerConfig?.kind === 'webhook_received')) {
+    prepareWebhookTriggers(nodes, [], true);
+    const saved = mapFlowDefToUI(await upsertFlowDefinition(orgId, { ...copy, nodes }));
+    return jsonSuccess(redactFlowSecrets(saved, issuedWebhookSecrets(saved.nodes)), 201);
+  }
+  return jsonSuccess(redactFlowSecrets(mapFlowDefToUI(copy)), 201);
 }
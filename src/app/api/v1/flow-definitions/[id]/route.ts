@@ -2,15 +2,20 @@
  * /api/v1/flow-definitions/[id]
  *
  * GET    - Retrieve a single flow definition
- * PUT    - Update a flow definition (full or partial)
+ * PUT    - Update a flow definition (full or partial). Saving an active
+ *          flow with a changed graph publishes a new version; an optional
+ *          `migration` ({ strategy: 'drain' | 'migrate', nodeMap }) says
+ *          what happens to in-flight enrollments (default: drain)
  * DELETE - Delete a flow definition and its enrollments
  * ========================================================================== */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
-import { getFlowDefinition, upsertFlowDefinition, deleteFlowDefinition } from '@/lib/db/operations';
+import { getFlowDefinition, deleteFlowDefinition } from '@/lib/db/operations';
 import { mapFlowDefToUI } from '@/lib/db/mappers';
-import type { FlowBuilderStatus } from '@/lib/definitions';
+import { prepareWebhookTriggers, issuedWebhookSecrets, redactFlowSecrets } from '@/lib/engine/inbound-webhooks';
+import { saveFlow, type FlowEdit } from '@/lib/engine/flow-versions';
+import type { FlowBuilderStatus, FlowNodeDef, FlowVersionMigration } from '@/lib/definitions';
 
 function jsonSuccess<T>(data: T, status = 200) {
   return NextResponse.json({ success: true, data }, { status });
@@ -34,7 +39,7 @@ export async function GET(_request: NextRequest, ctx: RouteContext) {
   const { id } = await ctx.params;
   const dbFlow = await getFlowDefinition(orgId, id);
   if (!dbFlow) return jsonError('NOT_FOUND', `Flow definition '${id}' not found.`, 404);
-  return jsonSuccess(mapFlowDefToUI(dbFlow));
+  return jsonSuccess(redactFlowSecrets(mapFlowDefToUI(dbFlow)));
 }
 
 /* ── PUT ─────────────────────────────────────────────────────────────── */
@@ -56,29 +61,42 @@ export async function PUT(request: NextRequest, ctx: RouteContext) {
   }
 
   // Merge provided fields onto existing flow
-  const mergedData = {
-    ...existing,
-    ...(typeof body.name === 'string' ? { name: body.name.trim() } : {}),
-    ...(typeof body.description === 'string' ? { description: body.description.trim() } : {}),
-    ...(body.status && isValidStatus(body.status as string) ? { status: body.status as FlowBuilderStatus } : {}),
-    ...(Array.isArray(body.nodes) ? { nodes: body.nodes } : {}),
-    ...(Array.isArray(body.edges) ? { edges: body.edges } : {}),
-    ...(Array.isArray(body.variables) ? { variables: body.variables } : {}),
-    ...(body.settings && typeof body.settings === 'object' ? { settings: body.settings as Record<string, unknown> } : {}),
-    ...(typeof body.version === 'number' ? { version: body.version } : {}),
-    ...(typeof body.trigger === 'string' ? { trigger: body.trigger.trim() } : {}),
+  const mergedData: FlowEdit = {
+    name: typeof body.name === 'string' ? body.name.trim() : existing.name,
+    description: typeof body.description === 'string' ? body.description.trim() : existing.description,
+    status: body.status && isValidStatus(body.status as string) ? body.status as FlowBuilderStatus : existing.status,
+    nodes: Array.isArray(body.nodes) ? body.nodes : existing.nodes,
+    edges: Array.isArray(body.edges) ? body.edges : existing.edges,
+    variables: Array.isArray(body.variables) ? body.variables : existing.variables,
+    settings: body.settings && typeof body.settings === 'object' ? body.settings as Record<string, unknown> : existing.settings,
   };
 
+  // Normalize webhook paths and issue signing secrets for new webhook triggers
+  prepareWebhookTriggers(mergedData.nodes as FlowNodeDef[], existing.nodes as FlowNodeDef[]);
+
   // Track status transitions
   if (body.status === 'active' && existing.status !== 'active') {
-    (mergedData as Record<string, unknown>).publishedAt = new Date().toISOString();
+    mergedData.publishedAt = new Date();
   }
   if (body.status === 'archived' && existing.status !== 'archived') {
-    (mergedData as Record<string, unknown>).archivedAt = new Date().toISOString();
+    mergedData.archivedAt = new Date();
+  }
+
+  const migration = parseMigration(body.migration);
+  if (body.migration !== undefined && !migration) {
+    return jsonError('INVALID_MIGRATION', "migration must be { strategy: 'drain' | 'migrate', nodeMap?: { [oldNodeId]: newNodeId } }.", 400);
   }
 
-  const saved = await upsertFlowDefinition(orgId, mergedData);
-  return jsonSuccess(mapFlowDefToUI(saved));
+  // Saved and published in one batch, unless the flow changed since it was read
+  const result = await saveFlow(orgId, existing, mergedData, migration ?? undefined);
+  if (!result) {
+    return jsonError('CONFLICT', 'The flow was changed by another save. Reload it and try again.', 409);
+  }
+  // Secrets issued or rotated by this save are shown this once
+  const saved = mapFlowDefToUI(result.flow);
+  const flow = redactFlowSecrets(saved, issuedWebhookSecrets(saved.nodes, existing.nodes as FlowNodeDef[]));
+  if (!result.publication) return jsonSuccess(flow);
+  return jsonSuccess({ ...flow, publication: result.publication });
 }
 
 /* ── DELETE ───────────────────────────────────────────────────────────── */
@@ -101,3 +119,14 @@ export async function DELETE(_request: NextRequest, ctx: RouteContext) {
 function isValidStatus(s: string): s is FlowBuilderStatus {
   return ['draft', 'active', 'paused', 'archived', 'error'].includes(s);
 }
+
+function parseMigration(value: unknown): FlowVersionMigration | null {
+  if (!value || typeof value !== 'object') return null;
+  const { strategy, nodeMap } = value as Record<string, unknown>;
+  if (strategy !== 'drain' && strategy !== 'migrate') return null;
+  if (nodeMap === undefined) return { strategy };
+  if (!nodeMap || typeof nodeMap !== 'object' || Array.isArray(nodeMap)) return null;
+  const entries = Object.entries(nodeMap as Record<string, unknown>);
+  if (entries.some(([, target]) => typeof target !== 'string')) return null;
+  return { strategy, nodeMap: Object.fromEntries(entries) as Record<string, string> };
+}
@@ -0,0 +1,139 @@
+/* ==========================================================================
+ * POST /api/v1/flow-definitions/[id]/simulate - Dry-run a flow
+ *
+ * Runs the flow for one user on a virtual clock without sending anything
+ * (see lib/engine/flow-simulator.ts). Returns the node path, every step
+ * with the actions it would have dispatched, and the resolved emails.
+ *
+ * Body:
+ *   userId?            - tracked user to simulate (external ID or email)
+ *   user?              - hand-built User profile; merged over the tracked
+ *                        user when both are given
+ *   nodes?, edges?,
+ *   variables?, settings?
+ *                      - unsaved graph from the builder (default: saved flow)
+ *   startAt?           - virtual enrollment time (ISO, default now)
+ *   triggerProperties? - properties of the triggering event
+ *   events?            - [{ name, afterMinutes, properties? }]
+ *   apiResponses?      - { [nodeId]: { ok, status, body?, error? } }
+ *   horizonDays?       - how far to fast-forward (default 90, max 365)
+ * ========================================================================== */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
+import {
+  getFlowDefinition,
+  getTrackedUserByExternalId,
+  getTrackedUserByEmail,
+  getTrackedAccount,
+  getEmailTemplate,
+} from '@/lib/db/operations';
+import { mapFlowDefToUI, mapTrackedUserToUser } from '@/lib/db/mappers';
+import { simulateFlow, type SimulatedEvent, type SimulationOptions } from '@/lib/engine/flow-simulator';
+import type { FlowDefinition, User } from '@/lib/definitions';
+
+function jsonSuccess<T>(data: T, status = 200) {
+  return NextResponse.json({ success: true, data }, { status });
+}
+
+function jsonError(code: string, message: string, status = 400) {
+  return NextResponse.json(
+    { success: false, error: { code, message } },
+    { status },
+  );
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, ctx: RouteContext) {
+  const authResult = await requireDashboardAuth();
+  if (!authResult.success) return authResult.response;
+  const { orgId } = authResult;
+  const { id } = await ctx.params;
+
+  const dbFlow = await getFlowDefinition(orgId, id);
+  if (!dbFlow) return jsonError('NOT_FOUND', `Flow definition '${id}' not found.`, 404);
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('INVALID_JSON', 'Request body must be valid JSON.', 400);
+  }
+
+  // ── Flow: the saved definition, or the builder's unsaved graph ──
+  const saved = mapFlowDefToUI(dbFlow);
+  const flow: FlowDefinition = {
+    ...saved,
+    ...(Array.isArray(body.nodes) ? { nodes: body.nodes } : {}),
+    ...(Array.isArray(body.edges) ? { edges: body.edges } : {}),
+    ...(Array.isArray(body.variables) ? { variables: body.variables } : {}),
+    ...(body.settings && typeof body.settings === 'object' ? { settings: { ...saved.settings, ...body.settings } } : {}),
+  };
+
+  // ── User: a tracked user, a hand-built profile, or both ─────────
+  let user: Partial<User> | null = null;
+  if (typeof body.userId === 'string' && body.userId.trim()) {
+    const identifier = body.userId.trim();
+    const dbUser = await getTrackedUserByExternalId(orgId, identifier)
+      ?? (identifier.includes('@') ? await getTrackedUserByEmail(orgId, identifier) : null);
+    if (!dbUser) return jsonError('USER_NOT_FOUND', `Tracked user '${identifier}' not found.`, 404);
+    const account = dbUser.accountId ? await getTrackedAccount(orgId, dbUser.accountId) : null;
+    user = mapTrackedUserToUser(dbUser, account?.name ?? undefined);
+  }
+  if (body.user && typeof body.user === 'object' && !Array.isArray(body.user)) {
+    user = { ...(user ?? {}), ...(body.user as Partial<User>) };
+  }
+  if (!user) return jsonError('MISSING_USER', 'Provide a userId or a user profile to simulate.', 400);
+
+  // ── Options ──────────────────────────────────────────────────────
+  const startAt = typeof body.startAt === 'string' ? new Date(body.startAt) : new Date();
+  if (isNaN(startAt.getTime())) return jsonError('INVALID_START', 'startAt must be an ISO timestamp.', 400);
+
+  const events = parseEvents(body.events);
+  if (!events) return jsonError('INVALID_EVENTS', 'events must be [{ name, afterMinutes, properties? }].', 400);
+
+  const options: SimulationOptions = {
+    startAt,
+    events,
+    ...(isObject(body.triggerProperties) ? { triggerProperties: body.triggerProperties } : {}),
+    ...(isObject(body.apiResponses) ? { apiResponses: body.apiResponses as SimulationOptions['apiResponses'] } : {}),
+    ...(typeof body.horizonDays === 'number' && body.horizonDays > 0 ? { horizonDays: body.horizonDays } : {}),
+  };
+
+  const result = simulateFlow(flow, user, options);
+
+  // Resolve referenced templates the way the dispatcher does
+  for (const email of result.emails) {
+    if (!email.templateId) continue;
+    const tpl = await getEmailTemplate(orgId, email.templateId).catch(() => null);
+    if (!tpl) continue;
+    email.subject = email.subject || tpl.subject;
+    email.body = (tpl.bodyHtml as string) ?? email.body;
+  }
+
+  return jsonSuccess(result);
+}
+
+/* ── Helpers ──────────────────────────────────────────────────────────── */
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseEvents(value: unknown): SimulatedEvent[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const events: SimulatedEvent[] = [];
+  for (const raw of value) {
+    if (!isObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+    const afterMinutes = Number(raw.afterMinutes ?? 0);
+    if (!Number.isFinite(afterMinutes) || afterMinutes < 0) return null;
+    events.push({
+      name: raw.name.trim(),
+      afterMinutes,
+      ...(isObject(raw.properties) ? { properties: raw.properties } : {}),
+    });
+  }
+  return events;
+}
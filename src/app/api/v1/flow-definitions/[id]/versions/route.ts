@@ -0,0 +1,37 @@
+/* ==========================================================================
+ * GET /api/v1/flow-definitions/[id]/versions
+ *
+ * Published versions of a flow, newest first, with the in-flight
+ * (active or paused) enrollments still pinned to each, per node.
+ * ========================================================================== */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
+import { getFlowDefinition } from '@/lib/db/operations';
+import { getFlowVersionSummaries } from '@/lib/engine/flow-versions';
+
+function jsonSuccess<T>(data: T, status = 200) {
+  return NextResponse.json({ success: true, data }, { status });
+}
+
+function jsonError(code: string, message: string, status = 400) {
+  return NextResponse.json(
+    { success: false, error: { code, message } },
+    { status },
+  );
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, ctx: RouteContext) {
+  const authResult = await requireDashboardAuth();
+  if (!authResult.success) return authResult.response;
+  const { orgId } = authResult;
+  const { id } = await ctx.params;
+
+  const dbFlow = await getFlowDefinition(orgId, id);
+  if (!dbFlow) return jsonError('NOT_FOUND', `Flow definition '${id}' not found.`, 404);
+
+  const versions = await getFlowVersionSummaries(orgId, id);
+  return jsonSuccess({ flowId: id, currentVersion: dbFlow.version, versions });
+}
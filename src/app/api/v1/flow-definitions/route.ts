@@ -13,6 +13,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
 import { getAllFlowDefinitions, upsertFlowDefinition } from '@/lib/db/operations';
 import { mapFlowDefToUI } from '@/lib/db/mappers';
+import { prepareWebhookTriggers, issuedWebhookSecrets, redactFlowSecrets } from '@/lib/engine/inbound-webhooks';
 import type { FlowBuilderStatus, FlowNodeDef, FlowEdgeDef } from '@/lib/definitions';
 
 function jsonSuccess<T>(data: T, status = 200) {
@@ -44,7 +45,7 @@ export async function GET(request: NextRequest) {
     } : undefined;
 
     const result = await getAllFlowDefinitions(orgId, status ?? undefined, pagination);
-    const flows = result.items.map(mapFlowDefToUI);
+    const flows = result.items.map((dbFlow) => redactFlowSecrets(mapFlowDefToUI(dbFlow)));
 
     // Sort by updatedAt desc
     flows.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
@@ -148,6 +149,8 @@ export async function POST(request: NextRequest) {
         };
     }
 
+    prepareWebhookTriggers(nodes);
+
     const dbFlow = await upsertFlowDefinition(orgId, {
         name,
         description,
@@ -170,6 +173,7 @@ export async function POST(request: NextRequest) {
         },
     });
 
+    // Secrets issued for the new flow are shown this once
     const saved = mapFlowDefToUI(dbFlow);
-    return jsonSuccess(saved, 201);
+    return jsonSuccess(redactFlowSecrets(saved, issuedWebhookSecrets(saved.nodes)), 201);
 }
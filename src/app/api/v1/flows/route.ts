@@ -6,6 +6,7 @@ import { NextRequest } from 'next/server';
 import { authenticate, apiSuccess } from '@/lib/api/auth';
 import { getAllFlowDefinitions } from '@/lib/db/operations';
 import { mapFlowDefToUI } from '@/lib/db/mappers';
+import { redactFlowSecrets } from '@/lib/engine/inbound-webhooks';
 import { parsePagination, paginate } from '@/lib/api/validation';
 
 export async function GET(request: NextRequest) {
@@ -13,7 +14,7 @@ export async function GET(request: NextRequest) {
   if (!auth.success) return auth.response;
 
   const dbFlows = await getAllFlowDefinitions(auth.orgId);
-  const flows = dbFlows.items.map(mapFlowDefToUI);
+  const flows = dbFlows.items.map((dbFlow) => redactFlowSecrets(mapFlowDefToUI(dbFlow)));
 
   // Parse query params for filtering
   const url = new URL(request.url);
@@ -0,0 +1,167 @@
+/* ==========================================================================
+ * POST /api/v1/hooks/{orgId}/{webhookPath} - Inbound Webhook Flow Trigger
+ *
+ * Lets external systems (billing, support, ...) start flows whose trigger
+ * is `webhook_received` without going through the SDK.
+ *
+ * No API key: every flow of the org listening on the path has its own
+ * signing secret, and the X-Lifecycle-Signature / X-Lifecycle-Timestamp
+ * headers must verify against it (see lib/engine/inbound-webhooks.ts).
+ * Paths are scoped to the org in the URL, so orgs never share one.
+ *
+ * The body must be a JSON object. The tracked user is read from the
+ * trigger's webhookUserField (external ID, or email as a fallback), and
+ * the body is available to the flow as `event.*` variables.
+ * ========================================================================== */
+
+import { NextRequest } from 'next/server';
+import { apiSuccess, apiError } from '@/lib/api/auth';
+import { checkRateLimit, rateLimitExceeded } from '@/lib/api/rate-limit';
+import {
+    getActiveFlowsByWebhookPath,
+    getTrackedUserByExternalId,
+    getTrackedUserByEmail,
+    getTrackedAccount,
+} from '@/lib/db/operations';
+import { mapFlowDefToUI, mapTrackedUserToUser } from '@/lib/db/mappers';
+import { findTriggerNode } from '@/lib/engine/flow';
+import { enrollUserInFlow } from '@/lib/engine/event-pipeline';
+import {
+    verifyInboundWebhook,
+    extractWebhookUserIdentifier,
+    normalizeWebhookPath,
+    MAX_INBOUND_PAYLOAD_BYTES,
+    DEFAULT_WEBHOOK_USER_FIELD,
+} from '@/lib/engine/inbound-webhooks';
+
+type RouteContext = { params: Promise<{ orgId: string; webhookPath: string }> };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface HookFlowResult {
+    flowId: string;
+    flowName: string;
+    enrolled: boolean;
+    enrollmentId?: string;
+    reason?: string;
+}
+
+export async function POST(request: NextRequest, ctx: RouteContext) {
+    const startTime = performance.now();
+    const params = await ctx.params;
+    const orgId = params.orgId.toLowerCase();
+    // Next has already decoded the path segment
+    const webhookPath = normalizeWebhookPath(params.webhookPath);
+    if (!UUID_PATTERN.test(orgId)) {
+        return apiError('NOT_FOUND', `No active flow listens on '${webhookPath}'.`, 404);
+    }
+
+    const rl = await checkRateLimit(`hook_${orgId}_${webhookPath}`, 'events');
+    if (!rl.allowed) return rateLimitExceeded(rl);
+
+    // ── Parse (keep the raw body: it is what was signed) ──────────
+    const rawBody = await readBodyWithinLimit(request, MAX_INBOUND_PAYLOAD_BYTES);
+    if (rawBody === null) {
+        return apiError('PAYLOAD_TOO_LARGE', `Body exceeds ${MAX_INBOUND_PAYLOAD_BYTES} bytes.`, 413);
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+        payload = JSON.parse(rawBody);
+    } catch {
+        return apiError('INVALID_JSON', 'Request body must be valid JSON.', 400);
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        return apiError('INVALID_PAYLOAD', 'Request body must be a JSON object.', 400);
+    }
+
+    // ── Find the flow(s) this request is signed for ───────────────
+    const candidates = await getActiveFlowsByWebhookPath(orgId, webhookPath);
+    if (candidates.length === 0) {
+        return apiError('NOT_FOUND', `No active flow listens on '${webhookPath}'.`, 404);
+    }
+
+    const signature = request.headers.get('x-lifecycle-signature');
+    const timestamp = request.headers.get('x-lifecycle-timestamp');
+    let rejection = 'Signature mismatch';
+    const verified = candidates
+        .map((dbFlow) => ({ dbFlow, flow: mapFlowDefToUI(dbFlow) }))
+        .filter(({ flow }) => {
+            const reason = verifyInboundWebhook(
+                rawBody,
+                signature,
+                timestamp,
+                findTriggerNode(flow)?.data.triggerConfig?.webhookSecret,
+            );
+            if (reason) rejection = reason;
+            return !reason;
+        });
+    if (verified.length === 0) {
+        return apiError('INVALID_SIGNATURE', rejection, 401);
+    }
+
+    // ── Resolve the user and enroll ───────────────────────────────
+    const results: HookFlowResult[] = [];
+    for (const { dbFlow, flow } of verified) {
+        const userField = findTriggerNode(flow)?.data.triggerConfig?.webhookUserField || DEFAULT_WEBHOOK_USER_FIELD;
+        const base = { flowId: flow.id, flowName: flow.name };
+
+        const identifier = extractWebhookUserIdentifier(payload, userField);
+        if (!identifier) {
+            results.push({ ...base, enrolled: false, reason: `No user identifier at '${userField}'` });
+            continue;
+        }
+
+        const dbUser = await getTrackedUserByExternalId(orgId, identifier)
+            ?? (identifier.includes('@') ? await getTrackedUserByEmail(orgId, identifier) : null);
+        if (!dbUser) {
+            results.push({ ...base, enrolled: false, reason: `Unknown user '${identifier}'` });
+            continue;
+        }
+
+        const account = dbUser.accountId ? await getTrackedAccount(orgId, dbUser.accountId) : null;
+        try {
+            const enrolled = await enrollUserInFlow(orgId, dbFlow, flow, {
+                user: mapTrackedUserToUser(dbUser, account?.name ?? undefined),
+                trackedUserId: dbUser.id,
+                accountInternalId: dbUser.accountId,
+            }, payload);
+            results.push(enrolled
+                ? { ...base, enrolled: true, enrollmentId: enrolled.enrollmentId }
+                : { ...base, enrolled: false, reason: 'Already enrolled, re-entry not allowed, or enrollment limit reached' });
+        } catch (e) {
+            console.error(`[hooks] Enrollment error for flow ${flow.id}:`, (e as Error).message);
+            results.push({ ...base, enrolled: false, reason: 'Internal error' });
+        }
+    }
+
+    return apiSuccess({ webhookPath, flows: results }, 202, startTime);
+}
+
+/* ── Helpers ──────────────────────────────────────────────────────── */
+
+/**
+ * Read the request body as UTF-8, giving up (null) as soon as it is
+ * larger than `maxBytes`: a declared Content-Length over the limit is
+ * refused before reading, and the stream is cancelled once it passes it.
+ */
+async function readBodyWithinLimit(request: NextRequest, maxBytes: number): Promise<string | null> {
+    const declared = Number(request.headers.get('content-length'));
+    if (declared > maxBytes) return null;
+    if (!request.body) return '';
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received += value.byteLength;
+        if (received > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
@@ -18,28 +18,30 @@ import {
   addActivityEntry,
   linkOrphanedEvents,
   mergeTrackedUserIdentity,
-  getAllSegments,
-  upsertSegmentMembership,
-  removeSegmentMembership,
   getAllFlowDefinitions,
   getUserEnrollments as dbGetUserEnrollments,
   upsertEnrollment as dbUpsertEnrollment,
-  upsertFlowDefinition as dbUpsertFlowDefinition,
+  incrementFlowMetrics,
 } from '@/lib/db/operations';
 import { mapTrackedUserToUser, mapTrackedAccountToAccount, mapFlowDefToUI, mapFlowEnrollToUI } from '@/lib/db/mappers';
 import { classifyLifecycleState } from '@/lib/engine/lifecycle';
 import { scoreChurnRisk } from '@/lib/engine/churn';
 import { detectExpansionSignals, computeExpansionScore } from '@/lib/engine/expansion';
-import { evaluateSegmentFilters } from '@/lib/engine/segmentation';
 import { dispatchWebhooks } from '@/lib/engine/webhooks';
 import { sendEmail } from '@/lib/engine/email';
+import {
+  admitFlowEnrollment,
+  enrollInSegmentEntryFlows,
+  reevaluateUserSegments,
+  dispatchSegmentWebhooks,
+} from '@/lib/engine/event-pipeline';
 import {
   matchesTrigger,
   createEnrollment,
   processEnrollment,
   findTriggerNode,
 } from '@/lib/engine/flow';
-import type { LifecycleState, User } from '@/lib/definitions';
+import type { LifecycleState } from '@/lib/definitions';
 
 export async function POST(request: NextRequest) {
   // ── Auth (identify scope, standard rate tier) ─────────────────
@@ -216,23 +218,17 @@ export async function POST(request: NextRequest) {
   }
 
   // ── Segment Evaluation ────────────────────────────────────────
+  // Same evaluation as for events, so both build the same user record
   let segmentsEntered: string[] = [];
   let segmentsExited: string[] = [];
+  const enteredSegmentIds: string[] = [];
   try {
-    const userRecord = flattenUserForSegment(user);
-    const segments = (await getAllSegments(orgId, 'active')).items;
-    for (const seg of segments) {
-      const filters = (seg.filters ?? []) as import('@/lib/db/schema').SegmentFilter[];
-      if (filters.length === 0) continue;
-      const filterLogic = ((seg as Record<string, unknown>).filterLogic as string) ?? 'AND';
-      const matched = evaluateSegmentFilters(filters, filterLogic, userRecord);
-      if (matched) {
-        await upsertSegmentMembership(orgId, seg.id, dbUser.id);
-        segmentsEntered.push(seg.name);
-      } else {
-        await removeSegmentMembership(orgId, seg.id, dbUser.id);
-        segmentsExited.push(seg.name);
-      }
+    const evaluation = await reevaluateUserSegments(orgId, dbUser.id);
+    if (evaluation) {
+      segmentsEntered = evaluation.entered;
+      segmentsExited = evaluation.exited;
+      enteredSegmentIds.push(...evaluation.enteredSegmentIds);
+      dispatchSegmentWebhooks(orgId, evaluation.user, evaluation.changes);
     }
   } catch (e) {
     console.error('[identify] Segment evaluation error:', (e as Error).message);
@@ -275,6 +271,9 @@ export async function POST(request: NextRequest) {
         const enrollment = createEnrollment(flow, user.id, user.account?.id, user, {});
         if (!enrollment) continue;
 
+        // Checks the flow's limits and counts the enrollment
+        if (!(await admitFlowEnrollment(orgId, dbFlow, flow, user, dbUser.id))) continue;
+
         await dbUpsertEnrollment({
           id: enrollment.id,
           organizationId: orgId,
@@ -293,7 +292,7 @@ export async function POST(request: NextRequest) {
         flowEnrollments++;
 
         // Process the enrollment (advance through immediate nodes)
-        const processResult = processEnrollment({ flow, enrollment, user });
+        const processResult = processEnrollment({ flow, enrollment, user, deferApiCalls: true });
         await dbUpsertEnrollment({
           id: processResult.enrollment.id,
           organizationId: orgId,
@@ -330,22 +329,9 @@ export async function POST(request: NextRequest) {
         }
 
         // Update flow metrics
-        const metrics = flow.metrics ?? {
-          totalEnrolled: 0, currentlyActive: 0, completed: 0,
-          goalReached: 0, exitedEarly: 0, errorCount: 0,
-        };
-        metrics.totalEnrolled++;
-        metrics.currentlyActive++;
         if (processResult.enrollment.status === 'completed') {
-          metrics.currentlyActive = Math.max(0, metrics.currentlyActive - 1);
-          metrics.completed++;
+          await incrementFlowMetrics(orgId, dbFlow.id, { currentlyActive: -1, completed: 1 });
         }
-        await dbUpsertFlowDefinition(orgId, {
-          id: dbFlow.id, name: dbFlow.name, description: dbFlow.description,
-          status: dbFlow.status, nodes: dbFlow.nodes, edges: dbFlow.edges,
-          variables: dbFlow.variables, settings: dbFlow.settings,
-          metrics: JSON.parse(JSON.stringify(metrics)),
-        });
 
         void dispatchWebhooks('flow.triggered', {
           flowId: flow.id, flowName: flow.name,
@@ -366,6 +352,19 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  // ── Flow Enrollment (segment_entry trigger) ──────────────────
+  if (enteredSegmentIds.length > 0) {
+    try {
+      flowEnrollments += await enrollInSegmentEntryFlows(orgId, {
+        user,
+        trackedUserId: dbUser.id,
+        accountInternalId: dbAccountId ?? null,
+      }, enteredSegmentIds);
+    } catch (e) {
+      console.error('[identify] Segment entry enrollment error:', (e as Error).message);
+    }
+  }
+
   // ── Lead Capture Flow Enrollment (anonymous visitor handoff) ───
   if (anonymousId && anonymousId !== userId && traits.email) {
     try {
@@ -403,6 +402,9 @@ export async function POST(request: NextRequest) {
         const enrollment = createEnrollment(flow, user.id, user.account?.id, user, {});
         if (!enrollment) continue;
 
+        // Checks the flow's limits and counts the enrollment
+        if (!(await admitFlowEnrollment(orgId, dbFlow, flow, user, dbUser.id))) continue;
+
         await dbUpsertEnrollment({
           id: enrollment.id,
           organizationId: orgId,
@@ -420,29 +422,7 @@ export async function POST(request: NextRequest) {
         });
         flowEnrollments++;
 
-        const metrics = flow.metrics ?? {
-          totalEnrolled: 0,
-          currentlyActive: 0,
-          completed: 0,
-          goalReached: 0,
-          exitedEarly: 0,
-          errorCount: 0,
-        };
-        metrics.totalEnrolled++;
-        metrics.currentlyActive++;
-        await dbUpsertFlowDefinition(orgId, {
-          id: dbFlow.id,
-          name: dbFlow.name,
-          description: dbFlow.description,
-          status: dbFlow.status,
-          nodes: dbFlow.nodes,
-          edges: dbFlow.edges,
-          variables: dbFlow.variables,
-          settings: dbFlow.settings,
-          metrics: JSON.parse(JSON.stringify(metrics)),
-        });
-
-        const processResult = processEnrollment({ flow, enrollment, user });
+        const processResult = processEnrollment({ flow, enrollment, user, deferApiCalls: true });
         await dbUpsertEnrollment({
           id: processResult.enrollment.id,
           organizationId: orgId,
@@ -487,19 +467,7 @@ export async function POST(request: NextRequest) {
         }, orgId);
 
         if (processResult.enrollment.status === 'completed') {
-          metrics.currentlyActive = Math.max(0, metrics.currentlyActive - 1);
-          metrics.completed++;
-          await dbUpsertFlowDefinition(orgId, {
-            id: dbFlow.id,
-            name: dbFlow.name,
-            description: dbFlow.description,
-            status: dbFlow.status,
-            nodes: dbFlow.nodes,
-            edges: dbFlow.edges,
-            variables: dbFlow.variables,
-            settings: dbFlow.settings,
-            metrics: JSON.parse(JSON.stringify(metrics)),
-          });
+          await incrementFlowMetrics(orgId, dbFlow.id, { currentlyActive: -1, completed: 1 });
 
           void dispatchWebhooks('flow.completed', {
             flowId: flow.id,
@@ -562,29 +530,3 @@ export async function POST(request: NextRequest) {
     auth.rateLimit,
   );
 }
-
-/** Flatten user for segment filter evaluation */
-function flattenUserForSegment(user: User): Record<string, unknown> {
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-    plan: user.plan,
-    lifecycleState: user.lifecycleState,
-    mrr: user.mrr ?? 0,
-    churnRiskScore: user.churnRiskScore ?? 0,
-    expansionScore: user.expansionScore ?? 0,
-    loginFrequency7d: user.loginFrequencyLast7Days,
-    loginFrequency30d: user.loginFrequencyLast30Days,
-    sessionDepthMinutes: user.sessionDepthMinutes,
-    npsScore: user.npsScore,
-    seatCount: user.seatCount,
-    seatLimit: user.seatLimit,
-    apiCalls30d: user.apiCallsLast30Days,
-    apiLimit: user.apiLimit,
-    supportTickets30d: user.supportTicketsLast30Days,
-    supportEscalations: user.supportEscalations,
-    daysUntilRenewal: user.daysUntilRenewal,
-    accountId: user.account?.id,
-  };
-}
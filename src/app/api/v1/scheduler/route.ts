@@ -1,8 +1,14 @@
 /* ==========================================================================
  * Flow Enrollment Scheduler - /api/v1/scheduler
  *
- * Processes flow enrollments whose nextProcessAt timestamp has elapsed.
- * This endpoint should be called periodically:
+ * Processes flow enrollments whose nextProcessAt timestamp has elapsed and
+ * fires schedule / date_property flow triggers that are due, retries queued
+ * email, rolls up daily deliverability metrics (raising bounce / complaint
+ * alerts), evaluates sending-domain warm-up plans once a day and
+ * re-evaluates dynamic segments so time-based rules catch idle users,
+ * then snapshots each segment's daily size.
+ * This endpoint should be called periodically (every minute for cron
+ * schedules to fire on time):
  *
  *   • External cron: curl -X POST https://your-app.com/api/v1/scheduler -H "Authorization: Bearer <CRON_SECRET>"
  *   • Optional Vercel Cron (paid plans): add /api/v1/scheduler in vercel.json
@@ -17,13 +23,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { and, count, eq, lte } from 'drizzle-orm';
-import { processScheduledEnrollments } from '@/lib/engine/event-pipeline';
+import { processScheduledEnrollments, processScheduledTriggers } from '@/lib/engine/event-pipeline';
 import { resolveOrgId } from '@/lib/auth/resolve-org';
 import { authenticate } from '@/lib/api/auth';
 import { db } from '@/lib/db';
 import * as schema from '@/lib/db/schema';
 import { getActiveEnrollmentsDue, getAllFlowDefinitions, getFlowEnrollments } from '@/lib/db/operations';
-import { processRetryQueue } from '@/lib/engine/email';
+import { evaluateWarmupPlans, processRetryQueue, rollupDeliverabilityMetrics } from '@/lib/engine/email';
+import { refreshSegmentMemberships } from '@/lib/engine/segment-refresh';
+import { snapshotSegmentSizes } from '@/lib/engine/segment-history';
 
 /* ── Scheduler State (survives HMR) ──────────────────────────────────── */
 
@@ -117,17 +125,60 @@ export async function POST(request: NextRequest) {
     const start = Date.now();
 
     try {
-        // 1. Process flow enrollments
+        // 1. Fire due schedule / date_property triggers (new enrollments)
+        let triggers = { flowsFired: 0, enrollmentsCreated: 0, errors: 0 };
+        try {
+            triggers = await processScheduledTriggers();
+        } catch (triggerErr) {
+            console.error('[scheduler] Flow trigger error:', triggerErr);
+        }
+
+        // 2. Process flow enrollments
         const result = await processScheduledEnrollments();
 
-        // 2. Process email retry queue (failed inline sends)
-        let emailRetries = { processed: 0, sent: 0, failed: 0 };
+        // 3. Process email retry queue (failed inline sends)
+        let emailRetries = { processed: 0, sent: 0, failed: 0, deferred: 0 };
         try {
             emailRetries = await processRetryQueue();
         } catch (emailErr) {
             console.error('[scheduler] Email retry queue error:', emailErr);
         }
 
+        // 4. Roll up recent days' deliverability metrics (throttled) and raise alerts
+        let deliverability = { skipped: true, from: '', to: '', days: 0, alerts: 0 };
+        try {
+            deliverability = await rollupDeliverabilityMetrics();
+        } catch (rollupErr) {
+            console.error('[scheduler] Deliverability rollup error:', rollupErr);
+        }
+
+        // 5. Advance / hold / roll back warm-up plans (each plan once per day)
+        let warmup = { evaluated: 0, advanced: 0, held: 0, rolledBack: 0, completed: 0 };
+        try {
+            warmup = await evaluateWarmupPlans();
+        } catch (warmupErr) {
+            console.error('[scheduler] Warm-up evaluation error:', warmupErr);
+        }
+
+        // 6. Re-evaluate dynamic segments for time-relative rules (throttled)
+        let segments = {
+            skipped: true, orgs: 0, segments: 0, usersEvaluated: 0, entered: 0, exited: 0,
+            flowEnrollments: 0, webhooksDispatched: 0, errors: 0,
+        };
+        try {
+            segments = await refreshSegmentMemberships();
+        } catch (segmentErr) {
+            console.error('[scheduler] Segment refresh error:', segmentErr);
+        }
+
+        // 7. Snapshot today's (and yesterday's) segment sizes (throttled)
+        let segmentSnapshots = { skipped: true, from: '', to: '', snapshots: 0 };
+        try {
+            segmentSnapshots = await snapshotSegmentSizes();
+        } catch (snapshotErr) {
+            console.error('[scheduler] Segment snapshot error:', snapshotErr);
+        }
+
         const durationMs = Date.now() - start;
 
         // Update scheduler state
@@ -146,7 +197,12 @@ export async function POST(request: NextRequest) {
                 completed: result.completed,
                 errors: result.errors,
                 actionsDispatched: result.actionsDispatched,
+                triggers,
                 emailRetries,
+                deliverability,
+                warmup,
+                segments,
+                segmentSnapshots,
                 durationMs,
                 scheduler: state,
             },
@@ -5,6 +5,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSegment, upsertSegment, deleteSegment, getSegmentMembers } from '@/lib/db/operations';
 import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
+import { normalizeRuleLogic, parseRuleList } from '@/lib/engine/rule-groups';
+import type { SegmentFilter } from '@/lib/db/schema';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     try {
@@ -46,6 +48,14 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         const { id } = await params;
 
         const body = await request.json();
+        // Validated and normalized as on create (POST /api/v1/segments)
+        if (body.filters !== undefined) {
+            const parsed = parseRuleList<SegmentFilter>(body.filters);
+            if ('error' in parsed) return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+            body.filters = parsed.rules;
+        }
+        if (body.filterLogic !== undefined) body.filterLogic = normalizeRuleLogic(body.filterLogic);
+
         const segment = await upsertSegment(orgId, { ...body, id });
         if (!segment) return NextResponse.json({ success: false, error: 'Segment not found' }, { status: 404 });
         return NextResponse.json({ success: true, data: segment });
@@ -0,0 +1,54 @@
+/* ==========================================================================
+ * POST /api/v1/segments/preview - Evaluate unsaved rules
+ *
+ * {
+ *   "filters": [...],          rules and nested { logic, rules } groups
+ *   "filterLogic": "AND",      optional, default AND
+ *   "limit": 25,               sample page size, at most 100
+ *   "offset": 0
+ * }
+ *
+ * Returns the match count, a page of matching users, a per-rule funnel
+ * and how many matches can be emailed. Nothing is persisted.
+ * ========================================================================== */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { previewSegment } from '@/lib/engine/segment-preview';
+import { MAX_RULE_GROUP_DEPTH, ruleGroupDepth } from '@/lib/engine/rule-groups';
+import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
+
+export async function POST(request: NextRequest) {
+    try {
+        const authResult = await requireDashboardAuth();
+        if (!authResult.success) return authResult.response;
+        const { orgId } = authResult;
+
+        let body: Record<string, unknown>;
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+        }
+
+        const { filters = [], filterLogic, limit, offset } = body;
+        if (!Array.isArray(filters)) {
+            return NextResponse.json({ success: false, error: 'filters must be an array' }, { status: 400 });
+        }
+        if (ruleGroupDepth(filters) > MAX_RULE_GROUP_DEPTH) {
+            return NextResponse.json({ success: false, error: `Rule groups can nest at most ${MAX_RULE_GROUP_DEPTH} levels deep` }, { status: 400 });
+        }
+        if ((limit !== undefined && typeof limit !== 'number') || (offset !== undefined && typeof offset !== 'number')) {
+            return NextResponse.json({ success: false, error: 'limit and offset must be numbers' }, { status: 400 });
+        }
+
+        const preview = await previewSegment(orgId, {
+            filters,
+            filterLogic: typeof filterLogic === 'string' ? filterLogic : undefined,
+            limit,
+            offset,
+        });
+        return NextResponse.json({ success: true, data: preview });
+    } catch (err) {
+        return NextResponse.json({ success: false, error: err instanceof Error ? err.message : 'Internal error' }, { status: 500 });
+    }
+}
@@ -3,10 +3,19 @@
  * ========================================================================== */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllSegments, getSegment, upsertSegment, getAllTrackedUsers, getAllTrackedAccounts, getSegmentMembers, clearSegmentMemberships, upsertSegmentMembership, updateSegmentCount } from '@/lib/db/operations';
-import { evaluateSegmentBatch } from '@/lib/engine/segmentation';
+import { getAllSegments, getSegment, upsertSegment, getAllTrackedUsers, getAllTrackedAccounts, getSegmentMembers, applySegmentMembershipChanges, updateSegmentCount, getSegmentEventsByUser } from '@/lib/db/operations';
+import { evaluateSegmentBatch, getEventConditionScope, type SegmentEventRecord } from '@/lib/engine/segmentation';
+import { normalizeRuleLogic, parseRuleList } from '@/lib/engine/rule-groups';
+import type { SegmentFilter, SegmentRuleNode } from '@/lib/db/schema';
+import { previewSegment } from '@/lib/engine/segment-preview';
 import { requireDashboardAuth } from '@/lib/api/dashboard-auth';
 
+/** Events of every user for the filters' event rules (none without event rules) */
+async function loadSegmentEvents(orgId: string, filters: SegmentRuleNode[], now: Date): Promise<Map<string, SegmentEventRecord[]>> {
+    const scope = getEventConditionScope(filters, now);
+    return scope ? getSegmentEventsByUser(orgId, scope) : new Map();
+}
+
 export async function GET(request: NextRequest) {
     try {
         const authResult = await requireDashboardAuth();
@@ -57,19 +66,19 @@ export async function POST(request: NextRequest) {
             const existingMembers = await getSegmentMembers(orgId, segment.id, 10000);
             const existingIds = new Set(existingMembers.map((m) => m.user.id));
 
+            const filters = data.filters ?? segment.filters;
+            const now = new Date();
             const result = evaluateSegmentBatch(
-                data.filters ?? segment.filters,
+                filters,
                 data.filterLogic ?? segment.filterLogic,
                 users as unknown as Record<string, unknown>[],
                 accountMap,
                 existingIds,
+                { eventsByUser: await loadSegmentEvents(orgId, filters, now), now },
             );
 
-            // Update memberships
-            await clearSegmentMemberships(orgId, segment.id);
-            for (const uid of result.matched) {
-                await upsertSegmentMembership(orgId, segment.id, uid);
-            }
+            // Update memberships (only the changes, so the history log stays accurate)
+            await applySegmentMembershipChanges(orgId, segment.id, result);
             await updateSegmentCount(orgId, segment.id, result.matched.length);
 
             return NextResponse.json({
@@ -83,30 +92,21 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Preview segment (evaluate without saving memberships)
+        // Preview segment (evaluate without saving memberships); the full
+        // preview with funnel and reach is POST /api/v1/segments/preview
         if (action === 'preview') {
-            const users = await getAllTrackedUsers(orgId, { limit: 10000 });
-            const accounts = await getAllTrackedAccounts(orgId, { limit: 10000 });
-            const accountMap = new Map<string, Record<string, unknown>>();
-            for (const a of accounts) accountMap.set(a.id, a as unknown as Record<string, unknown>);
-
-            const result = evaluateSegmentBatch(
-                data.filters ?? [],
-                data.filterLogic ?? 'AND',
-                users as unknown as Record<string, unknown>[],
-                accountMap,
-                new Set(),
-            );
-
-            // Return matched user details
-            const matchedUsers = users.filter((u) => result.matched.includes(u.id));
+            const preview = await previewSegment(orgId, {
+                filters: data.filters ?? [],
+                filterLogic: data.filterLogic,
+                limit: 50,
+            });
 
             return NextResponse.json({
                 success: true,
                 data: {
-                    matchedCount: result.matched.length,
-                    totalEvaluated: result.total,
-                    users: matchedUsers.slice(0, 50).map((u) => ({
+                    matchedCount: preview.matched,
+                    totalEvaluated: preview.totalUsers,
+                    users: preview.sample.items.map((u) => ({
                         id: u.id,
                         name: u.name,
                         email: u.email,
@@ -118,7 +118,15 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Create/update segment
+        // Create/update segment - stored as a normalized root group, which
+        // also upgrades flat definitions saved by older builders
+        if (data.filters !== undefined) {
+            const parsed = parseRuleList<SegmentFilter>(data.filters);
+            if ('error' in parsed) return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+            data.filters = parsed.rules;
+        }
+        if (data.filterLogic !== undefined) data.filterLogic = normalizeRuleLogic(data.filterLogic);
+
         const segment = await upsertSegment(orgId, data);
         if (!segment) {
             if (data.id) {
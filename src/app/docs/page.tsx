@@ -548,6 +548,7 @@ const apiEndpoints = [
     { method: 'GET', path: '/analytics/kpi', description: 'KPI summary: active users, trial conversion rate, churn rate, MRR, and engagement metrics.' },
     { method: 'GET', path: '/analytics/revenue', description: 'Revenue analytics: MRR/ARR over time, waterfall data (new, expansion, contraction, churn, reactivation).' },
     { method: 'GET', path: '/analytics/retention', description: 'Retention cohort data. Returns monthly cohorts with week-over-week or month-over-month retention rates.' },
+    { method: 'GET', path: '/analytics/segments', description: 'Segment size history. Without segmentId: enters, exits and week-over-week change per segment. With segmentId: the daily size series and the users who entered and exited within the range (from / to, YYYY-MM-DD).' },
     { method: 'GET', path: '/domains', description: 'List sending domains with verification status (DKIM, SPF, DMARC) and last check timestamps.' },
     { method: 'POST', path: '/domains', description: 'Add a new sending domain. Returns DNS records that must be configured before verification.' },
     { method: 'POST', path: '/domains/check', description: 'Trigger DNS verification for a pending domain. Returns updated status.' },
@@ -1617,6 +1618,8 @@ export default function DocsPage() {
                                                     { event: 'account.health_changed', desc: 'An account\'s health classification changes (Good, Fair, Poor).' },
                                                     { event: 'flow.email_sent', desc: 'An email step in a flow is executed for a user.' },
                                                     { event: 'flow.completed', desc: 'A user completes all steps in a flow.' },
+                                                    { event: 'segment.entered', desc: 'A user starts matching a segment, on a new event or the scheduled re-evaluation.' },
+                                                    { event: 'segment.exited', desc: 'A user stops matching a segment, on a new event or the scheduled re-evaluation.' },
                                                     { event: 'revenue.subscription_changed', desc: 'A subscription is created, upgraded, downgraded, or cancelled.' },
                                                 ].map((w) => (
                                                     <TableRow key={w.event}>
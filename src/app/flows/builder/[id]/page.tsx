@@ -9,7 +9,7 @@
 
 import React, { useState, useEffect, useCallback, use } from 'react';
 import { FlowBuilderCanvas } from '@/components/flow-builder';
-import type { FlowDefinition } from '@/lib/definitions';
+import type { FlowDefinition, FlowVersionMigration } from '@/lib/definitions';
 import { useRouter } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 
@@ -45,11 +45,11 @@ export default function FlowBuilderPage({ params }: { params: Promise<{ id: stri
     }, [id]);
 
     /* ── Save Flow ──────────────────────────────────────────── */
-    const handleSave = useCallback(async (updated: FlowDefinition) => {
+    const handleSave = useCallback(async (updated: FlowDefinition, migration?: FlowVersionMigration) => {
         const res = await fetch(`/api/v1/flow-definitions/${id}`, {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(updated),
+            body: JSON.stringify(migration ? { ...updated, migration } : updated),
         });
         if (!res.ok) throw new Error('Save failed');
         const json = await res.json();
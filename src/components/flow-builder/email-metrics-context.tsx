@@ -0,0 +1,21 @@
+/* ==========================================================================
+ * Email Step Metrics Context - Flow Builder
+ *
+ * Provides per-node email engagement (FlowMetrics.emailSteps) to flow node
+ * components. Like the integration warnings, the stats are kept out of
+ * node.data so they are never saved back into the graph.
+ * ========================================================================== */
+
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { FlowEmailStepMetrics } from '@/lib/definitions';
+
+const EmailStepMetricsContext = createContext<Record<string, FlowEmailStepMetrics>>({});
+
+export const EmailStepMetricsProvider = EmailStepMetricsContext.Provider;
+
+/** Read the email engagement of a send_email node. Returns undefined if none. */
+export function useEmailStepMetrics(nodeId: string): FlowEmailStepMetrics | undefined {
+    return useContext(EmailStepMetricsContext)[nodeId];
+}
@@ -39,21 +39,27 @@ import type {
     TriggerKind,
     ActionKind,
     DelayKind,
+    FlowVersionMigration,
+    FlowVersionSummary,
 } from '@/lib/definitions';
+import { flowGraphFingerprint } from '@/lib/engine/flow';
+import { flattenRules } from '@/lib/engine/rule-groups';
 import { flowNodeTypes } from './flow-nodes';
 import { flowEdgeTypes } from './flow-edges';
 import { NodePalette } from './node-palette';
 import { PropertyPanel } from './property-panel';
+import { SimulatorPanel } from './simulator-panel';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import {
     Save, Play, Pause, RotateCcw, ArrowLeft, Check,
-    Settings2, AlertTriangle, CloudOff,
+    Settings2, AlertTriangle, CloudOff, FlaskConical,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useIntegrationStatus } from '@/hooks/use-integration-status';
 import { IntegrationWarningsProvider } from './integration-context';
+import { EmailStepMetricsProvider } from './email-metrics-context';
 import {
     Dialog, DialogContent, DialogDescription, DialogHeader,
     DialogTitle, DialogFooter,
@@ -61,12 +67,16 @@ import {
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
 
 /* ── Props ───────────────────────────────────────────────────────────── */
 
 interface FlowBuilderCanvasProps {
     flow: FlowDefinition;
-    onSave: (flow: FlowDefinition) => Promise<void>;
+    /** `migration` is set when saving publishes a new version over in-flight enrollments */
+    onSave: (flow: FlowDefinition, migration?: FlowVersionMigration) => Promise<void>;
     onBack: () => void;
 }
 
@@ -161,6 +171,34 @@ function toFlowEdges(edges: Edge[]): FlowEdgeDef[] {
 
 /* ── Status Badge ────────────────────────────────────────────────────── */
 
+/* ── Version Migration ───────────────────────────────────────────────── */
+
+/** Select value for "leave these enrollments on their version" (Radix disallows '') */
+const DRAIN_NODE = '__drain__';
+
+interface InFlightNode {
+    nodeId: string;
+    label: string;
+    count: number;
+}
+
+/** In-flight enrollments across all published versions, per node they wait on. */
+function collectInFlightNodes(versions: FlowVersionSummary[]): InFlightNode[] {
+    const byNode = new Map<string, InFlightNode>();
+    for (const version of versions) {
+        for (const [nodeId, count] of Object.entries(version.inFlight)) {
+            const entry = byNode.get(nodeId) ?? {
+                nodeId,
+                label: version.nodes.find((n) => n.id === nodeId)?.data.label ?? nodeId,
+                count: 0,
+            };
+            entry.count += count;
+            byNode.set(nodeId, entry);
+        }
+    }
+    return [...byNode.values()];
+}
+
 const statusStyles: Record<FlowBuilderStatus, string> = {
     draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
     active: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
@@ -210,6 +248,17 @@ function validateFlow(nodes: Node[], edges: Edge[]): ValidationIssue[] {
             if (cfg.kind === 'send_webhook' && !cfg.webhookUrl) {
                 issues.push({ severity: 'warning', nodeId: node.id, message: `"${data.label}" has no webhook URL configured` });
             }
+            if (cfg.kind === 'api_call' && !cfg.apiUrl) {
+                issues.push({ severity: 'error', nodeId: node.id, message: `"${data.label}" has no API URL configured` });
+            }
+            if (cfg.kind === 'assign_segment' && !cfg.segmentId) {
+                issues.push({ severity: 'error', nodeId: node.id, message: `"${data.label}" needs a static segment` });
+            }
+        }
+
+        // Validate trigger node configurations
+        if (data.nodeType === 'trigger' && data.triggerConfig?.kind === 'webhook_received' && !data.triggerConfig.webhookPath?.trim()) {
+            issues.push({ severity: 'error', nodeId: node.id, message: `"${data.label}" needs a webhook path` });
         }
 
         // Validate delay node configurations
@@ -221,6 +270,15 @@ function validateFlow(nodes: Node[], edges: Edge[]): ValidationIssue[] {
             if (cfg.kind === 'until_event' && !cfg.waitForEvent) {
                 issues.push({ severity: 'warning', nodeId: node.id, message: `"${data.label}" has no event name configured` });
             }
+            if (cfg.kind === 'until_event' && hasOut) {
+                const wired = (handle: string) => edges.some((e) => e.source === node.id && e.sourceHandle === handle);
+                if (!wired('event')) {
+                    issues.push({ severity: 'warning', nodeId: node.id, message: `"${data.label}" has no "event received" path - users who do the event exit the flow` });
+                }
+                if (!wired('timeout')) {
+                    issues.push({ severity: 'warning', nodeId: node.id, message: `"${data.label}" has no "timed out" path - timed-out users exit the flow` });
+                }
+            }
         }
     }
 
@@ -248,6 +306,12 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
     const [settingsOpen, setSettingsOpen] = useState(false);
     const [flowSettings, setFlowSettings] = useState(flow.settings);
     const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+    const [migrationOpen, setMigrationOpen] = useState(false);
+    const [inFlightNodes, setInFlightNodes] = useState<InFlightNode[]>([]);
+    const [migrationStrategy, setMigrationStrategy] = useState<FlowVersionMigration['strategy']>('drain');
+    const [migrationNodeMap, setMigrationNodeMap] = useState<Record<string, string>>({});
+    const [simulatorOpen, setSimulatorOpen] = useState(false);
+    const [simulatedPath, setSimulatedPath] = useState<Set<string>>(new Set());
 
     const rfInstance = useRef<ReactFlowInstance | null>(null);
     const canvasRef = useRef<HTMLDivElement>(null);
@@ -264,6 +328,29 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
         setValidationIssues(issues);
     }, [nodes, edges]);
 
+    /* ── Pick up webhook signing secrets issued on save ────── */
+    // Only the save that issues a secret returns it unmasked
+    useEffect(() => {
+        const issued = new Map<string, string>();
+        for (const n of flow.nodes) {
+            const secret = n.data.triggerConfig?.webhookSecret;
+            if (secret) issued.set(n.id, secret);
+        }
+        if (!issued.size) return;
+        setNodes((nds) => {
+            const stale = nds.some((n) => {
+                const cfg = (n.data as unknown as FlowNodeData).triggerConfig;
+                return issued.has(n.id) && cfg?.kind === 'webhook_received' && !cfg.webhookSecret;
+            });
+            if (!stale) return nds;
+            return nds.map((n) => {
+                const cfg = (n.data as unknown as FlowNodeData).triggerConfig;
+                if (!issued.has(n.id) || !cfg || cfg.webhookSecret) return n;
+                return { ...n, data: { ...n.data, triggerConfig: { ...cfg, webhookSecret: issued.get(n.id) } } };
+            });
+        });
+    }, [flow.nodes, setNodes]);
+
     /* ── Autosave: debounce 3 s after any change ───────────── */
     useEffect(() => {
         // Skip the initial mount - nothing has actually changed yet
@@ -271,6 +358,8 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
             isInitialMount.current = false;
             return;
         }
+        // Saving an active flow publishes a version: only on explicit Save
+        if (flow.status === 'active' || flowStatus === 'active') return;
 
         if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
 
@@ -281,7 +370,7 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
         return () => {
             if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
         };
-    }, [nodes, edges, flowName, flowDescription, flowStatus, flowSettings]);
+    }, [nodes, edges, flowName, flowDescription, flowStatus, flowSettings, flow.status]);
 
     /* ── Warn on unload when dirty ─────────────────────────── */
     useEffect(() => {
@@ -308,7 +397,7 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
             } else if (data.nodeType === 'action' && data.actionConfig?.kind) {
                 nodeKey = `action:${data.actionConfig.kind}`;
             } else if (data.nodeType === 'condition' && data.conditionConfig?.rules?.length) {
-                const firstField = data.conditionConfig.rules[0]?.field ?? '';
+                const firstField = flattenRules(data.conditionConfig.rules)[0]?.field ?? '';
                 if (firstField.startsWith('account.')) {
                     nodeKey = 'condition:account_property';
                 } else if (firstField.startsWith('event.')) {
@@ -352,12 +441,26 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
         return [...validationIssues, ...intIssues];
     }, [validationIssues, integrationWarningsMap, nodes, integration]);
 
+    const emailStepMetrics = useMemo(() => flow.metrics.emailSteps ?? {}, [flow.metrics.emailSteps]);
+
     /* ── Selected Node ──────────────────────────────────────── */
     const selectedNode = useMemo(
         () => (selectedNodeId ? nodes.find((n) => n.id === selectedNodeId) as FlowNodeDef | undefined : null),
         [nodes, selectedNodeId],
     );
 
+    /* ── Dry Run ───────────────────────────────────────────── */
+    // Nodes the last simulation visited are outlined on the canvas
+    const displayNodes = useMemo(
+        () => (simulatedPath.size
+            ? nodes.map((n) => (simulatedPath.has(n.id)
+                ? { ...n, className: cn(n.className, 'ring-2 ring-teal-500 ring-offset-2 rounded-lg') }
+                : n))
+            : nodes),
+        [nodes, simulatedPath],
+    );
+    const showSimulatedPath = useCallback((nodeIds: string[]) => setSimulatedPath(new Set(nodeIds)), []);
+
     /* ── Callbacks ──────────────────────────────────────────── */
 
     const onConnect = useCallback((conn: Connection) => {
@@ -438,7 +541,7 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
 
     /* ── Save ──────────────────────────────────────────────── */
 
-    const handleSave = useCallback(async () => {
+    const persist = useCallback(async (migration?: FlowVersionMigration) => {
         setSaving(true);
         try {
             const updated: FlowDefinition = {
@@ -446,22 +549,57 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
                 name: flowName,
                 description: flowDescription,
                 status: flowStatus,
-                version: flow.version + 1,
                 nodes: nodes as unknown as FlowNodeDef[],
                 edges: toFlowEdges(edges),
                 settings: flowSettings,
                 updatedAt: new Date().toISOString(),
                 publishedAt: flowStatus === 'active' ? new Date().toISOString() : flow.publishedAt,
             };
-            await onSave(updated);
+            await onSave(updated, migration);
             setDirty(false);
         } finally {
             setSaving(false);
         }
     }, [flow, flowName, flowDescription, flowStatus, flowSettings, nodes, edges, onSave]);
 
+    // A graph change to a running flow publishes a new version: ask what
+    // happens to the enrollments still in the old one(s)
+    const handleSave = useCallback(async () => {
+        const publishing = flow.status === 'active' && flowStatus === 'active'
+            && flowGraphFingerprint(flow) !== flowGraphFingerprint({
+                nodes: nodes as unknown as FlowNodeDef[],
+                edges: toFlowEdges(edges),
+                variables: flow.variables,
+            });
+        if (!publishing) return persist();
+
+        let inFlight: InFlightNode[] | null = null;
+        try {
+            const res = await fetch(`/api/v1/flow-definitions/${flow.id}/versions`);
+            if (res.ok) {
+                const json = await res.json();
+                inFlight = collectInFlightNodes(json.data.versions as FlowVersionSummary[]);
+            }
+        } catch {
+            // Fall through: without counts the dialog is still offered
+        }
+        if (inFlight?.length === 0) return persist();
+
+        setInFlightNodes(inFlight ?? []);
+        setMigrationStrategy('drain');
+        setMigrationNodeMap({});
+        setMigrationOpen(true);
+    }, [flow, flowStatus, nodes, edges, persist]);
+
+    const confirmMigration = useCallback(async () => {
+        setMigrationOpen(false);
+        await persist(migrationStrategy === 'migrate'
+            ? { strategy: 'migrate', nodeMap: migrationNodeMap }
+            : { strategy: 'drain' });
+    }, [persist, migrationStrategy, migrationNodeMap]);
+
     // Keep the ref in sync so the autosave timer always calls the latest version
-    handleSaveRef.current = handleSave;
+    handleSaveRef.current = persist;
 
     const toggleStatus = useCallback(() => {
         setFlowStatus((s) => (s === 'active' ? 'paused' : 'active'));
@@ -583,6 +721,15 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
                             </Badge>
                         )}
 
+                        <Button
+                            variant={simulatorOpen ? 'secondary' : 'ghost'}
+                            size="sm"
+                            onClick={() => { setSimulatorOpen((o) => !o); setSimulatedPath(new Set()); }}
+                            title="Dry-run this flow"
+                        >
+                            <FlaskConical className="h-4 w-4" />
+                        </Button>
+
                         <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)}>
                             <Settings2 className="h-4 w-4" />
                         </Button>
@@ -608,72 +755,119 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
                 {/* React Flow Canvas */}
                 <div ref={canvasRef} className="flex-1">
                     <IntegrationWarningsProvider value={integrationWarningsMap}>
-                        <ReactFlow
-                            nodes={nodes}
-                            edges={edges}
-                            onNodesChange={onNodesChange}
-                            onEdgesChange={onEdgesChange}
-                            onConnect={onConnect}
-                            onNodeClick={onNodeClick}
-                            onPaneClick={onPaneClick}
-                            onInit={(inst) => { rfInstance.current = inst; }}
-                            onDragOver={onDragOver}
-                            onDrop={onDrop}
-                            nodeTypes={flowNodeTypes}
-                            edgeTypes={flowEdgeTypes}
-                            connectionMode={ConnectionMode.Loose}
-                            defaultEdgeOptions={{
-                                type: 'flow',
-                                markerEnd: { type: MarkerType.ArrowClosed, width: 10, height: 10, color: '#94a3b8' },
-                                style: { strokeWidth: 1.75 },
-                            }}
-                            proOptions={{ hideAttribution: true }}
-                            fitView
-                            fitViewOptions={{ padding: 0.2 }}
-                            snapToGrid
-                            snapGrid={[20, 20]}
-                            deleteKeyCode="Delete"
-                            className="bg-dots-pattern"
-                        >
-                            <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
-                            <Controls showInteractive={false} />
-                            <MiniMap
-                                nodeColor={minimapNodeColor}
-                                maskColor="rgba(0,0,0,0.08)"
-                                className="!bg-card !border"
-                                pannable
-                                zoomable
-                            />
+                        <EmailStepMetricsProvider value={emailStepMetrics}>
+                            <ReactFlow
+                                nodes={displayNodes}
+                                edges={edges}
+                                onNodesChange={onNodesChange}
+                                onEdgesChange={onEdgesChange}
+                                onConnect={onConnect}
+                                onNodeClick={onNodeClick}
+                                onPaneClick={onPaneClick}
+                                onInit={(inst) => { rfInstance.current = inst; }}
+                                onDragOver={onDragOver}
+                                onDrop={onDrop}
+                                nodeTypes={flowNodeTypes}
+                                edgeTypes={flowEdgeTypes}
+                                connectionMode={ConnectionMode.Loose}
+                                defaultEdgeOptions={{
+                                    type: 'flow',
+                                    markerEnd: { type: MarkerType.ArrowClosed, width: 10, height: 10, color: '#94a3b8' },
+                                    style: { strokeWidth: 1.75 },
+                                }}
+                                proOptions={{ hideAttribution: true }}
+                                fitView
+                                fitViewOptions={{ padding: 0.2 }}
+                                snapToGrid
+                                snapGrid={[20, 20]}
+                                deleteKeyCode="Delete"
+                                className="bg-dots-pattern"
+                            >
+                                <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
+                                <Controls showInteractive={false} />
+                                <MiniMap
+                                    nodeColor={minimapNodeColor}
+                                    maskColor="rgba(0,0,0,0.08)"
+                                    className="!bg-card !border"
+                                    pannable
+                                    zoomable
+                                />
 
-                            {/* Stats Panel */}
-                            <Panel position="bottom-left" className="!m-3">
-                                <div className="flex items-center gap-3 px-3 py-1.5 rounded-lg bg-card border text-xs text-muted-foreground shadow-sm">
-                                    <span>{nodes.length} nodes</span>
-                                    <span>·</span>
-                                    <span>{edges.length} edges</span>
-                                    {flow.metrics.totalEnrolled > 0 && (
-                                        <>
-                                            <span>·</span>
-                                            <span>{flow.metrics.totalEnrolled.toLocaleString()} enrolled</span>
-                                            <span>·</span>
-                                            <span>{flow.metrics.currentlyActive.toLocaleString()} active</span>
-                                        </>
-                                    )}
-                                </div>
-                            </Panel>
-                        </ReactFlow>
+                                {/* Stats Panel */}
+                                <Panel position="bottom-left" className="!m-3">
+                                    <div className="flex items-center gap-3 px-3 py-1.5 rounded-lg bg-card border text-xs text-muted-foreground shadow-sm">
+                                        <span>{nodes.length} nodes</span>
+                                        <span>·</span>
+                                        <span>{edges.length} edges</span>
+                                        {flow.metrics.totalEnrolled > 0 && (
+                                            <>
+                                                <span>·</span>
+                                                <span>{flow.metrics.totalEnrolled.toLocaleString()} enrolled</span>
+                                                <span>·</span>
+                                                <span>{flow.metrics.currentlyActive.toLocaleString()} active</span>
+                                            </>
+                                        )}
+                                        {flow.metrics.goalReached > 0 && (
+                                            <>
+                                                <span>·</span>
+                                                <span>{flow.metrics.goalReached.toLocaleString()} converted</span>
+                                            </>
+                                        )}
+                                        {Object.keys(emailStepMetrics).length > 0 && (
+                                            <>
+                                                <span>·</span>
+                                                <span>{flow.metrics.openRate}% open</span>
+                                                <span>·</span>
+                                                <span>{flow.metrics.clickRate}% click</span>
+                                            </>
+                                        )}
+                                        {(flow.metrics.enrollmentsRefused ?? 0) > 0 && (
+                                            <>
+                                                <span>·</span>
+                                                <span>{flow.metrics.enrollmentsRefused!.toLocaleString()} refused (cap)</span>
+                                            </>
+                                        )}
+                                        {(flow.metrics.quietHoursDeferrals ?? 0) > 0 && (
+                                            <>
+                                                <span>·</span>
+                                                <span>{flow.metrics.quietHoursDeferrals!.toLocaleString()} quiet-hours deferrals</span>
+                                            </>
+                                        )}
+                                        {(flow.metrics.autoExited ?? 0) > 0 && (
+                                            <>
+                                                <span>·</span>
+                                                <span>{flow.metrics.autoExited!.toLocaleString()} auto-exited</span>
+                                            </>
+                                        )}
+                                    </div>
+                                </Panel>
+                            </ReactFlow>
+                        </EmailStepMetricsProvider>
                     </IntegrationWarningsProvider>
                 </div>
             </div>
 
-            {/* Right: Property Panel */}
-            <PropertyPanel
-                node={selectedNode ?? null}
-                allNodes={nodes as unknown as FlowNodeDef[]}
-                onUpdate={updateNodeData}
-                onDelete={deleteNode}
-                onClose={() => setSelectedNodeId(null)}
-            />
+            {/* Right: Simulator or Property Panel */}
+            {simulatorOpen ? (
+                <SimulatorPanel
+                    flowId={flow.id}
+                    nodes={nodes as unknown as FlowNodeDef[]}
+                    edges={toFlowEdges(edges)}
+                    settings={flowSettings}
+                    onPath={showSimulatedPath}
+                    onSelectNode={setSelectedNodeId}
+                    onClose={() => setSimulatorOpen(false)}
+                />
+            ) : (
+                <PropertyPanel
+                    node={selectedNode ?? null}
+                    allNodes={nodes as unknown as FlowNodeDef[]}
+                    orgId={flow.organizationId}
+                    onUpdate={updateNodeData}
+                    onDelete={deleteNode}
+                    onClose={() => setSelectedNodeId(null)}
+                />
+            )}
 
             {/* Settings Dialog */}
             <Dialog open={settingsOpen} onOpenChange={setSettingsOpen}>
@@ -741,6 +935,27 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
                                 className="h-8 text-sm"
                             />
                         </div>
+                        {flowSettings.goalEvent && (
+                            <div className="grid grid-cols-2 gap-3 items-end">
+                                <div>
+                                    <Label className="text-xs">Goal Window (minutes, 0 = no limit)</Label>
+                                    <Input
+                                        type="number"
+                                        value={flowSettings.goalTimeout ?? 0}
+                                        onChange={(e) => { setFlowSettings((s) => ({ ...s, goalTimeout: Number(e.target.value) || undefined })); setDirty(true); }}
+                                        className="h-8 text-sm"
+                                        min={0}
+                                    />
+                                </div>
+                                <div className="flex items-center justify-between h-8">
+                                    <Label className="text-xs">Exit on Goal</Label>
+                                    <Switch
+                                        checked={flowSettings.exitOnGoal ?? false}
+                                        onCheckedChange={(v) => { setFlowSettings((s) => ({ ...s, exitOnGoal: v })); setDirty(true); }}
+                                    />
+                                </div>
+                            </div>
+                        )}
                         <div className="flex items-center justify-between">
                             <Label className="text-xs">Respect Quiet Hours</Label>
                             <Switch
@@ -782,6 +997,64 @@ export function FlowBuilderCanvas({ flow, onSave, onBack }: FlowBuilderCanvasPro
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {/* Version Migration Dialog */}
+            <Dialog open={migrationOpen} onOpenChange={setMigrationOpen}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Publish v{flow.version + 1}</DialogTitle>
+                        <DialogDescription>
+                            New enrollments will start on the new version. Choose what happens to the
+                            {' '}{inFlightNodes.reduce((sum, n) => sum + n.count, 0) || 'existing'} enrollment(s) still in progress.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-2">
+                        <Select value={migrationStrategy} onValueChange={(v) => setMigrationStrategy(v as FlowVersionMigration['strategy'])}>
+                            <SelectTrigger className="h-8 text-sm"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="drain">Drain: let them finish on the version they started</SelectItem>
+                                <SelectItem value="migrate">Migrate: move them onto the new version</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        {migrationStrategy === 'migrate' && inFlightNodes.length > 0 && (
+                            <div className="space-y-2">
+                                <Label className="text-xs">Where enrollments continue</Label>
+                                {inFlightNodes.map((source) => {
+                                    const kept = nodes.some((n) => n.id === source.nodeId);
+                                    return (
+                                        <div key={source.nodeId} className="grid grid-cols-2 gap-2 items-center">
+                                            <span className="text-xs truncate" title={source.nodeId}>
+                                                {source.label} <span className="text-muted-foreground">({source.count})</span>
+                                            </span>
+                                            <Select
+                                                value={migrationNodeMap[source.nodeId] ?? (kept ? source.nodeId : DRAIN_NODE)}
+                                                onValueChange={(v) => setMigrationNodeMap((m) => ({ ...m, [source.nodeId]: v === DRAIN_NODE ? '' : v }))}
+                                            >
+                                                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={DRAIN_NODE}>Keep draining</SelectItem>
+                                                    {nodes.filter((n) => n.type !== 'trigger').map((n) => (
+                                                        <SelectItem key={n.id} value={n.id}>
+                                                            {(n.data as unknown as FlowNodeData).label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    );
+                                })}
+                                <p className="text-[11px] text-muted-foreground">
+                                    Steps that still exist map to themselves. Enrollments moved to a different kind of step run it right away.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setMigrationOpen(false)}>Cancel</Button>
+                        <Button onClick={confirmMigration} disabled={saving}>Publish</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 }
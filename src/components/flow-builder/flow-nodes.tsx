@@ -10,12 +10,14 @@
 
 import React, { memo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
-import type { FlowNodeData } from '@/lib/definitions';
+import type { FlowEmailStepMetrics, FlowNodeData, SplitNodeConfig } from '@/lib/definitions';
 import { cn } from '@/lib/utils';
+import { flattenRules } from '@/lib/engine/rule-groups';
 import { useIntegrationWarning } from './integration-context';
+import { useEmailStepMetrics } from './email-metrics-context';
 import {
     Zap, Mail, Clock, GitBranch, Split, Filter, CornerDownRight,
-    XCircle, Bell, Webhook, Tag, UserCog, Variable, Server,
+    XCircle, Bell, Webhook, Tag, UserCog, Variable, Server, Trophy, Users,
 } from 'lucide-react';
 
 /* ── Shared Styles ───────────────────────────────────────────────────── */
@@ -39,6 +41,7 @@ function getActionIcon(kind?: string) {
         case 'send_email': return <Mail className="h-3.5 w-3.5" />;
         case 'send_webhook': return <Webhook className="h-3.5 w-3.5" />;
         case 'add_tag': case 'remove_tag': return <Tag className="h-3.5 w-3.5" />;
+        case 'assign_segment': return <Users className="h-3.5 w-3.5" />;
         case 'update_user': return <UserCog className="h-3.5 w-3.5" />;
         case 'set_variable': return <Variable className="h-3.5 w-3.5" />;
         case 'send_notification': return <Bell className="h-3.5 w-3.5" />;
@@ -112,6 +115,7 @@ function getNodeSummary(data: FlowNodeData): string {
                 case 'send_webhook': return cfg.webhookUrl ? truncate(cfg.webhookUrl, 40) : 'Configure webhook';
                 case 'add_tag': return `Add: ${cfg.tag ?? '-'}`;
                 case 'remove_tag': return `Remove: ${cfg.tag ?? '-'}`;
+                case 'assign_segment': return cfg.segmentId ? 'Add to static segment' : 'Select a segment';
                 case 'update_user': return `Update ${Object.keys(cfg.userProperties ?? {}).length} properties`;
                 case 'set_variable': return `${cfg.variableKey ?? '-'} = ${truncate(String(cfg.variableValue ?? ''), 20)}`;
                 case 'create_task': return cfg.taskTitle ? truncate(cfg.taskTitle, 40) : 'Configure task';
@@ -122,9 +126,11 @@ function getNodeSummary(data: FlowNodeData): string {
         }
         case 'condition': {
             const cfg = data.conditionConfig;
-            if (!cfg?.rules?.length) return 'Configure condition';
-            const r = cfg.rules[0];
-            return `${r.field} ${r.operator} ${r.value ?? ''}`;
+            const rules = flattenRules(cfg?.rules);
+            if (!rules.length) return 'Configure condition';
+            const r = rules[0];
+            const more = rules.length > 1 ? ` (+${rules.length - 1} more)` : '';
+            return `${r.field} ${r.operator} ${r.value ?? ''}${more}`;
         }
         case 'delay': {
             const cfg = data.delayConfig;
@@ -141,12 +147,15 @@ function getNodeSummary(data: FlowNodeData): string {
         case 'split': {
             const cfg = data.splitConfig;
             if (!cfg?.variants?.length) return 'Configure A/B test';
+            const winner = cfg.winnerId ? cfg.variants.find((v) => v.id === cfg.winnerId) : undefined;
+            if (winner) return `Winner: ${winner.label} → 100% of new enrollees`;
             return cfg.variants.map((v) => `${v.label}: ${v.percentage}%`).join(' / ');
         }
         case 'filter': {
             const cfg = data.filterConfig;
-            if (!cfg?.rules?.length) return 'Configure filter';
-            return `${cfg.rules.length} rule(s), ${cfg.logic}`;
+            const rules = flattenRules(cfg?.rules);
+            if (!cfg || !rules.length) return 'Configure filter';
+            return `${rules.length} rule(s), ${cfg.logic}`;
         }
         case 'goto': return data.goToConfig?.targetNodeId ? `→ ${data.goToConfig.targetNodeId}` : 'Set target';
         case 'exit': return data.exitConfig?.reason ?? 'Flow ends here';
@@ -186,6 +195,56 @@ function MetricBadge({ entered, completed }: { entered: number; completed: numbe
     );
 }
 
+/* ── Email Step Stats ────────────────────────────────────────────────── */
+
+function EmailStats({ sent, opens, clicks }: FlowEmailStepMetrics) {
+    if (!sent) return null;
+    const pct = (n: number) => Math.round((n / sent) * 1000) / 10;
+    return (
+        <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground mt-1">
+            <span>{sent.toLocaleString()} sent</span>
+            <span>·</span>
+            <span>{pct(opens)}% open</span>
+            <span>·</span>
+            <span>{pct(clicks)}% click</span>
+        </div>
+    );
+}
+
+/* ── Split Variant Stats ─────────────────────────────────────────────── */
+
+const splitMetricLabel: Record<NonNullable<SplitNodeConfig['winnerMetric']>, string> = {
+    open_rate: 'open',
+    click_rate: 'click',
+    conversion_rate: 'conv',
+};
+
+function SplitStats({ config }: { config: SplitNodeConfig }) {
+    if (!config.variants.some((v) => v.stats?.enrolled)) return null;
+    const metric = config.winnerMetric ?? 'conversion_rate';
+    return (
+        <div className="mt-1.5 space-y-0.5">
+            {config.variants.map((v) => {
+                const stats = v.stats ?? { enrolled: 0, opens: 0, clicks: 0, conversions: 0 };
+                const hits = metric === 'open_rate' ? stats.opens : metric === 'click_rate' ? stats.clicks : stats.conversions;
+                const rate = stats.enrolled ? (hits / stats.enrolled) * 100 : 0;
+                const isWinner = config.winnerId === v.id;
+                return (
+                    <div key={v.id} className={cn('flex items-center justify-between text-[10px]', isWinner ? 'font-semibold text-green-600' : 'text-muted-foreground')}>
+                        <span className="flex items-center gap-0.5">{isWinner && <Trophy className="h-3 w-3" />}{v.label}</span>
+                        <span>{stats.enrolled.toLocaleString()} · {rate.toFixed(1)}% {splitMetricLabel[metric]}</span>
+                    </div>
+                );
+            })}
+            {config.winnerId && config.winnerConfidence !== undefined && (
+                <p className="text-[10px] text-muted-foreground">
+                    Picked {config.winnerDecidedAt ? new Date(config.winnerDecidedAt).toLocaleDateString() : ''} at {(config.winnerConfidence * 100).toFixed(1)}% confidence
+                </p>
+            )}
+        </div>
+    );
+}
+
 /* ── Handle Styles ───────────────────────────────────────────────────── */
 
 const handleClass = '!w-3 !h-3 !bg-background !border-2 !border-muted-foreground/50 hover:!border-primary !rounded-full transition-colors';
@@ -202,6 +261,7 @@ function BaseFlowNode({ id, data, selected }: FlowNodeProps) {
     const config = typeConfig[data.nodeType] ?? typeConfig.action;
     const summary = getNodeSummary(data);
     const integrationWarning = useIntegrationWarning(id);
+    const emailMetrics = useEmailStepMetrics(id);
 
     return (
         <div className={cn(
@@ -238,6 +298,8 @@ function BaseFlowNode({ id, data, selected }: FlowNodeProps) {
 
                 {/* Metrics */}
                 {data.metrics && <MetricBadge entered={data.metrics.entered} completed={data.metrics.completed} />}
+                {emailMetrics && <EmailStats {...emailMetrics} />}
+                {data.nodeType === 'split' && data.splitConfig && <SplitStats config={data.splitConfig} />}
 
                 {/* Integration Warning */}
                 {integrationWarning && (
@@ -258,6 +320,24 @@ function BaseFlowNode({ id, data, selected }: FlowNodeProps) {
                         <span className="text-red-500">NO</span>
                     </div>
                 </>
+            ) : data.nodeType === 'delay' && data.delayConfig?.kind === 'until_event' ? (
+                <>
+                    <Handle type="source" position={Position.Bottom} id="event" className={handleClass} style={{ left: '30%' }} />
+                    <Handle type="source" position={Position.Bottom} id="timeout" className={handleClass} style={{ left: '70%' }} />
+                    <div className="flex justify-between px-4 pb-1 text-[9px] font-medium text-muted-foreground">
+                        <span className="text-green-600">RECEIVED</span>
+                        <span className="text-amber-600">TIMED OUT</span>
+                    </div>
+                </>
+            ) : data.nodeType === 'action' && data.actionConfig?.kind === 'api_call' ? (
+                <>
+                    <Handle type="source" position={Position.Bottom} id="success" className={handleClass} style={{ left: '30%' }} />
+                    <Handle type="source" position={Position.Bottom} id="failure" className={handleClass} style={{ left: '70%' }} />
+                    <div className="flex justify-between px-4 pb-1 text-[9px] font-medium text-muted-foreground">
+                        <span className="text-green-600">SUCCESS</span>
+                        <span className="text-red-500">FAILED</span>
+                    </div>
+                </>
             ) : data.nodeType === 'split' ? (
                 <>
                     {(data.splitConfig?.variants ?? []).map((v, i) => (
@@ -1,4 +1,5 @@
 export { FlowBuilderCanvas } from './flow-canvas';
 export { NodePalette } from './node-palette';
 export { PropertyPanel } from './property-panel';
+export { SimulatorPanel } from './simulator-panel';
 export { flowNodeTypes } from './flow-nodes';
@@ -15,7 +15,7 @@ import { Separator } from '@/components/ui/separator';
 import {
     Zap, Mail, Clock, GitBranch, Split, Filter,
     CornerDownRight, XCircle, Webhook, Tag, UserCog,
-    Variable, Bell, Server, ListTodo,
+    Variable, Bell, Server, ListTodo, Users,
 } from 'lucide-react';
 
 /* ── Palette Item Definition ─────────────────────────────────────────── */
@@ -44,6 +44,7 @@ const paletteItems: PaletteItem[] = [
     { nodeType: 'action', label: 'Update User', description: 'Set user properties', icon: <UserCog className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'update_user' },
     { nodeType: 'action', label: 'Add Tag', description: 'Tag the user', icon: <Tag className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'add_tag' },
     { nodeType: 'action', label: 'Remove Tag', description: 'Remove a user tag', icon: <Tag className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'remove_tag' },
+    { nodeType: 'action', label: 'Add to Segment', description: 'Add the user to a static segment', icon: <Users className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'assign_segment' },
     { nodeType: 'action', label: 'Set Variable', description: 'Set a flow variable', icon: <Variable className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'set_variable' },
     { nodeType: 'action', label: 'API Call', description: 'Call any REST API', icon: <Server className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'api_call' },
     { nodeType: 'action', label: 'Create Task', description: 'Create a team task', icon: <ListTodo className="h-4 w-4" />, color: 'text-blue-600 bg-blue-100 dark:bg-blue-950/40 dark:text-blue-400', category: 'actions', defaultKind: 'create_task' },
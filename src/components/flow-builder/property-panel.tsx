@@ -15,6 +15,8 @@ import type {
     ActionNodeConfig,
     ConditionNodeConfig,
     ConditionRule,
+    RuleGroup,
+    RuleNode,
     DelayNodeConfig,
     SplitNodeConfig,
     SplitVariant,
@@ -27,6 +29,7 @@ import type {
     DelayKind,
     FlowNodeDef,
 } from '@/lib/definitions';
+import { isRuleGroup, MAX_RULE_GROUP_DEPTH } from '@/lib/engine/rule-groups';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -45,6 +48,8 @@ import { Plus, Trash2, X, FileText, Pencil, Loader2, ExternalLink } from 'lucide
 interface PropertyPanelProps {
     node: FlowNodeDef | null;
     allNodes: FlowNodeDef[];
+    /** The flow's org, part of inbound webhook URLs */
+    orgId?: string;
     onUpdate: (nodeId: string, data: Partial<FlowNodeData>) => void;
     onDelete: (nodeId: string) => void;
     onClose: () => void;
@@ -52,7 +57,7 @@ interface PropertyPanelProps {
 
 /* ── Main Component ──────────────────────────────────────────────────── */
 
-export function PropertyPanel({ node, allNodes, onUpdate, onDelete, onClose }: PropertyPanelProps) {
+export function PropertyPanel({ node, allNodes, orgId, onUpdate, onDelete, onClose }: PropertyPanelProps) {
     if (!node) {
         return (
             <div className="w-80 border-l bg-card flex items-center justify-center">
@@ -109,6 +114,7 @@ export function PropertyPanel({ node, allNodes, onUpdate, onDelete, onClose }: P
                     {data.nodeType === 'trigger' && (
                         <TriggerConfig
                             config={data.triggerConfig ?? { kind: 'lifecycle_change', allowReEntry: false }}
+                            orgId={orgId}
                             onChange={(c) => update({ triggerConfig: c })}
                         />
                     )}
@@ -398,7 +404,33 @@ function ScheduleBuilder({ value, onChange }: { value: string; onChange: (cron:
 
 /* ── Trigger ─────────────────────────────────────────────────────────── */
 
-function TriggerConfig({ config, onChange }: { config: TriggerNodeConfig; onChange: (c: TriggerNodeConfig) => void }) {
+interface SegmentOption {
+    id: string;
+    name: string;
+    type: 'dynamic' | 'static' | 'computed';
+    matchedUserCount: number;
+}
+
+/** Sentinel Select value for "no segment" (Radix Select disallows ''). */
+const ALL_USERS = '__all__';
+
+function TriggerConfig({ config, orgId, onChange }: { config: TriggerNodeConfig; orgId?: string; onChange: (c: TriggerNodeConfig) => void }) {
+    const [segments, setSegments] = useState<SegmentOption[]>([]);
+    const [loadingSegments, setLoadingSegments] = useState(false);
+    const usesSegment = config.kind === 'segment_entry' || config.kind === 'schedule' || config.kind === 'date_property';
+
+    // Fetch segments for the segment picker
+    useEffect(() => {
+        if (usesSegment && segments.length === 0) {
+            setLoadingSegments(true);
+            fetch('/api/v1/segments?status=active')
+                .then(r => r.ok ? r.json() : { data: [] })
+                .then(j => setSegments(j.data ?? []))
+                .catch(() => { })
+                .finally(() => setLoadingSegments(false));
+        }
+    }, [usesSegment, segments.length]);
+
     const kinds: { value: TriggerKind; label: string }[] = [
         { value: 'lifecycle_change', label: 'Lifecycle Change' },
         { value: 'event_received', label: 'Event Received' },
@@ -475,6 +507,33 @@ function TriggerConfig({ config, onChange }: { config: TriggerNodeConfig; onChan
                 />
             )}
 
+            {usesSegment && (
+                <div>
+                    <Label className="text-xs">{config.kind === 'segment_entry' ? 'Segment' : 'Audience'}</Label>
+                    <Select
+                        value={config.segmentId ?? (config.kind === 'segment_entry' ? '' : ALL_USERS)}
+                        onValueChange={(v) => onChange({ ...config, segmentId: v === ALL_USERS ? undefined : v })}
+                    >
+                        <SelectTrigger className="h-8 text-sm">
+                            <SelectValue placeholder={loadingSegments ? 'Loading segments…' : 'Select a segment'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {config.kind !== 'segment_entry' && (
+                                <SelectItem value={ALL_USERS}>All tracked users</SelectItem>
+                            )}
+                            {segments.map((seg) => (
+                                <SelectItem key={seg.id} value={seg.id}>
+                                    {seg.name} ({seg.matchedUserCount})
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {config.kind === 'segment_entry' && !config.segmentId && (
+                        <p className="text-[10px] text-amber-600 mt-1">Pick the segment whose new members enter this flow.</p>
+                    )}
+                </div>
+            )}
+
             {config.kind === 'date_property' && (
                 <>
                     <div>
@@ -494,10 +553,83 @@ function TriggerConfig({ config, onChange }: { config: TriggerNodeConfig; onChan
                             onChange={(e) => onChange({ ...config, dateOffsetDays: Number(e.target.value) })}
                             className="h-8 text-sm"
                         />
+                        <p className="text-[10px] text-muted-foreground mt-1">
+                            Negative fires before the date. Checked daily at 09:00.
+                        </p>
+                    </div>
+                </>
+            )}
+
+            {config.kind === 'webhook_received' && (
+                <>
+                    <div>
+                        <Label className="text-xs">Webhook Path</Label>
+                        <Input
+                            value={config.webhookPath ?? ''}
+                            onChange={(e) => onChange({ ...config, webhookPath: e.target.value })}
+                            placeholder="billing-events"
+                            className="h-8 text-sm font-mono"
+                        />
+                        {config.webhookPath && (
+                            <p className="text-[10px] text-muted-foreground mt-1 break-all font-mono">
+                                POST {typeof window !== 'undefined' ? window.location.origin : ''}/api/v1/hooks/{orgId ?? '{orgId}'}/{config.webhookPath.replace(/^\/+|\/+$/g, '')}
+                            </p>
+                        )}
+                    </div>
+                    <div>
+                        <Label className="text-xs">User Identifier Field</Label>
+                        <Input
+                            value={config.webhookUserField ?? ''}
+                            onChange={(e) => onChange({ ...config, webhookUserField: e.target.value || undefined })}
+                            placeholder="userId (or e.g. customer.email)"
+                            className="h-8 text-sm font-mono"
+                        />
+                        <p className="text-[10px] text-muted-foreground mt-1">
+                            JSON path to the user&apos;s ID or email. The body is available as {'{{event.*}}'}.
+                        </p>
+                    </div>
+                    <div>
+                        <Label className="text-xs">Signing Secret</Label>
+                        {config.webhookSecret ? (
+                            <div className="flex items-center gap-1">
+                                <Input readOnly value={config.webhookSecret} className="h-8 text-xs font-mono" onFocus={(e) => e.target.select()} />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-8 px-2 text-xs"
+                                    onClick={() => onChange({ ...config, webhookSecret: '' })}
+                                    title="A new secret is issued when the flow is saved"
+                                >
+                                    Rotate
+                                </Button>
+                            </div>
+                        ) : (
+                            <p className="text-[10px] text-muted-foreground">A secret is generated when the flow is saved.</p>
+                        )}
+                        {config.webhookSecret?.startsWith('whsec_••••') && (
+                            <p className="text-[10px] text-muted-foreground mt-1">
+                                The full secret is only shown after the save that issues it. Rotate to get a new one.
+                            </p>
+                        )}
+                        <p className="text-[10px] text-muted-foreground mt-1">
+                            Sign requests with X-Lifecycle-Timestamp and X-Lifecycle-Signature (HMAC-SHA256 of &quot;timestamp.body&quot;).
+                        </p>
                     </div>
                 </>
             )}
 
+            {(config.kind === 'schedule' || config.kind === 'date_property') && (
+                <div>
+                    <Label className="text-xs">Timezone</Label>
+                    <Input
+                        value={config.timezone ?? 'UTC'}
+                        onChange={(e) => onChange({ ...config, timezone: e.target.value })}
+                        placeholder="e.g. America/New_York"
+                        className="h-8 text-sm"
+                    />
+                </div>
+            )}
+
             <div className="flex items-center justify-between">
                 <Label className="text-xs">Allow Re-entry</Label>
                 <Switch
@@ -601,12 +733,24 @@ function ActionConfig({ config, onChange }: { config: ActionNodeConfig; onChange
 
     const selectedTemplate = templates.find(t => t.id === config.emailTemplateId);
 
+    // Only static segments can have users assigned to them
+    const [staticSegments, setStaticSegments] = useState<SegmentOption[] | null>(null);
+    useEffect(() => {
+        if (config.kind === 'assign_segment' && staticSegments === null) {
+            fetch('/api/v1/segments?status=active')
+                .then(r => r.ok ? r.json() : { data: [] })
+                .then(j => setStaticSegments(((j.data ?? []) as SegmentOption[]).filter(seg => seg.type === 'static')))
+                .catch(() => setStaticSegments([]));
+        }
+    }, [config.kind, staticSegments]);
+
     const kinds: { value: ActionKind; label: string }[] = [
         { value: 'send_email', label: 'Send Email' },
         { value: 'send_webhook', label: 'Send Webhook' },
         { value: 'update_user', label: 'Update User' },
         { value: 'add_tag', label: 'Add Tag' },
         { value: 'remove_tag', label: 'Remove Tag' },
+        { value: 'assign_segment', label: 'Add to Segment' },
         { value: 'set_variable', label: 'Set Variable' },
         { value: 'api_call', label: 'API Call' },
         { value: 'create_task', label: 'Create Task' },
@@ -819,6 +963,30 @@ function ActionConfig({ config, onChange }: { config: ActionNodeConfig; onChange
                 </div>
             )}
 
+            {config.kind === 'assign_segment' && (
+                <div>
+                    <Label className="text-xs">Static Segment</Label>
+                    <Select
+                        value={config.segmentId ?? ''}
+                        onValueChange={(v) => onChange({ ...config, segmentId: v })}
+                    >
+                        <SelectTrigger className="h-8 text-sm">
+                            <SelectValue placeholder={staticSegments === null ? 'Loading segments…' : 'Select a segment'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(staticSegments ?? []).map((seg) => (
+                                <SelectItem key={seg.id} value={seg.id}>
+                                    {seg.name} ({seg.matchedUserCount})
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {staticSegments?.length === 0 && (
+                        <p className="text-[10px] text-amber-600 mt-1">No active static segments. Create one on the Segments page first.</p>
+                    )}
+                </div>
+            )}
+
             {config.kind === 'set_variable' && (
                 <div className="grid grid-cols-2 gap-2">
                     <div>
@@ -912,6 +1080,32 @@ function ActionConfig({ config, onChange }: { config: ActionNodeConfig; onChange
                             className="h-8 text-sm"
                         />
                     </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="col-span-2">
+                            <Label className="text-xs">Extract (JSONPath)</Label>
+                            <Input
+                                value={config.apiResponsePath ?? ''}
+                                onChange={(e) => onChange({ ...config, apiResponsePath: e.target.value || undefined })}
+                                placeholder="$.data.coupon.code"
+                                className="h-8 text-sm font-mono"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs">Timeout (s)</Label>
+                            <Input
+                                type="number"
+                                min={1}
+                                max={30}
+                                value={config.apiTimeoutSeconds ?? 10}
+                                onChange={(e) => onChange({ ...config, apiTimeoutSeconds: Number(e.target.value) || undefined })}
+                                className="h-8 text-sm"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                        Use the result as {'{{'}{config.apiResponseVariable || 'api_result'}{'}}'} (object fields as {'{{'}{config.apiResponseVariable || 'api_result'}.field{'}}'}).
+                        Non-2xx responses and timeouts take the FAILED branch, with {'{{api.status}}'} and {'{{api.error}}'} set.
+                    </p>
                 </>
             )}
 
@@ -1005,49 +1199,87 @@ function RuleEditor({ rule, onChange, onDelete }: { rule: ConditionRule; onChang
     );
 }
 
-function ConditionConfig({ config, onChange }: { config: ConditionNodeConfig; onChange: (c: ConditionNodeConfig) => void }) {
-    const addRule = () => {
-        onChange({
-            ...config,
-            rules: [...config.rules, { field: '', operator: 'equals', value: '' }],
-        });
-    };
-
-    const updateRule = (i: number, rule: ConditionRule) => {
-        const rules = [...config.rules];
-        rules[i] = rule;
-        onChange({ ...config, rules });
-    };
-
-    const deleteRule = (i: number) => {
-        onChange({ ...config, rules: config.rules.filter((_, idx) => idx !== i) });
-    };
+function RuleGroupEditor({ group, depth, onChange, onDelete }: {
+    group: RuleGroup<ConditionRule>;
+    depth: number;
+    onChange: (g: RuleGroup<ConditionRule>) => void;
+    onDelete?: () => void;
+}) {
+    const setRules = (rules: RuleNode<ConditionRule>[]) => onChange({ ...group, rules });
+    const updateRule = (i: number, rule: RuleNode<ConditionRule>) => setRules(group.rules.map((r, idx) => (idx === i ? rule : r)));
+    const deleteRule = (i: number) => setRules(group.rules.filter((_, idx) => idx !== i));
 
     return (
-        <div className="space-y-3">
-            <div className="flex items-center justify-between">
-                <Label className="text-xs">Logic</Label>
-                <Select value={config.logic} onValueChange={(v) => onChange({ ...config, logic: v as 'AND' | 'OR' })}>
-                    <SelectTrigger className="h-7 w-20 text-xs"><SelectValue /></SelectTrigger>
-                    <SelectContent>
-                        <SelectItem value="AND">AND</SelectItem>
-                        <SelectItem value="OR">OR</SelectItem>
-                    </SelectContent>
-                </Select>
+        <div className={depth > 1 ? 'space-y-2 rounded-lg border border-dashed p-2' : 'space-y-3'}>
+            <div className="flex items-center justify-between gap-1">
+                <Label className="text-xs">{depth > 1 ? 'Group' : 'Logic'}</Label>
+                <div className="flex items-center gap-1">
+                    <Select value={group.logic} onValueChange={(v) => onChange({ ...group, logic: v as 'AND' | 'OR' })}>
+                        <SelectTrigger className="h-7 w-20 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="AND">AND</SelectItem>
+                            <SelectItem value="OR">OR</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    {onDelete && (
+                        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onDelete}>
+                            <Trash2 className="h-3 w-3" />
+                        </Button>
+                    )}
+                </div>
             </div>
             <div className="space-y-2">
-                {config.rules.map((rule, i) => (
+                {group.rules.map((rule, i) => isRuleGroup(rule) ? (
+                    <RuleGroupEditor
+                        key={i}
+                        group={rule}
+                        depth={depth + 1}
+                        onChange={(g) => updateRule(i, g)}
+                        onDelete={() => deleteRule(i)}
+                    />
+                ) : (
                     <RuleEditor key={i} rule={rule} onChange={(r) => updateRule(i, r)} onDelete={() => deleteRule(i)} />
                 ))}
             </div>
-            <Button variant="outline" size="sm" className="w-full text-xs" onClick={addRule}>
-                <Plus className="h-3 w-3 mr-1" />
-                Add Rule
-            </Button>
+            <div className="flex gap-2">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 text-xs"
+                    onClick={() => setRules([...group.rules, { field: '', operator: 'equals', value: '' }])}
+                >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Rule
+                </Button>
+                {depth < MAX_RULE_GROUP_DEPTH && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1 text-xs"
+                        onClick={() => setRules([
+                            ...group.rules,
+                            { logic: group.logic === 'AND' ? 'OR' : 'AND', rules: [{ field: '', operator: 'equals', value: '' }] },
+                        ])}
+                    >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add Group
+                    </Button>
+                )}
+            </div>
         </div>
     );
 }
 
+function ConditionConfig({ config, onChange }: { config: ConditionNodeConfig; onChange: (c: ConditionNodeConfig) => void }) {
+    return (
+        <RuleGroupEditor
+            group={{ logic: config.logic, rules: config.rules }}
+            depth={1}
+            onChange={(g) => onChange({ ...config, logic: g.logic, rules: g.rules })}
+        />
+    );
+}
+
 /* ── Delay ───────────────────────────────────────────────────────────── */
 
 function DelayConfig({ config, onChange }: { config: DelayNodeConfig; onChange: (c: DelayNodeConfig) => void }) {
@@ -1181,6 +1413,14 @@ function DelayConfig({ config, onChange }: { config: DelayNodeConfig; onChange:
                             = {formatDuration(config.waitTimeoutMinutes ?? 1440)}
                         </p>
                     </div>
+                    <div className="rounded-md border bg-muted/40 px-2.5 py-2 space-y-1">
+                        <p className="text-[10px] text-muted-foreground">
+                            <span className="font-medium text-green-600">Received</span> - users continue here as soon as the event arrives.
+                        </p>
+                        <p className="text-[10px] text-muted-foreground">
+                            <span className="font-medium text-amber-600">Timed out</span> - users continue here if the timeout passes first.
+                        </p>
+                    </div>
                 </>
             )}
 
@@ -1317,8 +1557,32 @@ function SplitConfig({ config, onChange }: { config: SplitNodeConfig; onChange:
                     onChange={(e) => onChange({ ...config, autoPickAfter: Number(e.target.value) })}
                     className="h-8 text-sm"
                 />
-                <p className="text-[10px] text-muted-foreground">enrollees</p>
+                <p className="text-[10px] text-muted-foreground">enrollees, then a winner is picked once the difference is significant (95%)</p>
             </div>
+
+            {config.winnerId && (
+                <div className="rounded-md border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-950/30 p-2 space-y-1.5">
+                    <p className="text-xs font-medium text-green-700 dark:text-green-300">
+                        Winner: {config.variants.find((v) => v.id === config.winnerId)?.label ?? config.winnerId}
+                        {config.winnerConfidence !== undefined && ` (${(config.winnerConfidence * 100).toFixed(1)}% confidence)`}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">All new enrollees take the winning path.</p>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full text-xs h-7"
+                        onClick={() => onChange({
+                            ...config,
+                            variants: config.variants.map((v) => ({ ...v, stats: undefined })),
+                            winnerId: undefined,
+                            winnerDecidedAt: undefined,
+                            winnerConfidence: undefined,
+                        })}
+                    >
+                        Reset winner &amp; restart test
+                    </Button>
+                </div>
+            )}
         </div>
     );
 }
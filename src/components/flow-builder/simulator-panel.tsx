@@ -0,0 +1,276 @@
+/* ==========================================================================
+ * Flow Builder - Dry-Run Simulator Panel
+ *
+ * Right sidebar that runs the flow on the canvas (including unsaved
+ * edits) for a tracked user or a hand-built profile, fast-forwarding
+ * through delays. Shows the node path, each step with the actions it
+ * would have dispatched, and the emails that would have gone out.
+ * ========================================================================== */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import type { FlowEdgeDef, FlowNodeDef, FlowSettings } from '@/lib/definitions';
+import type { SimulatedEvent, SimulationResult } from '@/lib/engine/flow-simulator';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, X, Loader2, FlaskConical, Mail } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/* ── Types ───────────────────────────────────────────────────────────── */
+
+interface SimulatorPanelProps {
+    flowId: string;
+    nodes: FlowNodeDef[];
+    edges: FlowEdgeDef[];
+    settings: FlowSettings;
+    /** Called with the visited node IDs after each run (empty to clear) */
+    onPath: (nodeIds: string[]) => void;
+    onSelectNode: (nodeId: string) => void;
+    onClose: () => void;
+}
+
+const DEFAULT_PROFILE = `{
+  "email": "test@example.com",
+  "name": "Test User",
+  "lifecycleState": "Trial",
+  "mrr": 0
+}`;
+
+const outcomeStyles: Record<string, string> = {
+    entered: 'text-blue-600',
+    completed: 'text-green-600',
+    waiting: 'text-amber-600',
+    skipped: 'text-muted-foreground',
+    failed: 'text-red-600',
+};
+
+function formatOffset(startedAt: string, at: string): string {
+    const minutes = Math.round((new Date(at).getTime() - new Date(startedAt).getTime()) / 60_000);
+    if (minutes < 60) return `+${minutes}m`;
+    if (minutes < 1440) return `+${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`;
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    return `+${days}d${hours ? ` ${hours}h` : ''}`;
+}
+
+/* ── Main Component ──────────────────────────────────────────────────── */
+
+export function SimulatorPanel({ flowId, nodes, edges, settings, onPath, onSelectNode, onClose }: SimulatorPanelProps) {
+    const [userId, setUserId] = useState('');
+    const [profile, setProfile] = useState(DEFAULT_PROFILE);
+    const [events, setEvents] = useState<SimulatedEvent[]>([]);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<SimulationResult | null>(null);
+
+    const run = useCallback(async () => {
+        setError(null);
+        let user: Record<string, unknown> | undefined;
+        if (profile.trim()) {
+            try {
+                user = JSON.parse(profile);
+            } catch {
+                setError('Profile must be valid JSON');
+                return;
+            }
+        }
+
+        setRunning(true);
+        try {
+            const res = await fetch(`/api/v1/flow-definitions/${flowId}/simulate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(userId.trim() ? { userId: userId.trim() } : {}),
+                    ...(user ? { user } : {}),
+                    nodes,
+                    edges,
+                    settings,
+                    events: events.filter((e) => e.name.trim()),
+                }),
+            });
+            const json = await res.json();
+            if (!res.ok || !json.success) {
+                setError(json.error?.message ?? `Simulation failed (${res.status})`);
+                setResult(null);
+                onPath([]);
+                return;
+            }
+            const data = json.data as SimulationResult;
+            setResult(data);
+            onPath(data.path);
+        } catch {
+            setError('Simulation failed');
+        } finally {
+            setRunning(false);
+        }
+    }, [flowId, userId, profile, events, nodes, edges, settings, onPath]);
+
+    const updateEvent = (index: number, partial: Partial<SimulatedEvent>) => {
+        setEvents((list) => list.map((e, i) => (i === index ? { ...e, ...partial } : e)));
+    };
+
+    return (
+        <div className="w-96 border-l bg-card flex flex-col h-full">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b">
+                <div>
+                    <h3 className="text-sm font-semibold">Dry Run</h3>
+                    <p className="text-[10px] text-muted-foreground">Nothing is sent; delays are fast-forwarded</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => { onPath([]); onClose(); }}>
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+
+            <ScrollArea className="flex-1">
+                <div className="p-4 space-y-4">
+                    {/* Who */}
+                    <div className="space-y-2">
+                        <div>
+                            <Label className="text-xs">Tracked User (ID or email)</Label>
+                            <Input
+                                value={userId}
+                                onChange={(e) => setUserId(e.target.value)}
+                                placeholder="Leave empty to use the profile only"
+                                className="h-8 text-sm"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs">Profile (JSON, overrides the tracked user)</Label>
+                            <Textarea
+                                value={profile}
+                                onChange={(e) => setProfile(e.target.value)}
+                                className="text-xs font-mono min-h-[96px]"
+                                rows={5}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Scripted events */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-xs">Events During the Run</Label>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 text-xs"
+                                onClick={() => setEvents((list) => [...list, { name: '', afterMinutes: 60 }])}
+                            >
+                                <Plus className="h-3 w-3 mr-1" /> Add
+                            </Button>
+                        </div>
+                        {events.map((event, i) => (
+                            <div key={i} className="flex items-center gap-1.5">
+                                <Input
+                                    value={event.name}
+                                    onChange={(e) => updateEvent(i, { name: e.target.value })}
+                                    placeholder="event_name"
+                                    className="h-7 text-xs flex-1"
+                                />
+                                <Input
+                                    type="number"
+                                    value={event.afterMinutes}
+                                    onChange={(e) => updateEvent(i, { afterMinutes: Number(e.target.value) })}
+                                    className="h-7 text-xs w-20"
+                                    min={0}
+                                    title="Minutes after enrollment"
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7"
+                                    onClick={() => setEvents((list) => list.filter((_, j) => j !== i))}
+                                >
+                                    <Trash2 className="h-3 w-3" />
+                                </Button>
+                            </div>
+                        ))}
+                        {events.length > 0 && (
+                            <p className="text-[10px] text-muted-foreground">Minutes after enrollment. Events resume matching waits and count toward the goal.</p>
+                        )}
+                    </div>
+
+                    <Button size="sm" className="w-full" onClick={run} disabled={running}>
+                        {running ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <FlaskConical className="h-3.5 w-3.5 mr-1" />}
+                        Run Simulation
+                    </Button>
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+
+                    {result && (
+                        <>
+                            <Separator />
+
+                            {/* Summary */}
+                            <div className="flex flex-wrap items-center gap-1.5">
+                                <Badge variant="outline" className="text-[10px]">{result.status}</Badge>
+                                {result.converted && <Badge variant="outline" className="text-[10px] text-green-600">goal reached</Badge>}
+                                {result.stoppedReason && (
+                                    <Badge variant="outline" className="text-[10px] text-amber-600">stopped: {result.stoppedReason.replace('_', ' ')}</Badge>
+                                )}
+                                <span className="text-[10px] text-muted-foreground">
+                                    {result.path.length} nodes · {formatOffset(result.startedAt, result.endedAt)} virtual time
+                                </span>
+                            </div>
+                            {result.errorMessage && <p className="text-xs text-red-600">{result.errorMessage}</p>}
+
+                            {/* Steps */}
+                            <div className="space-y-1.5">
+                                <Label className="text-xs">Steps</Label>
+                                {result.steps.map((step, i) => (
+                                    <button
+                                        key={i}
+                                        type="button"
+                                        onClick={() => onSelectNode(step.nodeId)}
+                                        className="w-full text-left rounded border px-2 py-1.5 hover:bg-muted/50"
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-xs font-medium truncate">{step.nodeLabel}</span>
+                                            <span className="text-[10px] text-muted-foreground shrink-0">{formatOffset(result.startedAt, step.at)}</span>
+                                        </div>
+                                        <div className={cn('text-[10px]', outcomeStyles[step.outcome])}>
+                                            {step.outcome}{step.details ? ` · ${step.details}` : ''}
+                                            {step.event ? ` (event: ${step.event})` : ''}
+                                        </div>
+                                        {step.actions.length > 0 && (
+                                            <pre className="mt-1 text-[10px] bg-muted rounded p-1 overflow-x-auto whitespace-pre-wrap break-all">
+                                                {step.actions.map((a) => JSON.stringify(a)).join('\n')}
+                                            </pre>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {/* Emails */}
+                            {result.emails.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <Label className="text-xs">Emails ({result.emails.length})</Label>
+                                    {result.emails.map((email, i) => (
+                                        <div key={i} className="rounded border px-2 py-1.5 space-y-1">
+                                            <div className="flex items-center gap-1.5 text-xs font-medium">
+                                                <Mail className="h-3 w-3 shrink-0" />
+                                                <span className="truncate">{email.subject || '(no subject)'}</span>
+                                            </div>
+                                            <div className="text-[10px] text-muted-foreground">
+                                                to {email.to || '(no email)'} · {formatOffset(result.startedAt, email.at)}
+                                            </div>
+                                            <pre className="text-[10px] bg-muted rounded p-1 max-h-32 overflow-auto whitespace-pre-wrap break-all">
+                                                {email.body}
+                                            </pre>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
@@ -150,6 +150,9 @@ export function useIntegrationStatus(): IntegrationStatus {
             caps.add('email_send');
             cats.add('email');
 
+            // Inbound webhooks are built-in too (/api/v1/hooks/{orgId}/{path}, signed per flow)
+            caps.add('inbound_webhook');
+
             capsRef.current = caps;
             catsRef.current = cats;
             setIntegrations(syntheticIntegrations);
@@ -75,6 +75,8 @@ export const VALID_WEBHOOK_EVENTS = new Set([
     'event.tracked',
     'flow.triggered',
     'flow.completed',
+    'segment.entered',
+    'segment.exited',
 ]);
 
 export const VALID_PLAN_TIERS = new Set([
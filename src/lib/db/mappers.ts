@@ -211,6 +211,7 @@ export function mapFlowDefToUI(dbFlow: FlowDef): FlowDefinition {
 
     return {
         id: dbFlow.id,
+        organizationId: dbFlow.organizationId,
         name: dbFlow.name,
         description: dbFlow.description ?? '',
         trigger: triggerDesc,
@@ -237,6 +238,10 @@ export function mapFlowDefToUI(dbFlow: FlowDef): FlowDefinition {
             revenueGenerated: metrics?.revenueGenerated ?? 0,
             openRate: metrics?.openRate ?? 0,
             clickRate: metrics?.clickRate ?? 0,
+            ...(metrics?.emailSteps ? { emailSteps: metrics.emailSteps } : {}),
+            enrollmentsRefused: metrics?.enrollmentsRefused ?? 0,
+            quietHoursDeferrals: metrics?.quietHoursDeferrals ?? 0,
+            autoExited: metrics?.autoExited ?? 0,
         },
         createdAt: new Date(dbFlow.createdAt).toISOString(),
         updatedAt: new Date(dbFlow.updatedAt).toISOString(),
@@ -266,6 +271,9 @@ export function mapFlowEnrollToUI(dbEnroll: FlowEnroll): FlowEnrollment {
         completedAt: dbEnroll.completedAt
             ? new Date(dbEnroll.completedAt).toISOString()
             : undefined,
+        convertedAt: dbEnroll.convertedAt
+            ? new Date(dbEnroll.convertedAt).toISOString()
+            : undefined,
         nextProcessAt: dbEnroll.nextProcessAt
             ? new Date(dbEnroll.nextProcessAt).toISOString()
             : undefined,
@@ -8,7 +8,7 @@
  * All functions accept organizationId for tenant isolation.
  * ========================================================================== */
 
-import { eq, and, desc, asc, gte, lte, sql, count, inArray, isNull } from 'drizzle-orm';
+import { eq, ne, and, or, desc, asc, gt, gte, lt, lte, sql, count, inArray, isNull, isNotNull } from 'drizzle-orm';
 import { db } from '@/lib/db';
 import * as schema from '@/lib/db/schema';
 
@@ -100,6 +100,9 @@ export type ApiKeyInsert = typeof schema.apiKeys.$inferInsert;
 export type FlowDef = typeof schema.flowDefinitions.$inferSelect;
 export type FlowDefInsert = typeof schema.flowDefinitions.$inferInsert;
 
+export type FlowVersion = typeof schema.flowVersions.$inferSelect;
+export type FlowVersionInsert = typeof schema.flowVersions.$inferInsert;
+
 export type FlowEnroll = typeof schema.flowEnrollments.$inferSelect;
 export type FlowEnrollInsert = typeof schema.flowEnrollments.$inferInsert;
 
@@ -222,6 +225,17 @@ export async function getTrackedAccount(orgId: string, id: string) {
     return account ?? null;
 }
 
+export async function getTrackedAccountsByIds(orgId: string, ids: string[]) {
+    if (ids.length === 0) return [];
+    return db
+        .select()
+        .from(schema.trackedAccounts)
+        .where(and(
+            eq(schema.trackedAccounts.organizationId, orgId),
+            inArray(schema.trackedAccounts.id, ids),
+        ));
+}
+
 export async function getTrackedAccountByExternalId(orgId: string, externalId: string) {
     const [account] = await db
         .select()
@@ -325,6 +339,19 @@ export async function getTrackedUserByExternalId(orgId: string, externalId: stri
     return user ?? null;
 }
 
+export async function getTrackedUserByEmail(orgId: string, email: string) {
+    const [user] = await db
+        .select()
+        .from(schema.trackedUsers)
+        .where(and(
+            eq(schema.trackedUsers.organizationId, orgId),
+            sql`lower(${schema.trackedUsers.email}) = ${email.toLowerCase()}`,
+        ))
+        .orderBy(desc(schema.trackedUsers.updatedAt))
+        .limit(1);
+    return user ?? null;
+}
+
 export async function getAllTrackedUsers(orgId: string, options?: {
     accountId?: string;
     lifecycleState?: string;
@@ -355,6 +382,18 @@ export async function getAllTrackedUsers(orgId: string, options?: {
     return query;
 }
 
+/** One page of an org's tracked users in id order, for stable batch scans */
+export async function getTrackedUsersPage(orgId: string, afterId: string | null, limit: number) {
+    return db
+        .select()
+        .from(schema.trackedUsers)
+        .where(afterId
+            ? and(eq(schema.trackedUsers.organizationId, orgId), gt(schema.trackedUsers.id, afterId))
+            : eq(schema.trackedUsers.organizationId, orgId))
+        .orderBy(asc(schema.trackedUsers.id))
+        .limit(limit);
+}
+
 export async function upsertTrackedUser(orgId: string, data: Omit<TrackedUserInsert, 'organizationId'>) {
     // Build the conflict-update set dynamically: only include fields
     // that are explicitly provided (not undefined) so we never
@@ -434,6 +473,45 @@ export async function updateTrackedUserByExternalId(
     return user ?? null;
 }
 
+/**
+ * Add a tag to a tracked user. Done in one statement so concurrent flow
+ * actions on the same user never overwrite each other's tags.
+ *
+ * @returns true when the tag was added (false if already present)
+ */
+export async function addTrackedUserTag(orgId: string, id: string, tag: string): Promise<boolean> {
+    const tags = sql`coalesce(${schema.trackedUsers.tags}, '[]'::jsonb)`;
+    const tagArray = JSON.stringify([tag]);
+    const updated = await db
+        .update(schema.trackedUsers)
+        .set({ tags: sql`${tags} || ${tagArray}::jsonb`, updatedAt: new Date() })
+        .where(and(
+            eq(schema.trackedUsers.organizationId, orgId),
+            eq(schema.trackedUsers.id, id),
+            sql`not (${tags} @> ${tagArray}::jsonb)`,
+        ))
+        .returning({ id: schema.trackedUsers.id });
+    return updated.length > 0;
+}
+
+/**
+ * Remove a tag from a tracked user.
+ *
+ * @returns true when the tag was removed (false if the user didn't have it)
+ */
+export async function removeTrackedUserTag(orgId: string, id: string, tag: string): Promise<boolean> {
+    const updated = await db
+        .update(schema.trackedUsers)
+        .set({ tags: sql`${schema.trackedUsers.tags} - ${tag}::text`, updatedAt: new Date() })
+        .where(and(
+            eq(schema.trackedUsers.organizationId, orgId),
+            eq(schema.trackedUsers.id, id),
+            sql`${schema.trackedUsers.tags} @> ${JSON.stringify([tag])}::jsonb`,
+        ))
+        .returning({ id: schema.trackedUsers.id });
+    return updated.length > 0;
+}
+
 export async function mergeTrackedUserIdentity(
     orgId: string,
     sourceExternalId: string,
@@ -625,6 +703,14 @@ export async function mergeTrackedUserIdentity(
             }
         }
 
+        await tx
+            .update(schema.segmentMembershipEvents)
+            .set({ trackedUserId: target.id })
+            .where(and(
+                eq(schema.segmentMembershipEvents.organizationId, orgId),
+                eq(schema.segmentMembershipEvents.trackedUserId, source.id),
+            ));
+
         await tx
             .update(schema.trackedUsers)
             .set({ ...mergedSet, externalId: targetExternalId })
@@ -782,6 +868,47 @@ export async function getEventCount(orgId: string, filters?: { name?: string })
     return result?.count ?? 0;
 }
 
+/**
+ * Load the events segment 'event' rules look at - the given names since
+ * `scope.since` - grouped by tracked user, optionally only for some users.
+ * Occurrence time is the client timestamp when the SDK sent one.
+ */
+export async function getSegmentEventsByUser(
+    orgId: string,
+    scope: { names: string[]; since: Date | null },
+    trackedUserIds?: string[],
+): Promise<Map<string, Array<{ name: string; properties: Record<string, unknown> | null; occurredAt: Date }>>> {
+    const byUser = new Map<string, Array<{ name: string; properties: Record<string, unknown> | null; occurredAt: Date }>>();
+    if (scope.names.length === 0 || trackedUserIds?.length === 0) return byUser;
+
+    const occurredAt = sql<Date>`coalesce(${schema.events.clientTimestamp}, ${schema.events.receivedAt})`;
+    const conditions = [
+        eq(schema.events.organizationId, orgId),
+        inArray(schema.events.name, scope.names),
+        isNotNull(schema.events.trackedUserId),
+    ];
+    if (scope.since) conditions.push(sql`${occurredAt} >= ${scope.since.toISOString()}`);
+    if (trackedUserIds) conditions.push(inArray(schema.events.trackedUserId, trackedUserIds));
+
+    const rows = await db
+        .select({
+            trackedUserId: schema.events.trackedUserId,
+            name: schema.events.name,
+            properties: schema.events.properties,
+            occurredAt: schema.events.clientTimestamp,
+            receivedAt: schema.events.receivedAt,
+        })
+        .from(schema.events)
+        .where(and(...conditions));
+
+    for (const row of rows) {
+        const events = byUser.get(row.trackedUserId!) ?? [];
+        events.push({ name: row.name, properties: row.properties, occurredAt: row.occurredAt ?? row.receivedAt });
+        byUser.set(row.trackedUserId!, events);
+    }
+    return byUser;
+}
+
 /* ═══════════════════════════════════════════════════════════════════════
  * API Keys
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -901,6 +1028,262 @@ export async function upsertFlowDefinition(orgId: string, data: Omit<FlowDefInse
     });
 }
 
+/** Active flows across all orgs, for the scheduler's trigger sweep. */
+export async function getActiveFlowDefinitionsAllOrgs() {
+    return db
+        .select()
+        .from(schema.flowDefinitions)
+        .where(eq(schema.flowDefinitions.status, 'active'));
+}
+
+/**
+ * Active flows of an org whose webhook_received trigger listens on
+ * `webhookPath`. The caller picks the flow(s) whose signing secret
+ * verifies the request.
+ */
+export async function getActiveFlowsByWebhookPath(orgId: string, webhookPath: string) {
+    const trigger = JSON.stringify([{ data: { triggerConfig: { kind: 'webhook_received', webhookPath } } }]);
+    return db
+        .select()
+        .from(schema.flowDefinitions)
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.status, 'active'),
+            sql`${schema.flowDefinitions.nodes} @> ${trigger}::jsonb`,
+        ));
+}
+
+/**
+ * Claim a schedule / date_property trigger run for a flow. Only the first
+ * caller per `runAt` wins, so overlapping scheduler invocations never fire
+ * the same occurrence twice. The run starts pending, at the beginning of
+ * its audience.
+ *
+ * @returns true when this caller owns the run
+ */
+export async function claimFlowTriggerRun(orgId: string, flowId: string, runAt: Date): Promise<boolean> {
+    const claimed = await db
+        .update(schema.flowDefinitions)
+        .set({ lastTriggeredAt: runAt, triggerRunPending: true, triggerRunCursor: null })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+            or(
+                isNull(schema.flowDefinitions.lastTriggeredAt),
+                lt(schema.flowDefinitions.lastTriggeredAt, runAt),
+            ),
+        ))
+        .returning({ id: schema.flowDefinitions.id });
+    return claimed.length > 0;
+}
+
+/**
+ * Add one to a stat of an A/B split variant in the stored node graph. The
+ * database increments the counter on the current row, so concurrent
+ * increments are never lost and the rest of the flow is left untouched.
+ *
+ * @returns the flow's name and updated nodes, or null when it has no such variant
+ */
+export async function incrementFlowSplitStat(
+    orgId: string,
+    flowId: string,
+    nodeId: string,
+    variantId: string,
+    stat: 'enrolled' | 'opens' | 'clicks' | 'conversions',
+) {
+    const variant = JSON.stringify([{ id: nodeId, data: { splitConfig: { variants: [{ id: variantId }] } } }]);
+    const emptyStats = JSON.stringify({ enrolled: 0, opens: 0, clicks: 0, conversions: 0 });
+    const [flow] = await db
+        .update(schema.flowDefinitions)
+        .set({
+            nodes: sql`(
+                SELECT jsonb_agg(CASE WHEN n->>'id' = ${nodeId}
+                    THEN jsonb_set(n, '{data,splitConfig,variants}', (
+                        SELECT jsonb_agg(CASE WHEN v->>'id' = ${variantId}
+                            THEN v || jsonb_build_object('stats', ${emptyStats}::jsonb || coalesce(v->'stats', '{}'::jsonb)
+                                || jsonb_build_object(${stat}::text, coalesce((v->'stats'->>${stat}::text)::int, 0) + 1))
+                            ELSE v END ORDER BY vi)
+                        FROM jsonb_array_elements(n->'data'->'splitConfig'->'variants') WITH ORDINALITY AS vs(v, vi)))
+                    ELSE n END ORDER BY ni)
+                FROM jsonb_array_elements(${schema.flowDefinitions.nodes}) WITH ORDINALITY AS ns(n, ni)
+            )`,
+        })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+            sql`${schema.flowDefinitions.nodes} @> ${variant}::jsonb`,
+        ))
+        .returning({ name: schema.flowDefinitions.name, nodes: schema.flowDefinitions.nodes });
+    return flow ?? null;
+}
+
+/**
+ * Record the winning variant of an A/B split node, unless a winner is
+ * already set. Only one caller gets to decide a split.
+ *
+ * @returns true when this caller set the winner
+ */
+export async function claimFlowSplitWinner(
+    orgId: string,
+    flowId: string,
+    nodeId: string,
+    decision: { winnerId: string; winnerDecidedAt: string; winnerConfidence: number },
+): Promise<boolean> {
+    const split = JSON.stringify([{ id: nodeId, data: { splitConfig: {} } }]);
+    const decided = '$[*] ? (@.id == $id && @.data.splitConfig.winnerId != null)';
+    const claimed = await db
+        .update(schema.flowDefinitions)
+        .set({
+            nodes: sql`(
+                SELECT jsonb_agg(CASE WHEN n->>'id' = ${nodeId}
+                    THEN jsonb_set(n, '{data,splitConfig}', (n->'data'->'splitConfig') || ${JSON.stringify(decision)}::jsonb)
+                    ELSE n END ORDER BY ni)
+                FROM jsonb_array_elements(${schema.flowDefinitions.nodes}) WITH ORDINALITY AS ns(n, ni)
+            )`,
+        })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+            sql`${schema.flowDefinitions.nodes} @> ${split}::jsonb`,
+            sql`NOT jsonb_path_exists(${schema.flowDefinitions.nodes}, ${decided}::jsonpath, jsonb_build_object('id', ${nodeId}::text))`,
+        ))
+        .returning({ id: schema.flowDefinitions.id });
+    return claimed.length > 0;
+}
+
+/**
+ * Store a flow's recomputed email rollup in its metrics. Only these keys
+ * are written, so the counters (see incrementFlowMetrics) are left alone.
+ */
+export async function saveFlowEmailMetrics(
+    orgId: string,
+    flowId: string,
+    rollup: { emailSteps?: Record<string, unknown>; openRate: number; clickRate: number },
+) {
+    const { emailSteps, openRate, clickRate } = rollup;
+    const patch = { emailSteps: emailSteps ?? {}, openRate, clickRate };
+    await db
+        .update(schema.flowDefinitions)
+        .set({ metrics: sql`coalesce(${schema.flowDefinitions.metrics}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb` })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+        ));
+}
+
+/**
+ * Flow metrics kept as running counters. The email rollup (emailSteps,
+ * openRate, clickRate) is recomputed rather than counted, and written only
+ * by saveFlowEmailMetrics.
+ */
+export type FlowMetricCounter =
+    | 'totalEnrolled'
+    | 'currentlyActive'
+    | 'completed'
+    | 'goalReached'
+    | 'exitedEarly'
+    | 'errorCount'
+    | 'revenueGenerated'
+    | 'enrollmentsRefused'
+    | 'quietHoursDeferrals'
+    | 'autoExited';
+
+/** `metrics` with each counter in `deltas` moved by its delta (never below 0), computed by the database. */
+function incrementedFlowMetrics(deltas: Partial<Record<FlowMetricCounter, number>>) {
+    let metrics = sql`coalesce(${schema.flowDefinitions.metrics}, '{}'::jsonb)`;
+    for (const [key, delta] of Object.entries(deltas)) {
+        if (!delta) continue;
+        metrics = sql`jsonb_set(${metrics}, ARRAY[${key}::text], to_jsonb(greatest(0,
+            coalesce((${schema.flowDefinitions.metrics}->>${key}::text)::numeric, 0) + ${delta}::numeric)))`;
+    }
+    return metrics;
+}
+
+/**
+ * Add to counters of a flow's metrics. The database increments them on the
+ * current row, so concurrent updates are never lost and the other metrics
+ * are left untouched.
+ */
+export async function incrementFlowMetrics(
+    orgId: string,
+    flowId: string,
+    deltas: Partial<Record<FlowMetricCounter, number>>,
+): Promise<void> {
+    if (!Object.values(deltas).some(Boolean)) return;
+    await db
+        .update(schema.flowDefinitions)
+        .set({ metrics: incrementedFlowMetrics(deltas) })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+        ));
+}
+
+/**
+ * Count a new enrollment of a flow (totalEnrolled and currentlyActive)
+ * unless it would exceed the flow's enrollmentCap or
+ * maxConcurrentEnrollments (0 = unlimited). The check and the increment
+ * are one conditional update, so concurrent enrollments cannot overshoot
+ * the cap.
+ *
+ * @returns true when the enrollment was counted
+ */
+export async function reserveFlowEnrollment(
+    orgId: string,
+    flowId: string,
+    limits: { enrollmentCap?: number; maxConcurrentEnrollments?: number },
+): Promise<boolean> {
+    const cap = limits.enrollmentCap ?? 0;
+    const maxConcurrent = limits.maxConcurrentEnrollments ?? 0;
+    const reserved = await db
+        .update(schema.flowDefinitions)
+        .set({ metrics: incrementedFlowMetrics({ totalEnrolled: 1, currentlyActive: 1 }) })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+            sql`(${cap}::int <= 0 OR coalesce((${schema.flowDefinitions.metrics}->>'totalEnrolled')::numeric, 0) < ${cap}::int)`,
+            sql`(${maxConcurrent}::int <= 0 OR (
+                SELECT count(*) FROM ${schema.flowEnrollments}
+                WHERE ${schema.flowEnrollments.organizationId} = ${orgId}
+                  AND ${schema.flowEnrollments.flowId} = ${flowId}
+                  AND ${schema.flowEnrollments.status} = 'active'
+            ) < ${maxConcurrent}::int)`,
+        ))
+        .returning({ id: schema.flowDefinitions.id });
+    return reserved.length > 0;
+}
+
+/**
+ * Record how far a pending trigger run has got: the last audience member
+ * it enrolled, or null once the audience is exhausted. Conditional on the
+ * run and its previous cursor, so an instance that fell behind another
+ * one stops instead of overwriting its progress.
+ *
+ * @returns true when the progress was recorded
+ */
+export async function advanceFlowTriggerRun(
+    orgId: string,
+    flowId: string,
+    runAt: Date,
+    fromCursor: string | null,
+    toCursor: string | null,
+): Promise<boolean> {
+    const advanced = await db
+        .update(schema.flowDefinitions)
+        .set({ triggerRunPending: toCursor !== null, triggerRunCursor: toCursor })
+        .where(and(
+            eq(schema.flowDefinitions.organizationId, orgId),
+            eq(schema.flowDefinitions.id, flowId),
+            eq(schema.flowDefinitions.lastTriggeredAt, runAt),
+            eq(schema.flowDefinitions.triggerRunPending, true),
+            fromCursor
+                ? eq(schema.flowDefinitions.triggerRunCursor, fromCursor)
+                : isNull(schema.flowDefinitions.triggerRunCursor),
+        ))
+        .returning({ id: schema.flowDefinitions.id });
+    return advanced.length > 0;
+}
+
 export async function deleteFlowDefinition(orgId: string, id: string) {
     const result = await db
         .delete(schema.flowDefinitions)
@@ -944,6 +1327,123 @@ export async function duplicateFlowDefinition(orgId: string, id: string) {
     return copy;
 }
 
+/* ═══════════════════════════════════════════════════════════════════════
+ * Flow Versions
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/**
+ * The published graph an enrollment on `version` runs: that exact
+ * version, or for enrollments from before versioning (which ran on the
+ * live definition) the first snapshot taken after them.
+ */
+export async function getPinnedFlowVersion(orgId: string, flowId: string, version: number) {
+    const [row] = await db
+        .select()
+        .from(schema.flowVersions)
+        .where(and(
+            eq(schema.flowVersions.organizationId, orgId),
+            eq(schema.flowVersions.flowId, flowId),
+            gte(schema.flowVersions.version, version),
+        ))
+        .orderBy(asc(schema.flowVersions.version))
+        .limit(1);
+    return row ?? null;
+}
+
+export async function getFlowVersions(orgId: string, flowId: string) {
+    return db
+        .select()
+        .from(schema.flowVersions)
+        .where(and(
+            eq(schema.flowVersions.organizationId, orgId),
+            eq(schema.flowVersions.flowId, flowId),
+        ))
+        .orderBy(desc(schema.flowVersions.version));
+}
+
+/** Move in-flight enrollments parked on one node of an old version. */
+export interface EnrollmentMove {
+    fromVersion: number;
+    fromNodeId: string;
+    toNodeId: string;
+    /** Wake the enrollment right away (the target is a different kind of node) */
+    resetSchedule: boolean;
+}
+
+/** A published version snapshot and what happened to in-flight enrollments. */
+export interface FlowPublicationWrite {
+    snapshots: Omit<FlowVersionInsert, 'organizationId' | 'flowId'>[];
+    moves: EnrollmentMove[];
+}
+
+/**
+ * Save an edited flow definition together with the versions it publishes,
+ * in one batch: store the snapshots, move the in-flight enrollments of the
+ * migration plan onto the newest one and point the flow at it.
+ *
+ * The save only applies while the row is unchanged since the caller read
+ * it (`expectedUpdatedAt`, at the millisecond precision of a Date). The
+ * snapshots and moves are conditional on the save, so concurrent saves
+ * can't interleave with a publish; two publishes of the same version also
+ * collide on the unique (flow, version) index and roll back.
+ *
+ * @returns the saved row, or null when the flow changed in the meantime
+ */
+export async function saveFlowDefinition(
+    orgId: string,
+    flowId: string,
+    expectedUpdatedAt: Date,
+    data: Pick<FlowDefInsert, 'name' | 'description' | 'status' | 'nodes' | 'edges' | 'variables' | 'settings' | 'publishedAt' | 'archivedAt'>,
+    publication?: FlowPublicationWrite,
+) {
+    const now = new Date();
+    const latest = publication?.snapshots[publication.snapshots.length - 1];
+    const saved = sql`exists (
+        select 1 from ${schema.flowDefinitions}
+        where ${schema.flowDefinitions.id} = ${flowId} and ${schema.flowDefinitions.updatedAt} = ${now.toISOString()}::timestamptz
+    )`;
+
+    return dbWrite('saveFlowDefinition', async () => {
+        const [[flow]] = await db.batch([
+            db.update(schema.flowDefinitions)
+                .set({
+                    ...data,
+                    ...(latest ? { version: latest.version, publishedAt: now } : {}),
+                    updatedAt: now,
+                })
+                .where(and(
+                    eq(schema.flowDefinitions.organizationId, orgId),
+                    eq(schema.flowDefinitions.id, flowId),
+                    sql`date_trunc('milliseconds', ${schema.flowDefinitions.updatedAt}) = ${expectedUpdatedAt.toISOString()}::timestamptz`,
+                ))
+                .returning(),
+            // Columns in table order: id, organization_id, flow_id, version, nodes, edges, variables, migration, published_at
+            ...(publication?.snapshots ?? []).map((snap) => db.insert(schema.flowVersions).select(sql`
+                select gen_random_uuid(), ${orgId}::uuid, ${flowId}::uuid, ${snap.version}::int,
+                    ${JSON.stringify(snap.nodes ?? [])}::jsonb, ${JSON.stringify(snap.edges ?? [])}::jsonb,
+                    ${JSON.stringify(snap.variables ?? [])}::jsonb, ${snap.migration ? JSON.stringify(snap.migration) : null}::jsonb,
+                    ${now.toISOString()}::timestamptz
+                where ${saved}
+            `)),
+            ...(latest ? publication?.moves ?? [] : []).map((move) => db.update(schema.flowEnrollments)
+                .set({
+                    flowVersion: latest!.version,
+                    currentNodeId: move.toNodeId,
+                    ...(move.resetSchedule ? { nextProcessAt: now } : {}),
+                })
+                .where(and(
+                    eq(schema.flowEnrollments.organizationId, orgId),
+                    eq(schema.flowEnrollments.flowId, flowId),
+                    eq(schema.flowEnrollments.flowVersion, move.fromVersion),
+                    eq(schema.flowEnrollments.currentNodeId, move.fromNodeId),
+                    inArray(schema.flowEnrollments.status, ['active', 'paused']),
+                    saved,
+                ))),
+        ]);
+        return flow ?? null;
+    });
+}
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Flow Enrollments
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -965,6 +1465,38 @@ export async function getFlowEnrollments(orgId: string, flowId: string, status?:
         .orderBy(desc(schema.flowEnrollments.enrolledAt));
 }
 
+/** Which of `trackedUserIds` were enrolled in a flow at or after `since`. */
+export async function getFlowEnrolledUserIdsSince(
+    orgId: string,
+    flowId: string,
+    since: Date,
+    trackedUserIds: string[],
+): Promise<Set<string>> {
+    if (trackedUserIds.length === 0) return new Set();
+    const rows = await db
+        .selectDistinct({ trackedUserId: schema.flowEnrollments.trackedUserId })
+        .from(schema.flowEnrollments)
+        .where(and(
+            eq(schema.flowEnrollments.organizationId, orgId),
+            eq(schema.flowEnrollments.flowId, flowId),
+            gte(schema.flowEnrollments.enrolledAt, since),
+            inArray(schema.flowEnrollments.trackedUserId, trackedUserIds),
+        ));
+    return new Set(rows.map((r) => r.trackedUserId));
+}
+
+export async function getEnrollment(orgId: string, id: string) {
+    const [enrollment] = await db
+        .select()
+        .from(schema.flowEnrollments)
+        .where(and(
+            eq(schema.flowEnrollments.organizationId, orgId),
+            eq(schema.flowEnrollments.id, id),
+        ))
+        .limit(1);
+    return enrollment ?? null;
+}
+
 export async function getUserEnrollments(orgId: string, trackedUserId: string) {
     return db
         .select()
@@ -988,6 +1520,7 @@ export async function upsertEnrollment(data: FlowEnrollInsert) {
                 variables: data.variables,
                 lastProcessedAt: data.lastProcessedAt,
                 completedAt: data.completedAt,
+                convertedAt: data.convertedAt,
                 nextProcessAt: data.nextProcessAt,
                 errorMessage: data.errorMessage,
                 errorNodeId: data.errorNodeId,
@@ -1009,6 +1542,57 @@ export async function getActiveEnrollmentsDue() {
         .limit(500);
 }
 
+export async function countActiveEnrollments(orgId: string, flowId: string): Promise<number> {
+    const [row] = await db
+        .select({ total: count() })
+        .from(schema.flowEnrollments)
+        .where(and(
+            eq(schema.flowEnrollments.organizationId, orgId),
+            eq(schema.flowEnrollments.flowId, flowId),
+            eq(schema.flowEnrollments.status, 'active'),
+        ));
+    return Number(row?.total ?? 0);
+}
+
+/** In-flight (active or paused) enrollments of a flow, grouped by version and node. */
+export async function getInFlightEnrollmentCounts(orgId: string, flowId: string) {
+    const rows = await db
+        .select({
+            flowVersion: schema.flowEnrollments.flowVersion,
+            nodeId: schema.flowEnrollments.currentNodeId,
+            total: count(),
+        })
+        .from(schema.flowEnrollments)
+        .where(and(
+            eq(schema.flowEnrollments.organizationId, orgId),
+            eq(schema.flowEnrollments.flowId, flowId),
+            inArray(schema.flowEnrollments.status, ['active', 'paused']),
+        ))
+        .groupBy(schema.flowEnrollments.flowVersion, schema.flowEnrollments.currentNodeId);
+    return rows.map((r) => ({ flowVersion: r.flowVersion, nodeId: r.nodeId ?? '', count: Number(r.total) }));
+}
+
+/**
+ * Active enrollments (cross-org) in active flows that have been enrolled
+ * longer than the flow's autoExitDays setting. A missing setting defaults
+ * to 30 days like mapFlowDefToUI; 0 disables auto-exit.
+ */
+export async function getStaleActiveEnrollments() {
+    const autoExitDays = sql`coalesce((${schema.flowDefinitions.settings}->>'autoExitDays')::int, 30)`;
+    const rows = await db
+        .select({ enrollment: schema.flowEnrollments })
+        .from(schema.flowEnrollments)
+        .innerJoin(schema.flowDefinitions, eq(schema.flowEnrollments.flowId, schema.flowDefinitions.id))
+        .where(and(
+            eq(schema.flowEnrollments.status, 'active'),
+            eq(schema.flowDefinitions.status, 'active'),
+            sql`${autoExitDays} > 0`,
+            sql`${schema.flowEnrollments.enrolledAt} < now() - make_interval(days => ${autoExitDays})`,
+        ))
+        .limit(500);
+    return rows.map((r) => r.enrollment);
+}
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Webhooks
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -1337,6 +1921,7 @@ export async function getKPISummary(orgId: string) {
 export type Segment = typeof schema.segments.$inferSelect;
 export type SegmentInsert = typeof schema.segments.$inferInsert;
 export type SegmentMembership = typeof schema.segmentMemberships.$inferSelect;
+export type SegmentMembershipEvent = typeof schema.segmentMembershipEvents.$inferSelect;
 
 export async function getSegment(orgId: string, id: string) {
     const [seg] = await db
@@ -1376,6 +1961,26 @@ export async function getAllSegments(orgId: string, status?: string, pagination?
     return { items, total, limit, offset, hasMore: offset + items.length < total };
 }
 
+/**
+ * Claim the active rule-based segments (cross-org, or one org's) last
+ * evaluated at or before `dueBefore` by stamping lastEvaluatedAt = `now`.
+ * The conditional update makes each segment go to one caller, so
+ * concurrent scheduler instances don't repeat each other's work.
+ */
+export async function claimSegmentsDueForRefresh(dueBefore: Date, now: Date, orgId?: string) {
+    return db
+        .update(schema.segments)
+        .set({ lastEvaluatedAt: now })
+        .where(and(
+            orgId ? eq(schema.segments.organizationId, orgId) : undefined,
+            eq(schema.segments.status, 'active'),
+            ne(schema.segments.type, 'static'),
+            sql`jsonb_array_length(${schema.segments.filters}) > 0`,
+            or(isNull(schema.segments.lastEvaluatedAt), lte(schema.segments.lastEvaluatedAt, dueBefore)),
+        ))
+        .returning();
+}
+
 export async function upsertSegment(orgId: string, data: Omit<SegmentInsert, 'organizationId'>) {
     if (data.id) {
         const [seg] = await db.update(schema.segments)
@@ -1411,6 +2016,53 @@ export async function getSegmentMembers(orgId: string, segmentId: string, limit
         .limit(limit);
 }
 
+/** One page of a segment's current members, in tracked-user id order. */
+export async function getSegmentMemberUsersPage(orgId: string, segmentId: string, afterId: string | null, limit: number) {
+    if (!(await ensureSegmentOwnership(orgId, segmentId))) return [];
+    const rows = await db.select({ user: schema.trackedUsers })
+        .from(schema.segmentMemberships)
+        .innerJoin(
+            schema.trackedUsers,
+            and(
+                eq(schema.segmentMemberships.trackedUserId, schema.trackedUsers.id),
+                eq(schema.trackedUsers.organizationId, orgId),
+            ),
+        )
+        .where(and(
+            eq(schema.segmentMemberships.segmentId, segmentId),
+            isNull(schema.segmentMemberships.exitedAt),
+            afterId ? gt(schema.trackedUsers.id, afterId) : undefined,
+        ))
+        .orderBy(asc(schema.trackedUsers.id))
+        .limit(limit);
+    return rows.map((r) => r.user);
+}
+
+const MEMBERSHIP_WRITE_CHUNK = 500;
+
+/** Append enters / exits to the membership log (segment history) */
+async function logSegmentMembershipChanges(
+    orgId: string,
+    segmentId: string,
+    change: 'entered' | 'exited',
+    trackedUserIds: string[],
+    occurredAt: Date,
+): Promise<void> {
+    for (let i = 0; i < trackedUserIds.length; i += MEMBERSHIP_WRITE_CHUNK) {
+        await db.insert(schema.segmentMembershipEvents).values(
+            trackedUserIds.slice(i, i + MEMBERSHIP_WRITE_CHUNK).map((trackedUserId) => ({
+                organizationId: orgId, segmentId, trackedUserId, change, occurredAt,
+            })),
+        );
+    }
+}
+
+/**
+ * Add a user to a segment, reopening a membership they previously exited.
+ * Returns the membership only when the user actually entered the segment
+ * (new or re-entered); undefined when they were already a member or the
+ * user cannot be resolved.
+ */
 export async function upsertSegmentMembership(orgId: string, segmentId: string, trackedUserId: string) {
     if (!(await ensureSegmentOwnership(orgId, segmentId))) return undefined;
     const user = await getTrackedUser(orgId, trackedUserId);
@@ -1421,21 +2073,88 @@ export async function upsertSegmentMembership(orgId: string, segmentId: string,
     }
     const [m] = await db.insert(schema.segmentMemberships)
         .values({ segmentId, trackedUserId })
-        .onConflictDoNothing({ target: [schema.segmentMemberships.segmentId, schema.segmentMemberships.trackedUserId] })
+        .onConflictDoUpdate({
+            target: [schema.segmentMemberships.segmentId, schema.segmentMemberships.trackedUserId],
+            set: { enteredAt: new Date(), exitedAt: null },
+            setWhere: isNotNull(schema.segmentMemberships.exitedAt),
+        })
         .returning();
+    if (m) await logSegmentMembershipChanges(orgId, segmentId, 'entered', [trackedUserId], m.enteredAt);
     return m;
 }
 
-export async function removeSegmentMembership(orgId: string, segmentId: string, trackedUserId: string) {
-    if (!(await ensureSegmentOwnership(orgId, segmentId))) return;
-    await db.update(schema.segmentMemberships)
-        .set({ exitedAt: new Date() })
-        .where(and(eq(schema.segmentMemberships.segmentId, segmentId), eq(schema.segmentMemberships.trackedUserId, trackedUserId), isNull(schema.segmentMemberships.exitedAt)));
+/** Close a user's membership. Returns true only when they were a member. */
+export async function removeSegmentMembership(orgId: string, segmentId: string, trackedUserId: string): Promise<boolean> {
+    if (!(await ensureSegmentOwnership(orgId, segmentId))) return false;
+    const now = new Date();
+    const closed = await db.update(schema.segmentMemberships)
+        .set({ exitedAt: now })
+        .where(and(eq(schema.segmentMemberships.segmentId, segmentId), eq(schema.segmentMemberships.trackedUserId, trackedUserId), isNull(schema.segmentMemberships.exitedAt)))
+        .returning({ id: schema.segmentMemberships.id });
+    if (closed.length === 0) return false;
+    await logSegmentMembershipChanges(orgId, segmentId, 'exited', [trackedUserId], now);
+    return true;
+}
+
+/** Tracked user IDs currently in a segment */
+export async function getSegmentMemberIds(orgId: string, segmentId: string): Promise<Set<string>> {
+    if (!(await ensureSegmentOwnership(orgId, segmentId))) return new Set();
+    const rows = await db.select({ trackedUserId: schema.segmentMemberships.trackedUserId })
+        .from(schema.segmentMemberships)
+        .where(and(eq(schema.segmentMemberships.segmentId, segmentId), isNull(schema.segmentMemberships.exitedAt)));
+    return new Set(rows.map((r) => r.trackedUserId));
+}
+
+/**
+ * Bulk enter / exit for a batch evaluation. Entering reopens exited
+ * memberships. Returns the tracked user IDs whose membership actually
+ * changed (a concurrent per-event evaluation may have got there first).
+ */
+export async function applySegmentMembershipChanges(
+    orgId: string,
+    segmentId: string,
+    changes: { entered: string[]; exited: string[] },
+): Promise<{ entered: string[]; exited: string[] }> {
+    const applied = { entered: [] as string[], exited: [] as string[] };
+    if (changes.entered.length === 0 && changes.exited.length === 0) return applied;
+    if (!(await ensureSegmentOwnership(orgId, segmentId))) return applied;
+
+    const now = new Date();
+    for (let i = 0; i < changes.entered.length; i += MEMBERSHIP_WRITE_CHUNK) {
+        const rows = await db.insert(schema.segmentMemberships)
+            .values(changes.entered.slice(i, i + MEMBERSHIP_WRITE_CHUNK).map((trackedUserId) => ({ segmentId, trackedUserId, enteredAt: now })))
+            .onConflictDoUpdate({
+                target: [schema.segmentMemberships.segmentId, schema.segmentMemberships.trackedUserId],
+                set: { enteredAt: now, exitedAt: null },
+                setWhere: isNotNull(schema.segmentMemberships.exitedAt),
+            })
+            .returning({ trackedUserId: schema.segmentMemberships.trackedUserId });
+        applied.entered.push(...rows.map((r) => r.trackedUserId));
+    }
+    for (let i = 0; i < changes.exited.length; i += MEMBERSHIP_WRITE_CHUNK) {
+        const rows = await db.update(schema.segmentMemberships)
+            .set({ exitedAt: now })
+            .where(and(
+                eq(schema.segmentMemberships.segmentId, segmentId),
+                inArray(schema.segmentMemberships.trackedUserId, changes.exited.slice(i, i + MEMBERSHIP_WRITE_CHUNK)),
+                isNull(schema.segmentMemberships.exitedAt),
+            ))
+            .returning({ trackedUserId: schema.segmentMemberships.trackedUserId });
+        applied.exited.push(...rows.map((r) => r.trackedUserId));
+    }
+    await logSegmentMembershipChanges(orgId, segmentId, 'entered', applied.entered, now);
+    await logSegmentMembershipChanges(orgId, segmentId, 'exited', applied.exited, now);
+    return applied;
 }
 
+/** Delete every membership row; current members are logged as exiting */
 export async function clearSegmentMemberships(orgId: string, segmentId: string) {
     if (!(await ensureSegmentOwnership(orgId, segmentId))) return;
-    await db.delete(schema.segmentMemberships).where(eq(schema.segmentMemberships.segmentId, segmentId));
+    const removed = await db.delete(schema.segmentMemberships)
+        .where(eq(schema.segmentMemberships.segmentId, segmentId))
+        .returning({ trackedUserId: schema.segmentMemberships.trackedUserId, exitedAt: schema.segmentMemberships.exitedAt });
+    const members = removed.filter((r) => r.exitedAt === null).map((r) => r.trackedUserId);
+    await logSegmentMembershipChanges(orgId, segmentId, 'exited', members, new Date());
 }
 
 export async function updateSegmentCount(orgId: string, segmentId: string, matchedCount: number) {
@@ -1443,6 +2162,29 @@ export async function updateSegmentCount(orgId: string, segmentId: string, match
     await db.update(schema.segments).set({ matchedUserCount: matchedCount, lastEvaluatedAt: new Date() }).where(eq(schema.segments.id, segmentId));
 }
 
+/**
+ * Add a tracked user (internal UUID) to a static segment's staticUserIds.
+ * Membership itself is recorded when the user's segments are re-evaluated.
+ *
+ * @returns true when the user was added (false if already listed or the
+ *          segment is not a static segment of this org)
+ */
+export async function addSegmentStaticUser(orgId: string, segmentId: string, trackedUserId: string): Promise<boolean> {
+    const ids = sql`coalesce(${schema.segments.staticUserIds}, '[]'::jsonb)`;
+    const idArray = JSON.stringify([trackedUserId]);
+    const updated = await db
+        .update(schema.segments)
+        .set({ staticUserIds: sql`${ids} || ${idArray}::jsonb`, updatedAt: new Date() })
+        .where(and(
+            eq(schema.segments.organizationId, orgId),
+            eq(schema.segments.id, segmentId),
+            eq(schema.segments.type, 'static'),
+            sql`not (${ids} @> ${idArray}::jsonb)`,
+        ))
+        .returning({ id: schema.segments.id });
+    return updated.length > 0;
+}
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Email Templates
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -1587,7 +2329,8 @@ export async function updateEmailSendStatus(sendId: string, status: string, deta
 }) {
     const now = new Date();
     const updates: Record<string, unknown> = { status };
-    if (details?.providerMessageId) updates.providerMessageId = details.providerMessageId;
+    // The first provider message ID sticks - a repeated send never replaces it
+    if (details?.providerMessageId) updates.providerMessageId = sql`coalesce(${schema.emailSends.providerMessageId}, ${details.providerMessageId})`;
     if (details?.failureReason) updates.failureReason = details.failureReason;
     if (status === 'sent') updates.sentAt = now;
     if (status === 'delivered') updates.deliveredAt = now;
@@ -1598,6 +2341,37 @@ export async function updateEmailSendStatus(sendId: string, status: string, deta
     return s ?? null;
 }
 
+/**
+ * Apply a provider delivery notification to the sends recorded under one
+ * of `providerMessageIds`. Provider notifications carry no org, so this
+ * matches across orgs unless `details.orgId` is given. A delivery never
+ * overwrites a later status (opened, bounced, ...); a complaint only
+ * stamps complainedAt.
+ */
+export async function updateEmailSendsByProviderMessageId(
+    providerMessageIds: string[],
+    outcome: 'delivered' | 'bounced' | 'complained',
+    details?: { failureReason?: string; at?: Date; orgId?: string },
+) {
+    if (providerMessageIds.length === 0) return [];
+    const at = details?.at ?? new Date();
+    const conditions = [inArray(schema.emailSends.providerMessageId, providerMessageIds)];
+    if (details?.orgId) conditions.push(eq(schema.emailSends.organizationId, details.orgId));
+    const updates: Record<string, unknown> = {};
+    if (outcome === 'delivered') {
+        updates.status = 'delivered';
+        updates.deliveredAt = at;
+        conditions.push(inArray(schema.emailSends.status, ['queued', 'sent']));
+    } else if (outcome === 'bounced') {
+        updates.status = 'bounced';
+        updates.bouncedAt = at;
+        if (details?.failureReason) updates.failureReason = details.failureReason;
+    } else {
+        updates.complainedAt = at;
+    }
+    return db.update(schema.emailSends).set(updates).where(and(...conditions)).returning();
+}
+
 export async function getCampaignSendStats(campaignId: string) {
     const result = await db.select({ status: schema.emailSends.status, count: count() })
         .from(schema.emailSends).where(eq(schema.emailSends.campaignId, campaignId)).groupBy(schema.emailSends.status);
@@ -28,6 +28,7 @@ import {
     pgEnum,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { RuleGroup, RuleNode } from '@/lib/definitions';
 
 /* ═══════════════════════════════════════════════════════════════════════
  * Enums
@@ -92,11 +93,49 @@ export const organizations = pgTable('organizations', {
     periodResetAt: timestamp('period_reset_at', { withTimezone: true }),
     /** Onboarding state */
     onboardingCompleted: boolean('onboarding_completed').default(false).notNull(),
+    /** Org-level email delivery settings (suppression policy, ...) */
+    emailSettings: jsonb('email_settings').$type<OrgEmailSettings>().default({}).notNull(),
     metadata: jsonb('metadata').$type<Record<string, unknown>>(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+/** How soft bounces suppress an address (unset fields use the defaults) */
+export type SuppressionPolicy = {
+    /** First soft-bounce suppression, in hours */
+    softBounceBaseHours: number;
+    /** Each further soft bounce in the window multiplies the expiry */
+    softBounceMultiplier: number;
+    softBounceMaxHours: number;
+    /** Soft bounces within the window before suppression becomes permanent */
+    softBounceEscalationCount: number;
+    softBounceWindowDays: number;
+};
+
+/** Org sending throttles (emails per second; unset = system defaults) */
+export type SendingLimits = {
+    perSecond?: number;
+    /** Per recipient domain or provider group, e.g. { "gmail.com": 5 } */
+    domains?: Record<string, number>;
+};
+
+export type EmailProviderName = 'smtp' | 'ses' | 'postmark' | 'sendgrid' | 'mailgun' | 'resend' | 'log';
+
+/** Which provider sends an org's email; secondary takes over when the primary is unhealthy */
+export type EmailTransportSettings = {
+    primary?: EmailProviderName;
+    secondary?: EmailProviderName;
+    /** Per sending (From) domain, e.g. { "mail.acme.com": { primary: "postmark" } } */
+    domains?: Record<string, { primary: EmailProviderName; secondary?: EmailProviderName }>;
+};
+
+/** Type for organizations.email_settings (JSONB) */
+export type OrgEmailSettings = {
+    suppressionPolicy?: Partial<SuppressionPolicy>;
+    sendingLimits?: SendingLimits;
+    transport?: EmailTransportSettings;
+};
+
 /* ═══════════════════════════════════════════════════════════════════════
  * User (Clerk-synced, belongs to organization)
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -285,11 +324,42 @@ export const flowDefinitions = pgTable('flow_definitions', {
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
     publishedAt: timestamp('published_at', { withTimezone: true }),
     archivedAt: timestamp('archived_at', { withTimezone: true }),
+    /** Last schedule / date_property trigger run claimed by the scheduler */
+    lastTriggeredAt: timestamp('last_triggered_at', { withTimezone: true }),
+    /** The claimed run still has audience members to enroll */
+    triggerRunPending: boolean('trigger_run_pending').default(false).notNull(),
+    /** Last audience member (tracked user id) the pending run has enrolled */
+    triggerRunCursor: uuid('trigger_run_cursor'),
 }, (t) => [
     index('flows_org_idx').on(t.organizationId),
     index('flows_status_idx').on(t.organizationId, t.status),
 ]);
 
+/* ═══════════════════════════════════════════════════════════════════════
+ * Flow Versions (immutable published snapshots)
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/**
+ * The node graph of every published flow version. Enrollments execute
+ * against the version they are pinned to (flowEnrollments.flowVersion);
+ * flowDefinitions.version is the latest published version.
+ */
+export const flowVersions = pgTable('flow_versions', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    flowId: uuid('flow_id').notNull().references(() => flowDefinitions.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    nodes: jsonb('nodes').$type<unknown[]>().default([]).notNull(),
+    edges: jsonb('edges').$type<unknown[]>().default([]).notNull(),
+    variables: jsonb('variables').$type<unknown[]>().default([]),
+    /** How enrollments on earlier versions were handled: { strategy, nodeMap, migrated, draining } */
+    migration: jsonb('migration').$type<Record<string, unknown>>(),
+    publishedAt: timestamp('published_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    uniqueIndex('flow_versions_flow_version_idx').on(t.flowId, t.version),
+    index('flow_versions_org_idx').on(t.organizationId),
+]);
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Flow Enrollments (per-user execution state)
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -307,6 +377,8 @@ export const flowEnrollments = pgTable('flow_enrollments', {
     enrolledAt: timestamp('enrolled_at', { withTimezone: true }).defaultNow().notNull(),
     lastProcessedAt: timestamp('last_processed_at', { withTimezone: true }),
     completedAt: timestamp('completed_at', { withTimezone: true }),
+    /** Set when the flow's goal event is reached */
+    convertedAt: timestamp('converted_at', { withTimezone: true }),
     nextProcessAt: timestamp('next_process_at', { withTimezone: true }),
     errorMessage: text('error_message'),
     errorNodeId: varchar('error_node_id', { length: 255 }),
@@ -445,6 +517,60 @@ export const deliverabilityMetrics = pgTable('deliverability_metrics', {
     uniqueIndex('deliverability_org_date_idx').on(t.organizationId, t.date),
 ]);
 
+/** What a breakdown row or alert is keyed by; 'org' = the org's daily total */
+export const deliverabilityDimensionEnum = pgEnum('deliverability_dimension', [
+    'org', 'sending_domain', 'source', 'mailbox_provider',
+]);
+
+/** Daily metrics by sending domain, source (campaign / flow / transactional) and mailbox provider */
+export const deliverabilityBreakdowns = pgTable('deliverability_breakdowns', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    date: varchar('date', { length: 10 }).notNull(), // "2026-02-24" (UTC)
+    dimension: deliverabilityDimensionEnum('dimension').notNull(),
+    /** "mail.acme.com", "campaign", "gmail.com" ... */
+    key: varchar('key', { length: 255 }).notNull(),
+    sent: integer('sent').default(0).notNull(),
+    delivered: integer('delivered').default(0).notNull(),
+    opened: integer('opened').default(0).notNull(),
+    clicked: integer('clicked').default(0).notNull(),
+    bounced: integer('bounced').default(0).notNull(),
+    spam: integer('spam').default(0).notNull(),
+    unsubscribed: integer('unsubscribed').default(0).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    uniqueIndex('deliverability_breakdown_key_idx').on(t.organizationId, t.date, t.dimension, t.key),
+]);
+
+export const deliverabilityAlertMetricEnum = pgEnum('deliverability_alert_metric', [
+    'bounce_rate', 'complaint_rate',
+]);
+
+export const deliverabilityAlertSeverityEnum = pgEnum('deliverability_alert_severity', [
+    'warning', 'critical',
+]);
+
+/** A daily rate over an industry threshold; raised once per day, scope, metric and severity */
+export const deliverabilityAlerts = pgTable('deliverability_alerts', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    date: varchar('date', { length: 10 }).notNull(),
+    dimension: deliverabilityDimensionEnum('dimension').notNull(),
+    /** Breakdown key; '' for the org total */
+    key: varchar('key', { length: 255 }).notNull().default(''),
+    metric: deliverabilityAlertMetricEnum('metric').notNull(),
+    severity: deliverabilityAlertSeverityEnum('severity').notNull(),
+    rate: real('rate').notNull(),
+    threshold: real('threshold').notNull(),
+    /** Sends the rate was computed over */
+    sent: integer('sent').notNull(),
+    acknowledgedAt: timestamp('acknowledged_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    uniqueIndex('deliverability_alert_key_idx').on(t.organizationId, t.date, t.dimension, t.key, t.metric, t.severity),
+    index('deliverability_alert_org_idx').on(t.organizationId, t.createdAt),
+]);
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Sending Domains - Email Authentication & DNS Verification
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -473,6 +599,50 @@ export const sendingDomains = pgTable('sending_domains', {
     uniqueIndex('domains_org_domain_idx').on(t.organizationId, t.domain),
 ]);
 
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Warm-up Plans - Daily Send Caps for New Sending Domains
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+export const warmupStatusEnum = pgEnum('warmup_status', [
+    'warming', 'held', 'completed',
+]);
+
+/** Outcome of a warm-up plan's daily evaluation */
+export type WarmupDecision = {
+    action: 'advance' | 'hold' | 'rollback' | 'complete' | 'none';
+    reason: string;
+    date: string;
+    /** Phase after the decision */
+    phase: number;
+};
+
+export const emailWarmupPlans = pgTable('email_warmup_plans', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    /** Sending (From) domain being warmed up */
+    domain: varchar('domain', { length: 255 }).notNull(),
+    status: warmupStatusEnum('status').default('warming').notNull(),
+    /** Daily send cap of each phase */
+    schedule: jsonb('schedule').$type<number[]>().notNull(),
+    /** Days a phase lasts before it may advance */
+    phaseDays: integer('phase_days').default(2).notNull(),
+    phase: integer('phase').default(0).notNull(),
+    /** schedule[phase], kept in a column for the atomic cap check */
+    dailyCap: integer('daily_cap').notNull(),
+    phaseStartedOn: varchar('phase_started_on', { length: 10 }).notNull(), // "2026-02-24" (UTC)
+    phaseSent: integer('phase_sent').default(0).notNull(),
+    sentOn: varchar('sent_on', { length: 10 }),
+    sentToday: integer('sent_today').default(0).notNull(),
+    lastEvaluatedOn: varchar('last_evaluated_on', { length: 10 }),
+    lastDecision: jsonb('last_decision').$type<WarmupDecision>(),
+    startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    uniqueIndex('warmup_org_domain_idx').on(t.organizationId, t.domain),
+    index('warmup_status_idx').on(t.status),
+]);
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Segments (real-time audience segmentation)
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -495,12 +665,13 @@ export const segments = pgTable('segments', {
     /** Rule logic: AND/OR at top level */
     filterLogic: varchar('filter_logic', { length: 3 }).default('AND').notNull(),
     /**
-     * Array of filter rules. Each rule:
+     * Array of filter rules and nested { logic, rules } groups. Each rule:
      * { field, operator, value, values, fieldSource }
      * fieldSource: 'user' | 'account' | 'event' | 'computed'
-     * field: the actual property path, e.g. "lifecycleState", "properties.industry"
+     * field: the actual property path, e.g. "lifecycleState", "properties.industry",
+     * the event name for 'event' rules, or a COMPUTED_FIELDS key
      */
-    filters: jsonb('filters').$type<SegmentFilter[]>().default([]).notNull(),
+    filters: jsonb('filters').$type<SegmentRuleNode[]>().default([]).notNull(),
     /** Cached count of users matching this segment (updated on evaluation) */
     matchedUserCount: integer('matched_user_count').default(0).notNull(),
     /** When the segment was last evaluated */
@@ -526,8 +697,32 @@ export type SegmentFilter = {
     | 'is_set' | 'is_not_set' | 'in_list' | 'not_in_list' | 'between';
     value?: string | number | boolean;
     values?: (string | number)[];
+    /** fieldSource 'event' only: what to measure about the event named by `field` */
+    event?: SegmentEventCondition;
+};
+
+/**
+ * Behavioral condition on a user's events. The operator compares the
+ * measure: the number of matching events, or the days since the first /
+ * last one (unset when there is none).
+ */
+export type SegmentEventCondition = {
+    measure: 'count' | 'first_occurred' | 'last_occurred';
+    /** Only events from the last N days count; omitted = all time */
+    withinDays?: number;
+    /** Filters on the event's properties; all must hold */
+    where?: SegmentEventPropertyFilter[];
+};
+
+export type SegmentEventPropertyFilter = Pick<SegmentFilter, 'operator' | 'value' | 'values'> & {
+    /** Property path, e.g. "plan" or "feature.name" */
+    property: string;
 };
 
+/** A segment rule or a nested AND/OR group of them */
+export type SegmentRuleNode = RuleNode<SegmentFilter>;
+export type SegmentRuleGroup = RuleGroup<SegmentFilter>;
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Segment Memberships (user-segment mapping, cached)
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -544,6 +739,41 @@ export const segmentMemberships = pgTable('segment_memberships', {
     index('seg_member_user_idx').on(t.trackedUserId),
 ]);
 
+export const segmentMembershipChangeEnum = pgEnum('segment_membership_change', [
+    'entered', 'exited',
+]);
+
+/**
+ * Append-only log of every enter / exit. segmentMemberships keeps one row
+ * per (segment, user) and overwrites it on re-entry; this keeps each change.
+ */
+export const segmentMembershipEvents = pgTable('segment_membership_events', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    segmentId: uuid('segment_id').notNull().references(() => segments.id, { onDelete: 'cascade' }),
+    trackedUserId: uuid('tracked_user_id').notNull().references(() => trackedUsers.id, { onDelete: 'cascade' }),
+    change: segmentMembershipChangeEnum('change').notNull(),
+    occurredAt: timestamp('occurred_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    index('seg_member_event_segment_idx').on(t.segmentId, t.occurredAt),
+    index('seg_member_event_user_idx').on(t.trackedUserId),
+]);
+
+/** Segment size at the end of each day (UTC), with that day's enters / exits */
+export const segmentSizeSnapshots = pgTable('segment_size_snapshots', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    segmentId: uuid('segment_id').notNull().references(() => segments.id, { onDelete: 'cascade' }),
+    date: varchar('date', { length: 10 }).notNull(), // "2026-02-24" (UTC)
+    memberCount: integer('member_count').default(0).notNull(),
+    entered: integer('entered').default(0).notNull(),
+    exited: integer('exited').default(0).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    index('seg_snapshot_org_idx').on(t.organizationId),
+    uniqueIndex('seg_snapshot_segment_date_idx').on(t.segmentId, t.date),
+]);
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Email Templates (reusable, with personalization variables)
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -631,9 +861,9 @@ export const emailCampaigns = pgTable('email_campaigns', {
     segmentId: uuid('segment_id').references(() => segments.id, { onDelete: 'set null' }),
     /** Which mailing list to target (external contacts) */
     mailingListId: uuid('mailing_list_id').references(() => mailingLists.id, { onDelete: 'set null' }),
-    /** Trigger config for triggered campaigns */
+    /** Trigger config for triggered campaigns; the filters are an AND root group */
     triggerEvent: varchar('trigger_event', { length: 255 }),
-    triggerFilters: jsonb('trigger_filters').$type<SegmentFilter[]>().default([]),
+    triggerFilters: jsonb('trigger_filters').$type<SegmentRuleNode[]>().default([]),
     /** Schedule config */
     scheduledAt: timestamp('scheduled_at', { withTimezone: true }),
     /** Recurring cron expression */
@@ -694,6 +924,7 @@ export const emailSends = pgTable('email_sends', {
     openedAt: timestamp('opened_at', { withTimezone: true }),
     clickedAt: timestamp('clicked_at', { withTimezone: true }),
     bouncedAt: timestamp('bounced_at', { withTimezone: true }),
+    complainedAt: timestamp('complained_at', { withTimezone: true }),
     failureReason: text('failure_reason'),
     /** How many times the user opened */
     openCount: integer('open_count').default(0).notNull(),
@@ -705,6 +936,7 @@ export const emailSends = pgTable('email_sends', {
     index('email_sends_user_idx').on(t.trackedUserId),
     index('email_sends_status_idx').on(t.organizationId, t.status),
     index('email_sends_sent_at_idx').on(t.organizationId, t.sentAt),
+    index('email_sends_provider_message_idx').on(t.providerMessageId),
 ]);
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -848,6 +1080,14 @@ export const flowDefinitionsRelations = relations(flowDefinitions, ({ one, many
         references: [organizations.id],
     }),
     enrollments: many(flowEnrollments),
+    versions: many(flowVersions),
+}));
+
+export const flowVersionsRelations = relations(flowVersions, ({ one }) => ({
+    flow: one(flowDefinitions, {
+        fields: [flowVersions.flowId],
+        references: [flowDefinitions.id],
+    }),
 }));
 
 export const flowEnrollmentsRelations = relations(flowEnrollments, ({ one }) => ({
@@ -1056,6 +1296,28 @@ export const emailSuppressions = pgTable('email_suppressions', {
     index('email_suppression_reason_idx').on(t.organizationId, t.reason),
 ]);
 
+export const suppressionEventActionEnum = pgEnum('suppression_event_action', [
+    'added', 'renewed', 'escalated', 'removed',
+]);
+
+/** Append-only audit history of suppression changes */
+export const emailSuppressionEvents = pgTable('email_suppression_events', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+    email: varchar('email', { length: 320 }).notNull(),
+    action: suppressionEventActionEnum('action').notNull(),
+    /** Reason in effect after the change (hard_bounce once escalated) */
+    reason: suppressionReasonEnum('reason').notNull(),
+    source: varchar('source', { length: 255 }).notNull().default('system'),
+    bounceCount: integer('bounce_count').default(0).notNull(),
+    /** When the suppression lifts; null = permanent */
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => [
+    index('email_suppression_events_email_idx').on(t.organizationId, t.email, t.createdAt),
+]);
+
 /* ═══════════════════════════════════════════════════════════════════════
  * Email Queue (DB-backed, survives cold starts)
  * ═══════════════════════════════════════════════════════════════════════ */
@@ -1081,14 +1343,29 @@ export const emailQueue = pgTable('email_queue', {
     headers: jsonb('headers').$type<Record<string, string>>(),
     campaignId: uuid('campaign_id'),
     userId: uuid('user_id'),
+    /** Flow step that sent the email (flow emails only) */
+    flowId: uuid('flow_id'),
+    flowNodeId: varchar('flow_node_id', { length: 100 }),
+    enrollmentId: uuid('enrollment_id'),
     priority: emailPriorityEnum('priority').default('normal').notNull(),
     status: emailQueueStatusEnum('status').default('queued').notNull(),
     attempts: integer('attempts').default(0).notNull(),
     maxAttempts: integer('max_attempts').default(3).notNull(),
     nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
     lastError: text('last_error'),
+    /** Worker claim while status = 'sending'; only the holder may settle the row */
+    claimToken: uuid('claim_token'),
+    leaseExpiresAt: timestamp('lease_expires_at', { withTimezone: true }),
+    /** Transport provider that accepted the email */
+    provider: varchar('provider', { length: 20 }).$type<EmailProviderName>(),
     providerMessageId: varchar('provider_message_id', { length: 255 }),
+    /** Tracking message ID ("msg_...") carried by the open, click and unsubscribe links */
+    messageId: varchar('message_id', { length: 64 }),
     sentAt: timestamp('sent_at', { withTimezone: true }),
+    /** Provider delivery notifications (e.g. SES via SNS) */
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+    bouncedAt: timestamp('bounced_at', { withTimezone: true }),
+    complainedAt: timestamp('complained_at', { withTimezone: true }),
     tags: jsonb('tags').$type<Record<string, string>>(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (t) => [
@@ -1096,6 +1373,11 @@ export const emailQueue = pgTable('email_queue', {
     index('email_queue_status_idx').on(t.organizationId, t.status),
     index('email_queue_next_attempt_idx').on(t.status, t.nextAttemptAt),
     index('email_queue_priority_idx').on(t.priority, t.nextAttemptAt),
+    index('email_queue_flow_idx').on(t.organizationId, t.flowId),
+    index('email_queue_provider_message_idx').on(t.providerMessageId),
+    index('email_queue_lease_idx').on(t.status, t.leaseExpiresAt),
+    index('email_queue_message_idx').on(t.organizationId, t.messageId),
+    index('email_queue_sent_at_idx').on(t.sentAt),
 ]);
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -1113,6 +1395,10 @@ export const emailTrackingEvents = pgTable('email_tracking_events', {
     type: trackingEventTypeEnum('type').notNull(),
     recipientEmail: varchar('recipient_email', { length: 320 }).notNull(),
     campaignId: uuid('campaign_id'),
+    /** Flow step that sent the email (flow emails only) */
+    flowId: uuid('flow_id'),
+    flowNodeId: varchar('flow_node_id', { length: 100 }),
+    enrollmentId: uuid('enrollment_id'),
     metadata: jsonb('metadata').$type<Record<string, unknown>>(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (t) => [
@@ -1120,6 +1406,8 @@ export const emailTrackingEvents = pgTable('email_tracking_events', {
     index('tracking_events_message_idx').on(t.messageId),
     index('tracking_events_campaign_idx').on(t.campaignId),
     index('tracking_events_type_idx').on(t.organizationId, t.type),
+    index('tracking_events_flow_idx').on(t.organizationId, t.flowId),
+    index('tracking_events_enrollment_idx').on(t.enrollmentId),
 ]);
 
 /* ═══════════════════════════════════════════════════════════════════════
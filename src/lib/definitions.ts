@@ -197,6 +197,10 @@ export interface TriggerNodeConfig {
   segmentId?: string;
   /** webhook_received: path suffix */
   webhookPath?: string;
+  /** webhook_received: per-flow HMAC signing secret (generated on save) */
+  webhookSecret?: string;
+  /** webhook_received: dot path to the user's external ID or email in the body */
+  webhookUserField?: string;
   /** date_property: user/account date field + offset */
   dateProperty?: string;
   dateOffsetDays?: number;
@@ -247,7 +251,12 @@ export interface ActionNodeConfig {
   apiMethod?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   apiHeaders?: Record<string, string>;
   apiBodyTemplate?: string;
+  /** Enrollment variable the (extracted) JSON response is stored in */
   apiResponseVariable?: string;
+  /** JSONPath into the response, e.g. "$.data.coupon.code" (whole body when empty) */
+  apiResponsePath?: string;
+  /** Abort the request after this many seconds (default 10, max 30) */
+  apiTimeoutSeconds?: number;
   /** set_variable */
   variableKey?: string;
   variableValue?: string;
@@ -285,9 +294,22 @@ export interface ConditionRule {
 
 export type ConditionLogic = 'AND' | 'OR';
 
+/**
+ * A boolean group of rules. Groups nest: each entry of `rules` is a rule
+ * or another group, e.g. (Trial AND logins < 3) OR (AtRisk AND mrr > 500).
+ * Flow conditions / filters, segments and campaign trigger filters all
+ * store a root group as { logic, rules }.
+ */
+export interface RuleGroup<R> {
+  logic: ConditionLogic;
+  rules: RuleNode<R>[];
+}
+
+export type RuleNode<R> = R | RuleGroup<R>;
+
 export interface ConditionNodeConfig {
   logic: ConditionLogic;
-  rules: ConditionRule[];
+  rules: RuleNode<ConditionRule>[];
   /** The outgoing handles: "yes" (rules pass) and "no" (rules fail) */
 }
 
@@ -304,7 +326,10 @@ export interface DelayNodeConfig {
   kind: DelayKind;
   /** fixed_duration */
   durationMinutes?: number;
-  /** until_event */
+  /**
+   * until_event: supports wildcards like `event_received` triggers.
+   * Outgoing handles: "event" (event arrived) and "timeout" (gave up).
+   */
   waitForEvent?: string;
   waitTimeoutMinutes?: number;
   /** until_date: ISO date string template (can be {{variable}}) */
@@ -323,6 +348,16 @@ export interface SplitVariant {
   id: string;
   label: string;
   percentage: number;         // 0–100, all variants must sum to 100
+  /** Runtime stats (updated by engine) */
+  stats?: SplitVariantStats;
+}
+
+/** Unique enrollees per variant; opens/clicks/conversions count each enrollee once */
+export interface SplitVariantStats {
+  enrolled: number;
+  opens: number;
+  clicks: number;
+  conversions: number;
 }
 
 export interface SplitNodeConfig {
@@ -331,14 +366,18 @@ export interface SplitNodeConfig {
   winnerMetric?: 'open_rate' | 'click_rate' | 'conversion_rate';
   /** Auto-pick winner after N enrollees */
   autoPickAfter?: number;
+  /** Set by the engine once a variant wins; later enrollees all take it */
   winnerId?: string;
+  winnerDecidedAt?: string;
+  /** Statistical confidence (0–1) of the winning decision */
+  winnerConfidence?: number;
 }
 
 /* ── Filter Config ───────────────────────────────────────────────────── */
 
 export interface FilterNodeConfig {
   logic: ConditionLogic;
-  rules: ConditionRule[];
+  rules: RuleNode<ConditionRule>[];
   /** Users who match continue; others are silently dropped */
 }
 
@@ -420,6 +459,8 @@ export type FlowBuilderStatus = 'draft' | 'active' | 'paused' | 'archived' | 'er
 
 export interface FlowDefinition {
   id: string;
+  /** Owning org: webhook_received triggers listen on /api/v1/hooks/{organizationId}/{webhookPath} */
+  organizationId?: string;
   name: string;
   description: string;
   /** Human-readable trigger description (e.g. 'User starts trial') */
@@ -440,6 +481,30 @@ export interface FlowDefinition {
   archivedAt?: string;
 }
 
+/* ── Flow Versions ───────────────────────────────────────────────────── */
+
+/**
+ * What happens to in-flight enrollments when a new flow version is
+ * published: `drain` leaves them on the version they started on;
+ * `migrate` moves them to the new version, mapping each node they wait on
+ * through `nodeMap` (nodes that kept their ID map to themselves; an empty
+ * target keeps that node's enrollments draining). Enrollments on nodes
+ * that map nowhere keep draining.
+ */
+export interface FlowVersionMigration {
+  strategy: 'drain' | 'migrate';
+  nodeMap?: Record<string, string>;
+}
+
+export interface FlowVersionSummary {
+  version: number;
+  publishedAt: string;
+  /** Live enrollments (active or paused) pinned to this version, per node */
+  inFlight: Record<string, number>;
+  nodes: FlowNodeDef[];
+  migration?: FlowVersionMigration & { migrated?: number; draining?: number };
+}
+
 export interface FlowSettings {
   /** Global enrollment cap (0 = unlimited) */
   enrollmentCap: number;
@@ -455,12 +520,23 @@ export interface FlowSettings {
   /** Goal metric - when hit, the flow is considered successful for that user */
   goalEvent?: string;
   goalTimeout?: number;        // minutes
+  /** Exit the enrollment as completed once the goal is reached */
+  exitOnGoal?: boolean;
   /** Tags applied to enrolled users */
   enrollmentTags?: string[];
   /** Priority relative to other flows (higher = trumps) */
   priority: number;
 }
 
+/** Engagement with the emails one send_email step has sent */
+export interface FlowEmailStepMetrics {
+  sent: number;
+  /** Messages opened at least once */
+  opens: number;
+  /** Messages clicked at least once */
+  clicks: number;
+}
+
 export interface FlowMetrics {
   totalEnrolled: number;
   currentlyActive: number;
@@ -470,10 +546,18 @@ export interface FlowMetrics {
   errorCount: number;
   /** Revenue directly attributed to this flow ($) */
   revenueGenerated: number;
-  /** Aggregate open rate across all email steps (%) */
+  /** Aggregate open rate across all email steps (%, unique opens / sent) */
   openRate: number;
-  /** Aggregate click rate across all email steps (%) */
+  /** Aggregate click rate across all email steps (%, unique clicks / sent) */
   clickRate: number;
+  /** Per send_email step engagement, keyed by node ID */
+  emailSteps?: Record<string, FlowEmailStepMetrics>;
+  /** Enrollments refused by enrollmentCap / maxConcurrentEnrollments */
+  enrollmentsRefused?: number;
+  /** Email / notification steps held back by quiet hours */
+  quietHoursDeferrals?: number;
+  /** Enrollments exited by autoExitDays (also counted in exitedEarly) */
+  autoExited?: number;
 }
 
 /* ── Flow Enrollment (per-user execution state) ──────────────────────── */
@@ -494,6 +578,8 @@ export interface FlowEnrollment {
   enrolledAt: string;
   lastProcessedAt: string;
   completedAt?: string;
+  /** When the flow's goal event was reached */
+  convertedAt?: string;
   /** Next scheduled processing time (for delays) */
   nextProcessAt?: string;
   /** Error details if status === 'error' */
@@ -0,0 +1,103 @@
+/* ==========================================================================
+ * Email Events - Unit Tests
+ *
+ * Covers feeding email engagement into the event pipeline:
+ *   - Event properties for campaign, flow and link context
+ *   - Dedup keys (one event per message, per link for clicks)
+ *   - Resolving the tracked user and skipping repeats
+ * ========================================================================== */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const ops = vi.hoisted(() => ({
+    getEnrollment: vi.fn(),
+    getTrackedUser: vi.fn(),
+    getTrackedUserByEmail: vi.fn(),
+    ingestEvents: vi.fn(),
+}));
+const pipeline = vi.hoisted(() => ({ processEvent: vi.fn() }));
+
+vi.mock('@/lib/db/operations', () => ops);
+vi.mock('@/lib/engine/event-pipeline', () => pipeline);
+vi.mock('@/lib/engine/email', () => ({ resolveOrgIdFromCampaign: vi.fn(async () => 'org_campaign') }));
+
+import {
+    buildEmailEventProperties,
+    emailEventDedupKey,
+    emitEmailEvent,
+} from '@/lib/engine/email-events';
+
+const flow = { orgId: 'org_1', flowId: 'flow_1', nodeId: 'mail_upgrade', enrollmentId: 'enr_1' };
+const trackedUser = { id: 'tu_1', externalId: 'user_42', accountId: 'acc_1' };
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('email event construction', () => {
+    it('includes campaign, flow and link properties', () => {
+        const props = buildEmailEventProperties({
+            type: 'click',
+            recipientEmail: 'ada@example.com',
+            messageId: 'msg_1',
+            flow,
+            url: 'https://example.com/pricing?plan=pro',
+        });
+        expect(props).toEqual({
+            email: 'ada@example.com',
+            messageId: 'msg_1',
+            flowId: 'flow_1',
+            flowNodeId: 'mail_upgrade',
+            enrollmentId: 'enr_1',
+            url: 'https://example.com/pricing?plan=pro',
+            linkDomain: 'example.com',
+            linkPath: '/pricing',
+        });
+    });
+
+    it('dedups per message, and per link for clicks', () => {
+        const open = { type: 'open' as const, recipientEmail: 'a@b.co', messageId: 'msg_1' };
+        expect(emailEventDedupKey(open)).toBe('email.opened:msg_1');
+        const pricing = emailEventDedupKey({ ...open, type: 'click', url: 'https://x.co/pricing' });
+        const docs = emailEventDedupKey({ ...open, type: 'click', url: 'https://x.co/docs' });
+        expect(pricing).not.toBe(docs);
+        expect(pricing.startsWith('email.clicked:msg_1:')).toBe(true);
+        // Without a message ID nothing can be deduplicated
+        const bounce = { type: 'bounce' as const, recipientEmail: 'a@b.co' };
+        expect(emailEventDedupKey(bounce)).not.toBe(emailEventDedupKey(bounce));
+    });
+});
+
+describe('emitEmailEvent', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        ops.getEnrollment.mockResolvedValue({ id: 'enr_1', trackedUserId: 'tu_1' });
+        ops.getTrackedUser.mockResolvedValue(trackedUser);
+        ops.getTrackedUserByEmail.mockResolvedValue(null);
+        pipeline.processEvent.mockResolvedValue({ eventId: 'evt' });
+    });
+
+    it('links flow email events to the enrolled user and runs the pipeline', async () => {
+        ops.ingestEvents.mockResolvedValue({ ingested: 1, duplicates: 0 });
+        await emitEmailEvent({ type: 'open', recipientEmail: 'ada@example.com', messageId: 'msg_1', flow });
+
+        expect(ops.ingestEvents).toHaveBeenCalledWith('org_1', [expect.objectContaining({
+            name: 'email.opened',
+            trackedUserId: 'tu_1',
+            accountId: 'acc_1',
+            externalUserId: 'user_42',
+            messageId: 'email.opened:msg_1',
+        })]);
+        expect(pipeline.processEvent).toHaveBeenCalledWith(
+            expect.objectContaining({ event: 'email.opened', userId: 'user_42' }),
+            'org_1',
+        );
+    });
+
+    it('skips the pipeline for repeats and resolves campaign orgs', async () => {
+        ops.ingestEvents.mockResolvedValue({ ingested: 0, duplicates: 1 });
+        const result = await emitEmailEvent({ type: 'open', recipientEmail: 'ada@example.com', messageId: 'msg_1', campaignId: 'camp_1' });
+
+        expect(result).toBeNull();
+        expect(ops.getTrackedUserByEmail).toHaveBeenCalledWith('org_campaign', 'ada@example.com');
+        expect(pipeline.processEvent).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,53 @@
+/* ==========================================================================
+ * Flow Fixtures - shared by the flow engine and simulator tests
+ * ========================================================================== */
+
+import type { FlowDefinition, FlowNodeDef, FlowEdgeDef } from '@/lib/definitions';
+
+export function node(id: string, data: FlowNodeDef['data']): FlowNodeDef {
+    return { id, type: data.nodeType, position: { x: 0, y: 0 }, data };
+}
+
+export function edge(source: string, target: string, sourceHandle?: string): FlowEdgeDef {
+    return { id: `${source}-${target}`, source, target, sourceHandle };
+}
+
+/** An active flow over `nodes` / `edges`, with `settings` over the defaults */
+export function buildFlow(
+    nodes: FlowNodeDef[],
+    edges: FlowEdgeDef[],
+    settings: Partial<FlowDefinition['settings']> = {},
+): FlowDefinition {
+    return {
+        id: 'flow_1',
+        name: 'Test Flow',
+        description: '',
+        trigger: 'manual',
+        status: 'active',
+        version: 1,
+        nodes,
+        edges,
+        variables: [],
+        settings: {
+            enrollmentCap: 0,
+            maxConcurrentEnrollments: 1000,
+            autoExitDays: 30,
+            respectQuietHours: false,
+            priority: 0,
+            ...settings,
+        },
+        metrics: {
+            totalEnrolled: 0,
+            currentlyActive: 0,
+            completed: 0,
+            goalReached: 0,
+            exitedEarly: 0,
+            errorCount: 0,
+            revenueGenerated: 0,
+            openRate: 0,
+            clickRate: 0,
+        },
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-01T00:00:00Z',
+    };
+}
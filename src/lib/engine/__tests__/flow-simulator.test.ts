@@ -0,0 +1,120 @@
+/* ==========================================================================
+ * Flow Simulator - Unit Tests
+ *
+ * Covers dry runs on the virtual clock:
+ *   - Fast-forwarding delays and collecting resolved emails per step
+ *   - Scripted events resuming `until_event` waits and converting goals
+ *   - Profile updates feeding later conditions, stubbed api_call responses
+ *   - Stopping runaway loops and runs past the horizon
+ * ========================================================================== */
+
+import { describe, it, expect } from 'vitest';
+import { simulateFlow, SIMULATION_MAX_TICKS } from '@/lib/engine/flow-simulator';
+import { node, edge, buildFlow } from './fixtures/flows';
+
+/* ── Fixtures ────────────────────────────────────────────────────────── */
+
+const trigger = node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } });
+const user = { id: 'u1', email: 'ada@example.com', name: 'Ada' };
+const startAt = new Date('2026-03-02T10:00:00Z');
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('simulateFlow', () => {
+    it('fast-forwards delays and resolves emails', () => {
+        const flow = buildFlow(
+            [
+                trigger,
+                node('wait', { label: 'Wait 3 days', nodeType: 'delay', delayConfig: { kind: 'fixed_duration', durationMinutes: 3 * 1440 } }),
+                node('mail', { label: 'Check-in', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Hi {{user.name}}', emailBody: 'Still there?' } }),
+            ],
+            [edge('t', 'wait'), edge('wait', 'mail')],
+        );
+        const result = simulateFlow(flow, user, { startAt });
+
+        expect(result.status).toBe('completed');
+        expect(result.path).toEqual(['t', 'wait', 'mail']);
+        expect(result.endedAt).toBe('2026-03-05T10:00:00.000Z');
+        expect(result.emails).toEqual([
+            { nodeId: 'mail', at: '2026-03-05T10:00:00.000Z', to: 'ada@example.com', subject: 'Hi Ada', body: 'Still there?' },
+        ]);
+        const mailStep = result.steps.find((s) => s.nodeId === 'mail')!;
+        expect(mailStep.actions).toHaveLength(1);
+        expect(result.steps.map((s) => s.outcome)).toEqual(['entered', 'completed', 'waiting', 'completed', 'completed']);
+    });
+
+    it('delivers scripted events to waits and goals', () => {
+        const flow = buildFlow(
+            [
+                trigger,
+                node('w', { label: 'Wait for project', nodeType: 'delay', delayConfig: { kind: 'until_event', waitForEvent: 'project_created', waitTimeoutMinutes: 1440 } }),
+                node('yes', { label: 'Congrats', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Nice!' } }),
+                node('no', { label: 'Nudge', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Need help?' } }),
+                node('w2', { label: 'Wait', nodeType: 'delay', delayConfig: { kind: 'fixed_duration', durationMinutes: 1440 } }),
+            ],
+            [edge('t', 'w'), edge('w', 'yes', 'event'), edge('w', 'no', 'timeout'), edge('yes', 'w2')],
+            { goalEvent: 'subscription_started', exitOnGoal: true },
+        );
+
+        const timedOut = simulateFlow(flow, user, { startAt });
+        expect(timedOut.path).toEqual(['t', 'w', 'no']);
+
+        const resumed = simulateFlow(flow, user, {
+            startAt,
+            events: [
+                { name: 'project_created', afterMinutes: 30 },
+                { name: 'subscription_started', afterMinutes: 120 },
+            ],
+        });
+        expect(resumed.path).toEqual(['t', 'w', 'yes', 'w2']);
+        expect(resumed.steps.find((s) => s.details === 'Event received: project_created')?.event).toBe('project_created');
+        expect(resumed.converted).toBe(true);
+        expect(resumed.status).toBe('completed');
+        expect(resumed.endedAt).toBe('2026-03-02T12:00:00.000Z');
+    });
+
+    it('applies profile updates and stubs api_call responses', () => {
+        const flow = buildFlow(
+            [
+                trigger,
+                node('api', { label: 'Lookup', nodeType: 'action', actionConfig: { kind: 'api_call', apiUrl: 'https://api.example.com/{{user.id}}' } }),
+                node('upd', { label: 'Upgrade', nodeType: 'action', actionConfig: { kind: 'update_user', userProperties: { plan: 'pro' } } }),
+                node('cond', {
+                    label: 'Is Pro?',
+                    nodeType: 'condition',
+                    conditionConfig: { logic: 'AND', rules: [{ field: 'user.plan', operator: 'equals', value: 'pro' }] },
+                }),
+                node('pro', { label: 'Pro', nodeType: 'exit' }),
+                node('free', { label: 'Free', nodeType: 'exit' }),
+                node('fail', { label: 'API failed', nodeType: 'exit' }),
+            ],
+            [edge('t', 'api'), edge('api', 'upd'), edge('api', 'fail', 'failure'), edge('upd', 'cond'), edge('cond', 'pro', 'yes'), edge('cond', 'free', 'no')],
+        );
+
+        const ok = simulateFlow(flow, user, { startAt });
+        expect(ok.path).toEqual(['t', 'api', 'upd', 'cond', 'pro']);
+        expect(ok.steps.find((s) => s.nodeId === 'api')?.actions[0]).toMatchObject({ type: 'api_call', url: 'https://api.example.com/u1' });
+
+        const failed = simulateFlow(flow, user, { startAt, apiResponses: { api: { ok: false, status: 503 } } });
+        expect(failed.path).toEqual(['t', 'api', 'fail']);
+        expect(failed.variables['api.status']).toBe(503);
+    });
+
+    it('stops runaway loops and runs past the horizon', () => {
+        const loop = buildFlow(
+            [trigger, node('g', { label: 'Again', nodeType: 'goto', goToConfig: { targetNodeId: 't' } })],
+            [edge('t', 'g')],
+        );
+        const looped = simulateFlow(loop, user, { startAt });
+        expect(looped.stoppedReason).toBe('max_ticks');
+        expect(looped.steps.length).toBeGreaterThanOrEqual(SIMULATION_MAX_TICKS);
+
+        const slow = buildFlow(
+            [trigger, node('w', { label: 'Wait a year', nodeType: 'delay', delayConfig: { kind: 'fixed_duration', durationMinutes: 400 * 1440 } })],
+            [edge('t', 'w')],
+        );
+        const parked = simulateFlow(slow, user, { startAt, horizonDays: 30 });
+        expect(parked.status).toBe('active');
+        expect(parked.stoppedReason).toBe('horizon');
+    });
+});
@@ -0,0 +1,658 @@
+/* ==========================================================================
+ * Flow Execution Engine - Unit Tests
+ *
+ * Exercises the pure graph-walking logic in flow.ts:
+ *   - Event name matching (wildcards)
+ *   - Condition rules in nested AND/OR groups
+ *   - Walking through actions until a delay parks the enrollment
+ *   - Tag / static segment actions
+ *   - api_call responses: variables, JSONPath extraction, failure branch
+ *   - "Wait until event" delays resuming early vs timing out
+ *   - FlowSettings guards: quiet hours, enrollment limits, auto-exit
+ *   - Goal-event conversion tracking
+ *   - Email engagement rollup into flow metrics
+ *   - A/B split winner selection
+ *   - Scheduled triggers: cron matching, date properties, re-entry rules
+ *   - Flow versions: graph fingerprints, pinned graphs, migration plans
+ * ========================================================================== */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    matchesEventName,
+    evaluateCondition,
+    createEnrollment,
+    processEnrollment,
+    isWithinQuietHours,
+    quietHoursEndAfter,
+    checkEnrollmentLimits,
+    shouldAutoExit,
+    isGoalConversion,
+    markGoalReached,
+    extractEventRevenue,
+    evaluateSplitWinner,
+    splitAssignments,
+    parseCron,
+    latestCronOccurrence,
+    resolveDateProperty,
+    isDatePropertyDue,
+    canEnterFlow,
+    matchesTrigger,
+    extractJsonPath,
+    apiCallQueuedKey,
+    flowGraphFingerprint,
+    withVersionGraph,
+    planVersionMigration,
+    rollupFlowEmailMetrics,
+} from '@/lib/engine/flow';
+import type { FlowDefinition, FlowSettings, SplitNodeConfig } from '@/lib/definitions';
+import { node, edge, buildFlow } from './fixtures/flows';
+
+/* ── Fixtures ────────────────────────────────────────────────────────── */
+
+/** trigger → wait for project_created (3d) → event: welcome / timeout: nudge */
+const waitFlow = buildFlow(
+    [
+        node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+        node('w', { label: 'Wait', nodeType: 'delay', delayConfig: { kind: 'until_event', waitForEvent: 'project_created', waitTimeoutMinutes: 4320 } }),
+        node('welcome', { label: 'Welcome', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Nice project!' } }),
+        node('nudge', { label: 'Nudge', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Create a project' } }),
+    ],
+    [edge('t', 'w'), edge('w', 'welcome', 'event'), edge('w', 'nudge', 'timeout')],
+);
+
+const user = { id: 'u1', email: 'u1@example.com', name: 'User One' };
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('matchesEventName', () => {
+    it('matches exact names', () => {
+        expect(matchesEventName('project_created', 'project_created')).toBe(true);
+        expect(matchesEventName('project_created', 'project_deleted')).toBe(false);
+    });
+
+    it('supports wildcards and treats dots literally', () => {
+        expect(matchesEventName('user.*', 'user.signed_up')).toBe(true);
+        expect(matchesEventName('user.*', 'userXsigned_up')).toBe(false);
+    });
+
+    it('matches anything when no pattern is set', () => {
+        expect(matchesEventName(undefined, 'anything')).toBe(true);
+    });
+});
+
+describe('evaluateCondition', () => {
+    const trialOrAtRisk = [
+        { logic: 'AND' as const, rules: [
+            { field: 'user.lifecycleState', operator: 'equals' as const, value: 'Trial' },
+            { field: 'user.loginFrequencyLast7Days', operator: 'less_than' as const, value: 3 },
+        ] },
+        { logic: 'AND' as const, rules: [
+            { field: 'user.lifecycleState', operator: 'equals' as const, value: 'AtRisk' },
+            { field: 'user.mrr', operator: 'greater_than' as const, value: 500 },
+        ] },
+    ];
+
+    it('evaluates nested groups under the top-level logic', () => {
+        expect(evaluateCondition('OR', trialOrAtRisk, { lifecycleState: 'AtRisk', mrr: 900 })).toBe(true);
+        expect(evaluateCondition('OR', trialOrAtRisk, { lifecycleState: 'Trial', loginFrequencyLast7Days: 5 })).toBe(false);
+        expect(evaluateCondition('AND', trialOrAtRisk, { lifecycleState: 'AtRisk', mrr: 900 })).toBe(false);
+    });
+
+    it('keeps flat rule lists working and ignores empty groups', () => {
+        const flat = [{ field: 'user.plan', operator: 'equals' as const, value: 'Growth' }];
+        expect(evaluateCondition('AND', flat, { plan: 'Growth' })).toBe(true);
+        expect(evaluateCondition('OR', [...flat, { logic: 'AND', rules: [] }], { plan: 'Starter' })).toBe(false);
+    });
+});
+
+describe('processEnrollment - walking the graph', () => {
+    it('runs through actions in one pass until the flow ends', () => {
+        const flow = buildFlow(
+            [
+                node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+                node('a', { label: 'Email', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Hi {{user.name}}' } }),
+                node('x', { label: 'Done', nodeType: 'exit' }),
+            ],
+            [edge('t', 'a'), edge('a', 'x')],
+        );
+        const enrollment = createEnrollment(flow, user.id, undefined, user)!;
+        const result = processEnrollment({ flow, enrollment, user });
+
+        expect(result.enrollment.status).toBe('completed');
+        expect(result.actions).toHaveLength(1);
+        expect(result.actions[0]).toMatchObject({ type: 'send_email', subject: 'Hi User One' });
+    });
+
+    it('emits tag and static segment actions for the enrolled user', () => {
+        const flow = buildFlow(
+            [
+                node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+                node('tag', { label: 'Tag', nodeType: 'action', actionConfig: { kind: 'add_tag', tag: 'plan-{{user.name}}' } }),
+                node('untag', { label: 'Untag', nodeType: 'action', actionConfig: { kind: 'remove_tag', tag: 'trial' } }),
+                node('seg', { label: 'Segment', nodeType: 'action', actionConfig: { kind: 'assign_segment', segmentId: 'seg_vip' } }),
+                node('none', { label: 'Unset', nodeType: 'action', actionConfig: { kind: 'assign_segment' } }),
+            ],
+            [edge('t', 'tag'), edge('tag', 'untag'), edge('untag', 'seg'), edge('seg', 'none')],
+        );
+        const enrollment = createEnrollment(flow, user.id, undefined, user)!;
+        const result = processEnrollment({ flow, enrollment, user });
+
+        expect(result.actions).toEqual([
+            { type: 'add_tag', userId: 'u1', tag: 'plan-User One' },
+            { type: 'remove_tag', userId: 'u1', tag: 'trial' },
+            { type: 'assign_segment', userId: 'u1', segmentId: 'seg_vip' },
+        ]);
+    });
+
+    it('stops a loop without a wait as an error instead of leaving it unscheduled', () => {
+        const flow = buildFlow(
+            [
+                node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+                node('tag', { label: 'Tag', nodeType: 'action', actionConfig: { kind: 'add_tag', tag: 'looping' } }),
+                node('back', { label: 'Again', nodeType: 'goto', goToConfig: { targetNodeId: 'tag' } }),
+            ],
+            [edge('t', 'tag'), edge('tag', 'back')],
+        );
+        const enrollment = createEnrollment(flow, user.id, undefined, user)!;
+        const result = processEnrollment({ flow, enrollment, user });
+
+        expect(result.enrollment.status).toBe('error');
+        expect(result.enrollment.errorMessage).toMatch(/without a wait/);
+        expect(result.enrollment.nextProcessAt).toBeUndefined();
+    });
+});
+
+describe('api_call responses', () => {
+    /** trigger → api_call → success: email / failure: fallback */
+    const apiFlow = buildFlow(
+        [
+            node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+            node('api', {
+                label: 'Coupon', nodeType: 'action',
+                actionConfig: { kind: 'api_call', apiUrl: 'https://api.example.com/coupons?u={{user.id}}', apiMethod: 'GET', apiResponseVariable: 'coupon', apiResponsePath: '$.data.coupon' },
+            }),
+            node('ok', { label: 'Email', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Your code: {{coupon.code}}' } }),
+            node('fail', { label: 'Fallback', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Sorry ({{api.error}})' } }),
+        ],
+        [edge('t', 'api'), edge('api', 'ok', 'success'), edge('api', 'fail', 'failure')],
+    );
+
+    function parked() {
+        const enrollment = createEnrollment(apiFlow, user.id, undefined, user)!;
+        return processEnrollment({ flow: apiFlow, enrollment, user });
+    }
+
+    it('emits the request and parks on the node until the response arrives', () => {
+        const result = parked();
+        expect(result.actions).toEqual([expect.objectContaining({
+            type: 'api_call', nodeId: 'api', method: 'GET', url: 'https://api.example.com/coupons?u=u1', timeoutMs: 10_000,
+        })]);
+        expect(result.enrollment).toMatchObject({ status: 'active', currentNodeId: 'api' });
+        expect(result.enrollment.nextProcessAt).toBeDefined();
+
+        // Ticking again without a response keeps waiting
+        expect(processEnrollment({ flow: apiFlow, enrollment: result.enrollment, user }).enrollment).toBe(result.enrollment);
+    });
+
+    it('queues the request for the scheduler when api calls are deferred', () => {
+        const enrollment = createEnrollment(apiFlow, user.id, undefined, user)!;
+        const queued = processEnrollment({ flow: apiFlow, enrollment, user, deferApiCalls: true });
+        expect(queued.actions).toHaveLength(0);
+        expect(queued.enrollment).toMatchObject({ status: 'active', currentNodeId: 'api' });
+        expect(queued.enrollment.nextProcessAt).toBeDefined();
+        expect(processEnrollment({ flow: apiFlow, enrollment: queued.enrollment, user, deferApiCalls: true }).enrollment).toBe(queued.enrollment);
+
+        // The scheduler's tick sends it and waits for the response
+        const sent = processEnrollment({ flow: apiFlow, enrollment: queued.enrollment, user });
+        expect(sent.actions).toEqual([expect.objectContaining({ type: 'api_call', nodeId: 'api' })]);
+        expect(sent.enrollment.variables[apiCallQueuedKey('api')]).toBeUndefined();
+        expect(new Date(sent.enrollment.nextProcessAt!).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('stores the extracted response and takes the success branch', () => {
+        const result = processEnrollment({
+            flow: apiFlow,
+            enrollment: parked().enrollment,
+            user,
+            apiResponse: { nodeId: 'api', ok: true, status: 200, body: { data: { coupon: { code: 'SAVE20', pct: 20 } } } },
+        });
+        expect(result.enrollment.variables).toMatchObject({
+            coupon: '{"code":"SAVE20","pct":20}',
+            'coupon.code': 'SAVE20',
+            'coupon.pct': 20,
+            'api.status': 200,
+        });
+        expect(result.actions[0]).toMatchObject({ type: 'send_email', subject: 'Your code: SAVE20' });
+    });
+
+    it('takes the failure branch on non-2xx responses and missed deadlines', () => {
+        const failed = processEnrollment({
+            flow: apiFlow,
+            enrollment: parked().enrollment,
+            user,
+            apiResponse: { nodeId: 'api', ok: false, status: 503, error: 'HTTP 503' },
+        });
+        expect(failed.actions[0]).toMatchObject({ subject: 'Sorry (HTTP 503)' });
+        expect(failed.enrollment.variables.coupon).toBeUndefined();
+
+        const stale = { ...parked().enrollment, nextProcessAt: new Date(Date.now() - 1000).toISOString() };
+        const timedOut = processEnrollment({ flow: apiFlow, enrollment: stale, user });
+        expect(timedOut.actions[0]).toMatchObject({ subject: 'Sorry (No response received)' });
+    });
+
+    it('continues on the main path when no failure branch is wired', () => {
+        const flow = { ...apiFlow, edges: [edge('t', 'api'), edge('api', 'ok')] };
+        const result = processEnrollment({
+            flow,
+            enrollment: parked().enrollment,
+            user,
+            apiResponse: { nodeId: 'api', ok: false, status: 0, error: 'Timed out after 10s' },
+        });
+        expect(result.actions[0]).toMatchObject({ type: 'send_email', nodeId: 'ok' });
+    });
+
+    it('evaluates JSONPath expressions', () => {
+        const body = { owner: { email: 'sam@crm.test' }, items: [{ id: 1 }, { id: 2 }], 'odd key': true };
+        expect(extractJsonPath(body, '$.owner.email')).toBe('sam@crm.test');
+        expect(extractJsonPath(body, 'items[1].id')).toBe(2);
+        expect(extractJsonPath(body, "$['odd key']")).toBe(true);
+        expect(extractJsonPath(body, '$.items[*].id')).toEqual([1, 2]);
+        expect(extractJsonPath(body, '$')).toBe(body);
+        expect(extractJsonPath(body, '$.missing.path')).toBeUndefined();
+        expect(extractJsonPath(body, '$..bad[')).toBeUndefined();
+    });
+});
+
+describe('processEnrollment - wait until event', () => {
+    function parkedEnrollment() {
+        const enrollment = createEnrollment(waitFlow, user.id, undefined, user)!;
+        return processEnrollment({ flow: waitFlow, enrollment, user }).enrollment;
+    }
+
+    it('parks on the delay with the timeout as nextProcessAt', () => {
+        const parked = parkedEnrollment();
+        expect(parked.currentNodeId).toBe('w');
+        expect(parked.status).toBe('active');
+        const waitMs = new Date(parked.nextProcessAt!).getTime() - Date.now();
+        expect(waitMs).toBeGreaterThan(4319 * 60_000);
+    });
+
+    it('ignores unrelated events', () => {
+        const parked = parkedEnrollment();
+        const result = processEnrollment({
+            flow: waitFlow, enrollment: parked, user,
+            event: { name: 'page_viewed' },
+        });
+        expect(result.enrollment.currentNodeId).toBe('w');
+        expect(result.actions).toHaveLength(0);
+    });
+
+    it('resumes through the "event" handle as soon as the event arrives', () => {
+        const parked = parkedEnrollment();
+        const result = processEnrollment({
+            flow: waitFlow, enrollment: parked, user,
+            event: { name: 'project_created' },
+        });
+        expect(result.enrollment.status).toBe('completed');
+        expect(result.actions).toHaveLength(1);
+        expect(result.actions[0]).toMatchObject({ subject: 'Nice project!' });
+        expect(result.enrollment.history.some((h) => h.details === 'Event received: project_created')).toBe(true);
+    });
+
+    it('routes through the "timeout" handle once the timeout elapses', () => {
+        const parked = parkedEnrollment();
+        const result = processEnrollment({
+            flow: waitFlow,
+            enrollment: { ...parked, nextProcessAt: new Date(Date.now() - 1000).toISOString() },
+            user,
+        });
+        expect(result.actions).toHaveLength(1);
+        expect(result.actions[0]).toMatchObject({ subject: 'Create a project' });
+    });
+
+    it('completes instead of taking the other branch when the outcome is not wired', () => {
+        const eventOnly = { ...waitFlow, edges: waitFlow.edges.filter((e) => e.sourceHandle !== 'timeout') };
+        const enrollment = processEnrollment({ flow: eventOnly, enrollment: createEnrollment(eventOnly, user.id, undefined, user)!, user }).enrollment;
+        const result = processEnrollment({
+            flow: eventOnly,
+            enrollment: { ...enrollment, nextProcessAt: new Date(Date.now() - 1000).toISOString() },
+            user,
+        });
+        expect(result.enrollment.status).toBe('completed');
+        expect(result.actions).toHaveLength(0);
+    });
+});
+
+describe('quiet hours', () => {
+    const quiet: FlowSettings = {
+        enrollmentCap: 0,
+        maxConcurrentEnrollments: 0,
+        autoExitDays: 0,
+        respectQuietHours: true,
+        quietHoursStart: '22:00',
+        quietHoursEnd: '08:00',
+        quietHoursTimezone: 'America/New_York',
+        priority: 0,
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('handles windows that wrap midnight in the flow timezone', () => {
+        // 03:00 UTC = 23:00 in New York (EDT)
+        expect(isWithinQuietHours(quiet, new Date('2026-06-01T03:00:00Z'))).toBe(true);
+        // 16:00 UTC = 12:00 in New York
+        expect(isWithinQuietHours(quiet, new Date('2026-06-01T16:00:00Z'))).toBe(false);
+        expect(isWithinQuietHours({ ...quiet, respectQuietHours: false }, new Date('2026-06-01T03:00:00Z'))).toBe(false);
+    });
+
+    it('falls back to UTC for an unknown timezone', () => {
+        const settings = { ...quiet, quietHoursTimezone: 'Not/AZone' };
+        expect(isWithinQuietHours(settings, new Date('2026-06-01T23:30:00Z'))).toBe(true);
+    });
+
+    it('computes when the window ends', () => {
+        const end = quietHoursEndAfter(quiet, new Date('2026-06-01T03:00:00Z'));
+        // 08:00 EDT = 12:00 UTC
+        expect(end.toISOString()).toBe('2026-06-01T12:00:00.000Z');
+    });
+
+    it('defers email steps until quiet hours end', () => {
+        const flow = buildFlow(
+            [
+                node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+                node('a', { label: 'Email', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Hi' } }),
+            ],
+            [edge('t', 'a')],
+        );
+        flow.settings = quiet;
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-06-01T03:00:00Z'));
+
+        const enrollment = createEnrollment(flow, user.id, undefined, user)!;
+        const deferred = processEnrollment({ flow, enrollment, user });
+        expect(deferred.deferred).toBe(true);
+        expect(deferred.actions).toHaveLength(0);
+        expect(deferred.enrollment.currentNodeId).toBe('a');
+        expect(deferred.enrollment.nextProcessAt).toBe('2026-06-01T12:00:00.000Z');
+
+        // Still deferred: re-processing is a no-op
+        const again = processEnrollment({ flow, enrollment: deferred.enrollment, user });
+        expect(again.deferred).toBeFalsy();
+        expect(again.enrollment.history).toHaveLength(deferred.enrollment.history.length);
+
+        // Once the window ends the email goes out
+        vi.setSystemTime(new Date('2026-06-01T12:00:00Z'));
+        const sent = processEnrollment({ flow, enrollment: deferred.enrollment, user });
+        expect(sent.actions).toHaveLength(1);
+        expect(sent.enrollment.status).toBe('completed');
+    });
+});
+
+describe('checkEnrollmentLimits', () => {
+    const settings = waitFlow.settings;
+
+    it('treats 0 as unlimited', () => {
+        expect(checkEnrollmentLimits({ ...settings, enrollmentCap: 0, maxConcurrentEnrollments: 0 }, { totalEnrolled: 10_000, currentlyActive: 10_000 })).toBeNull();
+    });
+
+    it('refuses once the lifetime cap is reached', () => {
+        expect(checkEnrollmentLimits({ ...settings, enrollmentCap: 5 }, { totalEnrolled: 5, currentlyActive: 0 })).toMatch(/cap/);
+    });
+
+    it('refuses once the concurrency limit is reached', () => {
+        expect(checkEnrollmentLimits({ ...settings, maxConcurrentEnrollments: 2 }, { totalEnrolled: 0, currentlyActive: 2 })).toMatch(/Concurrency/);
+        expect(checkEnrollmentLimits({ ...settings, maxConcurrentEnrollments: 2 }, { totalEnrolled: 0, currentlyActive: 1 })).toBeNull();
+    });
+});
+
+describe('auto-exit', () => {
+    it('flags enrollments older than autoExitDays', () => {
+        const at = new Date('2026-06-30T00:00:00Z');
+        expect(shouldAutoExit(waitFlow.settings, { enrolledAt: '2026-05-01T00:00:00Z' }, at)).toBe(true);
+        expect(shouldAutoExit(waitFlow.settings, { enrolledAt: '2026-06-15T00:00:00Z' }, at)).toBe(false);
+        expect(shouldAutoExit({ ...waitFlow.settings, autoExitDays: 0 }, { enrolledAt: '2020-01-01T00:00:00Z' }, at)).toBe(false);
+    });
+
+    it('exits a stale enrollment parked on a delay', () => {
+        const enrollment = createEnrollment(waitFlow, user.id, undefined, user)!;
+        const parked = processEnrollment({ flow: waitFlow, enrollment, user }).enrollment;
+        const stale = { ...parked, enrolledAt: new Date(Date.now() - 31 * 86_400_000).toISOString() };
+
+        const result = processEnrollment({ flow: waitFlow, enrollment: stale, user, event: { name: 'project_created' } });
+        expect(result.autoExited).toBe(true);
+        expect(result.enrollment.status).toBe('exited');
+        expect(result.actions).toHaveLength(0);
+    });
+});
+
+describe('goal conversion', () => {
+    const goalFlow: FlowDefinition = {
+        ...waitFlow,
+        settings: { ...waitFlow.settings, goalEvent: 'subscription_*', goalTimeout: 60 },
+    };
+
+    function enrolled(minutesAgo = 0) {
+        const enrollment = createEnrollment(goalFlow, user.id, undefined, user)!;
+        const parked = processEnrollment({ flow: goalFlow, enrollment, user }).enrollment;
+        return { ...parked, enrolledAt: new Date(Date.now() - minutesAgo * 60_000).toISOString() };
+    }
+
+    it('matches the goal event inside the goal window only', () => {
+        expect(isGoalConversion(goalFlow, enrolled(5), 'subscription_started')).toBe(true);
+        expect(isGoalConversion(goalFlow, enrolled(5), 'page_viewed')).toBe(false);
+        expect(isGoalConversion(goalFlow, enrolled(90), 'subscription_started')).toBe(false);
+    });
+
+    it('does not convert the same enrollment twice', () => {
+        const converted = markGoalReached(goalFlow, enrolled(), 'subscription_started');
+        expect(converted.convertedAt).toBeDefined();
+        expect(converted.status).toBe('active');
+        expect(isGoalConversion(goalFlow, converted, 'subscription_started')).toBe(false);
+    });
+
+    it('exits the enrollment when exitOnGoal is set', () => {
+        const flow = { ...goalFlow, settings: { ...goalFlow.settings, exitOnGoal: true } };
+        const converted = markGoalReached(flow, enrolled(), 'subscription_started');
+        expect(converted.status).toBe('completed');
+        expect(converted.nextProcessAt).toBeUndefined();
+        expect(converted.history.at(-1)?.details).toBe('Goal reached: subscription_started (exited flow)');
+    });
+
+    it('extracts revenue from common property names', () => {
+        expect(extractEventRevenue({ revenue: 49 })).toBe(49);
+        expect(extractEventRevenue({ amount: '19.99' })).toBe(19.99);
+        expect(extractEventRevenue({ plan: 'pro' })).toBe(0);
+        expect(extractEventRevenue(undefined)).toBe(0);
+    });
+});
+
+describe('email engagement rollup', () => {
+    it('breaks engagement down per step and aggregates the rates', () => {
+        const metrics = rollupFlowEmailMetrics(waitFlow.metrics, [
+            { nodeId: 'welcome', sent: 200, opens: 90, clicks: 20 },
+            { nodeId: 'nudge', sent: 100, opens: 30, clicks: 5 },
+        ]);
+        expect(metrics.emailSteps).toEqual({
+            welcome: { sent: 200, opens: 90, clicks: 20 },
+            nudge: { sent: 100, opens: 30, clicks: 5 },
+        });
+        expect(metrics.openRate).toBe(40);
+        expect(metrics.clickRate).toBe(8.3);
+        expect(metrics.totalEnrolled).toBe(waitFlow.metrics.totalEnrolled);
+    });
+
+    it('reports zero rates before anything is sent', () => {
+        const metrics = rollupFlowEmailMetrics(waitFlow.metrics, [{ nodeId: 'welcome', sent: 0, opens: 0, clicks: 0 }]);
+        expect(metrics.openRate).toBe(0);
+        expect(metrics.clickRate).toBe(0);
+    });
+});
+
+describe('A/B split winner', () => {
+    function splitConfig(a: [number, number], b: [number, number], extra: Partial<SplitNodeConfig> = {}): SplitNodeConfig {
+        return {
+            winnerMetric: 'conversion_rate',
+            autoPickAfter: 200,
+            variants: [
+                { id: 'a', label: 'A', percentage: 50, stats: { enrolled: a[0], opens: 0, clicks: 0, conversions: a[1] } },
+                { id: 'b', label: 'B', percentage: 50, stats: { enrolled: b[0], opens: 0, clicks: 0, conversions: b[1] } },
+            ],
+            ...extra,
+        };
+    }
+
+    it('waits for autoPickAfter enrollees', () => {
+        expect(evaluateSplitWinner(splitConfig([50, 40], [50, 5]))).toBeNull();
+    });
+
+    it('picks a variant once the difference is significant', () => {
+        const decision = evaluateSplitWinner(splitConfig([150, 45], [150, 15]));
+        expect(decision?.winnerId).toBe('a');
+        expect(decision!.confidence).toBeGreaterThan(0.95);
+    });
+
+    it('keeps splitting while results are inconclusive', () => {
+        expect(evaluateSplitWinner(splitConfig([150, 20], [150, 18]))).toBeNull();
+    });
+
+    it('uses the configured winner metric', () => {
+        const cfg = splitConfig([150, 0], [150, 0], { winnerMetric: 'open_rate' });
+        cfg.variants[1].stats!.opens = 90;
+        cfg.variants[0].stats!.opens = 40;
+        expect(evaluateSplitWinner(cfg)?.winnerId).toBe('b');
+    });
+
+    it('routes every enrollee to the winner once picked', () => {
+        const flow = buildFlow(
+            [
+                node('t', { label: 'Start', nodeType: 'trigger', triggerConfig: { kind: 'manual', allowReEntry: false } }),
+                node('s', { label: 'Split', nodeType: 'split', splitConfig: { ...splitConfig([0, 0], [0, 0]), winnerId: 'b' } }),
+                node('ea', { label: 'Email A', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'A' } }),
+                node('eb', { label: 'Email B', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'B' } }),
+            ],
+            [edge('t', 's'), edge('s', 'ea', 'variant-a'), edge('s', 'eb', 'variant-b')],
+        );
+        for (const id of ['u1', 'u2', 'u3', 'u4', 'u5']) {
+            const enrollment = createEnrollment(flow, id, undefined, { ...user, id })!;
+            const result = processEnrollment({ flow, enrollment, user: { ...user, id } });
+            expect(result.actions).toContainEqual({ type: 'split_assigned', nodeId: 's', variantId: 'b' });
+            expect(result.actions).toContainEqual(expect.objectContaining({ type: 'send_email', nodeId: 'eb' }));
+            expect(splitAssignments(result.enrollment, 'eb')).toEqual([{ nodeId: 's', variantId: 'b' }]);
+        }
+    });
+});
+
+describe('scheduled triggers', () => {
+    it('parses cron fields with lists, ranges, steps and names', () => {
+        const spec = parseCron('*/15 9-17 * * mon-fri')!;
+        expect([...spec.minutes]).toEqual([0, 15, 30, 45]);
+        expect(spec.hours.has(9) && spec.hours.has(17) && !spec.hours.has(18)).toBe(true);
+        expect([...spec.weekdays]).toEqual([1, 2, 3, 4, 5]);
+        expect(parseCron('0 9 * * 7')!.weekdays.has(0)).toBe(true);
+        expect(parseCron('61 * * * *')).toBeNull();
+        expect(parseCron('0 9 * *')).toBeNull();
+    });
+
+    it('finds the latest occurrence in the trigger timezone', () => {
+        // 09:00 in New York (EDT, UTC-4) is 13:00 UTC
+        const at = new Date('2026-06-01T13:20:00Z');
+        expect(latestCronOccurrence('0 9 * * *', 'America/New_York', at)).toEqual(new Date('2026-06-01T13:00:00Z'));
+        expect(latestCronOccurrence('0 9 * * *', 'UTC', at)).toBeNull();
+        expect(latestCronOccurrence('0 9 * * *', 'UTC', at, 24 * 60)).toEqual(new Date('2026-06-01T09:00:00Z'));
+    });
+
+    it('matches day-of-month or day-of-week when both are restricted', () => {
+        // 2026-06-01 is a Monday
+        const at = new Date('2026-06-01T00:00:30Z');
+        expect(latestCronOccurrence('0 0 15 * mon', 'UTC', at)).toEqual(new Date('2026-06-01T00:00:00Z'));
+        expect(latestCronOccurrence('0 0 15 * tue', 'UTC', at)).toBeNull();
+    });
+
+    it('resolves date properties from the first record that has them', () => {
+        const user = { signupDate: new Date('2026-03-10T23:30:00Z') };
+        const account = { contractRenewalDate: '2026-07-01' };
+        expect(resolveDateProperty('contractRenewalDate', [user, null, account])).toBe('2026-07-01');
+        expect(resolveDateProperty('signupDate', [user])).toBe('2026-03-10');
+        expect(resolveDateProperty('signupDate', [user], 'Asia/Tokyo')).toBe('2026-03-11');
+        expect(resolveDateProperty('missing', [user, account])).toBeNull();
+    });
+
+    it('fires date_property triggers on date + offset', () => {
+        const config = { dateProperty: 'contractRenewalDate', dateOffsetDays: -30 };
+        const sources = [{ contractRenewalDate: '2026-07-01' }];
+        expect(isDatePropertyDue(config, sources, new Date('2026-06-01T09:00:00Z'))).toBe(true);
+        expect(isDatePropertyDue(config, sources, new Date('2026-06-02T09:00:00Z'))).toBe(false);
+        expect(isDatePropertyDue({ ...config, dateOffsetDays: 0 }, sources, new Date('2026-07-01T09:00:00Z'))).toBe(true);
+    });
+
+    it('only fires segment_entry for the configured segment', () => {
+        const config = { kind: 'segment_entry' as const, segmentId: 'seg_1', allowReEntry: false };
+        expect(matchesTrigger(config, { type: 'segment_entry', segmentId: 'seg_1', userId: 'u1' })).toBe(true);
+        expect(matchesTrigger(config, { type: 'segment_entry', segmentId: 'seg_2', userId: 'u1' })).toBe(false);
+        expect(matchesTrigger({ ...config, segmentId: undefined }, { type: 'segment_entry', userId: 'u1' })).toBe(false);
+    });
+
+    it('applies re-entry rules and cooldowns', () => {
+        const at = new Date('2026-06-01T12:00:00Z');
+        const finished = { status: 'completed' as const, enrolledAt: '2026-05-01T00:00:00Z', completedAt: '2026-06-01T11:00:00Z' };
+        expect(canEnterFlow({ allowReEntry: false }, [], at)).toBe(true);
+        expect(canEnterFlow({ allowReEntry: true }, [{ ...finished, status: 'active' }], at)).toBe(false);
+        expect(canEnterFlow({ allowReEntry: false }, [finished], at)).toBe(false);
+        expect(canEnterFlow({ allowReEntry: true }, [finished], at)).toBe(true);
+        expect(canEnterFlow({ allowReEntry: true, reEntryCooldownMinutes: 120 }, [finished], at)).toBe(false);
+        expect(canEnterFlow({ allowReEntry: true, reEntryCooldownMinutes: 60 }, [finished], at)).toBe(true);
+    });
+});
+
+describe('flow versions', () => {
+    it('fingerprints only what executes', () => {
+        const moved = waitFlow.nodes.map((n) => ({ ...n, position: { x: 100, y: 200 }, data: { ...n.data, metrics: { entered: 5, completed: 2, failed: 0, skipped: 0 } } }));
+        const renamedEdges = waitFlow.edges.map((e) => ({ ...e, id: `edge_${e.id}` }));
+        expect(flowGraphFingerprint({ ...waitFlow, nodes: moved, edges: renamedEdges })).toBe(flowGraphFingerprint(waitFlow));
+
+        const rewired = [...waitFlow.edges.slice(0, 2), edge('w', 'welcome', 'timeout')];
+        expect(flowGraphFingerprint({ ...waitFlow, edges: rewired })).not.toBe(flowGraphFingerprint(waitFlow));
+    });
+
+    it('runs an enrollment on its pinned graph', () => {
+        const live = buildFlow(
+            [waitFlow.nodes[0], node('welcome', { label: 'Welcome v2', nodeType: 'action', actionConfig: { kind: 'send_email', emailSubject: 'Hi' } })],
+            [edge('t', 'welcome')],
+        );
+        const pinned = withVersionGraph(live, 1, waitFlow);
+        expect(pinned.version).toBe(1);
+        expect(pinned.nodes.map((n) => n.id)).toEqual(['t', 'w', 'welcome', 'nudge']);
+        expect(pinned.metrics).toBe(live.metrics);
+    });
+
+    it('drains or maps in-flight enrollments onto the new version', () => {
+        const inFlight = [
+            { flowVersion: 1, nodeId: 'w', count: 4 },
+            { flowVersion: 1, nodeId: 'old_wait', count: 2 },
+            { flowVersion: 2, nodeId: 'welcome', count: 1 },
+        ];
+        const oldGraphs = new Map([
+            [1, [...waitFlow.nodes, node('old_wait', { label: 'Old', nodeType: 'delay', delayConfig: { kind: 'fixed_duration', durationMinutes: 1440 } })]],
+            [2, waitFlow.nodes],
+        ]);
+
+        const drained = planVersionMigration(inFlight, 3, waitFlow.nodes, { strategy: 'drain' }, oldGraphs);
+        expect(drained).toEqual({ moves: [], migrated: 0, draining: 7 });
+
+        const migrated = planVersionMigration(
+            inFlight,
+            3,
+            waitFlow.nodes,
+            { strategy: 'migrate', nodeMap: { old_wait: 'nudge', welcome: '' } },
+            oldGraphs,
+        );
+        expect(migrated.moves).toEqual([
+            { fromVersion: 1, fromNodeId: 'w', toNodeId: 'w', resetSchedule: false },
+            { fromVersion: 1, fromNodeId: 'old_wait', toNodeId: 'nudge', resetSchedule: true },
+        ]);
+        expect(migrated.migrated).toBe(6);
+        expect(migrated.draining).toBe(1);
+    });
+});
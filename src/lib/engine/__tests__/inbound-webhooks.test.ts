@@ -0,0 +1,149 @@
+/* ==========================================================================
+ * Inbound Webhooks - Unit Tests
+ *
+ * Covers the pure helpers behind /api/v1/hooks/{orgId}/{webhookPath}:
+ *   - Signature verification (tampering, replay window)
+ *   - Secret issuing / carry-over when flows are saved
+ *   - Secret masking in flow responses
+ *   - User identifier extraction and `event.*` variable flattening
+ * ========================================================================== */
+
+import { describe, it, expect } from 'vitest';
+import {
+    signInboundWebhook,
+    verifyInboundWebhook,
+    prepareWebhookTriggers,
+    issuedWebhookSecrets,
+    redactWebhookSecrets,
+    maskWebhookSecret,
+    extractWebhookUserIdentifier,
+    INBOUND_SIGNATURE_TOLERANCE_MS,
+} from '@/lib/engine/inbound-webhooks';
+import { flattenEventVariables } from '@/lib/engine/flow';
+import type { FlowNodeDef } from '@/lib/definitions';
+
+const SECRET = 'whsec_test_secret';
+
+function webhookTrigger(id: string, webhookPath: string, webhookSecret?: string): FlowNodeDef {
+    return {
+        id,
+        type: 'trigger',
+        position: { x: 0, y: 0 },
+        data: {
+            label: 'Webhook',
+            nodeType: 'trigger',
+            triggerConfig: { kind: 'webhook_received', webhookPath, webhookSecret, allowReEntry: true },
+        },
+    };
+}
+
+describe('verifyInboundWebhook', () => {
+    const body = JSON.stringify({ userId: 'u_1', plan: 'pro' });
+    const now = Date.parse('2026-06-01T12:00:00Z');
+    const timestamp = new Date(now).toISOString();
+
+    it('accepts a correctly signed request', () => {
+        const signature = signInboundWebhook(timestamp, body, SECRET);
+        expect(verifyInboundWebhook(body, signature, timestamp, SECRET, now)).toBeNull();
+    });
+
+    it('accepts unix-second timestamps', () => {
+        const unix = String(now / 1000);
+        const signature = signInboundWebhook(unix, body, SECRET);
+        expect(verifyInboundWebhook(body, signature, unix, SECRET, now)).toBeNull();
+    });
+
+    it('rejects a tampered body or the wrong secret', () => {
+        const signature = signInboundWebhook(timestamp, body, SECRET);
+        expect(verifyInboundWebhook(body.replace('pro', 'ent'), signature, timestamp, SECRET, now)).toBe('Signature mismatch');
+        expect(verifyInboundWebhook(body, signature, timestamp, 'whsec_other', now)).toBe('Signature mismatch');
+    });
+
+    it('rejects stale timestamps and missing headers', () => {
+        const stale = new Date(now - INBOUND_SIGNATURE_TOLERANCE_MS - 1000).toISOString();
+        const signature = signInboundWebhook(stale, body, SECRET);
+        expect(verifyInboundWebhook(body, signature, stale, SECRET, now)).toMatch(/Timestamp/);
+        expect(verifyInboundWebhook(body, null, timestamp, SECRET, now)).toMatch(/Missing/);
+        expect(verifyInboundWebhook(body, 'sha256=x', timestamp, undefined, now)).toMatch(/no signing secret/);
+    });
+});
+
+describe('prepareWebhookTriggers', () => {
+    it('normalizes paths and issues a secret to new triggers', () => {
+        const nodes = [webhookTrigger('t', '/billing/')];
+        prepareWebhookTriggers(nodes);
+        const cfg = nodes[0].data.triggerConfig!;
+        expect(cfg.webhookPath).toBe('billing');
+        expect(cfg.webhookSecret).toMatch(/^whsec_[0-9a-f]{32}$/);
+    });
+
+    it('keeps the stored secret when the client omits it, and rotates on request', () => {
+        const previous = [webhookTrigger('t', 'billing', SECRET)];
+
+        const omitted = [webhookTrigger('t', 'billing')];
+        prepareWebhookTriggers(omitted, previous);
+        expect(omitted[0].data.triggerConfig!.webhookSecret).toBe(SECRET);
+
+        const cleared = [webhookTrigger('t', 'billing', '')];
+        prepareWebhookTriggers(cleared, previous);
+        expect(cleared[0].data.triggerConfig!.webhookSecret).not.toBe(SECRET);
+
+        const copied = [webhookTrigger('t', 'billing', SECRET)];
+        prepareWebhookTriggers(copied, [], true);
+        expect(copied[0].data.triggerConfig!.webhookSecret).not.toBe(SECRET);
+    });
+
+    it('treats a masked secret sent back as the stored one', () => {
+        const previous = [webhookTrigger('t', 'billing', SECRET)];
+        const echoed = [webhookTrigger('t', 'billing', maskWebhookSecret(SECRET))];
+        prepareWebhookTriggers(echoed, previous);
+        expect(echoed[0].data.triggerConfig!.webhookSecret).toBe(SECRET);
+
+        const unknown = [webhookTrigger('other', 'billing', maskWebhookSecret(SECRET))];
+        prepareWebhookTriggers(unknown, previous);
+        expect(unknown[0].data.triggerConfig!.webhookSecret).toMatch(/^whsec_[0-9a-f]{32}$/);
+    });
+});
+
+describe('redactWebhookSecrets', () => {
+    it('masks every secret except the ones just issued', () => {
+        const previous = [webhookTrigger('kept', 'billing', SECRET), webhookTrigger('rotated', 'support', SECRET)];
+        const nodes = [
+            webhookTrigger('kept', 'billing', SECRET),
+            webhookTrigger('rotated', 'support', 'whsec_new_secret'),
+            webhookTrigger('added', 'crm', 'whsec_added_secret'),
+        ];
+
+        const issued = issuedWebhookSecrets(nodes, previous);
+        expect([...issued]).toEqual(['rotated', 'added']);
+
+        const redacted = redactWebhookSecrets(nodes, issued);
+        expect(redacted.map((n) => n.data.triggerConfig!.webhookSecret)).toEqual([
+            maskWebhookSecret(SECRET),
+            'whsec_new_secret',
+            'whsec_added_secret',
+        ]);
+        expect(maskWebhookSecret(SECRET)).not.toContain(SECRET);
+        // The stored graph is left untouched
+        expect(nodes[0].data.triggerConfig!.webhookSecret).toBe(SECRET);
+    });
+});
+
+describe('webhook payload mapping', () => {
+    it('extracts the user identifier from a dot path', () => {
+        const payload = { customer: { email: 'ada@example.com', id: 42 }, userId: 'u_1' };
+        expect(extractWebhookUserIdentifier(payload)).toBe('u_1');
+        expect(extractWebhookUserIdentifier(payload, 'customer.email')).toBe('ada@example.com');
+        expect(extractWebhookUserIdentifier(payload, 'customer.id')).toBe('42');
+        expect(extractWebhookUserIdentifier(payload, 'customer.missing')).toBeNull();
+    });
+
+    it('exposes the body as event.* variables', () => {
+        expect(flattenEventVariables({ plan: { name: 'Pro', seats: 5 }, tags: ['a'], paid: true })).toEqual({
+            'event.plan.name': 'Pro',
+            'event.plan.seats': 5,
+            'event.tags': '["a"]',
+            'event.paid': true,
+        });
+    });
+});
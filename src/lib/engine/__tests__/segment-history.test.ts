@@ -0,0 +1,66 @@
+/* ==========================================================================
+ * Segment History - Unit Tests
+ *
+ * Tests the pure snapshot and analytics steps:
+ *   - Deriving each day's size from current members and the change log
+ *   - One series point per day, null where no snapshot was taken
+ *   - Week-over-week size change and the week's enters / exits
+ * ========================================================================== */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import {
+    buildSegmentSnapshots,
+    daysInRange,
+    fillSegmentSeries,
+    weekOverWeekChange,
+} from '@/lib/engine/segment-history';
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('segment snapshots', () => {
+    it('walks back from the current size through each day\'s net change', () => {
+        const rows = buildSegmentSnapshots(
+            new Map([['s1', 12], ['s2', 0]]),
+            [
+                { segmentId: 's1', date: '2026-03-30', entered: 5, exited: 1 },
+                { segmentId: 's1', date: '2026-03-31', entered: 3, exited: 2 },
+            ],
+            daysInRange('2026-03-30', '2026-03-31'),
+        );
+
+        expect(rows.filter((r) => r.segmentId === 's1')).toEqual([
+            { segmentId: 's1', date: '2026-03-30', memberCount: 11, entered: 5, exited: 1 },
+            { segmentId: 's1', date: '2026-03-31', memberCount: 12, entered: 3, exited: 2 },
+        ]);
+        expect(rows.filter((r) => r.segmentId === 's2').map((r) => r.memberCount)).toEqual([0, 0]);
+    });
+});
+
+describe('segment size series', () => {
+    const series = fillSegmentSeries(
+        [
+            { date: '2026-03-01', memberCount: 40, entered: 4, exited: 0 },
+            { date: '2026-03-08', memberCount: 50, entered: 6, exited: 1 },
+            { date: '2026-03-09', memberCount: 46, entered: 0, exited: 4 },
+        ],
+        '2026-03-01',
+        '2026-03-10',
+    );
+
+    it('has a point for every day of the range', () => {
+        expect(series).toHaveLength(10);
+        expect(series[1]).toEqual({ date: '2026-03-02', memberCount: null, entered: null, exited: null });
+    });
+
+    it('compares the latest size with the size a week earlier', () => {
+        expect(weekOverWeekChange(series.slice(0, 8))).toEqual({
+            current: 50, previous: 40, change: 10, changePct: 25, entered: 6, exited: 1,
+        });
+        // The last day has no snapshot yet: the latest one counts
+        expect(weekOverWeekChange(series)).toMatchObject({ current: 46, previous: null, change: null, entered: 6, exited: 5 });
+        expect(weekOverWeekChange([]).current).toBeNull();
+    });
+});
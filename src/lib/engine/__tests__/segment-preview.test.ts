@@ -0,0 +1,58 @@
+/* ==========================================================================
+ * Segment Preview - Unit Tests
+ *
+ * Tests the per-rule funnel:
+ *   - AND: each rule eliminates the users of the previous step it rejects
+ *   - OR: rules add users; eliminated is what a rule rejects on its own
+ *   - An empty definition matches no one, as a saved segment without rules
+ * ========================================================================== */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import type { SegmentFilter } from '@/lib/db/schema';
+import type { ConditionLogic } from '@/lib/definitions';
+import { buildPreviewFunnel, tallyPreviewFunnel } from '@/lib/engine/segment-preview';
+
+const rules: SegmentFilter[] = [
+    { field: 'plan', fieldSource: 'user', operator: 'equals', value: 'Growth' },
+    { field: 'mrr', fieldSource: 'user', operator: 'greater_than', value: 500 },
+];
+
+/** Per-rule results of four users */
+const users = [[true, true], [true, false], [false, true], [false, false]];
+
+function funnel(logic: ConditionLogic) {
+    const counts = rules.map(() => ({ matched: 0, remaining: 0 }));
+    const matched = users.filter((results) => tallyPreviewFunnel(counts, logic, results)).length;
+    return { matched, steps: buildPreviewFunnel(rules, counts, logic, users.length) };
+}
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('segment preview funnel', () => {
+    it('narrows step by step under AND', () => {
+        const { matched, steps } = funnel('AND');
+        expect(matched).toBe(1);
+        expect(steps.map(({ matched, remaining, eliminated }) => [matched, remaining, eliminated])).toEqual([
+            [2, 2, 2],
+            [2, 1, 1],
+        ]);
+    });
+
+    it('widens under OR, counting what each rule rejects on its own', () => {
+        const { matched, steps } = funnel('OR');
+        expect(matched).toBe(3);
+        expect(steps.map(({ remaining, eliminated }) => [remaining, eliminated])).toEqual([
+            [2, 2],
+            [3, 2],
+        ]);
+    });
+
+    it('matches no one without rules', () => {
+        expect(tallyPreviewFunnel([], 'AND', [])).toBe(false);
+        expect(tallyPreviewFunnel([], 'OR', [])).toBe(false);
+        expect(buildPreviewFunnel([], [], 'AND', 10)).toEqual([]);
+    });
+});
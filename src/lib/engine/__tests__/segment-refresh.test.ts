@@ -0,0 +1,51 @@
+/* ==========================================================================
+ * Segment Refresh - Unit Tests
+ *
+ * Tests the pure step of the scheduled re-evaluation:
+ *   - Regrouping per-segment enters / exits by user, in segment order
+ *   - Time-relative fields going stale for users who stop sending events
+ * ========================================================================== */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import { groupMembershipChanges } from '@/lib/engine/segment-refresh';
+import { evaluateSegmentBatch } from '@/lib/engine/segmentation';
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('membership change grouping', () => {
+    it('collects each user\'s enters and exits across segments', () => {
+        const segments = [{ id: 's1', name: 'Dormant' }, { id: 's2', name: 'Power users' }];
+        const byUser = groupMembershipChanges(segments, new Map([
+            ['s2', { entered: [], exited: ['u1'] }],
+            ['s1', { entered: ['u1', 'u2'], exited: [] }],
+        ]));
+
+        expect(byUser.get('u1')).toEqual([
+            { segmentId: 's1', segmentName: 'Dormant', change: 'entered' },
+            { segmentId: 's2', segmentName: 'Power users', change: 'exited' },
+        ]);
+        expect(byUser.get('u2')).toEqual([{ segmentId: 's1', segmentName: 'Dormant', change: 'entered' }]);
+        expect(byUser.size).toBe(2);
+    });
+
+    it('ignores segments without results', () => {
+        expect(groupMembershipChanges([{ id: 's1', name: 'Dormant' }], new Map()).size).toBe(0);
+    });
+});
+
+describe('quiet users', () => {
+    it('enter a "not logged in for 14 days" segment without sending an event', () => {
+        const now = new Date('2026-03-31T12:00:00Z');
+        const dormant = [{ field: 'daysSinceLastLogin', fieldSource: 'computed' as const, operator: 'greater_than' as const, value: 14 }];
+        const users = [
+            { id: 'u1', lastLoginAt: new Date('2026-03-10T12:00:00Z') },
+            { id: 'u2', lastLoginAt: new Date('2026-03-29T12:00:00Z') },
+        ];
+
+        expect(evaluateSegmentBatch(dormant, 'AND', users, new Map(), new Set(['u2']), { now }))
+            .toMatchObject({ matched: ['u1'], entered: ['u1'], exited: ['u2'] });
+    });
+});
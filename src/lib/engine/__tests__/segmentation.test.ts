@@ -0,0 +1,155 @@
+/* ==========================================================================
+ * Segmentation Engine - Unit Tests
+ *
+ * Tests the behavioral and computed rule sources:
+ *   - Event counts within a rolling window, with property filters
+ *   - "Did" / "did not" as count thresholds
+ *   - Days since the first / last occurrence
+ *   - Computed fields derived from the user row
+ *   - The event names and time range a segment needs loaded
+ *   - Nested AND/OR rule groups and legacy flat definitions
+ * ========================================================================== */
+
+import { describe, it, expect } from 'vitest';
+import type { SegmentFilter } from '@/lib/db/schema';
+import {
+    evaluateSegmentFilters,
+    evaluateSegmentBatch,
+    getEventConditionScope,
+    resolveFieldValue,
+    type SegmentEventRecord,
+} from '@/lib/engine/segmentation';
+import { hasRules, parseRuleList, MAX_RULE_GROUP_DEPTH } from '@/lib/engine/rule-groups';
+
+const now = new Date('2026-03-31T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 86_400_000);
+
+const events: SegmentEventRecord[] = [
+    { name: 'report_exported', properties: { format: 'csv' }, occurredAt: daysAgo(40) },
+    { name: 'report_exported', properties: { format: 'pdf' }, occurredAt: daysAgo(10) },
+    { name: 'report_exported', properties: { format: 'csv' }, occurredAt: daysAgo(2) },
+    { name: 'invite_sent', properties: {}, occurredAt: daysAgo(5) },
+];
+
+const eventRule = (rule: Partial<SegmentFilter> & Pick<SegmentFilter, 'event'>): SegmentFilter => ({
+    field: 'report_exported',
+    fieldSource: 'event',
+    operator: 'greater_or_equal',
+    value: 1,
+    ...rule,
+});
+
+const matches = (filters: SegmentFilter[], user: Record<string, unknown> = {}) =>
+    evaluateSegmentFilters(filters, 'AND', user, null, { events, now });
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('event rules', () => {
+    it('counts matching events inside the rolling window', () => {
+        expect(resolveFieldValue(eventRule({ event: { measure: 'count', withinDays: 30 } }), {}, null, { events, now })).toBe(2);
+        expect(resolveFieldValue(eventRule({ event: { measure: 'count' } }), {}, null, { events, now })).toBe(3);
+        expect(matches([eventRule({ operator: 'greater_or_equal', value: 3, event: { measure: 'count', withinDays: 30 } })])).toBe(false);
+    });
+
+    it('applies property filters to each event', () => {
+        const csv = eventRule({
+            operator: 'equals',
+            value: 2,
+            event: { measure: 'count', where: [{ property: 'format', operator: 'equals', value: 'csv' }] },
+        });
+        expect(matches([csv])).toBe(true);
+        expect(matches([{ ...csv, event: { ...csv.event!, withinDays: 7 } }])).toBe(false);
+    });
+
+    it('treats "did not" as a count of zero', () => {
+        const didNot = eventRule({ field: 'billing_viewed', operator: 'equals', value: 0, event: { measure: 'count', withinDays: 14 } });
+        expect(matches([didNot])).toBe(true);
+        expect(matches([{ ...didNot, field: 'invite_sent' }])).toBe(false);
+    });
+
+    it('measures days since the first and last occurrence', () => {
+        const first = eventRule({ event: { measure: 'first_occurred' } });
+        const last = eventRule({ event: { measure: 'last_occurred' } });
+        expect(resolveFieldValue(first, {}, null, { events, now })).toBe(40);
+        expect(resolveFieldValue(last, {}, null, { events, now })).toBe(2);
+        expect(resolveFieldValue({ ...last, field: 'never_seen' }, {}, null, { events, now })).toBeUndefined();
+        expect(matches([{ ...last, field: 'never_seen', operator: 'is_not_set' }])).toBe(true);
+    });
+
+    it('looks up each user\'s events in a batch', () => {
+        const rule = eventRule({ event: { measure: 'count', withinDays: 7 } });
+        const result = evaluateSegmentBatch(
+            [rule], 'AND', [{ id: 'u1' }, { id: 'u2' }], new Map(), new Set(['u2']),
+            { eventsByUser: new Map([['u1', events]]), now },
+        );
+        expect(result).toMatchObject({ matched: ['u1'], entered: ['u1'], exited: ['u2'] });
+    });
+});
+
+describe('computed rules', () => {
+    it('derives day counts and utilization from the user row', () => {
+        const user = {
+            signupDate: daysAgo(45).toISOString(),
+            lastLoginAt: daysAgo(3),
+            seatCount: 9,
+            seatLimit: 10,
+        };
+        const computed = (field: string) => resolveFieldValue({ field, fieldSource: 'computed', operator: 'equals', value: '' }, user, null, { now });
+        expect(computed('daysSinceSignup')).toBe(45);
+        expect(computed('daysSinceLastLogin')).toBe(3);
+        expect(computed('seatUtilization')).toBe(90);
+        expect(computed('daysSinceActivation')).toBeUndefined();
+    });
+});
+
+describe('event condition scope', () => {
+    it('loads the widest window, or all time when any rule has none', () => {
+        expect(getEventConditionScope([{ field: 'plan', fieldSource: 'user', operator: 'equals', value: 'pro' }], now)).toBeNull();
+
+        const windowed = [
+            eventRule({ event: { measure: 'count', withinDays: 7 } }),
+            eventRule({ field: 'invite_sent', event: { measure: 'count', withinDays: 30 } }),
+        ];
+        expect(getEventConditionScope(windowed, now)).toEqual({ names: ['report_exported', 'invite_sent'], since: daysAgo(30) });
+        expect(getEventConditionScope([...windowed, eventRule({ event: { measure: 'last_occurred' } })], now)?.since).toBeNull();
+    });
+});
+
+describe('nested rule groups', () => {
+    const rule = (field: string, operator: SegmentFilter['operator'], value: string | number): SegmentFilter =>
+        ({ field, fieldSource: 'user', operator, value });
+    const trialOrAtRisk = [
+        { logic: 'AND' as const, rules: [rule('lifecycleState', 'equals', 'Trial'), rule('loginCount', 'less_than', 3)] },
+        { logic: 'AND' as const, rules: [rule('lifecycleState', 'equals', 'AtRisk'), rule('mrr', 'greater_than', 500)] },
+    ];
+
+    it('matches (Trial AND logins < 3) OR (AtRisk AND mrr > 500)', () => {
+        expect(evaluateSegmentFilters(trialOrAtRisk, 'OR', { lifecycleState: 'Trial', loginCount: 1 })).toBe(true);
+        expect(evaluateSegmentFilters(trialOrAtRisk, 'OR', { lifecycleState: 'AtRisk', mrr: 200 })).toBe(false);
+    });
+
+    it('reads the lowercase logic older builders stored', () => {
+        const flat = [rule('plan', 'equals', 'Growth'), rule('mrr', 'greater_than', 500)];
+        expect(evaluateSegmentFilters(flat, 'or', { plan: 'Growth', mrr: 10 })).toBe(true);
+        expect(evaluateSegmentFilters(flat, 'and', { plan: 'Growth', mrr: 10 })).toBe(false);
+    });
+
+    it('finds event rules inside groups', () => {
+        const nested = [{ logic: 'OR' as const, rules: [eventRule({ event: { measure: 'count', withinDays: 7 } })] }];
+        expect(getEventConditionScope(nested, now)).toEqual({ names: ['report_exported'], since: daysAgo(7) });
+    });
+
+    it('saves a list of empty groups as no rules', () => {
+        const parsed = parseRuleList<SegmentFilter>([{ logic: 'and', rules: [] }]);
+        expect(parsed).toEqual({ rules: [] });
+        expect(hasRules([{ logic: 'AND', rules: [] }])).toBe(false);
+        expect(hasRules(trialOrAtRisk)).toBe(true);
+    });
+
+    it('rejects rule lists nested too deep or that are not arrays', () => {
+        let nested: unknown[] = [rule('plan', 'equals', 'Growth')];
+        for (let depth = 1; depth <= MAX_RULE_GROUP_DEPTH; depth++) nested = [{ logic: 'AND', rules: nested }];
+        expect(parseRuleList(nested)).toHaveProperty('error');
+        expect(parseRuleList({ logic: 'AND' })).toEqual({ error: 'filters must be an array' });
+    });
+});
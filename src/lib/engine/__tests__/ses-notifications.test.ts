@@ -0,0 +1,135 @@
+/* ==========================================================================
+ * SES Notifications - Unit Tests
+ *
+ * Covers SNS delivery of SES feedback:
+ *   - Canonical string-to-sign and signing certificate URL checks
+ *   - Signature verification (SignatureVersion 1 and 2)
+ *   - Parsing Bounce / Complaint / Delivery fixtures
+ *   - Applying a bounce to the matched send and the suppression list
+ * ========================================================================== */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSign, generateKeyPairSync } from 'crypto';
+import bounceFixture from './fixtures/ses/bounce.json';
+import complaintFixture from './fixtures/ses/complaint.json';
+import deliveryFixture from './fixtures/ses/delivery.json';
+import subscriptionFixture from './fixtures/ses/subscription-confirmation.json';
+
+const email = vi.hoisted(() => ({
+    recordBounce: vi.fn(),
+    recordComplaint: vi.fn(),
+    recordProviderOutcome: vi.fn(),
+}));
+const ops = vi.hoisted(() => ({ updateEmailSendsByProviderMessageId: vi.fn() }));
+const events = vi.hoisted(() => ({ emitEmailEvent: vi.fn() }));
+
+vi.mock('@/lib/engine/email', async () => ({
+    ...email,
+    providerMessageIdVariants: (await vi.importActual<typeof import('@/lib/engine/email/report-parser')>(
+        '@/lib/engine/email/report-parser',
+    )).providerMessageIdVariants,
+}));
+vi.mock('@/lib/db/operations', () => ops);
+vi.mock('@/lib/engine/email-events', () => events);
+
+import {
+    parseSnsEnvelope,
+    snsStringToSign,
+    isSnsUrl,
+    verifySnsSignature,
+    parseSesNotification,
+    sesBounceType,
+    sesProviderMessageIds,
+    processSesNotification,
+    type SnsEnvelope,
+} from '@/lib/engine/ses-notifications';
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+function sign(env: SnsEnvelope, algorithm = 'RSA-SHA1'): SnsEnvelope {
+    const signature = createSign(algorithm).update(snsStringToSign(env)).sign(privateKey, 'base64');
+    return { ...env, Signature: signature };
+}
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('SNS envelopes', () => {
+    it('builds the string to sign for notifications and subscriptions', () => {
+        const env = parseSnsEnvelope(bounceFixture)!;
+        expect(snsStringToSign(env)).toBe(
+            `Message\n${env.Message}\nMessageId\n${env.MessageId}\nTimestamp\n${env.Timestamp}\nTopicArn\n${env.TopicArn}\nType\nNotification\n`,
+        );
+        const sub = parseSnsEnvelope(subscriptionFixture)!;
+        expect(snsStringToSign(sub)).toContain(`SubscribeURL\n${sub.SubscribeURL}\nTimestamp\n`);
+        expect(snsStringToSign(sub)).toContain(`Token\n${sub.Token}\nTopicArn\n`);
+        expect(parseSnsEnvelope({ Type: 'Notification' })).toBeNull();
+    });
+
+    it('only trusts certificates served by SNS', () => {
+        expect(isSnsUrl('https://sns.eu-west-1.amazonaws.com/SimpleNotificationService-abc.pem', true)).toBe(true);
+        expect(isSnsUrl('https://sns.cn-north-1.amazonaws.com.cn/cert.pem', true)).toBe(true);
+        expect(isSnsUrl('http://sns.us-east-1.amazonaws.com/cert.pem', true)).toBe(false);
+        expect(isSnsUrl('https://sns.us-east-1.amazonaws.com.evil.com/cert.pem', true)).toBe(false);
+        expect(isSnsUrl('https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription', true)).toBe(false);
+    });
+
+    it('verifies signatures with the signing certificate', async () => {
+        const fetchCert = vi.fn(async () => publicPem);
+        const env = parseSnsEnvelope(bounceFixture)!;
+
+        expect(await verifySnsSignature(sign(env), fetchCert)).toBeNull();
+        expect(await verifySnsSignature(sign({ ...env, SignatureVersion: '2' }, 'RSA-SHA256'), fetchCert)).toBeNull();
+        expect(await verifySnsSignature({ ...sign(env), Message: '{}' }, fetchCert)).toBe('Signature mismatch');
+        expect(await verifySnsSignature({ ...sign(env), SigningCertURL: 'https://example.com/cert.pem' }, fetchCert))
+            .toMatch(/not an SNS certificate/);
+    });
+});
+
+describe('SES notifications', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        events.emitEmailEvent.mockResolvedValue(null);
+        ops.updateEmailSendsByProviderMessageId.mockResolvedValue([]);
+    });
+
+    it('parses bounce, complaint and delivery (event publishing) messages', () => {
+        const bounce = parseSesNotification(bounceFixture.Message)!;
+        expect(bounce.type).toBe('Bounce');
+        expect(sesBounceType(bounce.bounce?.bounceType)).toBe('hard');
+        expect(sesBounceType('Transient')).toBe('soft');
+        expect(parseSesNotification(complaintFixture.Message)?.complaint?.complaintFeedbackType).toBe('abuse');
+        expect(parseSesNotification(deliveryFixture.Message)?.type).toBe('Delivery');
+        expect(parseSesNotification('{"eventType":"Open","mail":{"messageId":"x"}}')).toBeNull();
+
+        expect(sesProviderMessageIds(bounce.mail)).toEqual([
+            bounce.mail.messageId,
+            `<${bounce.mail.messageId}>`,
+            'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d@mail.example.com',
+            '<a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d@mail.example.com>',
+        ]);
+    });
+
+    it('suppresses bounced recipients under the org of the matched send', async () => {
+        const flow = { orgId: 'org_1', flowId: 'flow_1', nodeId: 'mail_1', enrollmentId: 'enr_1' };
+        email.recordProviderOutcome.mockResolvedValue({ id: 'q_1', orgId: 'org_1', to: 'ada@example.org', flow });
+
+        const result = await processSesNotification(parseSesNotification(bounceFixture.Message)!);
+
+        expect(result).toMatchObject({ matched: true, orgId: 'org_1', recipients: [{ email: 'ada@example.org', action: 'bounced' }] });
+        expect(email.recordBounce).toHaveBeenCalledWith('ada@example.org', 'hard', 'smtp; 550 5.1.1 user unknown', 'ses_sns', 'org_1');
+        expect(ops.updateEmailSendsByProviderMessageId).toHaveBeenCalledWith(
+            expect.arrayContaining(['<a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d@mail.example.com>']),
+            'bounced',
+            expect.objectContaining({ failureReason: 'smtp; 550 5.1.1 user unknown' }),
+        );
+        expect(events.emitEmailEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'bounce', flow }), 'org_1');
+    });
+
+    it('ignores notifications for unknown sends', async () => {
+        email.recordProviderOutcome.mockResolvedValue(null);
+        const result = await processSesNotification(parseSesNotification(complaintFixture.Message)!);
+        expect(result.matched).toBe(false);
+        expect(email.recordComplaint).not.toHaveBeenCalled();
+    });
+});
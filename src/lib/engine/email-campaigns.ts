@@ -11,7 +11,7 @@
  * the personalization engine for content resolution.
  * ═══════════════════════════════════════════════════════════════════════ */
 
-import type { SegmentFilter, VariableMapping } from '@/lib/db/schema';
+import type { SegmentFilter, SegmentRuleNode, VariableMapping } from '@/lib/db/schema';
 import { personalizeEmail } from './personalization';
 import { evaluateSegmentFilters } from './segmentation';
 
@@ -88,7 +88,7 @@ export function computeCampaignMetrics(stats: Record<string, number>): CampaignM
  */
 export function filterRecipients(
     recipients: CampaignRecipient[],
-    filters: SegmentFilter[],
+    filters: SegmentRuleNode[],
     filterLogic: string,
 ): CampaignRecipient[] {
     if (filters.length === 0) return recipients;
@@ -0,0 +1,164 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Events - Engagement as First-Class Pipeline Events
+ *
+ * Opens, clicks, unsubscribes, bounces and complaints are stored as
+ * regular events on the recipient's tracked user and run through the
+ * event pipeline, so flows, segments and webhooks can react to them:
+ *
+ *   email.opened        first open of a message
+ *   email.clicked       first click of each link in a message
+ *   email.unsubscribed
+ *   email.bounced       bounceType, diagnosticCode
+ *   email.complained    feedbackType
+ *
+ * Every event carries the message, campaign and flow step it belongs to;
+ * clicks add the link (url, linkDomain, linkPath). Repeats are dropped
+ * by the events table's messageId dedup, so a flow triggered by
+ * `email.opened` fires once per email rather than on every pixel load.
+ *
+ * The recipient is resolved from the flow enrollment for flow emails and
+ * by email address otherwise. Recipients that are not tracked users
+ * (e.g. mailing-list contacts) still get the event stored, unlinked.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { createHash, randomUUID } from 'crypto';
+import {
+    getEnrollment,
+    getTrackedUser,
+    getTrackedUserByEmail,
+    ingestEvents,
+} from '@/lib/db/operations';
+import { processEvent, type PipelineResult } from './event-pipeline';
+import { resolveOrgIdFromCampaign, type FlowTrackingContext } from './email';
+import type { StoredEvent } from '@/lib/sdk/types';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export type EmailEngagementType = 'open' | 'click' | 'unsubscribe' | 'bounce' | 'complaint';
+
+export const EMAIL_EVENT_NAMES: Record<EmailEngagementType, string> = {
+    open: 'email.opened',
+    click: 'email.clicked',
+    unsubscribe: 'email.unsubscribed',
+    bounce: 'email.bounced',
+    complaint: 'email.complained',
+};
+
+export interface EmailEngagement {
+    type: EmailEngagementType;
+    recipientEmail: string;
+    /** Tracking message ID; bounces and complaints may not know it */
+    messageId?: string;
+    campaignId?: string;
+    flow?: FlowTrackingContext;
+    /** Clicked link */
+    url?: string;
+    bounceType?: 'hard' | 'soft' | 'undetermined';
+    diagnosticCode?: string;
+    feedbackType?: string;
+    /** Defaults to now */
+    at?: Date;
+}
+
+/* ── Event Construction ─────────────────────────────────────────────── */
+
+/** Event properties for an engagement (undefined fields are left out). */
+export function buildEmailEventProperties(engagement: EmailEngagement): Record<string, unknown> {
+    const props: Record<string, unknown> = {
+        email: engagement.recipientEmail,
+        messageId: engagement.messageId,
+        campaignId: engagement.campaignId,
+        flowId: engagement.flow?.flowId,
+        flowNodeId: engagement.flow?.nodeId,
+        enrollmentId: engagement.flow?.enrollmentId,
+        bounceType: engagement.bounceType,
+        diagnosticCode: engagement.diagnosticCode,
+        feedbackType: engagement.feedbackType,
+    };
+
+    if (engagement.url) {
+        props.url = engagement.url;
+        try {
+            const link = new URL(engagement.url);
+            props.linkDomain = link.hostname;
+            props.linkPath = link.pathname;
+        } catch {
+            // Keep the raw url only
+        }
+    }
+
+    return Object.fromEntries(Object.entries(props).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Dedup key stored as the event's messageId: one event per message (and
+ * per link for clicks). Engagements without a message ID are never
+ * deduplicated.
+ */
+export function emailEventDedupKey(engagement: EmailEngagement): string {
+    const name = EMAIL_EVENT_NAMES[engagement.type];
+    if (!engagement.messageId) return `${name}:${randomUUID()}`;
+    if (engagement.type === 'click' && engagement.url) {
+        const link = createHash('sha256').update(engagement.url).digest('hex').slice(0, 16);
+        return `${name}:${engagement.messageId}:${link}`;
+    }
+    return `${name}:${engagement.messageId}`;
+}
+
+/* ── Emission ───────────────────────────────────────────────────────── */
+
+/** The tracked user an email went to, if any. */
+async function resolveRecipient(orgId: string, engagement: EmailEngagement) {
+    if (engagement.flow) {
+        const enrollment = await getEnrollment(orgId, engagement.flow.enrollmentId);
+        const user = enrollment ? await getTrackedUser(orgId, enrollment.trackedUserId) : null;
+        if (user) return user;
+    }
+    return getTrackedUserByEmail(orgId, engagement.recipientEmail.trim());
+}
+
+/**
+ * Store an email engagement as an event and run it through the pipeline.
+ * The org comes from `orgId`, the flow context or the campaign, like
+ * tracking events.
+ *
+ * @returns the pipeline result, or null when the event was a repeat or
+ *          the org could not be resolved
+ */
+export async function emitEmailEvent(engagement: EmailEngagement, orgId?: string): Promise<PipelineResult | null> {
+    const resolvedOrgId = orgId ?? engagement.flow?.orgId ?? await resolveOrgIdFromCampaign(engagement.campaignId);
+    if (!resolvedOrgId) {
+        console.warn(`[email-events] Could not resolve orgId for ${engagement.type} of ${engagement.recipientEmail}. Event dropped.`);
+        return null;
+    }
+
+    const user = await resolveRecipient(resolvedOrgId, engagement);
+    const name = EMAIL_EVENT_NAMES[engagement.type];
+    const properties = buildEmailEventProperties(engagement);
+    const messageId = emailEventDedupKey(engagement);
+    const at = engagement.at ?? new Date();
+
+    const { ingested } = await ingestEvents(resolvedOrgId, [{
+        name,
+        trackedUserId: user?.id,
+        accountId: user?.accountId ?? undefined,
+        externalUserId: user?.externalId,
+        properties,
+        messageId,
+        clientTimestamp: at,
+    }]);
+    if (!ingested) return null;
+
+    const event: StoredEvent = {
+        id: `evt_${Date.now().toString(36)}_${randomUUID().substring(0, 8)}`,
+        event: name,
+        userId: user?.externalId,
+        properties: properties as StoredEvent['properties'],
+        timestamp: at.toISOString(),
+        receivedAt: new Date().toISOString(),
+        messageId,
+        context: { library: { name: 'email-events', version: '1.0.0' }, environment: 'server' },
+        processed: false,
+    };
+    return processEvent(event, resolvedOrgId);
+}
@@ -0,0 +1,112 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Reports - Applying DSN Bounces and ARF Complaints
+ *
+ * Takes a parsed bounce (RFC 3464 DSN) or complaint (RFC 5965 ARF)
+ * report for an org and:
+ *   • marks the original send bounced / complained, matched by the
+ *     Message-ID of the original message attached to the report
+ *   • adds failed recipients and complainers to the suppression list
+ *     (hard / soft per the DSN status code)
+ *   • emits `email.bounced` / `email.complained` events
+ *
+ * Delayed, delivered and relayed DSN recipients are reported back but
+ * not suppressed - the message may still arrive.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { updateEmailSendsByProviderMessageId } from '@/lib/db/operations';
+import {
+    recordBounce,
+    recordComplaint,
+    recordProviderOutcome,
+    providerMessageIdVariants,
+    type BounceClass,
+    type EmailReport,
+} from './email';
+import { emitEmailEvent } from './email-events';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export interface EmailReportResult {
+    kind: EmailReport['kind'];
+    originalMessageId?: string;
+    /** False when no send matches the original Message-ID */
+    matched: boolean;
+    recipients: Array<{
+        email: string;
+        action: 'bounced' | 'complained' | 'skipped';
+        bounceType?: BounceClass;
+        reason?: string;
+    }>;
+}
+
+/* ── Processing ─────────────────────────────────────────────────────── */
+
+/** Apply a parsed DSN or ARF report to `orgId`'s sends and suppression list. */
+export async function applyEmailReport(report: EmailReport, orgId: string, source?: string): Promise<EmailReportResult> {
+    const ids = providerMessageIdVariants(report.originalMessageId);
+    const result: EmailReportResult = {
+        kind: report.kind,
+        ...(report.originalMessageId ? { originalMessageId: report.originalMessageId } : {}),
+        matched: false,
+        recipients: [],
+    };
+
+    if (report.kind === 'arf') {
+        const [queued, sends] = await Promise.all([
+            recordProviderOutcome(ids, 'complained', new Date(), orgId),
+            updateEmailSendsByProviderMessageId(ids, 'complained', { orgId }),
+        ]);
+        result.matched = !!queued || sends.length > 0;
+
+        const email = report.recipient ?? queued?.to;
+        if (!email) {
+            result.recipients.push({ email: '(unknown)', action: 'skipped', reason: 'No recipient in report' });
+            return result;
+        }
+
+        await recordComplaint(email, report.feedbackType, source ?? 'arf_report', orgId);
+        void emitEmailEvent({
+            type: 'complaint',
+            recipientEmail: email,
+            ...(report.originalMessageId ? { messageId: report.originalMessageId } : {}),
+            campaignId: queued?.campaignId ?? sends[0]?.campaignId ?? undefined,
+            flow: queued?.flow,
+            feedbackType: report.feedbackType,
+        }, orgId).catch((err) => console.error('[email-reports] Email event error:', err));
+        result.recipients.push({ email, action: 'complained', reason: report.feedbackType });
+        return result;
+    }
+
+    const failed = report.recipients.filter((r) => r.action === 'failed');
+    for (const recipient of report.recipients.filter((r) => r.action !== 'failed')) {
+        result.recipients.push({ email: recipient.recipient, action: 'skipped', reason: `Action: ${recipient.action}` });
+    }
+    if (failed.length === 0) return result;
+
+    const reason = failed[0].diagnosticCode ?? (failed[0].status ? `Status ${failed[0].status}` : 'Bounced');
+    const [queued, sends] = await Promise.all([
+        recordProviderOutcome(ids, 'bounced', new Date(), orgId),
+        updateEmailSendsByProviderMessageId(ids, 'bounced', { orgId, failureReason: reason }),
+    ]);
+    result.matched = !!queued || sends.length > 0;
+
+    for (const recipient of failed) {
+        await recordBounce(recipient.recipient, recipient.bounceType, recipient.diagnosticCode, source ?? 'dsn_report', orgId);
+        void emitEmailEvent({
+            type: 'bounce',
+            recipientEmail: recipient.recipient,
+            ...(report.originalMessageId ? { messageId: report.originalMessageId } : {}),
+            campaignId: queued?.campaignId ?? sends[0]?.campaignId ?? undefined,
+            flow: queued?.flow,
+            bounceType: recipient.bounceType,
+            diagnosticCode: recipient.diagnosticCode,
+        }, orgId).catch((err) => console.error('[email-reports] Email event error:', err));
+        result.recipients.push({
+            email: recipient.recipient,
+            action: 'bounced',
+            bounceType: recipient.bounceType,
+            reason: recipient.diagnosticCode ?? recipient.status,
+        });
+    }
+    return result;
+}
@@ -0,0 +1,75 @@
+/* ==========================================================================
+ * Deliverability Rollup - Unit Tests
+ *
+ * Tests the pure rollup steps:
+ *   - Folding activity groups into org totals and per-dimension breakdowns
+ *   - Taking the total's unsubscribes from suppression events
+ *   - Bounce and complaint rate thresholds, at the highest severity reached
+ * ========================================================================== */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import { checkDeliverabilityThresholds, foldDeliverabilityActivity } from '@/lib/engine/email/deliverability';
+
+const base = { orgId: 'org_1', date: '2026-03-01' };
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('deliverability rollup folding', () => {
+    it('adds every group to the total and one key of each dimension', () => {
+        const [day, ...rest] = foldDeliverabilityActivity([
+            { ...base, sendingDomain: 'mail.acme.com', source: 'campaign', recipientDomain: 'gmail.com', counts: { sent: 10, delivered: 9, bounced: 1 } },
+            { ...base, sendingDomain: 'mail.acme.com', source: 'flow', recipientDomain: 'googlemail.com', counts: { sent: 5, delivered: 5 } },
+            { ...base, sendingDomain: null, source: 'flow', recipientDomain: 'other', counts: { opened: 3, clicked: 1, unsubscribed: 1 } },
+        ]);
+
+        expect(rest).toEqual([]);
+        expect(day.total).toEqual({ sent: 15, delivered: 14, opened: 3, clicked: 1, bounced: 1, spam: 0, unsubscribed: 0 });
+        const key = (dimension: string, k: string) => day.breakdowns.find((b) => b.dimension === dimension && b.key === k)?.counts;
+        expect(key('sending_domain', 'mail.acme.com')).toMatchObject({ sent: 15, bounced: 1 });
+        expect(key('sending_domain', 'unknown')).toMatchObject({ opened: 3, unsubscribed: 1 });
+        expect(key('source', 'flow')).toMatchObject({ sent: 5, opened: 3 });
+        expect(key('mailbox_provider', 'gmail.com')).toMatchObject({ sent: 15, delivered: 14 });
+        expect(day.breakdowns).toHaveLength(6);
+    });
+
+    it('keeps orgs and days apart and counts unsubscribes from every channel in the total', () => {
+        const days = foldDeliverabilityActivity(
+            [
+                { ...base, sendingDomain: 'acme.com', source: 'campaign', recipientDomain: 'yahoo.com', counts: { sent: 1 } },
+                { ...base, date: '2026-03-02', sendingDomain: 'acme.com', source: 'campaign', recipientDomain: 'yahoo.com', counts: { sent: 2 } },
+            ],
+            [{ ...base, unsubscribed: 4 }, { orgId: 'org_2', date: '2026-03-01', unsubscribed: 1 }],
+        );
+
+        expect(days.map((d) => [d.orgId, d.date, d.total.sent, d.total.unsubscribed])).toEqual([
+            ['org_1', '2026-03-01', 1, 4],
+            ['org_1', '2026-03-02', 2, 0],
+            ['org_2', '2026-03-01', 0, 1],
+        ]);
+        expect(days[2].breakdowns).toEqual([]);
+    });
+});
+
+describe('deliverability thresholds', () => {
+    it('flags the 0.3% spam rate as critical and 0.1% as a warning', () => {
+        expect(checkDeliverabilityThresholds({ sent: 1000, delivered: 1000, bounced: 0, spam: 3 }))
+            .toEqual([{ metric: 'complaint_rate', severity: 'critical', rate: 0.003, threshold: 0.003 }]);
+        expect(checkDeliverabilityThresholds({ sent: 1000, delivered: 1000, bounced: 0, spam: 1 }))
+            .toEqual([{ metric: 'complaint_rate', severity: 'warning', rate: 0.001, threshold: 0.001 }]);
+    });
+
+    it('flags bounce rates over 2% and 5%', () => {
+        expect(checkDeliverabilityThresholds({ sent: 1000, delivered: 970, bounced: 30, spam: 0 }))
+            .toMatchObject([{ metric: 'bounce_rate', severity: 'warning' }]);
+        expect(checkDeliverabilityThresholds({ sent: 1000, delivered: 940, bounced: 60, spam: 0 }))
+            .toMatchObject([{ metric: 'bounce_rate', severity: 'critical', threshold: 0.05 }]);
+    });
+
+    it('does not judge rates on too few sends', () => {
+        expect(checkDeliverabilityThresholds({ sent: 50, delivered: 40, bounced: 10, spam: 2 })).toEqual([]);
+        expect(checkDeliverabilityThresholds({ sent: 1000, delivered: 990, bounced: 10, spam: 0 })).toEqual([]);
+    });
+});
@@ -0,0 +1,138 @@
+/* ==========================================================================
+ * Email Providers - Unit Tests
+ *
+ * Tests:
+ *   - Per-provider classification of retryable vs permanent failures
+ *   - Provider chain selection from the platform environment
+ *   - Failover to the secondary provider on a failed health check or an
+ *     unavailable primary
+ * ========================================================================== */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import {
+    classifyHttpFailure,
+    classifySesError,
+    classifySmtpError,
+    resolveProviderChain,
+    sendWithFailover,
+} from '@/lib/engine/email/providers';
+
+const email = {
+    to: 'ada@example.org',
+    fromEmail: 'hello@acme.com',
+    fromName: 'Acme',
+    subject: 'Hi',
+    html: '<p>Hi</p>',
+};
+
+function jsonResponse(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('failure classification', () => {
+    it('classifies SMTP replies and connection errors', () => {
+        expect(classifySmtpError({ message: '550 5.1.1 User unknown', responseCode: 550 })).toEqual({ retryable: false, bounce: 'hard' });
+        expect(classifySmtpError({ message: '554 5.7.1 Message rejected as spam', responseCode: 554 })).toEqual({ retryable: false });
+        expect(classifySmtpError({ message: '452 4.2.2 Mailbox full', responseCode: 452 })).toEqual({ retryable: true, bounce: 'soft' });
+        expect(classifySmtpError({ message: 'Invalid login: 535 Authentication failed', code: 'EAUTH' }))
+            .toEqual({ retryable: true, unavailable: true });
+        expect(classifySmtpError({ message: 'Connection timeout', code: 'ETIMEDOUT' })).toEqual({ retryable: true, unavailable: true });
+    });
+
+    it('classifies SES API exceptions', () => {
+        expect(classifySesError({ name: 'MessageRejected', $metadata: { httpStatusCode: 400 } })).toEqual({ retryable: false });
+        expect(classifySesError({ name: 'TooManyRequestsException', $metadata: { httpStatusCode: 429 } })).toEqual({ retryable: true });
+        expect(classifySesError({ name: 'SendingPausedException', $metadata: { httpStatusCode: 400 } }))
+            .toEqual({ retryable: true, unavailable: true });
+    });
+
+    it('applies provider error codes before the HTTP status', () => {
+        expect(classifyHttpFailure('postmark', 422, { ErrorCode: 406, Message: 'Inactive recipient' }))
+            .toEqual({ retryable: false, bounce: 'hard' });
+        expect(classifyHttpFailure('postmark', 401, { ErrorCode: 10 })).toEqual({ retryable: true, unavailable: true });
+        expect(classifyHttpFailure('resend', 429, { name: 'daily_quota_exceeded' })).toEqual({ retryable: true, unavailable: true });
+        expect(classifyHttpFailure('resend', 429, { name: 'rate_limit_exceeded' })).toEqual({ retryable: true });
+        expect(classifyHttpFailure('mailgun', 402, {})).toEqual({ retryable: true, unavailable: true });
+        expect(classifyHttpFailure('sendgrid', 400, { errors: [{ message: 'Invalid email' }] })).toEqual({ retryable: false });
+        expect(classifyHttpFailure('sendgrid', 503, {})).toEqual({ retryable: true, unavailable: true });
+    });
+});
+
+describe('provider selection and failover', () => {
+    const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>();
+
+    beforeEach(() => {
+        delete (globalThis as Record<string, unknown>).__lifecycleos_email_providers_runtime__;
+        fetchMock.mockReset();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubEnv('SMTP_HOST', '');
+        vi.stubEnv('POSTMARK_SERVER_TOKEN', 'pm-token');
+        vi.stubEnv('RESEND_API_KEY', 're-key');
+        vi.stubEnv('EMAIL_PROVIDER', 'postmark');
+        vi.stubEnv('EMAIL_FALLBACK_PROVIDER', 'resend');
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+    });
+
+    it('chains the platform primary and fallback, skipping unconfigured providers', async () => {
+        expect(await resolveProviderChain(undefined, 'acme.com')).toEqual(['postmark', 'resend']);
+
+        vi.stubEnv('RESEND_API_KEY', '');
+        expect(await resolveProviderChain(undefined, 'acme.com')).toEqual(['postmark']);
+
+        vi.stubEnv('POSTMARK_SERVER_TOKEN', '');
+        expect(await resolveProviderChain(undefined, 'acme.com')).toEqual(['log']);
+    });
+
+    it('fails over when the primary fails its health check', async () => {
+        fetchMock.mockImplementation(async (url) => {
+            if (url === 'https://api.postmarkapp.com/server') return jsonResponse(503, { Message: 'Service unavailable' });
+            if (url === 'https://api.resend.com/emails') return jsonResponse(200, { id: 're_1' });
+            throw new Error(`Unexpected request to ${url}`);
+        });
+
+        const result = await sendWithFailover(email, ['postmark', 'resend']);
+        expect(result).toEqual({ success: true, provider: 'resend', messageId: 're_1' });
+        expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain('https://api.postmarkapp.com/email');
+    });
+
+    it('fails over when the primary reports itself unavailable mid-send', async () => {
+        fetchMock.mockImplementation(async (url) => {
+            if (url === 'https://api.postmarkapp.com/server') return jsonResponse(200, { Name: 'Acme' });
+            if (url === 'https://api.postmarkapp.com/email') return jsonResponse(401, { ErrorCode: 10, Message: 'Bad token' });
+            if (url === 'https://api.resend.com/emails') return jsonResponse(200, { id: 're_2' });
+            throw new Error(`Unexpected request to ${url}`);
+        });
+
+        expect(await sendWithFailover(email, ['postmark', 'resend'])).toMatchObject({ success: true, provider: 'resend' });
+
+        // The failed primary is now known unhealthy and skipped without a send
+        fetchMock.mockClear();
+        await sendWithFailover(email, ['postmark', 'resend']);
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://api.resend.com/emails']);
+    });
+
+    it('keeps permanent rejections on the primary', async () => {
+        fetchMock.mockImplementation(async (url) => {
+            if (url === 'https://api.postmarkapp.com/server') return jsonResponse(200, {});
+            if (url === 'https://api.postmarkapp.com/email') return jsonResponse(422, { ErrorCode: 406, Message: 'Inactive recipient' });
+            throw new Error(`Unexpected request to ${url}`);
+        });
+
+        expect(await sendWithFailover(email, ['postmark', 'resend'])).toEqual({
+            success: false,
+            provider: 'postmark',
+            error: 'postmark 422: Inactive recipient',
+            retryable: false,
+            bounce: 'hard',
+        });
+    });
+});
@@ -0,0 +1,90 @@
+/* ==========================================================================
+ * Email Queue Throttles - Unit Tests
+ *
+ * Tests the pure (non-DB) portions of the queue throttling:
+ *   - Recipient domain grouping by mailbox provider
+ *   - Token buckets: refill, all-or-nothing acquisition
+ *   - Priority lanes: lower lanes leave headroom for critical/high
+ *   - Settling claimed rows only under the matching claim
+ * ========================================================================== */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({ update: vi.fn() }));
+vi.mock('@/lib/db', () => ({ db }));
+
+import {
+    recipientDomainGroup,
+    settleClaimedEmail,
+    takeTokens,
+    type TokenBucket,
+} from '@/lib/engine/email/queue';
+
+const bucket = (tokens: number, lastRefill = 0): TokenBucket => ({ tokens, lastRefill });
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('queue throttles', () => {
+    it('groups recipient domains by mailbox provider', () => {
+        expect(recipientDomainGroup('ada@GoogleMail.com')).toBe('gmail.com');
+        expect(recipientDomainGroup('ada@hotmail.com')).toBe('outlook.com');
+        expect(recipientDomainGroup('ada@example.org')).toBe('example.org');
+    });
+
+    it('takes a token from every bucket or from none', () => {
+        const global = bucket(5);
+        const domain = bucket(0);
+        expect(takeTokens([{ bucket: global, rate: 5 }, { bucket: domain, rate: 5 }], 'critical', 0)).toBe(false);
+        expect(global.tokens).toBe(5);
+
+        // 200ms at 5/s refills one token
+        expect(takeTokens([{ bucket: global, rate: 5 }, { bucket: domain, rate: 5 }], 'critical', 200)).toBe(true);
+        expect(global.tokens).toBe(4);
+        expect(domain.tokens).toBeCloseTo(0);
+    });
+
+    it('keeps headroom for higher lanes', () => {
+        const org = bucket(6);
+        const drain = (priority: 'bulk' | 'normal' | 'critical') => {
+            let sent = 0;
+            while (takeTokens([{ bucket: org, rate: 10 }], priority, 0)) sent++;
+            return sent;
+        };
+        // bulk leaves half the bucket, normal 10%, critical drains it
+        expect(drain('bulk')).toBe(1);
+        expect(drain('normal')).toBe(4);
+        expect(drain('critical')).toBe(1);
+    });
+});
+
+describe('settling claimed sends', () => {
+    const set = vi.fn();
+    let settledRows: Array<{ id: string }>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        settledRows = [{ id: 'q_1' }];
+        db.update.mockReturnValue({ set: set.mockReturnValue({ where: () => ({ returning: async () => settledRows }) }) });
+    });
+
+    const row = { id: 'q_1', attempts: 0, maxAttempts: 2, claimToken: 'claim_1' };
+
+    it('marks the row sent and releases the claim', async () => {
+        expect(await settleClaimedEmail(row, { success: true, messageId: '<m1@x>' })).toBe('sent');
+        expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'sent', attempts: 1, claimToken: null, leaseExpiresAt: null }));
+        // The provider ID is only filled in when still empty
+        expect(set.mock.calls[0][0].providerMessageId).toBeDefined();
+        expect(set.mock.calls[0][0].providerMessageId).not.toBe('<m1@x>');
+    });
+
+    it('retries, then dead-letters, failed sends', async () => {
+        expect(await settleClaimedEmail(row, { success: false, error: '421 try later' })).toBe('retry');
+        expect(set).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'queued', lastError: 'Retry 1/2: 421 try later' }));
+        expect(await settleClaimedEmail({ ...row, attempts: 1 }, { success: false, error: 'boom' })).toBe('dlq');
+    });
+
+    it('reports a claim lost to lease recovery', async () => {
+        settledRows = [];
+        expect(await settleClaimedEmail(row, { success: true, messageId: '<m1@x>' })).toBe('lost');
+    });
+});
@@ -0,0 +1,83 @@
+/* ==========================================================================
+ * Bounce & Complaint Report Parser - Unit Tests
+ *
+ * Covers parsing raw report emails from SMTP relays:
+ *   - RFC 3464 DSNs: recipients, status and diagnostic codes, the
+ *     original Message-ID
+ *   - RFC 5965 ARF feedback reports
+ *   - Hard / soft bounce classification
+ * ========================================================================== */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    parseEmailReport,
+    classifyBounce,
+    providerMessageIdVariants,
+} from '@/lib/engine/email/report-parser';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('delivery status notifications', () => {
+    it('extracts the failed recipient and original Message-ID', () => {
+        const report = parseEmailReport(fixture('dsn-hard.eml'));
+        expect(report).toEqual({
+            kind: 'dsn',
+            reportingMta: 'relay.example.com',
+            arrivalDate: 'Mon,  2 Mar 2026 10:14:58 +0000 (UTC)',
+            originalMessageId: '<a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d@mail.example.com>',
+            recipients: [{
+                recipient: 'ada@example.org',
+                originalRecipient: 'ada@example.org',
+                action: 'failed',
+                status: '5.1.1',
+                diagnosticCode: '550 5.1.1 <ada@example.org>: Recipient address rejected: User unknown',
+                bounceType: 'hard',
+            }],
+        });
+    });
+
+    it('handles CRLF line endings and multiple recipients', () => {
+        const report = parseEmailReport(fixture('dsn-mailbox-full.eml').replace(/\n/g, '\r\n'));
+        expect(report?.kind).toBe('dsn');
+        if (report?.kind !== 'dsn') return;
+        expect(report.originalMessageId).toBe('<digest-42@mail.example.com>');
+        expect(report.recipients.map((r) => [r.recipient, r.action, r.bounceType])).toEqual([
+            ['grace@example.net', 'failed', 'soft'],
+            ['linus@example.net', 'delayed', 'soft'],
+        ]);
+    });
+
+    it('classifies bounces by status code', () => {
+        expect(classifyBounce('5.1.1')).toBe('hard');
+        expect(classifyBounce('5.2.2')).toBe('soft');
+        expect(classifyBounce('4.4.7')).toBe('soft');
+        expect(classifyBounce('5.7.1')).toBe('undetermined');
+        expect(classifyBounce(undefined, '550 Requested action not taken: mailbox unavailable')).toBe('hard');
+        expect(classifyBounce(undefined, '450 Try again later')).toBe('soft');
+        expect(classifyBounce('5.1.1', undefined, 'delayed')).toBe('soft');
+        expect(classifyBounce()).toBe('undetermined');
+    });
+});
+
+describe('ARF feedback reports', () => {
+    it('extracts the feedback type, recipient and original Message-ID', () => {
+        expect(parseEmailReport(fixture('arf-abuse.eml'))).toEqual({
+            kind: 'arf',
+            feedbackType: 'abuse',
+            userAgent: 'SomeGenerator/1.0',
+            recipient: 'ada@example.org',
+            originalMessageId: '<a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d@mail.example.com>',
+            arrivalDate: 'Mon, 02 Mar 2026 10:14:58 +0000',
+            reportedDomain: 'mail.example.com',
+        });
+    });
+
+    it('ignores ordinary mail', () => {
+        expect(parseEmailReport('From: a@b.co\nSubject: Out of office\n\nBack Monday.')).toBeNull();
+        expect(providerMessageIdVariants('<m1@x>', undefined, 'm1@x')).toEqual(['m1@x', '<m1@x>']);
+    });
+});
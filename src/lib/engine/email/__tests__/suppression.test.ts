@@ -0,0 +1,45 @@
+/* ==========================================================================
+ * Email Suppression Policy - Unit Tests
+ *
+ * Tests the pure soft-bounce policy helpers:
+ *   - Defaults and clamping of org policies
+ *   - Exponential expiry and escalation to a permanent hard bounce
+ * ========================================================================== */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import {
+    DEFAULT_SUPPRESSION_POLICY,
+    planSoftBounce,
+    resolveSuppressionPolicy,
+} from '@/lib/engine/email/suppression';
+
+const now = new Date('2026-03-02T12:00:00Z');
+const hoursAfterNow = (date: Date | null) => date && (date.getTime() - now.getTime()) / 3_600_000;
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('suppression policy', () => {
+    it('fills defaults and clamps invalid values', () => {
+        expect(resolveSuppressionPolicy()).toEqual(DEFAULT_SUPPRESSION_POLICY);
+        expect(resolveSuppressionPolicy({ softBounceBaseHours: 24, softBounceMaxHours: 12, softBounceMultiplier: 0.5 }))
+            .toMatchObject({ softBounceBaseHours: 24, softBounceMaxHours: 24, softBounceMultiplier: 1 });
+        expect(resolveSuppressionPolicy({ softBounceEscalationCount: Number.NaN }).softBounceEscalationCount)
+            .toBe(DEFAULT_SUPPRESSION_POLICY.softBounceEscalationCount);
+    });
+
+    it('grows soft-bounce expiry exponentially up to the cap', () => {
+        const policy = resolveSuppressionPolicy({ softBounceBaseHours: 24, softBounceMultiplier: 3, softBounceMaxHours: 100, softBounceEscalationCount: 5 });
+        expect(hoursAfterNow(planSoftBounce(policy, 1, now).expiresAt)).toBe(24);
+        expect(hoursAfterNow(planSoftBounce(policy, 2, now).expiresAt)).toBe(72);
+        expect(hoursAfterNow(planSoftBounce(policy, 3, now).expiresAt)).toBe(100);
+    });
+
+    it('escalates to a permanent hard bounce after N soft bounces', () => {
+        const policy = resolveSuppressionPolicy();
+        expect(planSoftBounce(policy, 2, now).reason).toBe('soft_bounce');
+        expect(planSoftBounce(policy, 3, now)).toEqual({ reason: 'hard_bounce', expiresAt: null });
+    });
+});
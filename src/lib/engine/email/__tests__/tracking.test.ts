@@ -106,6 +106,12 @@ describe('Email Tracking - Token Generation & Verification', () => {
         const result = verifyTrackingToken(token);
         expect(result!.url).toBe('https://example.com/page');
     });
+
+    it('carries the flow step context for flow emails', () => {
+        const flow = { orgId: 'org_1', flowId: 'flow_1', nodeId: 'node_email', enrollmentId: 'enr_1' };
+        const result = verifyTrackingToken(generateTrackingToken({ ...basePayload, campaignId: undefined, flow }));
+        expect(result!.flow).toEqual(flow);
+    });
 });
 
 describe('Email Tracking - URL Generation', () => {
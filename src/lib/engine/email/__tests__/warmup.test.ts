@@ -0,0 +1,59 @@
+/* ==========================================================================
+ * Email Warm-up - Unit Tests
+ *
+ * Tests the pure phase evaluation:
+ *   - Advancing after a full, healthy phase and completing the plan
+ *   - Waiting for the phase to last long enough and see enough volume
+ *   - Holding or rolling back on bounce and complaint rates
+ *   - Deferring over-cap email to the next UTC day
+ * ========================================================================== */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ db: {} }));
+
+import { msUntilNextWarmupDay, planWarmupStep, utcDay } from '@/lib/engine/email/warmup';
+
+const plan = {
+    phase: 2,
+    schedule: [50, 100, 250, 500],
+    phaseDays: 2,
+    phaseStartedOn: '2026-03-01',
+    phaseSent: 400,
+    dailyCap: 250,
+};
+const healthy = { sent: 400, delivered: 398, bounced: 2, spam: 0 };
+
+/* ── Tests ───────────────────────────────────────────────────────────── */
+
+describe('warm-up phase evaluation', () => {
+    it('advances after a healthy phase and completes after the last one', () => {
+        expect(planWarmupStep(plan, healthy, '2026-03-03')).toMatchObject({ action: 'advance', phase: 3 });
+        expect(planWarmupStep({ ...plan, phase: 3, dailyCap: 500, phaseSent: 900 }, healthy, '2026-03-03'))
+            .toMatchObject({ action: 'complete', phase: 3 });
+    });
+
+    it('waits for the phase to last phaseDays and reach a day at its cap', () => {
+        expect(planWarmupStep(plan, healthy, '2026-03-02')).toMatchObject({ action: 'none', reason: 'Day 2 of 2 in phase' });
+        expect(planWarmupStep({ ...plan, phaseSent: 120 }, healthy, '2026-03-05')).toMatchObject({ action: 'none', phase: 2 });
+    });
+
+    it('holds over the hold thresholds and rolls back over the rollback thresholds', () => {
+        expect(planWarmupStep(plan, { ...healthy, bounced: 12 }, '2026-03-03')).toMatchObject({ action: 'hold', phase: 2 });
+        expect(planWarmupStep(plan, { ...healthy, spam: 1 }, '2026-03-03')).toMatchObject({ action: 'hold', phase: 2 });
+        expect(planWarmupStep(plan, { ...healthy, bounced: 24 }, '2026-03-03'))
+            .toMatchObject({ action: 'rollback', phase: 1, reason: 'Bounce rate 6.00%, complaint rate 0.00%' });
+        expect(planWarmupStep({ ...plan, phase: 0 }, { ...healthy, spam: 2 }, '2026-03-03')).toMatchObject({ action: 'rollback', phase: 0 });
+    });
+
+    it('does not judge rates on too few sends', () => {
+        expect(planWarmupStep(plan, { sent: 20, delivered: 15, bounced: 5, spam: 1 }, '2026-03-03')).toMatchObject({ action: 'advance' });
+    });
+
+    it('defers over-cap email to just after the next UTC midnight', () => {
+        const now = new Date('2026-03-01T22:15:00Z');
+        const retryAt = new Date(now.getTime() + msUntilNextWarmupDay(now));
+        expect(utcDay(retryAt)).toBe('2026-03-02');
+        expect(retryAt.getUTCHours()).toBe(0);
+    });
+});
@@ -0,0 +1,484 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Deliverability Rollup - Daily Metrics from Real Sending Activity
+ *
+ * Aggregates the email tables into deliverabilityMetrics (one row per org
+ * and UTC day) and deliverabilityBreakdowns (the same counters by sending
+ * domain, source and mailbox provider):
+ *
+ *   counter        source                        attributed to
+ *   sent           emailQueue sentAt / bouncedAt the day it was sent
+ *   delivered      sent, not bounced             the day it was sent
+ *   bounced        emailQueue bouncedAt          the day it was sent
+ *   spam           emailQueue complainedAt       the day it was sent
+ *   opened/clicked emailTrackingEvents (unique   the day of the event
+ *                  messages)
+ *   unsubscribed   org total: suppression events (every channel);
+ *                  breakdowns: unsubscribe link clicks
+ *
+ * Bounces and complaints count against the day the email went out, so a
+ * day's rates compare like with like; emailSends mirrors the campaign
+ * rows of the queue and is not counted again.
+ *
+ * The scheduler calls rollupDeliverabilityMetrics() every run; it
+ * recomputes only the last ROLLUP_LOOKBACK_DAYS (late bounces and
+ * complaints still land there), at most every ROLLUP_INTERVAL_MS unless
+ * the UTC day changed. Days whose bounce or complaint rate crosses an
+ * industry threshold raise a deliverability alert and an activity log
+ * entry, once per day, scope, metric and severity.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { db } from '@/lib/db';
+import * as schema from '@/lib/db/schema';
+import { and, desc, eq, gte, isNotNull, isNull, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { recipientDomainGroup } from './queue';
+import { getTransportConfig } from './transport';
+import { utcDay } from './warmup';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export type DeliverabilityDimension = Exclude<(typeof schema.deliverabilityDimensionEnum.enumValues)[number], 'org'>;
+export type DeliverabilityAlert = typeof schema.deliverabilityAlerts.$inferSelect;
+export type DeliverabilityBreakdown = typeof schema.deliverabilityBreakdowns.$inferSelect;
+
+export interface DeliverabilityCounts {
+    sent: number;
+    delivered: number;
+    opened: number;
+    clicked: number;
+    bounced: number;
+    spam: number;
+    unsubscribed: number;
+}
+
+/** One aggregated group of sending or engagement activity */
+export interface DeliverabilityActivity {
+    orgId: string;
+    date: string;
+    /** null when the email could not be matched to a queue row */
+    sendingDomain: string | null;
+    source: string;
+    /** Recipient domain, or 'other' outside the major mailbox providers */
+    recipientDomain: string;
+    counts: Partial<DeliverabilityCounts>;
+}
+
+/** An org's rolled-up day */
+export interface DeliverabilityDay {
+    orgId: string;
+    date: string;
+    total: DeliverabilityCounts;
+    breakdowns: Array<{ dimension: DeliverabilityDimension; key: string; counts: DeliverabilityCounts }>;
+}
+
+export interface DeliverabilityThresholds {
+    bounceRate: { warning: number; critical: number };
+    complaintRate: { warning: number; critical: number };
+    /** Fewer sends than this are too few to judge rates on */
+    minSample: number;
+}
+
+export interface DeliverabilityBreach {
+    metric: DeliverabilityAlert['metric'];
+    severity: DeliverabilityAlert['severity'];
+    rate: number;
+    threshold: number;
+}
+
+export interface DeliverabilityRollupSummary {
+    skipped: boolean;
+    from: string;
+    to: string;
+    /** Org-days written */
+    days: number;
+    alerts: number;
+}
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+/**
+ * Bounce rates over 2% draw provider scrutiny and over 5% risk sending
+ * suspension; Gmail and Yahoo require spam complaints below 0.3% and
+ * recommend staying under 0.1%.
+ */
+export const DELIVERABILITY_THRESHOLDS: DeliverabilityThresholds = {
+    bounceRate: { warning: 0.02, critical: 0.05 },
+    complaintRate: { warning: 0.001, critical: 0.003 },
+    minSample: 100,
+};
+
+/** Days recomputed on each run, today included */
+export const ROLLUP_LOOKBACK_DAYS = 3;
+
+const ROLLUP_INTERVAL_MS = 10 * 60_000;
+
+/** Recipient domains broken out by mailbox provider; the rest are 'other' */
+const MAILBOX_PROVIDER_DOMAINS = [
+    'gmail.com', 'googlemail.com',
+    'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+    'yahoo.com', 'ymail.com', 'rocketmail.com',
+    'icloud.com', 'me.com', 'mac.com',
+    'aol.com',
+];
+
+const COUNTERS: Array<keyof DeliverabilityCounts> = ['sent', 'delivered', 'opened', 'clicked', 'bounced', 'spam', 'unsubscribed'];
+
+const METRIC_LABELS: Record<DeliverabilityBreach['metric'], string> = {
+    bounce_rate: 'Bounce rate',
+    complaint_rate: 'Spam complaint rate',
+};
+
+/* ── Runtime State ──────────────────────────────────────────────────── */
+
+const runtimeKey = '__lifecycleos_email_deliverability_runtime__';
+
+interface RuntimeState {
+    lastRollupAt: number;
+    lastRollupDay: string | null;
+}
+
+function getRuntime(): RuntimeState {
+    const g = globalThis as unknown as Record<string, RuntimeState>;
+    if (!g[runtimeKey]) {
+        g[runtimeKey] = { lastRollupAt: 0, lastRollupDay: null };
+    }
+    return g[runtimeKey];
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Folding & Thresholds (pure)
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+function emptyCounts(): DeliverabilityCounts {
+    return { sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0, spam: 0, unsubscribed: 0 };
+}
+
+function addCounts(target: DeliverabilityCounts, counts: Partial<DeliverabilityCounts>): void {
+    for (const counter of COUNTERS) target[counter] += counts[counter] ?? 0;
+}
+
+/**
+ * Fold activity groups into per-org days. Every group lands in the total
+ * and in one key of each dimension; the total's unsubscribes come from
+ * `unsubscribes` (suppression events) instead of the groups.
+ */
+export function foldDeliverabilityActivity(
+    activity: DeliverabilityActivity[],
+    unsubscribes: Array<{ orgId: string; date: string; unsubscribed: number }> = [],
+): DeliverabilityDay[] {
+    const days = new Map<string, { day: DeliverabilityDay; keys: Map<string, DeliverabilityDay['breakdowns'][number]> }>();
+    const dayOf = (orgId: string, date: string) => {
+        const id = `${orgId}:${date}`;
+        if (!days.has(id)) days.set(id, { day: { orgId, date, total: emptyCounts(), breakdowns: [] }, keys: new Map() });
+        return days.get(id)!;
+    };
+
+    for (const group of activity) {
+        const entry = dayOf(group.orgId, group.date);
+        addCounts(entry.day.total, { ...group.counts, unsubscribed: 0 });
+
+        const keys: Array<[DeliverabilityDimension, string]> = [
+            ['sending_domain', group.sendingDomain ?? 'unknown'],
+            ['source', group.source],
+            ['mailbox_provider', recipientDomainGroup(`@${group.recipientDomain}`)],
+        ];
+        for (const [dimension, key] of keys) {
+            const id = `${dimension}:${key}`;
+            if (!entry.keys.has(id)) {
+                const breakdown = { dimension, key, counts: emptyCounts() };
+                entry.keys.set(id, breakdown);
+                entry.day.breakdowns.push(breakdown);
+            }
+            addCounts(entry.keys.get(id)!.counts, group.counts);
+        }
+    }
+
+    for (const row of unsubscribes) {
+        dayOf(row.orgId, row.date).day.total.unsubscribed += row.unsubscribed;
+    }
+
+    return [...days.values()].map(({ day }) => day);
+}
+
+/**
+ * Bounce rate (bounced / sent) and complaint rate (spam / delivered)
+ * against the thresholds, at the highest severity each one reaches.
+ */
+export function checkDeliverabilityThresholds(
+    counts: Pick<DeliverabilityCounts, 'sent' | 'delivered' | 'bounced' | 'spam'>,
+    thresholds: DeliverabilityThresholds = DELIVERABILITY_THRESHOLDS,
+): DeliverabilityBreach[] {
+    if (counts.sent < thresholds.minSample) return [];
+
+    const rates: Array<[DeliverabilityBreach['metric'], number, DeliverabilityThresholds['bounceRate']]> = [
+        ['bounce_rate', counts.bounced / counts.sent, thresholds.bounceRate],
+        ['complaint_rate', counts.spam / (counts.delivered || counts.sent), thresholds.complaintRate],
+    ];
+
+    const breaches: DeliverabilityBreach[] = [];
+    for (const [metric, rate, limits] of rates) {
+        if (rate >= limits.critical) breaches.push({ metric, severity: 'critical', rate, threshold: limits.critical });
+        else if (rate >= limits.warning) breaches.push({ metric, severity: 'warning', rate, threshold: limits.warning });
+    }
+    return breaches;
+}
+
+function scopeLabel(dimension: DeliverabilityAlert['dimension'], key: string): string {
+    switch (dimension) {
+        case 'org': return 'all sending';
+        case 'sending_domain': return `sending domain ${key}`;
+        case 'source': return `${key} email`;
+        case 'mailbox_provider': return `${key} recipients`;
+    }
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Aggregation Queries
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+function utcDayOf(column: SQL | AnyPgColumn): SQL<string> {
+    return sql<string>`to_char(${column} at time zone 'UTC', 'YYYY-MM-DD')`;
+}
+
+function sourceOf(campaignId: AnyPgColumn, flowId: AnyPgColumn): SQL<string> {
+    return sql<string>`case when ${campaignId} is not null then 'campaign' when ${flowId} is not null then 'flow' else 'transactional' end`;
+}
+
+function recipientDomainOf(email: AnyPgColumn): SQL<string> {
+    const domain = sql`split_part(lower(${email}), '@', 2)`;
+    return sql<string>`case when ${domain} in (${sql.join(MAILBOX_PROVIDER_DOMAINS.map((d) => sql`${d}`), sql`, `)}) then ${domain} else 'other' end`;
+}
+
+/** Sent, delivered, bounced and complained email, by send day */
+async function queueActivity(from: Date, until: Date, defaultFrom: string, orgId?: string): Promise<DeliverabilityActivity[]> {
+    const q = schema.emailQueue;
+    const sentOn = sql`coalesce(${q.sentAt}, ${q.bouncedAt})`;
+
+    const rows = await db.select({
+        orgId: q.organizationId,
+        date: utcDayOf(sentOn),
+        sendingDomain: sql<string>`split_part(lower(coalesce(${q.fromEmail}, ${defaultFrom})), '@', 2)`,
+        source: sourceOf(q.campaignId, q.flowId),
+        recipientDomain: recipientDomainOf(q.to),
+        sent: sql<number>`count(*)::int`,
+        delivered: sql<number>`count(*) filter (where ${q.status} = 'sent' and ${q.bouncedAt} is null)::int`,
+        bounced: sql<number>`count(*) filter (where ${q.bouncedAt} is not null)::int`,
+        spam: sql<number>`count(*) filter (where ${q.complainedAt} is not null)::int`,
+    })
+        .from(q)
+        .where(and(
+            orgId ? eq(q.organizationId, orgId) : undefined,
+            or(
+                and(gte(q.sentAt, from), lt(q.sentAt, until)),
+                and(isNull(q.sentAt), isNotNull(q.bouncedAt), gte(q.bouncedAt, from), lt(q.bouncedAt, until)),
+            ),
+        ))
+        // By position: repeated expressions carry different bind parameters
+        .groupBy(sql`1, 2, 3, 4, 5`);
+
+    return rows.map(({ orgId, date, sendingDomain, source, recipientDomain, ...counts }) => ({
+        orgId, date, sendingDomain, source, recipientDomain, counts,
+    }));
+}
+
+/** Unique opened, clicked and unsubscribed messages, by event day */
+async function engagementActivity(from: Date, until: Date, defaultFrom: string, orgId?: string): Promise<DeliverabilityActivity[]> {
+    const e = schema.emailTrackingEvents;
+    const q = schema.emailQueue;
+
+    const rows = await db.select({
+        orgId: e.organizationId,
+        date: utcDayOf(e.createdAt),
+        sendingDomain: sql<string | null>`case when ${q.id} is null then null else split_part(lower(coalesce(${q.fromEmail}, ${defaultFrom})), '@', 2) end`,
+        source: sourceOf(e.campaignId, e.flowId),
+        recipientDomain: recipientDomainOf(e.recipientEmail),
+        opened: sql<number>`count(distinct ${e.messageId}) filter (where ${e.type} = 'open')::int`,
+        clicked: sql<number>`count(distinct ${e.messageId}) filter (where ${e.type} = 'click')::int`,
+        unsubscribed: sql<number>`count(distinct ${e.messageId}) filter (where ${e.type} = 'unsubscribe')::int`,
+    })
+        .from(e)
+        .leftJoin(q, and(eq(q.organizationId, e.organizationId), eq(q.messageId, e.messageId)))
+        .where(and(orgId ? eq(e.organizationId, orgId) : undefined, gte(e.createdAt, from), lt(e.createdAt, until)))
+        .groupBy(sql`1, 2, 3, 4, 5`);
+
+    return rows.map(({ orgId, date, sendingDomain, source, recipientDomain, ...counts }) => ({
+        orgId, date, sendingDomain, source, recipientDomain, counts,
+    }));
+}
+
+/** New unsubscribes from every channel (links, preference center, API) */
+async function unsubscribeActivity(from: Date, until: Date, orgId?: string): Promise<Array<{ orgId: string; date: string; unsubscribed: number }>> {
+    const s = schema.emailSuppressionEvents;
+    return db.select({
+        orgId: s.organizationId,
+        date: utcDayOf(s.createdAt),
+        unsubscribed: sql<number>`count(distinct ${s.email})::int`,
+    })
+        .from(s)
+        .where(and(
+            orgId ? eq(s.organizationId, orgId) : undefined,
+            eq(s.reason, 'unsubscribe'),
+            eq(s.action, 'added'),
+            gte(s.createdAt, from),
+            lt(s.createdAt, until),
+        ))
+        .groupBy(sql`1, 2`);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Rollup - called by the scheduler
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+async function writeDay(day: DeliverabilityDay): Promise<void> {
+    const m = schema.deliverabilityMetrics;
+    const b = schema.deliverabilityBreakdowns;
+
+    const upsertTotal = db.insert(m)
+        .values({ organizationId: day.orgId, date: day.date, ...day.total })
+        .onConflictDoUpdate({ target: [m.organizationId, m.date], set: day.total });
+    const clearBreakdowns = db.delete(b).where(and(eq(b.organizationId, day.orgId), eq(b.date, day.date)));
+
+    if (day.breakdowns.length === 0) {
+        await db.batch([upsertTotal, clearBreakdowns]);
+        return;
+    }
+    await db.batch([
+        upsertTotal,
+        clearBreakdowns,
+        db.insert(b).values(day.breakdowns.map(({ dimension, key, counts }) => ({
+            organizationId: day.orgId, date: day.date, dimension, key, ...counts,
+        }))),
+    ]);
+}
+
+/** Record the day's threshold breaches; returns how many were new */
+async function raiseAlerts(day: DeliverabilityDay): Promise<number> {
+    const scopes: Array<{ dimension: DeliverabilityAlert['dimension']; key: string; counts: DeliverabilityCounts }> = [
+        { dimension: 'org', key: '', counts: day.total },
+        ...day.breakdowns,
+    ];
+    const alerts = scopes.flatMap(({ dimension, key, counts }) =>
+        checkDeliverabilityThresholds(counts).map((breach) => ({
+            organizationId: day.orgId, date: day.date, dimension, key, ...breach, sent: counts.sent,
+        })),
+    );
+    if (alerts.length === 0) return 0;
+
+    const raised = await db.insert(schema.deliverabilityAlerts)
+        .values(alerts)
+        .onConflictDoNothing()
+        .returning();
+    if (raised.length === 0) return 0;
+
+    await db.insert(schema.activityLog).values(raised.map((alert) => {
+        const label = `${METRIC_LABELS[alert.metric]} ${(alert.rate * 100).toFixed(2)}%`;
+        console.warn(`[email-deliverability] ${alert.organizationId}: ${label} for ${scopeLabel(alert.dimension, alert.key)} on ${alert.date} (${alert.severity})`);
+        return {
+            organizationId: alert.organizationId,
+            type: 'deliverability_alert',
+            title: `${label} for ${scopeLabel(alert.dimension, alert.key)}`,
+            description: `Over the ${(alert.threshold * 100).toFixed(1)}% ${alert.severity} threshold on ${alert.date} across ${alert.sent} sends`,
+            metadata: {
+                alertId: alert.id,
+                date: alert.date,
+                dimension: alert.dimension,
+                key: alert.key,
+                metric: alert.metric,
+                severity: alert.severity,
+                rate: alert.rate,
+                threshold: alert.threshold,
+            },
+        };
+    }));
+    return raised.length;
+}
+
+/**
+ * Recompute the last `days` UTC days (today included) for every org with
+ * activity, or only `orgId`, and raise alerts for threshold breaches.
+ * Runs at most every ROLLUP_INTERVAL_MS per instance unless forced or
+ * the day changed; an org-scoped run is always forced.
+ */
+export async function rollupDeliverabilityMetrics(options: {
+    now?: Date;
+    days?: number;
+    force?: boolean;
+    orgId?: string;
+} = {}): Promise<DeliverabilityRollupSummary> {
+    const now = options.now ?? new Date();
+    const today = utcDay(now);
+    const lookback = Math.max(1, Math.floor(options.days ?? ROLLUP_LOOKBACK_DAYS));
+    const from = new Date(Date.parse(`${today}T00:00:00Z`) - (lookback - 1) * 86_400_000);
+    const until = new Date(Date.parse(`${today}T00:00:00Z`) + 86_400_000);
+    const summary: DeliverabilityRollupSummary = { skipped: false, from: utcDay(from), to: today, days: 0, alerts: 0 };
+
+    // The first run of a new day always goes through, to close out yesterday
+    if (!options.orgId) {
+        const rt = getRuntime();
+        if (!options.force && rt.lastRollupDay === today && now.getTime() - rt.lastRollupAt < ROLLUP_INTERVAL_MS) {
+            return { ...summary, skipped: true };
+        }
+        rt.lastRollupAt = now.getTime();
+        rt.lastRollupDay = today;
+    }
+
+    const defaultFrom = getTransportConfig().fromEmail;
+    const [sending, engagement, unsubscribes] = await Promise.all([
+        queueActivity(from, until, defaultFrom, options.orgId),
+        engagementActivity(from, until, defaultFrom, options.orgId),
+        unsubscribeActivity(from, until, options.orgId),
+    ]);
+
+    for (const day of foldDeliverabilityActivity([...sending, ...engagement], unsubscribes)) {
+        await writeDay(day);
+        summary.days++;
+        summary.alerts += await raiseAlerts(day);
+    }
+    return summary;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Reads
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/** Breakdown rows for a date range, optionally one dimension or key */
+export async function getDeliverabilityBreakdowns(orgId: string, options: {
+    startDate?: string;
+    endDate?: string;
+    dimension?: DeliverabilityDimension;
+    key?: string;
+} = {}): Promise<DeliverabilityBreakdown[]> {
+    const b = schema.deliverabilityBreakdowns;
+    const conditions = [eq(b.organizationId, orgId)];
+    if (options.startDate) conditions.push(gte(b.date, options.startDate));
+    if (options.endDate) conditions.push(lte(b.date, options.endDate));
+    if (options.dimension) conditions.push(eq(b.dimension, options.dimension));
+    if (options.key) conditions.push(eq(b.key, options.key));
+    return db.select().from(b).where(and(...conditions)).orderBy(b.date, b.dimension, b.key);
+}
+
+/** Most recent alerts first */
+export async function getDeliverabilityAlerts(orgId: string, options: {
+    since?: string;
+    unacknowledgedOnly?: boolean;
+    limit?: number;
+} = {}): Promise<DeliverabilityAlert[]> {
+    const a = schema.deliverabilityAlerts;
+    const conditions = [eq(a.organizationId, orgId)];
+    if (options.since) conditions.push(gte(a.date, options.since));
+    if (options.unacknowledgedOnly) conditions.push(isNull(a.acknowledgedAt));
+    return db.select().from(a)
+        .where(and(...conditions))
+        .orderBy(desc(a.date), desc(a.createdAt))
+        .limit(options.limit ?? 100);
+}
+
+/** Mark an alert as seen; false when it does not exist in the org */
+export async function acknowledgeDeliverabilityAlert(orgId: string, id: string): Promise<boolean> {
+    const a = schema.deliverabilityAlerts;
+    const updated = await db.update(a)
+        .set({ acknowledgedAt: new Date() })
+        .where(and(eq(a.organizationId, orgId), eq(a.id, id)))
+        .returning({ id: a.id });
+    return updated.length > 0;
+}
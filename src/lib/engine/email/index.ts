@@ -2,7 +2,9 @@
  * Built-in Email System - Own ESP Facade
  *
  * Production email delivery system built entirely in-house:
- *   • SMTP transport with connection pooling (nodemailer)
+ *   • SMTP transport with connection pooling (nodemailer), or an HTTP
+ *     API provider (SES, Postmark, SendGrid, Mailgun, Resend) chosen per
+ *     org / sending domain, with failover to a secondary provider
  *   • Token-bucket rate limiting (configurable per-second)
  *   • Priority queue with exponential backoff retry
  *   • Open tracking (1x1 pixel), click tracking (redirect)
@@ -10,30 +12,48 @@
  *   • Suppression list (bounces, complaints, unsubscribes)
  *   • DKIM signing support
  *   • Dead-letter queue for permanent failures
+ *   • Warm-up plans capping daily volume from new sending domains
+ *   • Daily deliverability rollup with bounce / complaint rate alerts
  *   • Full send log with delivery status
  *
  * This module is the single entry point. It:
- *   1. Initializes the SMTP transport
- *   2. Wires the queue's send handler to the transport
+ *   1. Initializes the transport providers
+ *   2. Wires the queue's send handler to the providers
  *   3. Starts the queue processing loop
  *   4. Provides sendEmail() / sendEmailBatch() as the public API
  *
- * No external ESP (Resend, Mailgun, SendGrid) is used.
- * The system owns the full email pipeline.
+ * External ESPs are only ever used as transports - queueing, tracking,
+ * suppression and throttling stay in-house.
  *
  * Environment Variables:
  *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE
+ *   EMAIL_PROVIDER, EMAIL_FALLBACK_PROVIDER (+ provider credentials, see providers.ts)
  *   EMAIL_FROM, EMAIL_FROM_NAME, EMAIL_REPLY_TO
  *   DKIM_DOMAIN, DKIM_SELECTOR, DKIM_PRIVATE_KEY
  *   EMAIL_TRACKING_SECRET, EMAIL_RATE_LIMIT
+ *   EMAIL_ORG_RATE_LIMIT, EMAIL_DOMAIN_RATE_LIMITS
  *   NEXT_PUBLIC_APP_URL
  * ═══════════════════════════════════════════════════════════════════════ */
 
-import { getTransport, getTransportConfig, checkTransportHealth, closeTransport } from './transport';
+import { randomUUID } from 'crypto';
+import { getTransportConfig, closeTransport } from './transport';
+import {
+    checkTransportHealth,
+    getDefaultProvider,
+    getConfiguredProviders,
+    getProviderStatuses,
+    resolveProviderChain,
+    sendWithFailover,
+    getOrgTransportSettings,
+    updateOrgTransportSettings,
+    isEmailProviderName,
+    EMAIL_PROVIDER_NAMES,
+    type EmailProviderName,
+    type EmailTransportSettings,
+    type ProviderSendResult,
+    type ProviderStatus,
+} from './providers';
 import { isDomainVerifiedInSes, isSesConfigured } from '@/lib/engine/ses-identity';
-import { db } from '@/lib/db';
-import * as schema from '@/lib/db/schema';
-import { eq, and, lte, asc } from 'drizzle-orm';
 import {
     enqueue,
     enqueueBatch,
@@ -48,10 +68,22 @@ import {
     getSendRecord,
     setRateLimit,
     updateQueueStatus,
+    recordProviderOutcome,
+    acquireSendSlot,
+    deferQueuedEmail,
+    deferOverWarmupCap,
+    claimDueEmails,
+    settleClaimedEmail,
+    recoverExpiredLeases,
+    getOrgSendingLimits,
+    updateOrgSendingLimits,
+    DEFAULT_DOMAIN_LIMITS,
     type QueuedEmail,
     type EmailPriority,
     type SendRecord,
     type QueueMetrics,
+    type ProviderOutcome,
+    type ProviderOutcomeMatch,
 } from './queue';
 import {
     isSuppressed,
@@ -64,9 +96,15 @@ import {
     filterSuppressed,
     getAllSuppressions,
     getSuppressionStats,
+    getSuppressionHistory,
+    getSuppressionPolicy,
+    updateSuppressionPolicy,
+    DEFAULT_SUPPRESSION_POLICY,
     type SuppressionEntry,
     type SuppressionStats,
     type SuppressionReason,
+    type SuppressionPolicy,
+    type SuppressionHistoryEntry,
 } from './suppression';
 import {
     injectTracking,
@@ -76,11 +114,54 @@ import {
     getCampaignTrackingStats,
     getMessageTrackingStats,
     getTrackingEvents,
+    countEnrollmentTrackingEvents,
+    countMessageTrackingEvents,
+    getFlowEmailEngagement,
     resolveOrgIdFromCampaign,
     TRACKING_PIXEL_GIF,
     type TrackingEvent,
     type TrackingStats,
+    type FlowTrackingContext,
+    type FlowEmailEngagement,
 } from './tracking';
+import {
+    parseEmailReport,
+    classifyBounce,
+    providerMessageIdVariants,
+    type EmailReport,
+    type DeliveryStatusReport,
+    type FeedbackReport,
+    type DsnRecipient,
+    type BounceClass,
+} from './report-parser';
+import {
+    reserveWarmupSlot,
+    msUntilNextWarmupDay,
+    startWarmupPlan,
+    completeWarmupPlan,
+    getWarmupPlans,
+    evaluateWarmupPlans,
+    planWarmupStep,
+    DEFAULT_WARMUP_SCHEDULE,
+    DEFAULT_WARMUP_PHASE_DAYS,
+    DEFAULT_WARMUP_THRESHOLDS,
+    type WarmupPlanStatus,
+    type WarmupEvaluationSummary,
+} from './warmup';
+import {
+    rollupDeliverabilityMetrics,
+    getDeliverabilityBreakdowns,
+    getDeliverabilityAlerts,
+    acknowledgeDeliverabilityAlert,
+    checkDeliverabilityThresholds,
+    DELIVERABILITY_THRESHOLDS,
+    ROLLUP_LOOKBACK_DAYS,
+    type DeliverabilityAlert,
+    type DeliverabilityBreakdown,
+    type DeliverabilityCounts,
+    type DeliverabilityDimension,
+    type DeliverabilityRollupSummary,
+} from './deliverability';
 
 /* ── Public Types ────────────────────────────────────────────────────── */
 
@@ -93,6 +174,8 @@ export interface EmailPayload {
     fromEmail?: string;
     replyTo?: string;
     campaignId?: string;
+    /** Flow step that sent this email (attributes opens/clicks to it) */
+    flow?: FlowTrackingContext;
     userId?: string;
     orgId?: string;
     priority?: EmailPriority;
@@ -104,16 +187,22 @@ export interface EmailPayload {
 
 export interface EmailResult {
     success: boolean;
-    provider: 'smtp' | 'log';
+    provider: EmailProviderName;
     queueId: string;
     messageId?: string;
     error?: string;
     suppressed?: boolean;
+    /** Throttled or over the warm-up cap: left in the queue for the retry processor to send */
+    deferred?: boolean;
+    /** Over the warm-up cap: not sent before this time */
+    deferredUntil?: string;
 }
 
 export interface EmailSystemStatus {
-    provider: 'smtp' | 'log';
+    provider: EmailProviderName;
     transport: { connected: boolean; lastCheckAt: string; error?: string };
+    /** Every configured provider and its health */
+    providers: ProviderStatus[];
     queue: QueueMetrics;
     suppression: SuppressionStats;
     config: {
@@ -144,7 +233,7 @@ function markInitialized(): void {
 
 /**
  * Initialize the email system. Safe to call multiple times (idempotent).
- * Wires the SMTP transport into the queue and starts processing.
+ * Wires the transport providers into the queue and starts processing.
  *
  * NOTE: On Vercel serverless, the setInterval tick loop will only live
  * for the duration of a single request. The primary delivery path is
@@ -154,69 +243,24 @@ function markInitialized(): void {
 export function initEmailSystem(): void {
     if (isInitialized()) return;
 
-    const transport = getTransport();
-    const config = getTransportConfig();
-
     // Wire the queue send handler (used by tick-based retry processing)
-    if (transport) {
-        setSendHandler(async (email: QueuedEmail) => {
-            const fromLine = email.fromName
-                ? `${email.fromName} <${email.fromEmail ?? config.fromEmail}>`
-                : `${config.fromName} <${email.fromEmail ?? config.fromEmail}>`;
-
-            try {
-                const info = await transport.sendMail({
-                    from: fromLine,
-                    to: email.to,
-                    subject: email.subject,
-                    html: email.html,
-                    text: email.text,
-                    replyTo: email.replyTo ?? process.env.EMAIL_REPLY_TO,
-                    headers: email.headers,
-                });
-
-                return {
-                    success: true,
-                    messageId: info.messageId,
-                };
-            } catch (err) {
-                const message = (err as Error).message;
-
-                // Classify SMTP errors for bounce handling
-                if (
-                    message.includes('550') ||
-                    message.includes('551') ||
-                    message.includes('552') ||
-                    message.includes('553') ||
-                    message.includes('554')
-                ) {
-                    await recordBounce(email.to, 'hard', message, 'smtp_response', email.orgId);
-                } else if (
-                    message.includes('421') ||
-                    message.includes('450') ||
-                    message.includes('451') ||
-                    message.includes('452')
-                ) {
-                    await recordBounce(email.to, 'soft', message, 'smtp_response', email.orgId);
-                }
-
-                return { success: false, error: message };
-            }
-        });
-
-        console.log(
-            `[email-system] SMTP mode → ${config.host}:${config.port} (DKIM: ${!!config.dkim})`,
-        );
+    setSendHandler((email: QueuedEmail) => sendInline({
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        fromName: email.fromName,
+        fromEmail: email.fromEmail,
+        replyTo: email.replyTo,
+        headers: email.headers,
+        orgId: email.orgId,
+    }));
+
+    const providers = getConfiguredProviders();
+    if (providers.length > 0) {
+        console.log(`[email-system] Providers: ${providers.join(', ')} (default: ${getDefaultProvider()})`);
     } else {
-        setSendHandler(async (email: QueuedEmail) => {
-            console.error(
-                `[email-system] SMTP_HOST is not configured. Email to ${email.to} (subject: "${email.subject}") was NOT delivered. ` +
-                `Set SMTP_HOST, SMTP_PORT, SMTP_USER, and SMTP_PASS environment variables to enable email delivery.`,
-            );
-            return { success: false, error: 'SMTP not configured - email delivery is disabled. Set SMTP_HOST to enable.' };
-        });
-
-        console.warn('[email-system] WARNING: SMTP_HOST is not configured. All emails will FAIL until SMTP credentials are provided.');
+        console.warn('[email-system] WARNING: No email provider is configured. All emails will FAIL until SMTP or API credentials are provided.');
     }
 
     // Start queue processing (handles retries for items that failed inline send)
@@ -227,17 +271,17 @@ export function initEmailSystem(): void {
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
- * Inline SMTP Send - delivers immediately within the request lifecycle
+ * Inline Send - delivers immediately within the request lifecycle
  *
  * On Vercel (serverless), the background tick loop dies when the
  * function terminates. Emails MUST be sent inline within the request,
  * not deferred to setInterval. The queue DB record is created for
- * tracking, and actual SMTP delivery happens here synchronously.
+ * tracking, and actual delivery happens here synchronously.
  * ═══════════════════════════════════════════════════════════════════════ */
 
 /**
- * Send a single email via SMTP immediately (not deferred).
- * Returns the SMTP result directly.
+ * Send a single email through the org's provider chain immediately (not
+ * deferred). Recipient rejections are recorded as bounces.
  */
 async function sendInline(params: {
     to: string;
@@ -249,53 +293,26 @@ async function sendInline(params: {
     replyTo?: string;
     headers?: Record<string, string>;
     orgId?: string;
-}): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    const transport = getTransport();
+}): Promise<ProviderSendResult> {
     const config = getTransportConfig();
-
-    if (!transport) {
-        console.error(
-            `[email-system] SMTP_HOST not configured. Email to ${params.to} was NOT delivered.`,
-        );
-        return { success: false, error: 'SMTP not configured - set SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS.' };
-    }
-
-    const fromLine = params.fromName
-        ? `${params.fromName} <${params.fromEmail ?? config.fromEmail}>`
-        : `${config.fromName} <${params.fromEmail ?? config.fromEmail}>`;
-
-    // When using SES SMTP with custom MAIL FROM, set Return-Path envelope from
-    // the bounce subdomain for SPF alignment under DMARC.
-    const sendingDomain = (params.fromEmail ?? config.fromEmail).split('@')[1] ?? '';
-    const envelopeFrom = config.isSesSmtp && sendingDomain
-        ? `bounce@${sendingDomain}`
-        : undefined;
-
-    try {
-        const info = await transport.sendMail({
-            from: fromLine,
-            to: params.to,
-            subject: params.subject,
-            html: params.html,
-            text: params.text,
-            replyTo: params.replyTo ?? process.env.EMAIL_REPLY_TO,
-            headers: params.headers,
-            ...(envelopeFrom ? { envelope: { from: envelopeFrom, to: params.to } } : {}),
-        });
-
-        return { success: true, messageId: info.messageId };
-    } catch (err) {
-        const message = (err as Error).message;
-
-        // Classify SMTP errors for bounce handling
-        if (/^5[5-9]\d|^5[0-4]\d/.test(message) || /\b55[0-4]\b/.test(message)) {
-            await recordBounce(params.to, 'hard', message, 'smtp_response', params.orgId);
-        } else if (/\b4[25][0-2]\b|\b421\b/.test(message)) {
-            await recordBounce(params.to, 'soft', message, 'smtp_response', params.orgId);
-        }
-
-        return { success: false, error: message };
+    const fromEmail = params.fromEmail ?? config.fromEmail;
+    const chain = await resolveProviderChain(params.orgId, fromEmail.split('@')[1] ?? '');
+
+    const result = await sendWithFailover({
+        to: params.to,
+        fromEmail,
+        fromName: params.fromName ?? config.fromName,
+        subject: params.subject,
+        html: params.html,
+        text: params.text,
+        replyTo: params.replyTo ?? process.env.EMAIL_REPLY_TO,
+        headers: params.headers,
+    }, chain);
+
+    if (result.bounce) {
+        await recordBounce(params.to, result.bounce, result.error, `${result.provider}_response`, params.orgId);
     }
+    return result;
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -309,7 +326,10 @@ async function sendInline(params: {
  *   1. Checks suppression list
  *   2. Injects tracking (open pixel, click wrapping, unsubscribe)
  *   3. Records the email in the queue DB (for audit/metrics)
- *   4. Sends IMMEDIATELY via SMTP inline (not deferred to background)
+ *   4. Sends IMMEDIATELY inline through the org's provider chain (not deferred to background),
+ *      unless the org, recipient domain or priority lane is throttled,
+ *      or the sending domain is over its warm-up cap for the day -
+ *      then the record stays queued and the result is `deferred`
  *   5. Updates the queue record with the delivery result
  *
  * On Vercel serverless, the function is killed after the response.
@@ -321,7 +341,7 @@ export async function sendEmail(payload: EmailPayload): Promise<EmailResult> {
     // Auto-initialize on first use
     initEmailSystem();
 
-    const provider = getTransport() ? 'smtp' : 'log' as const;
+    const provider = getActiveProvider();
 
     // 1. Check suppression
     if (await isSuppressed(payload.to, payload.orgId)) {
@@ -350,11 +370,11 @@ export async function sendEmail(payload: EmailPayload): Promise<EmailResult> {
 
     try {
         if (trackOpens || trackClicks) {
-            html = injectTracking(html, messageId, payload.to, payload.campaignId);
+            html = injectTracking(html, messageId, payload.to, payload.campaignId, payload.flow);
         }
 
         // Build headers (RFC 8058 unsubscribe)
-        unsubHeaders = getUnsubscribeHeaders(messageId, payload.to, payload.campaignId);
+        unsubHeaders = getUnsubscribeHeaders(messageId, payload.to, payload.campaignId, payload.flow);
     } catch (trackingErr) {
         // Tracking must never block email delivery - send without tracking
         console.warn(
@@ -363,7 +383,8 @@ export async function sendEmail(payload: EmailPayload): Promise<EmailResult> {
         );
     }
 
-    // 4. Record in queue DB for audit trail
+    // 4. Record in queue DB for audit trail, claimed so no queue worker picks it up meanwhile
+    const claimToken = randomUUID();
     const queueId = await enqueue({
         to: payload.to,
         subject: payload.subject,
@@ -375,10 +396,13 @@ export async function sendEmail(payload: EmailPayload): Promise<EmailResult> {
         campaignId: payload.campaignId,
         userId: payload.userId,
         orgId: payload.orgId,
+        flow: payload.flow,
         priority: payload.priority ?? 'normal',
         maxAttempts: payload.maxAttempts ?? 3,
         headers: unsubHeaders,
         tags: payload.tags,
+        messageId,
+        claimToken,
     });
 
     // 5. Pre-send SES domain verification check (non-blocking - warns but allows send)
@@ -393,8 +417,21 @@ export async function sendEmail(payload: EmailPayload): Promise<EmailResult> {
         }
     }
 
-    // 6. Send IMMEDIATELY via SMTP (inline, not deferred)
-    const smtpResult = await sendInline({
+    // 6. Throttled sends wait in the queue for the retry processor
+    if (!(await acquireSendSlot(payload.orgId!, payload.to, payload.priority ?? 'normal'))) {
+        await deferQueuedEmail(queueId, claimToken);
+        return { success: true, provider, queueId, deferred: true };
+    }
+
+    // 7. Warming-up sending domains have a daily cap; over it, wait for tomorrow
+    if (!(await reserveWarmupSlot(payload.orgId!, fromDomain, payload.priority ?? 'normal'))) {
+        const delayMs = msUntilNextWarmupDay();
+        await deferQueuedEmail(queueId, claimToken, delayMs);
+        return { success: true, provider, queueId, deferred: true, deferredUntil: new Date(Date.now() + delayMs).toISOString() };
+    }
+
+    // 8. Send IMMEDIATELY through the provider chain (inline, not deferred)
+    const sendResult = await sendInline({
         to: payload.to,
         subject: payload.subject,
         html,
@@ -406,26 +443,26 @@ export async function sendEmail(payload: EmailPayload): Promise<EmailResult> {
         orgId: payload.orgId,
     });
 
-    // 7. Update queue record with delivery result
+    // 9. Update queue record with delivery result
     try {
-        await updateQueueStatus(queueId, smtpResult);
+        await updateQueueStatus(queueId, claimToken, sendResult, payload.maxAttempts ?? 3);
     } catch (dbErr) {
         console.error('[email-system] Failed to update queue status:', dbErr);
     }
 
-    if (smtpResult.success) {
+    if (sendResult.success) {
         return {
             success: true,
-            provider,
+            provider: sendResult.provider,
             queueId,
-            messageId: smtpResult.messageId ?? messageId,
+            messageId: sendResult.messageId ?? messageId,
         };
     } else {
         return {
             success: false,
-            provider,
+            provider: sendResult.provider,
             queueId,
-            error: smtpResult.error,
+            error: sendResult.error,
         };
     }
 }
@@ -441,10 +478,11 @@ export async function sendEmailBatch(
 }
 
 /**
- * Get the active provider type.
+ * Get the platform's primary provider. An org's sends may use another,
+ * see resolveProviderChain().
  */
-export function getActiveProvider(): 'smtp' | 'log' {
-    return getTransport() ? 'smtp' : 'log';
+export function getActiveProvider(): EmailProviderName {
+    return getDefaultProvider();
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -456,13 +494,16 @@ export function getActiveProvider(): 'smtp' | 'log' {
  */
 export async function getEmailSystemStatus(orgId?: string): Promise<EmailSystemStatus> {
     const config = getTransportConfig();
-    const health = await checkTransportHealth();
+    const provider = getActiveProvider();
+    const health = await checkTransportHealth(provider, 0);
+    const providers = await getProviderStatuses();
     const queue = await getQueueMetrics(orgId);
     const suppression = await getSuppressionStats(orgId);
 
     return {
-        provider: getTransport() ? 'smtp' : 'log',
+        provider,
         transport: health,
+        providers,
         queue,
         suppression,
         config: {
@@ -489,33 +530,31 @@ export function shutdownEmailSystem(): void {
 /* ═══════════════════════════════════════════════════════════════════════
  * Retry Queue Processor - called by cron scheduler
  *
- * Processes emails that failed their initial inline send attempt.
- * These remain in the queue DB with status 'queued' and attempts >= 1.
- * The cron runs every minute to pick up and retry them via SMTP.
+ * Processes emails that failed their initial inline send attempt, or
+ * were deferred by a throttle. These remain in the queue DB with status
+ * 'queued'. The cron runs every minute to pick up and retry them through
+ * the org's provider chain.
  * ═══════════════════════════════════════════════════════════════════════ */
 
-export async function processRetryQueue(): Promise<{ processed: number; sent: number; failed: number }> {
+export async function processRetryQueue(): Promise<{ processed: number; sent: number; failed: number; deferred: number }> {
     initEmailSystem();
 
-    const now = new Date();
     const BATCH_LIMIT = 50;
 
-    // Fetch queued items whose next retry time has elapsed
-    const rows = await db.select().from(schema.emailQueue)
-        .where(
-            and(
-                eq(schema.emailQueue.status, 'queued'),
-                lte(schema.emailQueue.nextAttemptAt, now),
-            ),
-        )
-        .orderBy(asc(schema.emailQueue.nextAttemptAt))
-        .limit(BATCH_LIMIT);
+    // Stuck sends first, then claim queued items whose next retry time has
+    // elapsed (fairly across orgs and within throttles)
+    await recoverExpiredLeases(true);
+    const rows = await claimDueEmails(BATCH_LIMIT);
 
     let sent = 0;
     let failed = 0;
+    let deferred = 0;
 
     for (const row of rows) {
-        const newAttempts = row.attempts + 1;
+        if (await deferOverWarmupCap(row)) {
+            deferred++;
+            continue;
+        }
 
         const result = await sendInline({
             to: row.to,
@@ -529,47 +568,16 @@ export async function processRetryQueue(): Promise<{ processed: number; sent: nu
             orgId: row.organizationId,
         });
 
-        if (result.success) {
-            await db.update(schema.emailQueue)
-                .set({
-                    status: 'sent',
-                    attempts: newAttempts,
-                    sentAt: new Date(),
-                    providerMessageId: result.messageId ?? null,
-                    lastError: null,
-                })
-                .where(eq(schema.emailQueue.id, row.id));
-            sent++;
-        } else if (newAttempts >= row.maxAttempts) {
-            // Exhausted retries → DLQ
-            await db.update(schema.emailQueue)
-                .set({
-                    status: 'dlq',
-                    attempts: newAttempts,
-                    lastError: `Exhausted ${row.maxAttempts} attempts: ${result.error}`,
-                })
-                .where(eq(schema.emailQueue.id, row.id));
-            failed++;
-        } else {
-            // Schedule next retry with exponential backoff
-            const delay = Math.min(60_000, 1000 * Math.pow(2, newAttempts - 1) + Math.random() * 1000);
-            await db.update(schema.emailQueue)
-                .set({
-                    status: 'queued',
-                    attempts: newAttempts,
-                    nextAttemptAt: new Date(Date.now() + delay),
-                    lastError: `Retry ${newAttempts}/${row.maxAttempts}: ${result.error}`,
-                })
-                .where(eq(schema.emailQueue.id, row.id));
-            failed++;
-        }
+        const outcome = await settleClaimedEmail(row, result);
+        if (outcome === 'sent') sent++;
+        else failed++;
     }
 
     if (rows.length > 0) {
-        console.log(`[email-system] Retry queue: ${rows.length} processed, ${sent} sent, ${failed} failed`);
+        console.log(`[email-system] Retry queue: ${rows.length} processed, ${sent} sent, ${failed} failed, ${deferred} deferred to tomorrow`);
     }
 
-    return { processed: rows.length, sent, failed };
+    return { processed: rows.length, sent, failed, deferred };
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -585,8 +593,55 @@ export {
     retryDLQEntry,
     removeQueueDLQEntry as removeDLQEntry,
     getQueueDLQ as getEmailDLQ,
+    recordProviderOutcome,
+    getOrgSendingLimits,
+    updateOrgSendingLimits,
+    DEFAULT_DOMAIN_LIMITS,
+};
+export type { QueueMetrics, SendRecord, EmailPriority, ProviderOutcome, ProviderOutcomeMatch };
+
+// Transport providers
+export {
+    checkTransportHealth,
+    getConfiguredProviders,
+    getOrgTransportSettings,
+    updateOrgTransportSettings,
+    resolveProviderChain,
+    isEmailProviderName,
+    EMAIL_PROVIDER_NAMES,
+};
+export type { EmailProviderName, EmailTransportSettings, ProviderSendResult, ProviderStatus };
+
+// Warm-up
+export {
+    startWarmupPlan,
+    completeWarmupPlan,
+    getWarmupPlans,
+    evaluateWarmupPlans,
+    planWarmupStep,
+    DEFAULT_WARMUP_SCHEDULE,
+    DEFAULT_WARMUP_PHASE_DAYS,
+    DEFAULT_WARMUP_THRESHOLDS,
+};
+export type { WarmupPlanStatus, WarmupEvaluationSummary };
+
+// Deliverability
+export {
+    rollupDeliverabilityMetrics,
+    getDeliverabilityBreakdowns,
+    getDeliverabilityAlerts,
+    acknowledgeDeliverabilityAlert,
+    checkDeliverabilityThresholds,
+    DELIVERABILITY_THRESHOLDS,
+    ROLLUP_LOOKBACK_DAYS,
+};
+export type {
+    DeliverabilityAlert,
+    DeliverabilityBreakdown,
+    DeliverabilityCounts,
+    DeliverabilityDimension,
+    DeliverabilityRollupSummary,
 };
-export type { QueueMetrics, SendRecord, EmailPriority };
 
 // Suppression
 export {
@@ -600,8 +655,12 @@ export {
     filterSuppressed,
     getAllSuppressions,
     getSuppressionStats,
+    getSuppressionHistory,
+    getSuppressionPolicy,
+    updateSuppressionPolicy,
+    DEFAULT_SUPPRESSION_POLICY,
 };
-export type { SuppressionEntry, SuppressionStats, SuppressionReason };
+export type { SuppressionEntry, SuppressionStats, SuppressionReason, SuppressionPolicy, SuppressionHistoryEntry };
 
 // Tracking
 export {
@@ -610,7 +669,14 @@ export {
     getCampaignTrackingStats,
     getMessageTrackingStats,
     getTrackingEvents,
+    countEnrollmentTrackingEvents,
+    countMessageTrackingEvents,
+    getFlowEmailEngagement,
     resolveOrgIdFromCampaign,
     TRACKING_PIXEL_GIF,
 };
-export type { TrackingEvent, TrackingStats };
+export type { TrackingEvent, TrackingStats, FlowTrackingContext, FlowEmailEngagement };
+
+// Bounce & complaint reports
+export { parseEmailReport, classifyBounce, providerMessageIdVariants };
+export type { EmailReport, DeliveryStatusReport, FeedbackReport, DsnRecipient, BounceClass };
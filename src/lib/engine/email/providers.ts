@@ -0,0 +1,622 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Providers - Pluggable Transports, Selection & Failover
+ *
+ * Every way we can hand an email to the outside world implements the
+ * EmailProvider interface:
+ *   smtp       Nodemailer SMTP pool (transport.ts)
+ *   ses        Amazon SES v2 SendEmail API
+ *   postmark   Postmark /email API
+ *   sendgrid   SendGrid v3 mail/send API
+ *   mailgun    Mailgun messages API
+ *   resend     Resend /emails API
+ *   log        nothing configured - every send fails (and is retried)
+ *
+ * Each provider classifies its own failures:
+ *   retryable    false when resending cannot help (invalid recipient,
+ *                rejected content) - the email goes straight to the DLQ
+ *   bounce       recipient-level rejection to record as a hard / soft bounce
+ *   unavailable  the provider itself is failing (auth, account, outage)
+ *
+ * Selection: an org may pick a primary and secondary provider, overall
+ * or per sending (From) domain, in organizations.email_settings.transport.
+ * The org's choice comes first, then the platform's EMAIL_PROVIDER and
+ * EMAIL_FALLBACK_PROVIDER; unconfigured providers are skipped.
+ *
+ * Failover: before a send, the provider's cached checkTransportHealth()
+ * result is consulted; an unhealthy provider is passed over for the next
+ * in the chain, as is one whose send reports it unavailable. The last
+ * provider in the chain is always attempted.
+ *
+ * Environment Variables:
+ *   EMAIL_PROVIDER           - Platform primary (default: smtp when SMTP_HOST is set)
+ *   EMAIL_FALLBACK_PROVIDER  - Platform secondary
+ *   AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SES_REGION (ses)
+ *   POSTMARK_SERVER_TOKEN, POSTMARK_MESSAGE_STREAM (default: outbound)
+ *   SENDGRID_API_KEY
+ *   MAILGUN_API_KEY, MAILGUN_DOMAIN (default: the From domain),
+ *   MAILGUN_API_BASE (default: https://api.mailgun.net; EU: https://api.eu.mailgun.net)
+ *   RESEND_API_KEY
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { GetAccountCommand, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import * as schema from '@/lib/db/schema';
+import type { EmailProviderName, EmailTransportSettings } from '@/lib/db/schema';
+import { getSesClient, getSesConfigurationSet, isSesConfigured } from '@/lib/engine/ses-identity';
+import { getTransport, getTransportConfig, checkSmtpHealth, type TransportHealth } from './transport';
+import { classifyBounce } from './report-parser';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export type { EmailProviderName, EmailTransportSettings };
+
+export interface OutboundEmail {
+    to: string;
+    fromEmail: string;
+    fromName: string;
+    subject: string;
+    html: string;
+    text?: string;
+    replyTo?: string;
+    headers?: Record<string, string>;
+}
+
+/** How a failed send should be handled */
+export interface ProviderFailure {
+    /** False when resending cannot help; the email is dead-lettered */
+    retryable: boolean;
+    /** Recipient-level rejection to record on the suppression list */
+    bounce?: 'hard' | 'soft';
+    /** The provider itself is failing (auth, account, outage) - fail over */
+    unavailable?: boolean;
+}
+
+export interface ProviderSendResult extends Partial<ProviderFailure> {
+    success: boolean;
+    provider: EmailProviderName;
+    messageId?: string;
+    error?: string;
+}
+
+export interface EmailProvider {
+    name: EmailProviderName;
+    isConfigured(): boolean;
+    send(email: OutboundEmail): Promise<ProviderSendResult>;
+    checkHealth(): Promise<TransportHealth>;
+}
+
+export interface ProviderStatus {
+    name: EmailProviderName;
+    health: TransportHealth;
+}
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+export const EMAIL_PROVIDER_NAMES: EmailProviderName[] = ['smtp', 'ses', 'postmark', 'sendgrid', 'mailgun', 'resend', 'log'];
+
+/** How long a health check result is trusted for failover decisions */
+const HEALTH_TTL_MS = 30_000;
+/** How long org transport settings are cached */
+const ORG_TRANSPORT_TTL_MS = 60_000;
+const HTTP_TIMEOUT_MS = 15_000;
+
+/* ── Runtime State ──────────────────────────────────────────────────── */
+
+const runtimeKey = '__lifecycleos_email_providers_runtime__';
+
+interface RuntimeState {
+    health: Map<EmailProviderName, { health: TransportHealth; checkedAt: number }>;
+    orgTransport: Map<string, { settings: EmailTransportSettings; fetchedAt: number }>;
+}
+
+function getRuntime(): RuntimeState {
+    const g = globalThis as unknown as Record<string, RuntimeState>;
+    if (!g[runtimeKey]) {
+        g[runtimeKey] = { health: new Map(), orgTransport: new Map() };
+    }
+    return g[runtimeKey];
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Error Classification
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+const SMTP_CONNECTION_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'EAUTH', 'ETLS']);
+/** Replies about our session rather than the recipient */
+const SMTP_AUTH_REPLIES = new Set([454, 530, 534, 535]);
+
+/**
+ * Classify a Nodemailer SMTP error from its error code and reply:
+ * connection / auth failures mark the transport unavailable, 5xx replies
+ * are permanent (hard bounce unless they are policy blocks, see
+ * classifyBounce), and 4xx replies are retried.
+ */
+export function classifySmtpError(err: { message: string; code?: string; responseCode?: number }): ProviderFailure {
+    if (err.code && SMTP_CONNECTION_CODES.has(err.code)) return { retryable: true, unavailable: true };
+
+    const reply = err.responseCode ?? Number(err.message.match(/\b([45]\d\d)\b/)?.[1]);
+    if (!reply) return { retryable: true };
+    if (SMTP_AUTH_REPLIES.has(reply)) return { retryable: true, unavailable: true };
+
+    if (reply >= 500) {
+        const bounce = classifyBounce(undefined, err.message);
+        if (bounce === 'hard') return { retryable: false, bounce: 'hard' };
+        if (bounce === 'soft') return { retryable: true, bounce: 'soft' };
+        return { retryable: false };
+    }
+    return reply >= 450 && reply <= 452 ? { retryable: true, bounce: 'soft' } : { retryable: true };
+}
+
+const SES_PERMANENT_ERRORS = new Set(['MessageRejected', 'MailFromDomainNotVerifiedException', 'BadRequestException']);
+const SES_UNAVAILABLE_ERRORS = new Set(['AccountSuspendedException', 'SendingPausedException', 'NotFoundException', 'CredentialsProviderError']);
+
+/** Classify an SES v2 API error by its exception name. */
+export function classifySesError(err: { name?: string; $metadata?: { httpStatusCode?: number } }): ProviderFailure {
+    if (err.name && SES_PERMANENT_ERRORS.has(err.name)) return { retryable: false };
+    if (err.name && SES_UNAVAILABLE_ERRORS.has(err.name)) return { retryable: true, unavailable: true };
+    const status = err.$metadata?.httpStatusCode;
+    if (!status || status >= 500) return { retryable: true, unavailable: true };
+    return { retryable: true };
+}
+
+/**
+ * Classify a failed HTTP API send. Common to all providers: 429 is
+ * retried, 5xx and rejected credentials (401 / 403) fail over, and any
+ * other 4xx is a permanent rejection of the message. Provider error
+ * bodies refine this.
+ */
+export function classifyHttpFailure(provider: EmailProviderName, status: number, body: Record<string, unknown>): ProviderFailure {
+    switch (provider) {
+        case 'postmark': {
+            const code = Number(body.ErrorCode);
+            // 406: inactive recipient (bounced or complained at Postmark)
+            if (code === 406) return { retryable: false, bounce: 'hard' };
+            // 10: bad server token; 405 / 412: account not allowed to send
+            if (code === 10 || code === 405 || code === 412) return { retryable: true, unavailable: true };
+            break;
+        }
+        case 'mailgun':
+            // 402: account over its plan limits
+            if (status === 402) return { retryable: true, unavailable: true };
+            break;
+        case 'resend':
+            if (status === 429 && body.name === 'daily_quota_exceeded') return { retryable: true, unavailable: true };
+            break;
+    }
+
+    if (status === 429) return { retryable: true };
+    if (status >= 500 || status === 401 || status === 403) return { retryable: true, unavailable: true };
+    return { retryable: false };
+}
+
+function httpErrorMessage(body: Record<string, unknown>): string {
+    const errors = body.errors as Array<{ message?: string }> | undefined;
+    return String(body.Message ?? body.message ?? errors?.[0]?.message ?? 'Request failed');
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Providers
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+function formatFrom(email: OutboundEmail): string {
+    return `${email.fromName} <${email.fromEmail}>`;
+}
+
+function fromDomain(email: OutboundEmail): string {
+    return email.fromEmail.split('@')[1] ?? '';
+}
+
+async function httpSend(
+    provider: EmailProviderName,
+    url: string,
+    init: RequestInit,
+    messageId: (res: Response, body: Record<string, unknown>) => string | undefined,
+): Promise<ProviderSendResult> {
+    let res: Response;
+    try {
+        res = await fetch(url, { ...init, method: 'POST', signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+    } catch (err) {
+        return { success: false, provider, error: `${provider}: ${(err as Error).message}`, retryable: true, unavailable: true };
+    }
+
+    const body = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+    if (res.ok) return { success: true, provider, messageId: messageId(res, body) };
+    return {
+        success: false,
+        provider,
+        error: `${provider} ${res.status}: ${httpErrorMessage(body)}`,
+        ...classifyHttpFailure(provider, res.status, body),
+    };
+}
+
+async function httpHealth(
+    url: string,
+    headers: Record<string, string>,
+    healthy: (res: Response, body: Record<string, unknown>) => boolean = (res) => res.ok,
+): Promise<TransportHealth> {
+    const lastCheckAt = new Date().toISOString();
+    try {
+        const res = await fetch(url, { headers, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+        const body = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+        return healthy(res, body)
+            ? { connected: true, lastCheckAt }
+            : { connected: false, lastCheckAt, error: `HTTP ${res.status}: ${httpErrorMessage(body)}` };
+    } catch (err) {
+        return { connected: false, lastCheckAt, error: (err as Error).message };
+    }
+}
+
+/* ── SMTP ───────────────────────────────────────────────────────────── */
+
+const smtpProvider: EmailProvider = {
+    name: 'smtp',
+    isConfigured: () => !!getTransportConfig().host,
+    async send(email) {
+        const transport = getTransport();
+        if (!transport) {
+            return { success: false, provider: 'smtp', error: 'SMTP not configured - set SMTP_HOST', retryable: true, unavailable: true };
+        }
+
+        // When using SES SMTP with custom MAIL FROM, set Return-Path envelope from
+        // the bounce subdomain for SPF alignment under DMARC.
+        const domain = fromDomain(email);
+        const envelopeFrom = getTransportConfig().isSesSmtp && domain ? `bounce@${domain}` : undefined;
+
+        try {
+            const info = await transport.sendMail({
+                from: formatFrom(email),
+                to: email.to,
+                subject: email.subject,
+                html: email.html,
+                text: email.text,
+                replyTo: email.replyTo,
+                headers: email.headers,
+                ...(envelopeFrom ? { envelope: { from: envelopeFrom, to: email.to } } : {}),
+            });
+            return { success: true, provider: 'smtp', messageId: info.messageId };
+        } catch (err) {
+            const error = err as Error & { code?: string; responseCode?: number };
+            return { success: false, provider: 'smtp', error: error.message, ...classifySmtpError(error) };
+        }
+    },
+    checkHealth: checkSmtpHealth,
+};
+
+/* ── Amazon SES (API) ───────────────────────────────────────────────── */
+
+const sesProvider: EmailProvider = {
+    name: 'ses',
+    isConfigured: isSesConfigured,
+    async send(email) {
+        const client = getSesClient();
+        if (!client) {
+            return { success: false, provider: 'ses', error: 'SES not configured - set AWS credentials', retryable: true, unavailable: true };
+        }
+
+        try {
+            const out = await client.send(new SendEmailCommand({
+                FromEmailAddress: formatFrom(email),
+                Destination: { ToAddresses: [email.to] },
+                ...(email.replyTo ? { ReplyToAddresses: [email.replyTo] } : {}),
+                ConfigurationSetName: getSesConfigurationSet(),
+                Content: {
+                    Simple: {
+                        Subject: { Data: email.subject, Charset: 'UTF-8' },
+                        Body: {
+                            Html: { Data: email.html, Charset: 'UTF-8' },
+                            ...(email.text ? { Text: { Data: email.text, Charset: 'UTF-8' } } : {}),
+                        },
+                        Headers: Object.entries(email.headers ?? {}).map(([Name, Value]) => ({ Name, Value })),
+                    },
+                },
+            }));
+            return { success: true, provider: 'ses', messageId: out.MessageId };
+        } catch (err) {
+            const error = err as Error & { $metadata?: { httpStatusCode?: number } };
+            return { success: false, provider: 'ses', error: `ses: ${error.name}: ${error.message}`, ...classifySesError(error) };
+        }
+    },
+    async checkHealth() {
+        const lastCheckAt = new Date().toISOString();
+        const client = getSesClient();
+        if (!client) return { connected: false, lastCheckAt, error: 'SES not configured (AWS credentials not set)' };
+        try {
+            const account = await client.send(new GetAccountCommand({}));
+            return account.SendingEnabled === false
+                ? { connected: false, lastCheckAt, error: `SES sending is paused (${account.EnforcementStatus ?? 'unknown'})` }
+                : { connected: true, lastCheckAt };
+        } catch (err) {
+            return { connected: false, lastCheckAt, error: (err as Error).message };
+        }
+    },
+};
+
+/* ── Postmark ───────────────────────────────────────────────────────── */
+
+function postmarkHeaders(): Record<string, string> {
+    return {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        'X-Postmark-Server-Token': process.env.POSTMARK_SERVER_TOKEN ?? '',
+    };
+}
+
+const postmarkProvider: EmailProvider = {
+    name: 'postmark',
+    isConfigured: () => !!process.env.POSTMARK_SERVER_TOKEN,
+    send: (email) => httpSend('postmark', 'https://api.postmarkapp.com/email', {
+        headers: postmarkHeaders(),
+        body: JSON.stringify({
+            From: formatFrom(email),
+            To: email.to,
+            Subject: email.subject,
+            HtmlBody: email.html,
+            TextBody: email.text,
+            ReplyTo: email.replyTo,
+            Headers: Object.entries(email.headers ?? {}).map(([Name, Value]) => ({ Name, Value })),
+            MessageStream: process.env.POSTMARK_MESSAGE_STREAM ?? 'outbound',
+            // Opens and clicks are tracked by us
+            TrackOpens: false,
+            TrackLinks: 'None',
+        }),
+    }, (_res, body) => body.MessageID as string | undefined),
+    checkHealth: () => httpHealth('https://api.postmarkapp.com/server', postmarkHeaders()),
+};
+
+/* ── SendGrid ───────────────────────────────────────────────────────── */
+
+function sendgridHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${process.env.SENDGRID_API_KEY ?? ''}`, 'Content-Type': 'application/json' };
+}
+
+const sendgridProvider: EmailProvider = {
+    name: 'sendgrid',
+    isConfigured: () => !!process.env.SENDGRID_API_KEY,
+    send: (email) => httpSend('sendgrid', 'https://api.sendgrid.com/v3/mail/send', {
+        headers: sendgridHeaders(),
+        body: JSON.stringify({
+            personalizations: [{ to: [{ email: email.to }] }],
+            from: { email: email.fromEmail, name: email.fromName },
+            ...(email.replyTo ? { reply_to: { email: email.replyTo } } : {}),
+            subject: email.subject,
+            // SendGrid requires text/plain before text/html
+            content: [
+                ...(email.text ? [{ type: 'text/plain', value: email.text }] : []),
+                { type: 'text/html', value: email.html },
+            ],
+            ...(email.headers && Object.keys(email.headers).length ? { headers: email.headers } : {}),
+            tracking_settings: { click_tracking: { enable: false }, open_tracking: { enable: false } },
+        }),
+    }, (res) => res.headers.get('x-message-id') ?? undefined),
+    checkHealth: () => httpHealth('https://api.sendgrid.com/v3/scopes', sendgridHeaders()),
+};
+
+/* ── Mailgun ────────────────────────────────────────────────────────── */
+
+function mailgunBase(): string {
+    return (process.env.MAILGUN_API_BASE ?? 'https://api.mailgun.net').replace(/\/+$/, '');
+}
+
+function mailgunHeaders(): Record<string, string> {
+    return { Authorization: `Basic ${Buffer.from(`api:${process.env.MAILGUN_API_KEY ?? ''}`).toString('base64')}` };
+}
+
+const mailgunProvider: EmailProvider = {
+    name: 'mailgun',
+    isConfigured: () => !!process.env.MAILGUN_API_KEY,
+    send(email) {
+        const form = new URLSearchParams({
+            from: formatFrom(email),
+            to: email.to,
+            subject: email.subject,
+            html: email.html,
+            'o:tracking': 'no',
+        });
+        if (email.text) form.set('text', email.text);
+        if (email.replyTo) form.set('h:Reply-To', email.replyTo);
+        for (const [name, value] of Object.entries(email.headers ?? {})) form.set(`h:${name}`, value);
+
+        const domain = process.env.MAILGUN_DOMAIN ?? fromDomain(email);
+        return httpSend('mailgun', `${mailgunBase()}/v3/${encodeURIComponent(domain)}/messages`, {
+            headers: mailgunHeaders(),
+            body: form,
+        }, (_res, body) => body.id as string | undefined);
+    },
+    checkHealth: () => httpHealth(
+        process.env.MAILGUN_DOMAIN
+            ? `${mailgunBase()}/v3/domains/${encodeURIComponent(process.env.MAILGUN_DOMAIN)}`
+            : `${mailgunBase()}/v3/domains?limit=1`,
+        mailgunHeaders(),
+    ),
+};
+
+/* ── Resend ─────────────────────────────────────────────────────────── */
+
+function resendHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${process.env.RESEND_API_KEY ?? ''}`, 'Content-Type': 'application/json' };
+}
+
+const resendProvider: EmailProvider = {
+    name: 'resend',
+    isConfigured: () => !!process.env.RESEND_API_KEY,
+    send: (email) => httpSend('resend', 'https://api.resend.com/emails', {
+        headers: resendHeaders(),
+        body: JSON.stringify({
+            from: formatFrom(email),
+            to: [email.to],
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+            ...(email.replyTo ? { reply_to: email.replyTo } : {}),
+            headers: email.headers,
+        }),
+    }, (_res, body) => body.id as string | undefined),
+    // A sending-only key may not list domains, but it authenticated
+    checkHealth: () => httpHealth('https://api.resend.com/domains', resendHeaders(),
+        (res, body) => res.ok || body.name === 'restricted_api_key'),
+};
+
+/* ── Log (nothing configured) ───────────────────────────────────────── */
+
+const logProvider: EmailProvider = {
+    name: 'log',
+    isConfigured: () => true,
+    async send(email) {
+        console.error(
+            `[email-providers] No email provider is configured. Email to ${email.to} (subject: "${email.subject}") was NOT delivered. ` +
+            `Set SMTP_HOST or EMAIL_PROVIDER with its credentials to enable email delivery.`,
+        );
+        return { success: false, provider: 'log', error: 'No email provider configured - set SMTP_HOST or EMAIL_PROVIDER.', retryable: true };
+    },
+    async checkHealth() {
+        return { connected: false, lastCheckAt: new Date().toISOString(), error: 'No email provider configured' };
+    },
+};
+
+const PROVIDERS: Record<EmailProviderName, EmailProvider> = {
+    smtp: smtpProvider,
+    ses: sesProvider,
+    postmark: postmarkProvider,
+    sendgrid: sendgridProvider,
+    mailgun: mailgunProvider,
+    resend: resendProvider,
+    log: logProvider,
+};
+
+export function getEmailProvider(name: EmailProviderName): EmailProvider {
+    return PROVIDERS[name];
+}
+
+export function isEmailProviderName(value: unknown): value is EmailProviderName {
+    return typeof value === 'string' && (EMAIL_PROVIDER_NAMES as string[]).includes(value);
+}
+
+/** Providers with credentials in this environment (never 'log'). */
+export function getConfiguredProviders(): EmailProviderName[] {
+    return EMAIL_PROVIDER_NAMES.filter((name) => name !== 'log' && PROVIDERS[name].isConfigured());
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Selection
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+function envProvider(key: 'EMAIL_PROVIDER' | 'EMAIL_FALLBACK_PROVIDER'): EmailProviderName | undefined {
+    const value = process.env[key]?.trim().toLowerCase();
+    if (!value) return undefined;
+    if (isEmailProviderName(value)) return value;
+    console.warn(`[email-providers] Ignoring unknown ${key} "${value}"`);
+    return undefined;
+}
+
+/** The platform's primary provider: EMAIL_PROVIDER, else SMTP when configured, else 'log'. */
+export function getDefaultProvider(): EmailProviderName {
+    const configured = envProvider('EMAIL_PROVIDER');
+    if (configured && PROVIDERS[configured].isConfigured()) return configured;
+    return smtpProvider.isConfigured() ? 'smtp' : 'log';
+}
+
+export async function getOrgTransportSettings(orgId: string): Promise<EmailTransportSettings> {
+    const rt = getRuntime();
+    const cached = rt.orgTransport.get(orgId);
+    if (cached && Date.now() - cached.fetchedAt < ORG_TRANSPORT_TTL_MS) return cached.settings;
+
+    const [org] = await db.select({ emailSettings: schema.organizations.emailSettings })
+        .from(schema.organizations).where(eq(schema.organizations.id, orgId)).limit(1);
+    const settings = org?.emailSettings?.transport ?? {};
+    rt.orgTransport.set(orgId, { settings, fetchedAt: Date.now() });
+    return settings;
+}
+
+/** Replace the org's provider selection; it applies on this instance immediately. */
+export async function updateOrgTransportSettings(orgId: string, settings: EmailTransportSettings): Promise<EmailTransportSettings> {
+    const [org] = await db.select({ emailSettings: schema.organizations.emailSettings })
+        .from(schema.organizations).where(eq(schema.organizations.id, orgId)).limit(1);
+    await db.update(schema.organizations)
+        .set({ emailSettings: { ...org?.emailSettings, transport: settings }, updatedAt: new Date() })
+        .where(eq(schema.organizations.id, orgId));
+
+    getRuntime().orgTransport.delete(orgId);
+    return settings;
+}
+
+/**
+ * Providers to try, in order, for an email from `sendingDomain`: the
+ * org's choice for that domain (else its overall choice), then the
+ * platform primary and fallback. Unconfigured providers are dropped;
+ * 'log' is returned only when nothing is configured.
+ */
+export async function resolveProviderChain(orgId: string | undefined, sendingDomain: string): Promise<EmailProviderName[]> {
+    const settings = orgId ? await getOrgTransportSettings(orgId) : {};
+    const route = settings.domains?.[sendingDomain.toLowerCase()] ?? settings;
+
+    const candidates = [route.primary, route.secondary, getDefaultProvider(), envProvider('EMAIL_FALLBACK_PROVIDER')];
+    const chain: EmailProviderName[] = [];
+    for (const name of candidates) {
+        if (name && name !== 'log' && !chain.includes(name) && PROVIDERS[name].isConfigured()) chain.push(name);
+    }
+    return chain.length > 0 ? chain : ['log'];
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Health & Failover
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Health-check a provider (default: the platform primary). Results are
+ * cached for `maxAgeMs`; pass 0 to force a fresh check.
+ */
+export async function checkTransportHealth(
+    provider: EmailProviderName = getDefaultProvider(),
+    maxAgeMs = HEALTH_TTL_MS,
+): Promise<TransportHealth> {
+    const rt = getRuntime();
+    const cached = rt.health.get(provider);
+    if (cached && Date.now() - cached.checkedAt < maxAgeMs) return cached.health;
+
+    const health = await PROVIDERS[provider].checkHealth();
+    rt.health.set(provider, { health, checkedAt: Date.now() });
+    return health;
+}
+
+/** Fresh health of every configured provider (for the status API). */
+export async function getProviderStatuses(): Promise<ProviderStatus[]> {
+    const names = getConfiguredProviders();
+    return Promise.all(names.map(async (name) => ({ name, health: await checkTransportHealth(name, 0) })));
+}
+
+function markUnhealthy(provider: EmailProviderName, error: string | undefined): void {
+    getRuntime().health.set(provider, {
+        health: { connected: false, lastCheckAt: new Date().toISOString(), error: error ?? 'Send failed' },
+        checkedAt: Date.now(),
+    });
+}
+
+/**
+ * Send through the first healthy provider in `chain`. A provider whose
+ * health check fails, or whose send reports it unavailable, is passed
+ * over for the next; the last one is always attempted.
+ */
+export async function sendWithFailover(email: OutboundEmail, chain: EmailProviderName[]): Promise<ProviderSendResult> {
+    let result: ProviderSendResult = { success: false, provider: 'log', error: 'No email provider available', retryable: true };
+
+    for (const [i, name] of chain.entries()) {
+        const last = i === chain.length - 1;
+        if (!last) {
+            const health = await checkTransportHealth(name);
+            if (!health.connected) {
+                console.warn(`[email-providers] ${name} is unhealthy (${health.error ?? 'unknown'}), failing over to ${chain[i + 1]}`);
+                continue;
+            }
+        }
+
+        result = await PROVIDERS[name].send(email);
+        if (!result.success && result.unavailable && !last) {
+            markUnhealthy(name, result.error);
+            console.warn(`[email-providers] ${name} is unavailable (${result.error}), failing over to ${chain[i + 1]}`);
+            continue;
+        }
+        return result;
+    }
+    return result;
+}
@@ -3,12 +3,42 @@
  *
  * Queue items are persisted in PostgreSQL (emailQueue table) so nothing
  * is lost on cold-start.  The tick-based processing loop and token-
- * bucket rate limiter run in-memory as runtime concerns.
+ * bucket rate limiters run in-memory as runtime concerns.
+ *
+ * Throttling - every send takes a token from each bucket that applies:
+ *   • global                  EMAIL_RATE_LIMIT per second
+ *   • per org                 emailSettings.sendingLimits.perSecond
+ *                             (default EMAIL_ORG_RATE_LIMIT)
+ *   • per recipient domain    mailbox providers are grouped (gmail.com +
+ *                             googlemail.com, outlook.com + hotmail.com
+ *                             ...), see DEFAULT_DOMAIN_LIMITS and
+ *                             EMAIL_DOMAIN_RATE_LIMITS="gmail.com=20,..."
+ *   • per org + domain        emailSettings.sendingLimits.domains
+ *
+ * Priority lanes: lower lanes may not drain a bucket below a reserved
+ * share (LANE_RESERVE), so critical/high mail keeps flowing while a bulk
+ * campaign is throttled. Due rows are ranked per org, so each tick
+ * serves tenants round-robin instead of oldest-first across all orgs.
+ *
+ * Claiming - rows move queued → sending in one conditional UPDATE that
+ * stamps a claim token and lease, so concurrent ticks, cron runs and
+ * server instances never send the same row twice. Only the claim holder
+ * may settle the row, a provider message ID is recorded once, and rows
+ * whose lease expired (the worker died mid-send) are recovered by
+ * sending them again: delivery is at-least-once.
+ *
+ * Warm-up - a sending domain under a warm-up plan (warmup.ts) has a daily
+ * cap; claimed rows over it are deferred to the next day.
  * ═══════════════════════════════════════════════════════════════════════ */
 
 import { db } from '@/lib/db';
 import * as schema from '@/lib/db/schema';
-import { eq, and, lte, sql, ne, asc, desc } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { eq, and, lt, lte, or, sql, ne, asc, desc, inArray, isNull } from 'drizzle-orm';
+import type { FlowTrackingContext } from './tracking';
+import { getTransportConfig } from './transport';
+import { reserveWarmupSlot, msUntilNextWarmupDay } from './warmup';
+import type { EmailProviderName, SendingLimits } from '@/lib/db/schema';
 
 /* ── Types ──────────────────────────────────────────────────────────── */
 
@@ -46,12 +76,37 @@ export interface SendRecord {
     campaignId?: string;
     userId?: string;
     status: SendStatus;
-    provider: 'smtp' | 'log';
+    provider: EmailProviderName;
     sentAt?: string;
     error?: string;
     attempts: number;
 }
 
+/** Result of one send attempt, as reported by the transport provider */
+export interface SendOutcome {
+    success: boolean;
+    messageId?: string;
+    error?: string;
+    /** Provider that handled the attempt */
+    provider?: EmailProviderName;
+    /** False when resending cannot help; the email skips remaining retries */
+    retryable?: boolean;
+    /** The provider rejected the recipient during the send */
+    bounce?: 'hard' | 'soft';
+}
+
+/** Queue row matched by a provider delivery notification */
+export interface ProviderOutcomeMatch {
+    id: string;
+    orgId: string;
+    to: string;
+    campaignId?: string;
+    userId?: string;
+    flow?: FlowTrackingContext;
+}
+
+export type ProviderOutcome = 'delivered' | 'bounced' | 'complained';
+
 export interface QueueMetrics {
     queued: number;
     sending: number;
@@ -69,17 +124,65 @@ const DEFAULT_MAX_ATTEMPTS = 3;
 const DEFAULT_RATE_LIMIT = 10;
 const TICK_INTERVAL_MS = 200;
 
+/** Share of each bucket a lane must leave for higher lanes */
+export const LANE_RESERVE: Record<EmailPriority, number> = {
+    critical: 0,
+    high: 0,
+    normal: 0.1,
+    low: 0.25,
+    bulk: 0.5,
+};
+
+/** Mailbox provider groups share one domain bucket */
+const DOMAIN_GROUPS: Record<string, string> = {
+    'googlemail.com': 'gmail.com',
+    'hotmail.com': 'outlook.com',
+    'live.com': 'outlook.com',
+    'msn.com': 'outlook.com',
+    'ymail.com': 'yahoo.com',
+    'rocketmail.com': 'yahoo.com',
+    'me.com': 'icloud.com',
+    'mac.com': 'icloud.com',
+};
+
+/** Per-second limits per recipient domain group across all orgs */
+export const DEFAULT_DOMAIN_LIMITS: Record<string, number> = {
+    'gmail.com': 20,
+    'outlook.com': 10,
+    'yahoo.com': 10,
+    'icloud.com': 10,
+};
+
+/** Other recipient domains */
+const DEFAULT_OTHER_DOMAIN_LIMIT = 10;
+
+/** How long org sending limits are cached */
+const ORG_LIMITS_TTL_MS = 60_000;
+
+/** How long a claimed row may stay in 'sending' before it is recovered */
+export const CLAIM_LEASE_MS = 5 * 60_000;
+const LEASE_RECOVERY_INTERVAL_MS = 30_000;
+
 /* ── Runtime State (in-memory, not persisted) ──────────────────────── */
 
 const runtimeKey = '__lifecycleos_email_queue_runtime__';
 
+export interface TokenBucket {
+    tokens: number;
+    lastRefill: number;
+}
+
 interface RuntimeState {
     rateLimit: number;
-    tokenBucket: { tokens: number; lastRefill: number };
+    tokenBucket: TokenBucket;
+    /** Org and domain buckets by key ("org:<id>", "domain:gmail.com", ...) */
+    buckets: Map<string, TokenBucket>;
+    orgLimits: Map<string, { limits: SendingLimits; fetchedAt: number }>;
     isRunning: boolean;
     tickTimer: ReturnType<typeof setInterval> | null;
-    onSend: ((email: QueuedEmail) => Promise<{ success: boolean; messageId?: string; error?: string }>) | null;
+    onSend: ((email: QueuedEmail) => Promise<SendOutcome>) | null;
     metricsCache: { retried: number };
+    lastLeaseRecovery: number;
 }
 
 function getRuntime(): RuntimeState {
@@ -88,10 +191,13 @@ function getRuntime(): RuntimeState {
         g[runtimeKey] = {
             rateLimit: DEFAULT_RATE_LIMIT,
             tokenBucket: { tokens: DEFAULT_RATE_LIMIT, lastRefill: Date.now() },
+            buckets: new Map(),
+            orgLimits: new Map(),
             isRunning: false,
             tickTimer: null,
             onSend: null,
             metricsCache: { retried: 0 },
+            lastLeaseRecovery: 0,
         };
     }
     return g[runtimeKey];
@@ -125,9 +231,15 @@ export async function enqueue(email: {
     campaignId?: string;
     userId?: string;
     orgId?: string;
+    /** Flow step that sent the email */
+    flow?: FlowTrackingContext;
     priority?: EmailPriority;
     maxAttempts?: number;
     tags?: Record<string, string>;
+    /** Tracking message ID embedded in the email's links */
+    messageId?: string;
+    /** Insert already claimed (status 'sending') for an inline send */
+    claimToken?: string;
 }): Promise<string> {
     const orgId = await getOrgId(email.orgId);
     const priority = email.priority ?? 'normal';
@@ -145,12 +257,18 @@ export async function enqueue(email: {
         headers: email.headers ?? null,
         campaignId: email.campaignId ?? null,
         userId: email.userId ?? null,
+        flowId: email.flow?.flowId ?? null,
+        flowNodeId: email.flow?.nodeId ?? null,
+        enrollmentId: email.flow?.enrollmentId ?? null,
         priority,
-        status: 'queued',
+        status: email.claimToken ? 'sending' : 'queued',
         attempts: 0,
         maxAttempts,
         nextAttemptAt: new Date(),
+        claimToken: email.claimToken ?? null,
+        leaseExpiresAt: email.claimToken ? new Date(Date.now() + CLAIM_LEASE_MS) : null,
         tags: email.tags ?? null,
+        messageId: email.messageId ?? null,
     }).returning({ id: schema.emailQueue.id });
 
     return row.id;
@@ -170,28 +288,115 @@ export async function enqueueBatch(
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
- * Token Bucket Rate Limiter (in-memory)
+ * Throttles - Token Buckets per Org, Recipient Domain and Lane (in-memory)
  * ═══════════════════════════════════════════════════════════════════════ */
 
-function tryAcquireToken(): boolean {
+/** Domain bucket group of a recipient ("ada@googlemail.com" → "gmail.com") */
+export function recipientDomainGroup(email: string): string {
+    const domain = email.slice(email.lastIndexOf('@') + 1).trim().toLowerCase();
+    return DOMAIN_GROUPS[domain] ?? domain;
+}
+
+function parseDomainLimits(value: string | undefined): Record<string, number> {
+    const limits: Record<string, number> = {};
+    for (const pair of (value ?? '').split(',')) {
+        const [domain, rate] = pair.split('=').map((p) => p.trim());
+        if (domain && Number(rate) > 0) limits[recipientDomainGroup(`@${domain}`)] = Number(rate);
+    }
+    return limits;
+}
+
+function domainLimit(group: string): number {
+    const overrides = parseDomainLimits(process.env.EMAIL_DOMAIN_RATE_LIMITS);
+    return overrides[group] ?? DEFAULT_DOMAIN_LIMITS[group] ?? DEFAULT_OTHER_DOMAIN_LIMIT;
+}
+
+/**
+ * Take one token from every bucket, or none. A send in `priority` may
+ * only take a token while the bucket stays above the lane's reserve.
+ */
+export function takeTokens(
+    buckets: Array<{ bucket: TokenBucket; rate: number }>,
+    priority: EmailPriority,
+    now: number = Date.now(),
+): boolean {
+    for (const { bucket, rate } of buckets) {
+        const elapsed = Math.max(0, now - bucket.lastRefill);
+        bucket.tokens = Math.min(rate, bucket.tokens + (elapsed / 1000) * rate);
+        bucket.lastRefill = now;
+    }
+    const available = buckets.every(({ bucket, rate }) =>
+        bucket.tokens >= 1 + Math.floor(rate * LANE_RESERVE[priority]));
+    if (!available) return false;
+    for (const { bucket } of buckets) bucket.tokens -= 1;
+    return true;
+}
+
+function getBucket(key: string, rate: number): TokenBucket {
     const rt = getRuntime();
-    const now = Date.now();
-    const elapsed = now - rt.tokenBucket.lastRefill;
-
-    if (elapsed >= 1000) {
-        const refills = Math.floor(elapsed / 1000);
-        rt.tokenBucket.tokens = Math.min(
-            rt.rateLimit,
-            rt.tokenBucket.tokens + refills * rt.rateLimit,
-        );
-        rt.tokenBucket.lastRefill = now - (elapsed % 1000);
+    let bucket = rt.buckets.get(key);
+    if (!bucket) {
+        bucket = { tokens: rate, lastRefill: Date.now() };
+        rt.buckets.set(key, bucket);
     }
+    return bucket;
+}
+
+export async function getOrgSendingLimits(orgId: string): Promise<SendingLimits> {
+    const rt = getRuntime();
+    const cached = rt.orgLimits.get(orgId);
+    if (cached && Date.now() - cached.fetchedAt < ORG_LIMITS_TTL_MS) return cached.limits;
+
+    const [org] = await db.select({ emailSettings: schema.organizations.emailSettings })
+        .from(schema.organizations).where(eq(schema.organizations.id, orgId)).limit(1);
+    const limits = org?.emailSettings?.sendingLimits ?? {};
+    rt.orgLimits.set(orgId, { limits, fetchedAt: Date.now() });
+    return limits;
+}
+
+/**
+ * Reserve a send slot for an email from `orgId` to `to`. Returns false
+ * when any applicable throttle is exhausted for the email's lane.
+ */
+export async function acquireSendSlot(orgId: string, to: string, priority: EmailPriority = 'normal'): Promise<boolean> {
+    const rt = getRuntime();
+    const limits = await getOrgSendingLimits(orgId);
+    const orgRate = limits.perSecond ?? (Number(process.env.EMAIL_ORG_RATE_LIMIT) || rt.rateLimit);
+    const group = recipientDomainGroup(to);
+    const orgDomainRate = limits.domains?.[group] ?? limits.domains?.[to.slice(to.lastIndexOf('@') + 1).toLowerCase()];
+
+    return takeTokens([
+        { bucket: rt.tokenBucket, rate: rt.rateLimit },
+        { bucket: getBucket(`org:${orgId}`, orgRate), rate: orgRate },
+        { bucket: getBucket(`domain:${group}`, domainLimit(group)), rate: domainLimit(group) },
+        ...(orgDomainRate ? [{ bucket: getBucket(`org:${orgId}:domain:${group}`, orgDomainRate), rate: orgDomainRate }] : []),
+    ], priority);
+}
+
+/** Replace the org's sending limits; they apply on this instance immediately. */
+export async function updateOrgSendingLimits(orgId: string, limits: SendingLimits): Promise<SendingLimits> {
+    const [org] = await db.select({ emailSettings: schema.organizations.emailSettings })
+        .from(schema.organizations).where(eq(schema.organizations.id, orgId)).limit(1);
+    await db.update(schema.organizations)
+        .set({ emailSettings: { ...org?.emailSettings, sendingLimits: limits }, updatedAt: new Date() })
+        .where(eq(schema.organizations.id, orgId));
 
-    if (rt.tokenBucket.tokens > 0) {
-        rt.tokenBucket.tokens--;
-        return true;
+    const rt = getRuntime();
+    rt.orgLimits.delete(orgId);
+    for (const key of rt.buckets.keys()) {
+        if (key.startsWith(`org:${orgId}`)) rt.buckets.delete(key);
     }
-    return false;
+    return limits;
+}
+
+/**
+ * Release a claimed, throttled email back to the queue for a later
+ * attempt without counting it as an attempt.
+ */
+export async function deferQueuedEmail(id: string, claimToken: string, delayMs = 1000 + Math.random() * 1000): Promise<void> {
+    await db.update(schema.emailQueue)
+        .set({ status: 'queued', nextAttemptAt: new Date(Date.now() + delayMs), claimToken: null, leaseExpiresAt: null })
+        .where(and(eq(schema.emailQueue.id, id), eq(schema.emailQueue.claimToken, claimToken)));
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
@@ -222,77 +427,186 @@ function dbRowToQueuedEmail(row: typeof schema.emailQueue.$inferSelect): QueuedE
     };
 }
 
-async function tick(): Promise<void> {
+/**
+ * Due queue rows that fit the throttles, at most `limit`. Rows are ranked
+ * within each org, so candidates interleave tenants (each org's first
+ * row, then each org's second, ...) with higher lanes first. Rows over a
+ * throttle are skipped and stay queued for a later tick.
+ */
+async function selectDueEmails(limit: number): Promise<Array<typeof schema.emailQueue.$inferSelect>> {
+    const ranked = db.select({
+        id: schema.emailQueue.id,
+        orgRank: sql<number>`row_number() over (partition by ${schema.emailQueue.organizationId} order by ${schema.emailQueue.priority}, ${schema.emailQueue.nextAttemptAt})`.as('org_rank'),
+    }).from(schema.emailQueue)
+        .where(and(eq(schema.emailQueue.status, 'queued'), lte(schema.emailQueue.nextAttemptAt, new Date())))
+        .as('ranked');
+
+    const candidates = await db.select({ row: schema.emailQueue }).from(schema.emailQueue)
+        .innerJoin(ranked, eq(ranked.id, schema.emailQueue.id))
+        .where(lte(ranked.orgRank, limit))
+        .orderBy(asc(schema.emailQueue.priority), asc(ranked.orgRank), asc(schema.emailQueue.nextAttemptAt))
+        .limit(limit * 4);
+
+    const selected: Array<typeof schema.emailQueue.$inferSelect> = [];
+    for (const { row } of candidates) {
+        if (selected.length >= limit) break;
+        if (await acquireSendSlot(row.organizationId, row.to, row.priority)) selected.push(row);
+    }
+    return selected;
+}
+
+type QueueRow = typeof schema.emailQueue.$inferSelect;
+
+/**
+ * Claim up to `limit` due rows for sending. Candidates come from the fair,
+ * throttled selection; the claim itself is a single UPDATE guarded by
+ * status = 'queued', so a row claimed by another worker in the meantime
+ * is simply not returned. Claimed rows keep the candidates' order.
+ */
+export async function claimDueEmails(limit: number): Promise<QueueRow[]> {
+    await recoverExpiredLeases();
+
+    const candidates = await selectDueEmails(limit);
+    if (candidates.length === 0) return [];
+
+    const claimToken = randomUUID();
+    const claimed = await db.update(schema.emailQueue)
+        .set({ status: 'sending', claimToken, leaseExpiresAt: new Date(Date.now() + CLAIM_LEASE_MS) })
+        .where(and(
+            inArray(schema.emailQueue.id, candidates.map((c) => c.id)),
+            eq(schema.emailQueue.status, 'queued'),
+        ))
+        .returning();
+
+    const order = new Map(candidates.map((c, i) => [c.id, i]));
+    return claimed.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+}
+
+/**
+ * Record the outcome of a claimed send: sent, retry with exponential
+ * backoff, or DLQ once attempts are exhausted or the provider reported
+ * the failure as not retryable. Returns 'lost' when the row's claim no
+ * longer matches (its lease expired and it was recovered).
+ */
+export async function settleClaimedEmail(
+    row: Pick<QueueRow, 'id' | 'attempts' | 'maxAttempts' | 'claimToken'>,
+    result: SendOutcome,
+): Promise<'sent' | 'retry' | 'dlq' | 'lost'> {
+    const attempts = row.attempts + 1;
+    const claimed = and(eq(schema.emailQueue.id, row.id), eq(schema.emailQueue.claimToken, row.claimToken!));
+    const release = { claimToken: null, leaseExpiresAt: null };
+
+    let outcome: 'sent' | 'retry' | 'dlq';
+    let updates: Partial<QueueRow>;
+    if (result.success) {
+        outcome = 'sent';
+        updates = { status: 'sent', attempts, sentAt: new Date(), lastError: null, ...release };
+    } else if (attempts < row.maxAttempts && result.retryable !== false) {
+        outcome = 'retry';
+        const delay = Math.min(60_000, 1000 * Math.pow(2, attempts - 1) + Math.random() * 1000);
+        getRuntime().metricsCache.retried++;
+        updates = {
+            status: 'queued',
+            attempts,
+            nextAttemptAt: new Date(Date.now() + delay),
+            lastError: `Retry ${attempts}/${row.maxAttempts}: ${result.error ?? 'Send failed'}`,
+            ...release,
+        };
+    } else {
+        outcome = 'dlq';
+        const cause = result.retryable === false ? 'Permanent failure' : `Exhausted ${row.maxAttempts} attempts`;
+        updates = { status: 'dlq', attempts, lastError: `${cause}: ${result.error ?? 'Send failed'}`, ...release };
+        // A rejected recipient counts as a bounce in the deliverability rollup
+        if (result.bounce === 'hard') updates.bouncedAt = new Date();
+    }
+
+    const settled = await db.update(schema.emailQueue)
+        .set({
+            ...updates,
+            ...(result.provider ? { provider: result.provider } : {}),
+            // Recorded once - a later settle never replaces the first provider ID
+            ...(result.success && result.messageId
+                ? { providerMessageId: sql`coalesce(${schema.emailQueue.providerMessageId}, ${result.messageId})` }
+                : {}),
+        })
+        .where(claimed)
+        .returning({ id: schema.emailQueue.id });
+
+    if (settled.length === 0) {
+        console.warn(`[email-queue] Claim on ${row.id} was lost before settling (${outcome})`);
+        return 'lost';
+    }
+    return outcome;
+}
+
+/**
+ * Recover rows stuck in 'sending' whose lease expired: the interrupted
+ * attempt is counted and the row requeued, or moved to the DLQ on its
+ * final attempt. Whether the provider accepted the message before the
+ * worker died is unknown (the provider message ID is only stored when
+ * the row is settled), so a requeued row may be delivered twice.
+ * Runs at most every LEASE_RECOVERY_INTERVAL_MS per instance unless forced.
+ */
+export async function recoverExpiredLeases(force = false): Promise<{ requeued: number; dlq: number }> {
     const rt = getRuntime();
-    if (!rt.onSend) return;
+    const recovered = { requeued: 0, dlq: 0 };
+    if (!force && Date.now() - rt.lastLeaseRecovery < LEASE_RECOVERY_INTERVAL_MS) return recovered;
+    rt.lastLeaseRecovery = Date.now();
 
     const now = new Date();
-
-    // Fetch eligible queued items across all orgs - orgId is carried per-item
-    const rows = await db.select().from(schema.emailQueue)
-        .where(
-            and(
-                eq(schema.emailQueue.status, 'queued'),
-                lte(schema.emailQueue.nextAttemptAt, now),
-            ),
-        )
-        .orderBy(asc(schema.emailQueue.priority), asc(schema.emailQueue.nextAttemptAt))
-        .limit(rt.rateLimit);
-
-    const batch: QueuedEmail[] = [];
-    for (const row of rows) {
-        if (!tryAcquireToken()) break;
-        batch.push(dbRowToQueuedEmail(row));
-        // Mark as sending in DB
-        await db.update(schema.emailQueue)
-            .set({ status: 'sending' })
-            .where(eq(schema.emailQueue.id, row.id));
+    const expired = and(
+        eq(schema.emailQueue.status, 'sending'),
+        or(isNull(schema.emailQueue.leaseExpiresAt), lt(schema.emailQueue.leaseExpiresAt, now)),
+    );
+    const release = { claimToken: null, leaseExpiresAt: null };
+    const attempts = sql`${schema.emailQueue.attempts} + 1`;
+
+    const [dlq, requeued] = await db.batch([
+        db.update(schema.emailQueue)
+            .set({ status: 'dlq', attempts, lastError: 'Lease expired mid-send on the final attempt', ...release })
+            .where(and(expired, sql`${schema.emailQueue.attempts} + 1 >= ${schema.emailQueue.maxAttempts}`))
+            .returning({ id: schema.emailQueue.id }),
+        db.update(schema.emailQueue)
+            .set({ status: 'queued', attempts, nextAttemptAt: now, lastError: 'Lease expired mid-send; requeued', ...release })
+            .where(expired)
+            .returning({ id: schema.emailQueue.id }),
+    ]);
+
+    Object.assign(recovered, { dlq: dlq.length, requeued: requeued.length });
+    if (dlq.length + requeued.length > 0) {
+        console.warn(`[email-queue] Recovered expired leases: ${requeued.length} requeued, ${dlq.length} to DLQ`);
     }
+    return recovered;
+}
 
-    const results = await Promise.allSettled(
-        batch.map(async (email) => {
-            const newAttempts = email.attempts + 1;
+/**
+ * Count a claimed row against its sending domain's warm-up cap. Returns
+ * true when the domain is over today's cap and the row was deferred to
+ * the next day instead.
+ */
+export async function deferOverWarmupCap(row: Pick<QueueRow, 'id' | 'claimToken' | 'organizationId' | 'fromEmail' | 'priority'>): Promise<boolean> {
+    const domain = (row.fromEmail ?? getTransportConfig().fromEmail).split('@')[1] ?? '';
+    if (await reserveWarmupSlot(row.organizationId, domain, row.priority)) return false;
+    await deferQueuedEmail(row.id, row.claimToken!, msUntilNextWarmupDay());
+    return true;
+}
 
+async function tick(): Promise<void> {
+    const rt = getRuntime();
+    if (!rt.onSend) return;
+
+    const rows = await claimDueEmails(rt.rateLimit);
+
+    const results = await Promise.allSettled(
+        rows.map(async (row) => {
+            if (await deferOverWarmupCap(row)) return;
+            let result: SendOutcome;
             try {
-                const result = await rt.onSend!(email);
-                if (result.success) {
-                    await db.update(schema.emailQueue)
-                        .set({
-                            status: 'sent',
-                            attempts: newAttempts,
-                            sentAt: new Date(),
-                            providerMessageId: result.messageId ?? null,
-                            lastError: null,
-                        })
-                        .where(eq(schema.emailQueue.id, email.id));
-                } else {
-                    throw new Error(result.error ?? 'Send failed');
-                }
+                result = await rt.onSend!(dbRowToQueuedEmail(row));
             } catch (err) {
-                const error = (err as Error).message;
-                if (newAttempts < email.maxAttempts) {
-                    // Retry with exponential backoff
-                    const delay = Math.min(60_000, 1000 * Math.pow(2, newAttempts - 1) + Math.random() * 1000);
-                    rt.metricsCache.retried++;
-                    await db.update(schema.emailQueue)
-                        .set({
-                            status: 'queued',
-                            attempts: newAttempts,
-                            nextAttemptAt: new Date(Date.now() + delay),
-                            lastError: `Retry ${newAttempts}/${email.maxAttempts}: ${error}`,
-                        })
-                        .where(eq(schema.emailQueue.id, email.id));
-                } else {
-                    // Move to DLQ status
-                    await db.update(schema.emailQueue)
-                        .set({
-                            status: 'dlq',
-                            attempts: newAttempts,
-                            lastError: `Exhausted ${email.maxAttempts} attempts: ${error}`,
-                        })
-                        .where(eq(schema.emailQueue.id, email.id));
-                }
+                result = { success: false, error: (err as Error).message };
             }
+            await settleClaimedEmail(row, result);
         }),
     );
 
@@ -308,7 +622,7 @@ async function tick(): Promise<void> {
  * ═══════════════════════════════════════════════════════════════════════ */
 
 export function setSendHandler(
-    handler: (email: QueuedEmail) => Promise<{ success: boolean; messageId?: string; error?: string }>,
+    handler: (email: QueuedEmail) => Promise<SendOutcome>,
 ): void {
     getRuntime().onSend = handler;
 }
@@ -396,7 +710,7 @@ export async function getSendLog(limit = 100, offset = 0, providedOrgId?: string
         campaignId: r.campaignId ?? undefined,
         userId: r.userId ?? undefined,
         status: r.status === 'dlq' ? 'failed' : r.status as SendStatus,
-        provider: 'smtp',
+        provider: r.provider ?? 'smtp',
         sentAt: r.sentAt?.toISOString(),
         error: r.lastError ?? undefined,
         attempts: r.attempts,
@@ -452,7 +766,7 @@ export async function getSendRecord(id: string): Promise<SendRecord | undefined>
         campaignId: row.campaignId ?? undefined,
         userId: row.userId ?? undefined,
         status: row.status === 'dlq' ? 'failed' : row.status as SendStatus,
-        provider: 'smtp',
+        provider: row.provider ?? 'smtp',
         sentAt: row.sentAt?.toISOString(),
         error: row.lastError ?? undefined,
         attempts: row.attempts,
@@ -467,31 +781,49 @@ export function setRateLimit(rate: number): void {
 
 /**
  * Update a queue record's status after an inline send attempt.
- * Used by sendEmail() to record the SMTP result directly.
+ * Used by sendEmail() to record the SMTP result directly; the record was
+ * enqueued already claimed under `claimToken`.
  */
 export async function updateQueueStatus(
     id: string,
-    result: { success: boolean; messageId?: string; error?: string },
+    claimToken: string,
+    result: SendOutcome,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
 ): Promise<void> {
-    if (result.success) {
-        await db.update(schema.emailQueue)
-            .set({
-                status: 'sent',
-                attempts: 1,
-                sentAt: new Date(),
-                providerMessageId: result.messageId ?? null,
-                lastError: null,
-            })
-            .where(eq(schema.emailQueue.id, id));
-    } else {
-        // First attempt failed - leave as 'queued' for cron-based retry
-        const delay = 1000 + Math.random() * 1000; // ~1-2s backoff
-        await db.update(schema.emailQueue)
-            .set({
-                attempts: 1,
-                nextAttemptAt: new Date(Date.now() + delay),
-                lastError: result.error ?? 'Send failed',
-            })
-            .where(eq(schema.emailQueue.id, id));
-    }
+    await settleClaimedEmail({ id, attempts: 0, maxAttempts, claimToken }, result);
+}
+
+/**
+ * Stamp a provider delivery notification (delivery, bounce, complaint) on
+ * the queue row sent under one of `providerMessageIds`, optionally only
+ * within `orgId`. Returns the row's org, campaign and flow context, or
+ * null when no row matches.
+ */
+export async function recordProviderOutcome(
+    providerMessageIds: string[],
+    outcome: ProviderOutcome,
+    at: Date = new Date(),
+    orgId?: string,
+): Promise<ProviderOutcomeMatch | null> {
+    if (!providerMessageIds.length) return null;
+    const column = outcome === 'delivered' ? 'deliveredAt' : outcome === 'bounced' ? 'bouncedAt' : 'complainedAt';
+    const conditions = [inArray(schema.emailQueue.providerMessageId, providerMessageIds)];
+    if (orgId) conditions.push(eq(schema.emailQueue.organizationId, orgId));
+
+    const [row] = await db.update(schema.emailQueue)
+        .set({ [column]: at })
+        .where(and(...conditions))
+        .returning();
+    if (!row) return null;
+
+    return {
+        id: row.id,
+        orgId: row.organizationId,
+        to: row.to,
+        campaignId: row.campaignId ?? undefined,
+        userId: row.userId ?? undefined,
+        ...(row.flowId && row.flowNodeId && row.enrollmentId
+            ? { flow: { orgId: row.organizationId, flowId: row.flowId, nodeId: row.flowNodeId, enrollmentId: row.enrollmentId } }
+            : {}),
+    };
 }
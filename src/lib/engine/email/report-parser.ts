@@ -0,0 +1,287 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Bounce & Complaint Report Parser - RFC 3464 DSN and RFC 5965 ARF
+ *
+ * When mail goes out through our own SMTP relay (e.g. Postfix), bounces
+ * come back as Delivery Status Notifications and ISP complaints as Abuse
+ * Reporting Format feedback reports. Both are multipart/report MIME
+ * messages:
+ *
+ *   multipart/report; report-type=delivery-status
+ *     text/plain                   human-readable explanation
+ *     message/delivery-status      per-message + per-recipient fields
+ *     message/rfc822 | text/rfc822-headers   the original message
+ *
+ *   multipart/report; report-type=feedback-report
+ *     text/plain
+ *     message/feedback-report      Feedback-Type, Original-Rcpt-To, ...
+ *     message/rfc822 | text/rfc822-headers
+ *
+ * This module is pure: it extracts recipients, status and diagnostic
+ * codes and the original Message-ID, and classifies bounces. Applying a
+ * report is done by the email-reports engine module.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export type BounceClass = 'hard' | 'soft' | 'undetermined';
+
+export interface MimePart {
+    /** Lower-cased header names; repeated headers keep every value */
+    headers: Record<string, string[]>;
+    /** Lower-cased media type, e.g. "multipart/report" */
+    contentType: string;
+    contentTypeParams: Record<string, string>;
+    /** Decoded body (multipart bodies are left raw) */
+    body: string;
+    parts: MimePart[];
+}
+
+export interface DsnRecipient {
+    recipient: string;
+    originalRecipient?: string;
+    /** failed | delayed | delivered | relayed | expanded */
+    action: string;
+    /** Enhanced status code, e.g. "5.1.1" */
+    status?: string;
+    diagnosticCode?: string;
+    bounceType: BounceClass;
+}
+
+export interface DeliveryStatusReport {
+    kind: 'dsn';
+    reportingMta?: string;
+    arrivalDate?: string;
+    originalMessageId?: string;
+    recipients: DsnRecipient[];
+}
+
+export interface FeedbackReport {
+    kind: 'arf';
+    /** abuse | fraud | virus | not-spam | other ... */
+    feedbackType: string;
+    userAgent?: string;
+    /** Original-Rcpt-To, else the To of the attached original message */
+    recipient?: string;
+    originalMessageId?: string;
+    arrivalDate?: string;
+    reportedDomain?: string;
+}
+
+export type EmailReport = DeliveryStatusReport | FeedbackReport;
+
+/* ── MIME ───────────────────────────────────────────────────────────── */
+
+/** Parse an unfolded "Name: value" header block. */
+export function parseHeaderBlock(text: string): Record<string, string[]> {
+    const headers: Record<string, string[]> = {};
+    const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ');
+    for (const line of unfolded.split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+        const name = line.slice(0, colon).trim().toLowerCase();
+        (headers[name] ??= []).push(line.slice(colon + 1).trim());
+    }
+    return headers;
+}
+
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+    const [type, ...rest] = (value ?? 'text/plain').split(';');
+    const params: Record<string, string> = {};
+    for (const param of rest) {
+        const eq = param.indexOf('=');
+        if (eq <= 0) continue;
+        params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+    }
+    return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | undefined): string {
+    switch (encoding?.toLowerCase()) {
+        case 'base64':
+            return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+        case 'quoted-printable':
+            return Buffer.from(
+                body.replace(/=\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+                'latin1',
+            ).toString('utf8');
+        default:
+            return body;
+    }
+}
+
+/** Parse a raw MIME message into a tree of parts. */
+export function parseMime(raw: string): MimePart {
+    const text = raw.replace(/\r\n/g, '\n');
+    // A part may have no headers at all (blank first line)
+    const headerless = text.startsWith('\n');
+    const split = headerless ? 0 : text.search(/\n\n/);
+    const headerText = split === -1 ? text : text.slice(0, split);
+    const rawBody = split === -1 ? '' : text.slice(split + (headerless ? 1 : 2));
+
+    const headers = parseHeaderBlock(headerText);
+    const { type, params } = parseContentType(headers['content-type']?.[0]);
+    const part: MimePart = { headers, contentType: type, contentTypeParams: params, body: rawBody, parts: [] };
+
+    if (type.startsWith('multipart/') && params.boundary) {
+        const delimiter = `--${params.boundary}`;
+        const sections = rawBody.split(new RegExp(`^${escapeRegExp(delimiter)}(?:--)?[ \\t]*$`, 'm'));
+        // sections[0] is the preamble; the last section is the epilogue
+        for (const section of sections.slice(1, -1)) {
+            part.parts.push(parseMime(section.replace(/^\n/, '')));
+        }
+        return part;
+    }
+
+    part.body = decodeBody(rawBody, headers['content-transfer-encoding']?.[0]);
+    if (type === 'message/rfc822' || type === 'text/rfc822-headers') {
+        part.parts.push(parseMime(part.body));
+    }
+    return part;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findPart(part: MimePart, contentType: string): MimePart | undefined {
+    if (part.contentType === contentType) return part;
+    for (const child of part.parts) {
+        const found = findPart(child, contentType);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+/* ── Field Helpers ──────────────────────────────────────────────────── */
+
+/** "rfc822; <ada@example.org>" → "ada@example.org" */
+function addressField(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const address = value.includes(';') ? value.slice(value.indexOf(';') + 1) : value;
+    const match = address.match(/<([^>]+)>/);
+    return (match ? match[1] : address).trim().toLowerCase() || undefined;
+}
+
+/** "smtp; 550 5.1.1 ..." → "550 5.1.1 ..." */
+function typedField(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    return value.replace(/^[a-z0-9-]+;\s*/i, '').trim() || undefined;
+}
+
+/** Message-ID of the original message attached to a report. */
+function originalMessageId(report: MimePart): string | undefined {
+    const original = findPart(report, 'message/rfc822') ?? findPart(report, 'text/rfc822-headers');
+    return original?.parts[0]?.headers['message-id']?.[0];
+}
+
+/* ── Classification ─────────────────────────────────────────────────── */
+
+/**
+ * Classify a failed recipient from its enhanced status code, falling
+ * back to the SMTP reply code in the diagnostic:
+ *   4.x.x / 4xx           soft (temporary)
+ *   5.2.2                 soft (mailbox full)
+ *   5.7.x                 undetermined (policy or reputation block,
+ *                         not a bad address)
+ *   other 5.x.x / 5xx     hard
+ */
+export function classifyBounce(status?: string, diagnosticCode?: string, action?: string): BounceClass {
+    if (action?.toLowerCase() === 'delayed') return 'soft';
+
+    const enhanced = status?.match(/^([245])\.(\d{1,3})\.(\d{1,3})/)
+        ?? diagnosticCode?.match(/\b([245])\.(\d{1,3})\.(\d{1,3})\b/);
+    if (enhanced) {
+        const [, cls, subject, detail] = enhanced;
+        if (cls === '4') return 'soft';
+        if (cls !== '5') return 'undetermined';
+        if (subject === '2' && detail === '2') return 'soft';
+        if (subject === '7') return 'undetermined';
+        return 'hard';
+    }
+
+    const reply = diagnosticCode?.match(/\b([45])\d\d\b/);
+    if (reply) return reply[1] === '4' ? 'soft' : 'hard';
+    return 'undetermined';
+}
+
+/* ── Report Parsing ─────────────────────────────────────────────────── */
+
+/** Parse a DSN from its MIME tree. Returns null when it isn't one. */
+export function parseDeliveryStatus(message: MimePart): DeliveryStatusReport | null {
+    const status = findPart(message, 'message/delivery-status');
+    if (!status) return null;
+
+    const [perMessage = {}, ...perRecipient] = status.body
+        .replace(/\r\n/g, '\n')
+        .split(/\n[ \t]*\n/)
+        .filter((block) => block.trim())
+        .map(parseHeaderBlock);
+
+    const recipients: DsnRecipient[] = [];
+    for (const fields of perRecipient) {
+        const recipient = addressField(fields['final-recipient']?.[0]) ?? addressField(fields['original-recipient']?.[0]);
+        if (!recipient) continue;
+        const action = (fields['action']?.[0] ?? 'failed').toLowerCase();
+        const statusCode = fields['status']?.[0]?.split(/\s/)[0];
+        const diagnosticCode = typedField(fields['diagnostic-code']?.[0]);
+        recipients.push({
+            recipient,
+            ...(fields['original-recipient'] ? { originalRecipient: addressField(fields['original-recipient'][0]) } : {}),
+            action,
+            ...(statusCode ? { status: statusCode } : {}),
+            ...(diagnosticCode ? { diagnosticCode } : {}),
+            bounceType: classifyBounce(statusCode, diagnosticCode, action),
+        });
+    }
+
+    return {
+        kind: 'dsn',
+        reportingMta: typedField(perMessage['reporting-mta']?.[0]),
+        arrivalDate: perMessage['arrival-date']?.[0],
+        originalMessageId: originalMessageId(message),
+        recipients,
+    };
+}
+
+/** Parse an ARF feedback report from its MIME tree. Returns null when it isn't one. */
+export function parseFeedbackReport(message: MimePart): FeedbackReport | null {
+    const feedback = findPart(message, 'message/feedback-report');
+    if (!feedback) return null;
+
+    const fields = parseHeaderBlock(feedback.body);
+    const original = (findPart(message, 'message/rfc822') ?? findPart(message, 'text/rfc822-headers'))?.parts[0];
+
+    return {
+        kind: 'arf',
+        feedbackType: (fields['feedback-type']?.[0] ?? 'other').toLowerCase(),
+        userAgent: fields['user-agent']?.[0],
+        recipient: addressField(fields['original-rcpt-to']?.[0]) ?? addressField(original?.headers['to']?.[0]),
+        originalMessageId: originalMessageId(message),
+        arrivalDate: fields['arrival-date']?.[0] ?? fields['received-date']?.[0],
+        reportedDomain: fields['reported-domain']?.[0],
+    };
+}
+
+/**
+ * Parse a raw bounce (DSN) or complaint (ARF) email.
+ * Returns null for anything else, e.g. auto-replies.
+ */
+export function parseEmailReport(raw: string): EmailReport | null {
+    const message = parseMime(raw);
+    return parseFeedbackReport(message) ?? parseDeliveryStatus(message);
+}
+
+/**
+ * Every form a provider message ID may have been stored in: as given,
+ * and with and without angle brackets.
+ */
+export function providerMessageIdVariants(...ids: Array<string | undefined>): string[] {
+    const variants = new Set<string>();
+    for (const id of ids) {
+        const bare = id?.trim().replace(/^<|>$/g, '');
+        if (!bare) continue;
+        variants.add(bare);
+        variants.add(`<${bare}>`);
+    }
+    return [...variants];
+}
@@ -4,11 +4,20 @@
  * All suppressions are stored in PostgreSQL for durability across
  * serverless cold starts. The public API remains identical to the
  * original in-memory version so callers require zero changes.
+ *
+ * Soft bounces suppress temporarily under the org's SuppressionPolicy:
+ * each soft bounce within the window multiplies the expiry, and the
+ * Nth one escalates to a permanent hard bounce. Every other reason is
+ * permanent, and a soft bounce never downgrades a permanent entry.
+ * Expired entries stay in place (keeping bounceCount) but no longer
+ * suppress. Every change is appended to email_suppression_events so
+ * support can see why an address was blocked and when it is released.
  * ═══════════════════════════════════════════════════════════════════════ */
 
 import { db } from '@/lib/db';
 import * as schema from '@/lib/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import type { SuppressionPolicy } from '@/lib/db/schema';
+import { eq, and, or, gt, gte, isNull, inArray, desc, sql } from 'drizzle-orm';
 
 /* ── Types ──────────────────────────────────────────────────────────── */
 
@@ -20,6 +29,8 @@ export type SuppressionReason =
     | 'manual_block'
     | 'invalid_address';
 
+export type { SuppressionPolicy };
+
 export interface SuppressionEntry {
     email: string;
     reason: SuppressionReason;
@@ -30,6 +41,17 @@ export interface SuppressionEntry {
     metadata?: Record<string, unknown>;
 }
 
+export interface SuppressionHistoryEntry {
+    action: 'added' | 'renewed' | 'escalated' | 'removed';
+    reason: SuppressionReason;
+    source: string;
+    bounceCount: number;
+    /** When the suppression lifts; absent = permanent */
+    expiresAt?: string;
+    metadata?: Record<string, unknown>;
+    at: string;
+}
+
 export interface SuppressionStats {
     total: number;
     hardBounces: number;
@@ -42,8 +64,16 @@ export interface SuppressionStats {
 
 /* ── Constants ──────────────────────────────────────────────────────── */
 
-const SOFT_BOUNCE_COOLDOWN_MS = 72 * 60 * 60 * 1000; // 72 hours
-const SOFT_BOUNCE_THRESHOLD = 3;
+export const DEFAULT_SUPPRESSION_POLICY: SuppressionPolicy = {
+    softBounceBaseHours: 72,
+    softBounceMultiplier: 2,
+    softBounceMaxHours: 30 * 24,
+    softBounceEscalationCount: 3,
+    softBounceWindowDays: 30,
+};
+
+/** Addresses per query when checking many at once */
+const SUPPRESSION_LOOKUP_CHUNK = 1000;
 
 function normalize(email: string): string {
     return email.trim().toLowerCase();
@@ -57,26 +87,77 @@ async function getOrgId(providedOrgId?: string): Promise<string> {
     );
 }
 
-/* ── Core Functions ─────────────────────────────────────────────────── */
+/** Entries without an expiry, or expiring in the future */
+function activeSuppression() {
+    return or(isNull(schema.emailSuppressions.expiresAt), gt(schema.emailSuppressions.expiresAt, new Date()));
+}
 
-export async function isSuppressed(email: string, providedOrgId?: string): Promise<boolean> {
-    const key = normalize(email);
+function isActive(entry: { expiresAt: Date | null }, now = new Date()): boolean {
+    return !entry.expiresAt || entry.expiresAt > now;
+}
+
+function toEntry(e: typeof schema.emailSuppressions.$inferSelect): SuppressionEntry {
+    return { email: e.email, reason: e.reason, addedAt: e.createdAt.toISOString(), expiresAt: e.expiresAt?.toISOString(), bounceCount: e.bounceCount, source: e.source, metadata: e.metadata ?? undefined };
+}
+
+/* ── Policy ─────────────────────────────────────────────────────────── */
+
+/** Fill unset policy fields with defaults and clamp them to sane ranges. */
+export function resolveSuppressionPolicy(policy?: Partial<SuppressionPolicy>): SuppressionPolicy {
+    const merged = { ...DEFAULT_SUPPRESSION_POLICY, ...policy };
+    const num = (value: unknown, fallback: number, min: number) =>
+        typeof value === 'number' && Number.isFinite(value) ? Math.max(min, value) : fallback;
+    const baseHours = num(merged.softBounceBaseHours, DEFAULT_SUPPRESSION_POLICY.softBounceBaseHours, 1);
+    return {
+        softBounceBaseHours: baseHours,
+        softBounceMultiplier: num(merged.softBounceMultiplier, DEFAULT_SUPPRESSION_POLICY.softBounceMultiplier, 1),
+        softBounceMaxHours: Math.max(baseHours, num(merged.softBounceMaxHours, DEFAULT_SUPPRESSION_POLICY.softBounceMaxHours, 1)),
+        softBounceEscalationCount: Math.round(num(merged.softBounceEscalationCount, DEFAULT_SUPPRESSION_POLICY.softBounceEscalationCount, 1)),
+        softBounceWindowDays: num(merged.softBounceWindowDays, DEFAULT_SUPPRESSION_POLICY.softBounceWindowDays, 1),
+    };
+}
+
+/**
+ * What the `softBounces`-th soft bounce within the policy window does:
+ * a temporary suppression with exponential expiry, or escalation to a
+ * permanent hard bounce once the escalation count is reached.
+ */
+export function planSoftBounce(
+    policy: SuppressionPolicy,
+    softBounces: number,
+    now: Date = new Date(),
+): { reason: 'soft_bounce'; expiresAt: Date } | { reason: 'hard_bounce'; expiresAt: null } {
+    if (softBounces >= policy.softBounceEscalationCount) return { reason: 'hard_bounce', expiresAt: null };
+    const hours = Math.min(
+        policy.softBounceBaseHours * policy.softBounceMultiplier ** Math.max(0, softBounces - 1),
+        policy.softBounceMaxHours,
+    );
+    return { reason: 'soft_bounce', expiresAt: new Date(now.getTime() + hours * 3_600_000) };
+}
+
+export async function getSuppressionPolicy(providedOrgId?: string): Promise<SuppressionPolicy> {
     const orgId = await getOrgId(providedOrgId);
-    if (!orgId) return false;
+    const [org] = await db.select({ emailSettings: schema.organizations.emailSettings })
+        .from(schema.organizations).where(eq(schema.organizations.id, orgId)).limit(1);
+    return resolveSuppressionPolicy(org?.emailSettings?.suppressionPolicy);
+}
 
-    const [entry] = await db.select().from(schema.emailSuppressions)
-        .where(and(eq(schema.emailSuppressions.organizationId, orgId), eq(schema.emailSuppressions.email, key)))
-        .limit(1);
+/** Update the org's policy; unset fields keep their current values. */
+export async function updateSuppressionPolicy(updates: Partial<SuppressionPolicy>, providedOrgId?: string): Promise<SuppressionPolicy> {
+    const orgId = await getOrgId(providedOrgId);
+    const [org] = await db.select({ emailSettings: schema.organizations.emailSettings })
+        .from(schema.organizations).where(eq(schema.organizations.id, orgId)).limit(1);
+    const policy = resolveSuppressionPolicy({ ...org?.emailSettings?.suppressionPolicy, ...updates });
+    await db.update(schema.organizations)
+        .set({ emailSettings: { ...org?.emailSettings, suppressionPolicy: policy }, updatedAt: new Date() })
+        .where(eq(schema.organizations.id, orgId));
+    return policy;
+}
 
-    if (!entry) return false;
+/* ── Core Functions ─────────────────────────────────────────────────── */
 
-    if (entry.reason === 'soft_bounce' && entry.expiresAt) {
-        if (new Date(entry.expiresAt) < new Date()) {
-            await db.delete(schema.emailSuppressions).where(eq(schema.emailSuppressions.id, entry.id));
-            return false;
-        }
-    }
-    return true;
+export async function isSuppressed(email: string, providedOrgId?: string): Promise<boolean> {
+    return (await getSuppressionEntry(email, providedOrgId)) !== null;
 }
 
 export async function getSuppressionEntry(email: string, providedOrgId?: string): Promise<SuppressionEntry | null> {
@@ -85,38 +166,70 @@ export async function getSuppressionEntry(email: string, providedOrgId?: string)
     if (!orgId) return null;
 
     const [entry] = await db.select().from(schema.emailSuppressions)
-        .where(and(eq(schema.emailSuppressions.organizationId, orgId), eq(schema.emailSuppressions.email, key)))
+        .where(and(eq(schema.emailSuppressions.organizationId, orgId), eq(schema.emailSuppressions.email, key), activeSuppression()))
         .limit(1);
 
-    if (!entry) return null;
-    if (entry.reason === 'soft_bounce' && entry.expiresAt && new Date(entry.expiresAt) < new Date()) {
-        await db.delete(schema.emailSuppressions).where(eq(schema.emailSuppressions.id, entry.id));
-        return null;
-    }
+    return entry ? toEntry(entry) : null;
+}
 
-    return { email: entry.email, reason: entry.reason, addedAt: entry.createdAt.toISOString(), expiresAt: entry.expiresAt?.toISOString(), bounceCount: entry.bounceCount, source: entry.source, metadata: entry.metadata ?? undefined };
+/** Soft bounces recorded for an address since `since` */
+async function countRecentSoftBounces(orgId: string, email: string, since: Date): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(schema.emailSuppressionEvents)
+        .where(and(
+            eq(schema.emailSuppressionEvents.organizationId, orgId),
+            eq(schema.emailSuppressionEvents.email, email),
+            eq(schema.emailSuppressionEvents.reason, 'soft_bounce'),
+            inArray(schema.emailSuppressionEvents.action, ['added', 'renewed']),
+            gte(schema.emailSuppressionEvents.createdAt, since),
+        ));
+    return row?.count ?? 0;
 }
 
 export async function addSuppression(email: string, reason: SuppressionReason, source: string, metadata?: Record<string, unknown>, providedOrgId?: string): Promise<SuppressionEntry> {
     const key = normalize(email);
     const orgId = await getOrgId(providedOrgId);
+    const now = new Date();
 
     const [existing] = await db.select().from(schema.emailSuppressions)
         .where(and(eq(schema.emailSuppressions.organizationId, orgId), eq(schema.emailSuppressions.email, key)))
         .limit(1);
 
     const bounceCount = (existing?.bounceCount ?? 0) + (reason.includes('bounce') ? 1 : 0);
-    const effectiveReason: SuppressionReason = reason === 'soft_bounce' && bounceCount >= SOFT_BOUNCE_THRESHOLD ? 'hard_bounce' : reason;
-    const expiresAt = effectiveReason === 'soft_bounce' ? new Date(Date.now() + SOFT_BOUNCE_COOLDOWN_MS) : null;
+    const existingActive = existing && isActive(existing, now) ? existing : undefined;
+
+    // A soft bounce never downgrades a permanent suppression - it only counts
+    const kept = reason === 'soft_bounce' && existingActive && existingActive.reason !== 'soft_bounce' ? existingActive : undefined;
+
+    let effectiveReason: SuppressionReason = kept?.reason ?? reason;
+    let expiresAt: Date | null = kept?.expiresAt ?? null;
+    let action: SuppressionHistoryEntry['action'] = existingActive ? 'renewed' : 'added';
+
+    if (reason === 'soft_bounce' && !kept) {
+        const policy = await getSuppressionPolicy(orgId);
+        const since = new Date(now.getTime() - policy.softBounceWindowDays * 86_400_000);
+        const plan = planSoftBounce(policy, (await countRecentSoftBounces(orgId, key, since)) + 1, now);
+        effectiveReason = plan.reason;
+        expiresAt = plan.expiresAt;
+        if (plan.reason === 'hard_bounce') action = 'escalated';
+    }
+
+    const entrySource = kept?.source ?? source;
+    const entryMetadata = kept ? kept.metadata : metadata ?? null;
 
-    const [result] = await db.insert(schema.emailSuppressions).values({
-        organizationId: orgId, email: key, reason: effectiveReason, source, bounceCount, expiresAt, metadata: metadata ?? null,
-    }).onConflictDoUpdate({
-        target: [schema.emailSuppressions.organizationId, schema.emailSuppressions.email],
-        set: { reason: effectiveReason, source, bounceCount, expiresAt, metadata: metadata ?? null, updatedAt: new Date() },
-    }).returning();
+    const [[result]] = await db.batch([
+        db.insert(schema.emailSuppressions).values({
+            organizationId: orgId, email: key, reason: effectiveReason, source: entrySource, bounceCount, expiresAt, metadata: entryMetadata,
+        }).onConflictDoUpdate({
+            target: [schema.emailSuppressions.organizationId, schema.emailSuppressions.email],
+            set: { reason: effectiveReason, source: entrySource, bounceCount, expiresAt, metadata: entryMetadata, updatedAt: now },
+        }).returning(),
+        db.insert(schema.emailSuppressionEvents).values({
+            organizationId: orgId, email: key, action, reason: effectiveReason, source, bounceCount, expiresAt,
+            metadata: { ...metadata, ...(effectiveReason !== reason ? { requestedReason: reason } : {}) },
+        }),
+    ]);
 
-    return { email: key, reason: effectiveReason, addedAt: result.createdAt.toISOString(), expiresAt: result.expiresAt?.toISOString(), bounceCount, source, metadata };
+    return toEntry(result);
 }
 
 export async function recordBounce(email: string, bounceType: 'hard' | 'soft' | 'undetermined', diagnosticCode?: string, source = 'bounce_processor', providedOrgId?: string): Promise<SuppressionEntry> {
@@ -131,27 +244,60 @@ export async function recordUnsubscribe(email: string, source = 'unsubscribe_lin
     return addSuppression(email, 'unsubscribe', source, { campaignId }, providedOrgId);
 }
 
-export async function removeSuppression(email: string, providedOrgId?: string): Promise<boolean> {
+export async function removeSuppression(email: string, providedOrgId?: string, source = 'manual'): Promise<boolean> {
     const key = normalize(email);
     const orgId = await getOrgId(providedOrgId);
     const result = await db.delete(schema.emailSuppressions)
         .where(and(eq(schema.emailSuppressions.organizationId, orgId), eq(schema.emailSuppressions.email, key)))
         .returning();
-    return result.length > 0;
+    if (result.length === 0) return false;
+
+    await db.insert(schema.emailSuppressionEvents).values({
+        organizationId: orgId, email: key, action: 'removed', reason: result[0].reason, source, bounceCount: result[0].bounceCount,
+    });
+    return true;
+}
+
+/** Audit history of an address, newest first. */
+export async function getSuppressionHistory(email: string, providedOrgId?: string, limit = 100): Promise<SuppressionHistoryEntry[]> {
+    const orgId = await getOrgId(providedOrgId);
+    const rows = await db.select().from(schema.emailSuppressionEvents)
+        .where(and(eq(schema.emailSuppressionEvents.organizationId, orgId), eq(schema.emailSuppressionEvents.email, normalize(email))))
+        .orderBy(desc(schema.emailSuppressionEvents.createdAt))
+        .limit(limit);
+    return rows.map((r) => ({
+        action: r.action,
+        reason: r.reason,
+        source: r.source,
+        bounceCount: r.bounceCount,
+        ...(r.expiresAt ? { expiresAt: r.expiresAt.toISOString() } : {}),
+        ...(r.metadata && Object.keys(r.metadata).length ? { metadata: r.metadata } : {}),
+        at: r.createdAt.toISOString(),
+    }));
 }
 
+/** The addresses that are not suppressed, in input order (one query per chunk) */
 export async function filterSuppressed(emails: string[], providedOrgId?: string): Promise<string[]> {
-    const results: string[] = [];
-    for (const email of emails) {
-        if (!(await isSuppressed(email, providedOrgId))) results.push(email);
+    const orgId = await getOrgId(providedOrgId);
+    const keys = [...new Set(emails.map(normalize))];
+    const suppressed = new Set<string>();
+    for (let i = 0; i < keys.length; i += SUPPRESSION_LOOKUP_CHUNK) {
+        const rows = await db.select({ email: schema.emailSuppressions.email }).from(schema.emailSuppressions)
+            .where(and(
+                eq(schema.emailSuppressions.organizationId, orgId),
+                inArray(schema.emailSuppressions.email, keys.slice(i, i + SUPPRESSION_LOOKUP_CHUNK)),
+                activeSuppression(),
+            ));
+        for (const row of rows) suppressed.add(row.email);
     }
-    return results;
+    return emails.filter((email) => !suppressed.has(normalize(email)));
 }
 
 export async function getAllSuppressions(providedOrgId?: string): Promise<SuppressionEntry[]> {
     const orgId = await getOrgId(providedOrgId);
-    const entries = await db.select().from(schema.emailSuppressions).where(eq(schema.emailSuppressions.organizationId, orgId));
-    return entries.map((e) => ({ email: e.email, reason: e.reason, addedAt: e.createdAt.toISOString(), expiresAt: e.expiresAt?.toISOString(), bounceCount: e.bounceCount, source: e.source, metadata: e.metadata ?? undefined }));
+    const entries = await db.select().from(schema.emailSuppressions)
+        .where(and(eq(schema.emailSuppressions.organizationId, orgId), activeSuppression()));
+    return entries.map(toEntry);
 }
 
 export async function getSuppressionStats(providedOrgId?: string): Promise<SuppressionStats> {
@@ -164,7 +310,7 @@ export async function getSuppressionStats(providedOrgId?: string): Promise<Suppr
         unsubscribes: sql<number>`count(*) filter (where ${schema.emailSuppressions.reason} = 'unsubscribe')::int`,
         manualBlocks: sql<number>`count(*) filter (where ${schema.emailSuppressions.reason} = 'manual_block')::int`,
         invalidAddresses: sql<number>`count(*) filter (where ${schema.emailSuppressions.reason} = 'invalid_address')::int`,
-    }).from(schema.emailSuppressions).where(eq(schema.emailSuppressions.organizationId, orgId));
+    }).from(schema.emailSuppressions).where(and(eq(schema.emailSuppressions.organizationId, orgId), activeSuppression()));
     return result ?? { total: 0, hardBounces: 0, softBounces: 0, complaints: 0, unsubscribes: 0, manualBlocks: 0, invalidAddresses: 0 };
 }
 
@@ -8,7 +8,7 @@
 import { createHmac, createHash, randomBytes } from 'crypto';
 import { db } from '@/lib/db';
 import * as schema from '@/lib/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq, and, inArray, sql } from 'drizzle-orm';
 
 /* ── Types ──────────────────────────────────────────────────────────── */
 
@@ -20,9 +20,29 @@ export interface TrackingEvent {
     timestamp: string;
     recipientEmail: string;
     campaignId?: string;
+    /** Flow email context; its orgId is used when there is no campaign */
+    flow?: FlowTrackingContext;
     metadata?: Record<string, unknown>;
 }
 
+/** Identifies the flow step that sent an email (carried in tracking tokens). */
+export interface FlowTrackingContext {
+    orgId: string;
+    flowId: string;
+    nodeId: string;
+    enrollmentId: string;
+}
+
+/** Engagement with the emails sent by one flow step */
+export interface FlowEmailEngagement {
+    nodeId: string;
+    sent: number;
+    /** Messages opened at least once */
+    opens: number;
+    /** Messages clicked at least once */
+    clicks: number;
+}
+
 export interface TrackingStats {
     totalOpens: number;
     uniqueOpens: number;
@@ -172,6 +192,7 @@ export function generateTrackingToken(data: {
     messageId: string;
     email: string;
     campaignId?: string;
+    flow?: FlowTrackingContext;
     type: 'open' | 'click' | 'unsub';
     url?: string;
 }): string {
@@ -189,6 +210,7 @@ export function verifyTrackingToken(token: string): {
     messageId: string;
     email: string;
     campaignId?: string;
+    flow?: FlowTrackingContext;
     type: 'open' | 'click' | 'unsub';
     url?: string;
 } | null {
@@ -219,18 +241,18 @@ export function verifyTrackingToken(token: string): {
  * URL Generation
  * ═══════════════════════════════════════════════════════════════════════ */
 
-export function getOpenTrackingPixelUrl(messageId: string, email: string, campaignId?: string): string {
-    const token = generateTrackingToken({ messageId, email, campaignId, type: 'open' });
+export function getOpenTrackingPixelUrl(messageId: string, email: string, campaignId?: string, flow?: FlowTrackingContext): string {
+    const token = generateTrackingToken({ messageId, email, campaignId, flow, type: 'open' });
     return `${APP_URL()}/api/v1/email/track?t=${token}`;
 }
 
-export function getClickTrackingUrl(messageId: string, email: string, originalUrl: string, campaignId?: string): string {
-    const token = generateTrackingToken({ messageId, email, campaignId, type: 'click', url: originalUrl });
+export function getClickTrackingUrl(messageId: string, email: string, originalUrl: string, campaignId?: string, flow?: FlowTrackingContext): string {
+    const token = generateTrackingToken({ messageId, email, campaignId, flow, type: 'click', url: originalUrl });
     return `${APP_URL()}/api/v1/email/track?t=${token}`;
 }
 
-export function getUnsubscribeUrl(messageId: string, email: string, campaignId?: string): string {
-    const token = generateTrackingToken({ messageId, email, campaignId, type: 'unsub' });
+export function getUnsubscribeUrl(messageId: string, email: string, campaignId?: string, flow?: FlowTrackingContext): string {
+    const token = generateTrackingToken({ messageId, email, campaignId, flow, type: 'unsub' });
     return `${APP_URL()}/api/v1/email/unsubscribe?t=${token}`;
 }
 
@@ -238,7 +260,7 @@ export function getUnsubscribeUrl(messageId: string, email: string, campaignId?:
  * HTML Injection
  * ═══════════════════════════════════════════════════════════════════════ */
 
-export function injectTracking(html: string, messageId: string, email: string, campaignId?: string): string {
+export function injectTracking(html: string, messageId: string, email: string, campaignId?: string, flow?: FlowTrackingContext): string {
     let tracked = html;
 
     tracked = tracked.replace(
@@ -247,12 +269,12 @@ export function injectTracking(html: string, messageId: string, email: string, c
             if (url.startsWith('mailto:') || url.startsWith('tel:') || url.includes('/api/v1/email/track') || url.startsWith('#')) {
                 return `<a ${pre}href="${url}"${post}>`;
             }
-            const trackUrl = getClickTrackingUrl(messageId, email, url, campaignId);
+            const trackUrl = getClickTrackingUrl(messageId, email, url, campaignId, flow);
             return `<a ${pre}href="${trackUrl}"${post}>`;
         },
     );
 
-    const pixelUrl = getOpenTrackingPixelUrl(messageId, email, campaignId);
+    const pixelUrl = getOpenTrackingPixelUrl(messageId, email, campaignId, flow);
     const pixelTag = `<img src="${pixelUrl}" width="1" height="1" alt="" style="display:none;border:0;" />`;
 
     if (tracked.includes('</body>')) {
@@ -262,7 +284,7 @@ export function injectTracking(html: string, messageId: string, email: string, c
     }
 
     if (!tracked.includes('unsubscribe') && !tracked.includes('Unsubscribe')) {
-        const unsubUrl = getUnsubscribeUrl(messageId, email, campaignId);
+        const unsubUrl = getUnsubscribeUrl(messageId, email, campaignId, flow);
         const footer = `\n<div style="margin-top:32px;padding-top:16px;border-top:1px solid #e5e7eb;text-align:center;font-size:12px;color:#9ca3af;">\n  <a href="${unsubUrl}" style="color:#9ca3af;text-decoration:underline;">Unsubscribe</a>\n</div>`;
         if (tracked.includes('</body>')) {
             tracked = tracked.replace('</body>', `${footer}</body>`);
@@ -279,8 +301,8 @@ export function injectTracking(html: string, messageId: string, email: string, c
  * ═══════════════════════════════════════════════════════════════════════ */
 
 export async function recordTrackingEvent(event: TrackingEvent): Promise<void> {
-    // Resolve orgId from campaign (for public tracking endpoints)
-    const orgId = await resolveOrgIdFromCampaign(event.campaignId);
+    // Resolve orgId from the flow context or campaign (for public tracking endpoints)
+    const orgId = event.flow?.orgId ?? await resolveOrgIdFromCampaign(event.campaignId);
     if (!orgId) {
         console.warn(`[tracking] Could not resolve orgId for tracking event (campaign: ${event.campaignId}). Event dropped.`);
         return;
@@ -293,6 +315,9 @@ export async function recordTrackingEvent(event: TrackingEvent): Promise<void> {
             type: event.type,
             recipientEmail: event.recipientEmail,
             campaignId: event.campaignId ?? null,
+            flowId: event.flow?.flowId ?? null,
+            flowNodeId: event.flow?.nodeId ?? null,
+            enrollmentId: event.flow?.enrollmentId ?? null,
             metadata: event.metadata ?? null,
         });
     } catch (err) {
@@ -332,6 +357,92 @@ export async function getMessageTrackingStats(messageId: string, providedOrgId?:
     return result ?? { totalOpens: 0, uniqueOpens: 0, totalClicks: 0, uniqueClicks: 0, unsubscribes: 0 };
 }
 
+/**
+ * Count tracking events of one type recorded for a flow enrollment (any of
+ * its emails, or those sent by `nodeIds`). Lets callers tell a first
+ * open/click from repeats.
+ */
+export async function countEnrollmentTrackingEvents(
+    orgId: string,
+    enrollmentId: string,
+    type: TrackingEventType,
+    nodeIds?: string[],
+): Promise<number> {
+    if (nodeIds && nodeIds.length === 0) return 0;
+    const [row] = await db.select({ total: sql<number>`count(*)::int` })
+        .from(schema.emailTrackingEvents)
+        .where(and(
+            eq(schema.emailTrackingEvents.organizationId, orgId),
+            eq(schema.emailTrackingEvents.type, type),
+            eq(schema.emailTrackingEvents.enrollmentId, enrollmentId),
+            nodeIds ? inArray(schema.emailTrackingEvents.flowNodeId, nodeIds) : undefined,
+        ));
+    return row?.total ?? 0;
+}
+
+/**
+ * Count tracking events of one type recorded for a single message. Lets
+ * callers tell the first open/click of an email from repeats.
+ */
+export async function countMessageTrackingEvents(
+    orgId: string,
+    messageId: string,
+    type: TrackingEventType,
+): Promise<number> {
+    const [row] = await db.select({ total: sql<number>`count(*)::int` })
+        .from(schema.emailTrackingEvents)
+        .where(and(
+            eq(schema.emailTrackingEvents.organizationId, orgId),
+            eq(schema.emailTrackingEvents.type, type),
+            eq(schema.emailTrackingEvents.messageId, messageId),
+        ));
+    return row?.total ?? 0;
+}
+
+/**
+ * Sends and unique (per-message) opens and clicks for each send_email
+ * step of a flow.
+ */
+export async function getFlowEmailEngagement(orgId: string, flowId: string): Promise<FlowEmailEngagement[]> {
+    const [sends, engagement] = await Promise.all([
+        db.select({
+            nodeId: schema.emailQueue.flowNodeId,
+            sent: sql<number>`count(*)::int`,
+        }).from(schema.emailQueue)
+            .where(and(
+                eq(schema.emailQueue.organizationId, orgId),
+                eq(schema.emailQueue.flowId, flowId),
+                eq(schema.emailQueue.status, 'sent'),
+            ))
+            .groupBy(schema.emailQueue.flowNodeId),
+        db.select({
+            nodeId: schema.emailTrackingEvents.flowNodeId,
+            opens: sql<number>`count(distinct ${schema.emailTrackingEvents.messageId}) filter (where ${schema.emailTrackingEvents.type} = 'open')::int`,
+            clicks: sql<number>`count(distinct ${schema.emailTrackingEvents.messageId}) filter (where ${schema.emailTrackingEvents.type} = 'click')::int`,
+        }).from(schema.emailTrackingEvents)
+            .where(and(
+                eq(schema.emailTrackingEvents.organizationId, orgId),
+                eq(schema.emailTrackingEvents.flowId, flowId),
+            ))
+            .groupBy(schema.emailTrackingEvents.flowNodeId),
+    ]);
+
+    const byNode = new Map<string, FlowEmailEngagement>();
+    const entry = (nodeId: string) => {
+        let e = byNode.get(nodeId);
+        if (!e) byNode.set(nodeId, e = { nodeId, sent: 0, opens: 0, clicks: 0 });
+        return e;
+    };
+    for (const row of sends) if (row.nodeId) entry(row.nodeId).sent = row.sent;
+    for (const row of engagement) {
+        if (!row.nodeId) continue;
+        const e = entry(row.nodeId);
+        e.opens = row.opens;
+        e.clicks = row.clicks;
+    }
+    return [...byNode.values()];
+}
+
 export async function getTrackingEvents(limit = 100, offset = 0, providedOrgId?: string): Promise<TrackingEvent[]> {
     if (!providedOrgId) return [];
     const orgId = providedOrgId;
@@ -345,7 +456,7 @@ export async function getTrackingEvents(limit = 100, offset = 0, providedOrgId?:
     return events.map((e) => ({ messageId: e.messageId, type: e.type, timestamp: e.createdAt.toISOString(), recipientEmail: e.recipientEmail, campaignId: e.campaignId ?? undefined, metadata: e.metadata ?? undefined }));
 }
 
-export function getUnsubscribeHeaders(messageId: string, email: string, campaignId?: string): Record<string, string> {
-    const unsubUrl = getUnsubscribeUrl(messageId, email, campaignId);
+export function getUnsubscribeHeaders(messageId: string, email: string, campaignId?: string, flow?: FlowTrackingContext): Record<string, string> {
+    const unsubUrl = getUnsubscribeUrl(messageId, email, campaignId, flow);
     return { 'List-Unsubscribe': `<${unsubUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' };
 }
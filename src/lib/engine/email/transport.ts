@@ -10,6 +10,9 @@
  *   • Health checks (SMTP NOOP)
  *   • Graceful shutdown
  *
+ * SMTP is one of several transports; the HTTP API providers and provider
+ * selection / failover live in providers.ts.
+ *
  * Multi-Tenant ESP Architecture:
  *   Our platform authenticates to SES with its own SMTP credentials.
  *   Customer domains are registered as SES email identities (via ses-identity.ts).
@@ -87,8 +90,9 @@ function loadConfig(): TransportConfig {
     const dkimSelector = process.env.DKIM_SELECTOR ?? 'lifecycleos';
     const dkimKey = process.env.DKIM_PRIVATE_KEY;
 
-    if (process.env.NODE_ENV === 'production' && !host) {
-        throw new Error('SMTP_HOST must be configured in production');
+    // An HTTP API provider (EMAIL_PROVIDER) may stand in for SMTP
+    if (process.env.NODE_ENV === 'production' && !host && !process.env.EMAIL_PROVIDER) {
+        throw new Error('SMTP_HOST or EMAIL_PROVIDER must be configured in production');
     }
 
     return {
@@ -174,8 +178,9 @@ export function getTransportConfig(): TransportConfig {
 
 /**
  * Health-check the SMTP connection (sends NOOP command).
+ * Other providers are checked through checkTransportHealth() in providers.ts.
  */
-export async function checkTransportHealth(): Promise<TransportHealth> {
+export async function checkSmtpHealth(): Promise<TransportHealth> {
     const transport = getTransport();
 
     if (!transport) {
@@ -0,0 +1,403 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Email Warm-up - Daily Send Caps for New Sending Domains
+ *
+ * Mailbox providers distrust sudden volume from a domain they have not
+ * seen before. A warm-up plan caps how much an org sends from a new
+ * sending domain per (UTC) day, ramping the cap up phase by phase:
+ *
+ *   phase   0    1    2    3     4     5     6     7      8      9
+ *   cap/day 50   100  250  500   1k    2.5k  5k    10k    25k    50k
+ *
+ * Every day the scheduler evaluates each plan against the domain's
+ * deliverability rollup (deliverability.ts) since the phase began:
+ *   • rollback   bounce or complaint rate over the rollback threshold →
+ *                back one phase
+ *   • hold       over the hold threshold → the phase starts over
+ *   • advance    the phase lasted phaseDays and sent at least one full
+ *                day's cap → next phase; past the last phase the plan
+ *                completes and the domain is no longer capped
+ *
+ * The queue reserves a slot before each send; over-cap email is deferred
+ * to the next day. Critical email (password resets, receipts) is counted
+ * but never deferred.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { db } from '@/lib/db';
+import * as schema from '@/lib/db/schema';
+import { and, eq, gte, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import type { WarmupDecision } from '@/lib/db/schema';
+import type { EmailPriority } from './queue';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export type WarmupPlan = typeof schema.emailWarmupPlans.$inferSelect;
+
+export interface WarmupThresholds {
+    holdBounceRate: number;
+    holdComplaintRate: number;
+    rollbackBounceRate: number;
+    rollbackComplaintRate: number;
+    /** Fewer sends than this are too few to judge rates on */
+    minSample: number;
+}
+
+export interface WarmupMetrics {
+    sent: number;
+    delivered: number;
+    bounced: number;
+    spam: number;
+}
+
+export interface WarmupPlanStatus {
+    id: string;
+    domain: string;
+    status: WarmupPlan['status'];
+    /** 1-based, for display */
+    phase: number;
+    totalPhases: number;
+    dailyCap: number;
+    sentToday: number;
+    phaseStartedOn: string;
+    startedAt: string;
+    estimatedCompletionOn: string | null;
+    lastDecision: WarmupDecision | null;
+}
+
+export interface WarmupEvaluationSummary {
+    evaluated: number;
+    advanced: number;
+    held: number;
+    rolledBack: number;
+    completed: number;
+}
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+export const DEFAULT_WARMUP_SCHEDULE = [50, 100, 250, 500, 1000, 2500, 5000, 10_000, 25_000, 50_000];
+export const DEFAULT_WARMUP_PHASE_DAYS = 2;
+
+export const DEFAULT_WARMUP_THRESHOLDS: WarmupThresholds = {
+    holdBounceRate: 0.02,
+    holdComplaintRate: 0.001,
+    rollbackBounceRate: 0.05,
+    rollbackComplaintRate: 0.003,
+    minSample: 100,
+};
+
+const ACTIVE_STATUSES: Array<WarmupPlan['status']> = ['warming', 'held'];
+
+/** How long the set of warming domains is cached per org */
+const ACTIVE_PLANS_TTL_MS = 60_000;
+
+/* ── Runtime State ──────────────────────────────────────────────────── */
+
+const runtimeKey = '__lifecycleos_email_warmup_runtime__';
+
+interface RuntimeState {
+    /** Warming domains by org */
+    activeDomains: Map<string, { domains: Set<string>; fetchedAt: number }>;
+}
+
+function getRuntime(): RuntimeState {
+    const g = globalThis as unknown as Record<string, RuntimeState>;
+    if (!g[runtimeKey]) {
+        g[runtimeKey] = { activeDomains: new Map() };
+    }
+    return g[runtimeKey];
+}
+
+/* ── Dates ──────────────────────────────────────────────────────────── */
+
+/** UTC calendar day, "2026-02-24" */
+export function utcDay(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function addDays(day: string, days: number): string {
+    return utcDay(new Date(Date.parse(`${day}T00:00:00Z`) + days * 86_400_000));
+}
+
+/**
+ * Delay until an over-cap email may be retried: the next UTC midnight,
+ * plus up to 30 minutes of jitter so deferred mail doesn't all go at once.
+ */
+export function msUntilNextWarmupDay(now: Date = new Date()): number {
+    const midnight = Date.parse(`${addDays(utcDay(now), 1)}T00:00:00Z`);
+    return midnight - now.getTime() + Math.floor(Math.random() * 30 * 60_000);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Phase Evaluation (pure)
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+function percent(rate: number): string {
+    return `${(rate * 100).toFixed(2)}%`;
+}
+
+/**
+ * Decide a plan's next step on `today` from the metrics sent since its
+ * phase began.
+ */
+export function planWarmupStep(
+    plan: Pick<WarmupPlan, 'phase' | 'schedule' | 'phaseDays' | 'phaseStartedOn' | 'phaseSent' | 'dailyCap'>,
+    metrics: WarmupMetrics,
+    today: string,
+    thresholds: WarmupThresholds = DEFAULT_WARMUP_THRESHOLDS,
+): WarmupDecision {
+    const decide = (action: WarmupDecision['action'], reason: string, phase = plan.phase): WarmupDecision =>
+        ({ action, reason, date: today, phase });
+
+    if (metrics.sent >= thresholds.minSample) {
+        const bounceRate = metrics.bounced / metrics.sent;
+        const complaintRate = metrics.delivered > 0 ? metrics.spam / metrics.delivered : 0;
+
+        if (bounceRate >= thresholds.rollbackBounceRate || complaintRate >= thresholds.rollbackComplaintRate) {
+            return decide('rollback', `Bounce rate ${percent(bounceRate)}, complaint rate ${percent(complaintRate)}`, Math.max(0, plan.phase - 1));
+        }
+        if (bounceRate >= thresholds.holdBounceRate || complaintRate >= thresholds.holdComplaintRate) {
+            return decide('hold', `Bounce rate ${percent(bounceRate)}, complaint rate ${percent(complaintRate)}`);
+        }
+    }
+
+    const days = daysBetween(plan.phaseStartedOn, today);
+    if (days < plan.phaseDays) return decide('none', `Day ${days + 1} of ${plan.phaseDays} in phase`);
+    if (plan.phaseSent < plan.dailyCap) {
+        return decide('none', `Phase volume ${plan.phaseSent} below one day's cap (${plan.dailyCap})`);
+    }
+    if (plan.phase + 1 >= plan.schedule.length) return decide('complete', 'Final phase completed', plan.phase);
+    return decide('advance', `Phase ${plan.phase + 1} completed within thresholds`, plan.phase + 1);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Plans
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+function toStatus(plan: WarmupPlan, today: string): WarmupPlanStatus {
+    const remainingPhases = plan.schedule.length - plan.phase;
+    return {
+        id: plan.id,
+        domain: plan.domain,
+        status: plan.status,
+        phase: Math.min(plan.phase + 1, plan.schedule.length),
+        totalPhases: plan.schedule.length,
+        dailyCap: plan.dailyCap,
+        sentToday: plan.sentOn === today ? plan.sentToday : 0,
+        phaseStartedOn: plan.phaseStartedOn,
+        startedAt: plan.startedAt.toISOString(),
+        estimatedCompletionOn: plan.status === 'completed'
+            ? null
+            : addDays(plan.phaseStartedOn, remainingPhases * plan.phaseDays),
+        lastDecision: plan.lastDecision ?? null,
+    };
+}
+
+/**
+ * Start (or restart from phase 1) warm-up for a sending domain.
+ * Caps must be positive; they are sorted ascending.
+ */
+export async function startWarmupPlan(
+    orgId: string,
+    domain: string,
+    options: { schedule?: number[]; phaseDays?: number } = {},
+): Promise<WarmupPlanStatus> {
+    const schedule = [...(options.schedule ?? DEFAULT_WARMUP_SCHEDULE)]
+        .filter((cap) => Number.isFinite(cap) && cap > 0)
+        .map(Math.floor)
+        .sort((a, b) => a - b);
+    if (schedule.length === 0) throw new Error('Warm-up schedule needs at least one positive daily cap');
+    const phaseDays = Math.max(1, Math.floor(options.phaseDays ?? DEFAULT_WARMUP_PHASE_DAYS));
+    const today = utcDay();
+
+    const fresh = {
+        status: 'warming' as const,
+        schedule,
+        phaseDays,
+        phase: 0,
+        dailyCap: schedule[0],
+        phaseStartedOn: today,
+        phaseSent: 0,
+        lastEvaluatedOn: null,
+        lastDecision: null,
+        startedAt: new Date(),
+        completedAt: null,
+        updatedAt: new Date(),
+    };
+    const [plan] = await db.insert(schema.emailWarmupPlans)
+        .values({ organizationId: orgId, domain: domain.toLowerCase(), ...fresh })
+        .onConflictDoUpdate({
+            target: [schema.emailWarmupPlans.organizationId, schema.emailWarmupPlans.domain],
+            set: fresh,
+        })
+        .returning();
+
+    getRuntime().activeDomains.delete(orgId);
+    return toStatus(plan, today);
+}
+
+/** End warm-up early: the domain is no longer capped. */
+export async function completeWarmupPlan(orgId: string, domain: string): Promise<boolean> {
+    const ended = await db.update(schema.emailWarmupPlans)
+        .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+            eq(schema.emailWarmupPlans.organizationId, orgId),
+            eq(schema.emailWarmupPlans.domain, domain.toLowerCase()),
+            inArray(schema.emailWarmupPlans.status, ACTIVE_STATUSES),
+        ))
+        .returning({ id: schema.emailWarmupPlans.id });
+
+    getRuntime().activeDomains.delete(orgId);
+    return ended.length > 0;
+}
+
+export async function getWarmupPlans(orgId: string): Promise<WarmupPlanStatus[]> {
+    const plans = await db.select().from(schema.emailWarmupPlans)
+        .where(eq(schema.emailWarmupPlans.organizationId, orgId))
+        .orderBy(schema.emailWarmupPlans.startedAt);
+    const today = utcDay();
+    return plans.map((plan) => toStatus(plan, today));
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Daily Caps
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+async function getWarmingDomains(orgId: string): Promise<Set<string>> {
+    const rt = getRuntime();
+    const cached = rt.activeDomains.get(orgId);
+    if (cached && Date.now() - cached.fetchedAt < ACTIVE_PLANS_TTL_MS) return cached.domains;
+
+    const rows = await db.select({ domain: schema.emailWarmupPlans.domain })
+        .from(schema.emailWarmupPlans)
+        .where(and(
+            eq(schema.emailWarmupPlans.organizationId, orgId),
+            inArray(schema.emailWarmupPlans.status, ACTIVE_STATUSES),
+        ));
+    const domains = new Set(rows.map((r) => r.domain));
+    rt.activeDomains.set(orgId, { domains, fetchedAt: Date.now() });
+    return domains;
+}
+
+/**
+ * Count one send from `sendingDomain` against today's warm-up cap.
+ * Returns false when the cap is reached and the email should wait for
+ * tomorrow. Domains without an active plan are never capped. The check
+ * and the increment are one conditional UPDATE, so concurrent workers
+ * cannot overshoot the cap.
+ */
+export async function reserveWarmupSlot(orgId: string, sendingDomain: string, priority: EmailPriority = 'normal'): Promise<boolean> {
+    const domain = sendingDomain.toLowerCase();
+    if (!(await getWarmingDomains(orgId)).has(domain)) return true;
+
+    const t = schema.emailWarmupPlans;
+    const today = utcDay();
+    const newDay = sql`${t.sentOn} is distinct from ${today}`;
+    const reserved = await db.update(t)
+        .set({
+            sentToday: sql`case when ${newDay} then 1 else ${t.sentToday} + 1 end`,
+            sentOn: today,
+            phaseSent: sql`${t.phaseSent} + 1`,
+        })
+        .where(and(
+            eq(t.organizationId, orgId),
+            eq(t.domain, domain),
+            inArray(t.status, ACTIVE_STATUSES),
+            ...(priority === 'critical' ? [] : [or(newDay, lt(t.sentToday, t.dailyCap))]),
+        ))
+        .returning({ id: t.id });
+
+    if (reserved.length > 0) return true;
+
+    // No row: over the cap, or the plan just ended on another instance
+    const [plan] = await db.select({ status: t.status }).from(t)
+        .where(and(eq(t.organizationId, orgId), eq(t.domain, domain)));
+    return !plan || !ACTIVE_STATUSES.includes(plan.status);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Daily Evaluation - called by the scheduler
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+async function phaseMetrics(orgId: string, domain: string, from: string, until: string): Promise<WarmupMetrics> {
+    const m = schema.deliverabilityBreakdowns;
+    const [row] = await db.select({
+        sent: sql<number>`coalesce(sum(${m.sent}), 0)::int`,
+        delivered: sql<number>`coalesce(sum(${m.delivered}), 0)::int`,
+        bounced: sql<number>`coalesce(sum(${m.bounced}), 0)::int`,
+        spam: sql<number>`coalesce(sum(${m.spam}), 0)::int`,
+    })
+        .from(m)
+        .where(and(
+            eq(m.organizationId, orgId),
+            eq(m.dimension, 'sending_domain'),
+            eq(m.key, domain),
+            gte(m.date, from),
+            lt(m.date, until),
+        ));
+    return row ?? { sent: 0, delivered: 0, bounced: 0, spam: 0 };
+}
+
+/**
+ * Evaluate every active plan not yet evaluated today against the days
+ * of its phase completed so far, and advance, hold or roll it back.
+ */
+export async function evaluateWarmupPlans(now: Date = new Date()): Promise<WarmupEvaluationSummary> {
+    const t = schema.emailWarmupPlans;
+    const today = utcDay(now);
+    const summary: WarmupEvaluationSummary = { evaluated: 0, advanced: 0, held: 0, rolledBack: 0, completed: 0 };
+
+    const plans = await db.select().from(t)
+        .where(and(
+            inArray(t.status, ACTIVE_STATUSES),
+            or(isNull(t.lastEvaluatedOn), lt(t.lastEvaluatedOn, today)),
+        ));
+
+    for (const plan of plans) {
+        const decision = planWarmupStep(plan, await phaseMetrics(plan.organizationId, plan.domain, plan.phaseStartedOn, today), today);
+
+        let updates: Partial<typeof t.$inferInsert> = {};
+        switch (decision.action) {
+            case 'advance':
+            case 'rollback':
+            case 'hold':
+                updates = {
+                    status: decision.action === 'advance' ? 'warming' : 'held',
+                    phase: decision.phase,
+                    dailyCap: plan.schedule[decision.phase],
+                    phaseStartedOn: today,
+                    phaseSent: 0,
+                };
+                break;
+            case 'complete':
+                updates = { status: 'completed', completedAt: now };
+                break;
+        }
+
+        // Guarded on lastEvaluatedOn so concurrent scheduler runs evaluate once
+        const evaluated = await db.update(t)
+            .set({ ...updates, lastEvaluatedOn: today, lastDecision: decision, updatedAt: now })
+            .where(and(
+                eq(t.id, plan.id),
+                plan.lastEvaluatedOn ? eq(t.lastEvaluatedOn, plan.lastEvaluatedOn) : isNull(t.lastEvaluatedOn),
+            ))
+            .returning({ id: t.id });
+        if (evaluated.length === 0) continue;
+
+        summary.evaluated++;
+        if (decision.action === 'advance') summary.advanced++;
+        if (decision.action === 'hold') summary.held++;
+        if (decision.action === 'rollback') summary.rolledBack++;
+        if (decision.action === 'complete') {
+            summary.completed++;
+            getRuntime().activeDomains.delete(plan.organizationId);
+        }
+        if (decision.action !== 'none') {
+            console.log(`[email-warmup] ${plan.domain}: ${decision.action} → phase ${decision.phase + 1} (${decision.reason})`);
+        }
+    }
+
+    return summary;
+}
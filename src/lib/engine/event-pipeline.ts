@@ -9,7 +9,9 @@
  *  3. Expansion signal detection   â†’ Detect upsell opportunities
  *  4. Segment re-evaluation        â†’ Update segment memberships
  *  5. Flow enrollment check        â†’ Enroll user in matching flows
- *  6. Active flow advancement      â†’ Process any waiting enrollments
+ *  6. Goal conversion              â†’ Credit flows whose goal event fired
+ *     Active flow advancement      â†’ Process any waiting enrollments
+ *                                    (wakes "wait until event" delays)
  *  7. Webhook dispatch             â†’ Notify external systems
  *  8. Activity log                 â†’ Record significant events
  *
@@ -31,17 +33,33 @@ import {
     getTrackedAccountByExternalId,
     getAllFlowDefinitions,
     getFlowDefinition as dbGetFlowDefinition,
+    getEnrollment as dbGetEnrollment,
     getUserEnrollments as dbGetUserEnrollments,
     upsertEnrollment as dbUpsertEnrollment,
-    upsertFlowDefinition as dbUpsertFlowDefinition,
+    incrementFlowMetrics as dbIncrementFlowMetrics,
+    reserveFlowEnrollment as dbReserveFlowEnrollment,
     getExpansionOpportunities as dbGetExpansionOpportunities,
     upsertExpansionOpportunity as dbUpsertExpansionOpportunity,
     addActivityEntry,
     getActiveEnrollmentsDue as dbGetActiveEnrollmentsDue,
+    getStaleActiveEnrollments as dbGetStaleActiveEnrollments,
+    countActiveEnrollments as dbCountActiveEnrollments,
+    getActiveFlowDefinitionsAllOrgs as dbGetActiveFlowDefinitionsAllOrgs,
+    claimFlowTriggerRun as dbClaimFlowTriggerRun,
+    advanceFlowTriggerRun as dbAdvanceFlowTriggerRun,
+    getFlowEnrolledUserIdsSince as dbGetFlowEnrolledUserIdsSince,
+    getTrackedUsersPage,
+    getTrackedAccountsByIds,
     getAllSegments,
+    getSegmentMemberUsersPage,
     upsertSegmentMembership,
     removeSegmentMembership,
+    getSegment,
+    addSegmentStaticUser,
+    addTrackedUserTag,
+    removeTrackedUserTag,
     getEvents as dbGetEvents,
+    getSegmentEventsByUser,
     linkOrphanedEvents,
 } from '@/lib/db/operations';
 import {
@@ -53,17 +71,29 @@ import {
 import { detectStateTransition } from './lifecycle';
 import { scoreChurnRisk } from './churn';
 import { detectExpansionSignals, signalsToOpportunities } from './expansion';
-import { evaluateSegmentFilters } from './segmentation';
+import { evaluateSegmentFilters, getEventConditionScope, type SegmentEvalContext } from './segmentation';
+import { hasRules } from './rule-groups';
 import { dispatchWebhooks } from './webhooks';
 import {
     matchesTrigger,
     createEnrollment,
     processEnrollment,
     findTriggerNode,
+    canEnterFlow,
+    checkEnrollmentLimits,
+    isGoalConversion,
+    markGoalReached,
+    extractEventRevenue,
+    latestCronOccurrence,
+    isDatePropertyDue,
+    DATE_PROPERTY_SCAN_CRON,
     type TriggerEvent,
     type TickAction,
+    type ApiCallOutcome,
 } from './flow';
 import { sendEmail } from './email';
+import { recordSplitAssignment, recordSplitConversion, refreshFlowEmailMetrics } from './flow-stats';
+import { loadFlowForEnrollment } from './flow-versions';
 import { getEmailTemplate } from '@/lib/db/operations';
 import type { StoredEvent } from '@/lib/sdk/types';
 import type { User, LifecycleState, FlowDefinition } from '@/lib/definitions';
@@ -162,6 +192,169 @@ async function reloadUser(orgId: string, internalId: string): Promise<User | nul
     return mapTrackedUserToUser(dbUser, accountName);
 }
 
+/**
+ * Enforce a flow's enrollmentCap and maxConcurrentEnrollments before a
+ * new enrollment is created. An admitted enrollment is counted in the
+ * flow's totalEnrolled and currentlyActive metrics right away, in the
+ * same update that checks the limits. A refusal is written to the
+ * activity log and counted in the flow's enrollmentsRefused metric.
+ *
+ * @returns true when the user may be enrolled
+ */
+export async function admitFlowEnrollment(
+    orgId: string,
+    dbFlow: NonNullable<Awaited<ReturnType<typeof dbGetFlowDefinition>>>,
+    flow: FlowDefinition,
+    user: Pick<User, 'name' | 'email'>,
+    trackedUserId: string,
+): Promise<boolean> {
+    if (await dbReserveFlowEnrollment(orgId, dbFlow.id, flow.settings ?? {})) return true;
+
+    // Name the limit that was hit, from the counts as they are now
+    const current = await dbGetFlowDefinition(orgId, dbFlow.id);
+    const reason = checkEnrollmentLimits(flow.settings, {
+        totalEnrolled: current?.metrics?.totalEnrolled ?? 0,
+        currentlyActive: await dbCountActiveEnrollments(orgId, flow.id),
+    }) ?? 'Enrollment limit reached';
+
+    await dbIncrementFlowMetrics(orgId, dbFlow.id, { enrollmentsRefused: 1 });
+    await addActivityEntry(orgId, {
+        type: 'system',
+        title: 'Flow Enrollment Refused',
+        description: `${user.name || user.email} was not enrolled in ${flow.name}: ${reason}`,
+        trackedUserId,
+    });
+    return false;
+}
+
+/** A tracked user about to enter a flow. */
+export interface FlowEntrant {
+    user: User;
+    /** tracked_users.id (internal UUID) */
+    trackedUserId: string;
+    /** tracked_accounts.id (internal UUID) */
+    accountInternalId: string | null;
+}
+
+export interface FlowEntryResult {
+    enrollmentId: string;
+    actionsDispatched: number;
+    webhooksDispatched: number;
+}
+
+/**
+ * Enroll a user in a flow whose trigger fired, whatever the trigger kind:
+ * applies the trigger's re-entry rules and the flow's enrollment limits,
+ * creates the enrollment, runs it up to its first wait, updates the flow
+ * metrics and dispatches the resulting actions and webhooks. An api_call
+ * step is queued for the scheduler rather than sent inline.
+ *
+ * `cascadeDepth` counts how many segment_entry enrollments led here from
+ * flow actions (see dispatchFlowActions).
+ *
+ * @returns null when the user was not enrolled
+ */
+export async function enrollUserInFlow(
+    orgId: string,
+    dbFlow: NonNullable<Awaited<ReturnType<typeof dbGetFlowDefinition>>>,
+    flow: FlowDefinition,
+    entrant: FlowEntrant,
+    triggerProperties: Record<string, unknown> = {},
+    cascadeDepth = 0,
+): Promise<FlowEntryResult | null> {
+    const { user, trackedUserId, accountInternalId } = entrant;
+    const triggerConfig = findTriggerNode(flow)?.data.triggerConfig;
+    if (!triggerConfig) return null;
+
+    const previous = (await dbGetUserEnrollments(orgId, trackedUserId))
+        .filter((e) => e.flowId === flow.id)
+        .map(mapFlowEnrollToUI);
+    if (!canEnterFlow(triggerConfig, previous)) return null;
+
+    // Create enrollment and process through trigger → first action
+    const enrollment = createEnrollment(flow, user.id, user.account?.id, user, triggerProperties);
+    if (!enrollment) return null;
+
+    // Enforce enrollmentCap / maxConcurrentEnrollments (and count the enrollment)
+    if (!(await admitFlowEnrollment(orgId, dbFlow, flow, user, trackedUserId))) return null;
+
+    await dbUpsertEnrollment({
+        id: enrollment.id,
+        organizationId: orgId,
+        flowId: enrollment.flowId,
+        trackedUserId,
+        accountId: accountInternalId ?? undefined,
+        flowVersion: enrollment.flowVersion ?? 1,
+        status: enrollment.status,
+        currentNodeId: enrollment.currentNodeId,
+        variables: enrollment.variables,
+        enrolledAt: new Date(enrollment.enrolledAt),
+        lastProcessedAt: enrollment.lastProcessedAt ? new Date(enrollment.lastProcessedAt) : undefined,
+        nextProcessAt: enrollment.nextProcessAt ? new Date(enrollment.nextProcessAt) : undefined,
+        history: enrollment.history,
+    });
+
+    const processResult = processEnrollment({ flow, enrollment, user, deferApiCalls: true });
+    await dbUpsertEnrollment({
+        id: processResult.enrollment.id,
+        organizationId: orgId,
+        flowId: processResult.enrollment.flowId,
+        trackedUserId,
+        accountId: accountInternalId ?? undefined,
+        flowVersion: processResult.enrollment.flowVersion ?? 1,
+        status: processResult.enrollment.status,
+        currentNodeId: processResult.enrollment.currentNodeId,
+        variables: processResult.enrollment.variables,
+        enrolledAt: new Date(processResult.enrollment.enrolledAt),
+        lastProcessedAt: processResult.enrollment.lastProcessedAt
+            ? new Date(processResult.enrollment.lastProcessedAt)
+            : undefined,
+        completedAt: processResult.enrollment.completedAt
+            ? new Date(processResult.enrollment.completedAt)
+            : undefined,
+        nextProcessAt: processResult.enrollment.nextProcessAt
+            ? new Date(processResult.enrollment.nextProcessAt)
+            : undefined,
+        history: processResult.enrollment.history,
+    });
+
+    if (processResult.deferred) {
+        await dbIncrementFlowMetrics(orgId, dbFlow.id, { quietHoursDeferrals: 1 });
+    }
+
+    const actionsDispatched = await dispatchFlowActions(processResult.actions, user, orgId, {
+        flowId: flow.id,
+        enrollmentId: enrollment.id,
+        cascadeDepth,
+    });
+
+    void dispatchWebhooks('flow.triggered', {
+        flowId: flow.id,
+        flowName: flow.name,
+        userId: user.id,
+        userName: user.name,
+        enrollmentId: enrollment.id,
+        trigger: triggerConfig.kind,
+    }, orgId);
+    let webhooksDispatched = 1;
+
+    // Flow completed immediately
+    if (processResult.enrollment.status === 'completed') {
+        await dbIncrementFlowMetrics(orgId, dbFlow.id, { currentlyActive: -1, completed: 1 });
+
+        void dispatchWebhooks('flow.completed', {
+            flowId: flow.id,
+            flowName: flow.name,
+            userId: user.id,
+            enrollmentId: enrollment.id,
+            status: 'completed',
+        }, orgId);
+        webhooksDispatched++;
+    }
+
+    return { enrollmentId: enrollment.id, actionsDispatched, webhooksDispatched };
+}
+
 /* â”€â”€ Pipeline Execution â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
 
 /**
@@ -417,35 +610,17 @@ async function processEventInnerWithUser(
     }
 
     /* â”€â”€ Stage 4: Segment Re-evaluation â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
+    // Segments the user entered with this event, for segment_entry triggers
+    const enteredSegmentIds: string[] = [];
     try {
-        const freshUser = await reloadUser(orgId, internalId);
-        if (freshUser) {
-            const userRecord = flattenUserForSegment(freshUser);
-
-            // Get all active segment definitions from DB
-            const segments = (await getAllSegments(orgId, 'active')).items;
-            const segmentsEntered: string[] = [];
-            const segmentsExited: string[] = [];
-
-            for (const seg of segments) {
-                const filters = (seg.filters ?? []) as import('@/lib/db/schema').SegmentFilter[];
-                if (filters.length === 0) continue;
-
-                const filterLogic = ((seg as Record<string, unknown>).filterLogic as string) ?? 'AND';
-                const matched = evaluateSegmentFilters(filters, filterLogic, userRecord);
-                if (matched) {
-                    await upsertSegmentMembership(orgId, seg.id, internalId);
-                    segmentsEntered.push(seg.name);
-                } else {
-                    await removeSegmentMembership(orgId, seg.id, internalId);
-                    segmentsExited.push(seg.name);
-                }
-            }
-
+        const evaluation = await reevaluateUserSegments(orgId, internalId);
+        if (evaluation) {
+            enteredSegmentIds.push(...evaluation.enteredSegmentIds);
+            result.webhooks.eventsDispatched += dispatchSegmentWebhooks(orgId, evaluation.user, evaluation.changes);
             result.segments = {
-                segmentsEvaluated: segments.length,
-                entered: segmentsEntered,
-                exited: segmentsExited,
+                segmentsEvaluated: evaluation.segmentsEvaluated,
+                entered: evaluation.entered,
+                exited: evaluation.exited,
             };
         }
     } catch (e) {
@@ -453,6 +628,8 @@ async function processEventInnerWithUser(
     }
 
     /* â”€â”€ Stage 5: Flow Enrollment Check â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
+    // Enrollments created by this event must not be woken by it in Stage 6
+    const enrolledByThisEvent = new Set<string>();
     try {
         const freshUser = await reloadUser(orgId, internalId);
         if (freshUser) {
@@ -462,164 +639,99 @@ async function processEventInnerWithUser(
 
             for (const dbFlow of activeFlows) {
                 const flow = mapFlowDefToUI(dbFlow);
-                const triggerNode = findTriggerNode(flow);
-                if (!triggerNode || !triggerNode.data.triggerConfig) continue;
-
-                // Build trigger event from the SDK event
-                const triggerEvent = buildTriggerEvent(event, freshUser, result.lifecycle);
-                if (!triggerEvent) continue;
-
-                // Check if this flow's trigger matches
-                if (!matchesTrigger(triggerNode.data.triggerConfig, triggerEvent)) continue;
-
-                // Check if user is already enrolled in this flow (by internal UUID)
-                const existingEnrollments = await dbGetUserEnrollments(orgId, internalId);
-                const alreadyEnrolled = existingEnrollments.some(
-                    (e) => e.flowId === flow.id && (e.status === 'active' || e.status === 'paused'),
-                );
-                if (alreadyEnrolled) continue;
-
-                // Check re-enrollment settings
-                const settings = flow.settings;
-                if (settings) {
-                    const hasCompleted = existingEnrollments.some(
-                        (e) => e.flowId === flow.id && (e.status === 'completed' || e.status === 'exited'),
-                    );
-                    if (hasCompleted) continue;
+                const triggerConfig = findTriggerNode(flow)?.data.triggerConfig;
+                if (!triggerConfig) continue;
+
+                // segment_entry flows fire on segments this event made the
+                // user enter; every other trigger matches the SDK event itself
+                let fired: boolean;
+                if (triggerConfig.kind === 'segment_entry') {
+                    fired = enteredSegmentIds.some((segmentId) => matchesTrigger(triggerConfig, {
+                        type: 'segment_entry',
+                        segmentId,
+                        userId: freshUser.id,
+                        accountId: freshUser.account?.id,
+                    }));
+                } else {
+                    const triggerEvent = buildTriggerEvent(event, freshUser, result.lifecycle);
+                    fired = !!triggerEvent && matchesTrigger(triggerConfig, triggerEvent);
                 }
+                if (!fired) continue;
 
-                // Create enrollment and process through trigger â†’ first action
-                const enrollment = createEnrollment(
-                    flow,
-                    freshUser.id,
-                    freshUser.account?.id,
-                    freshUser,
-                    event.properties as Record<string, unknown>,
-                );
-                if (!enrollment) continue;
-
-                // Persist enrollment to DB (map to DB fields)
-                await dbUpsertEnrollment({
-                    id: enrollment.id,
-                    organizationId: orgId,
-                    flowId: enrollment.flowId,
+                const enrolled = await enrollUserInFlow(orgId, dbFlow, flow, {
+                    user: freshUser,
                     trackedUserId: internalId,
-                    accountId: accountInternalId ?? undefined,
-                    flowVersion: enrollment.flowVersion ?? 1,
-                    status: enrollment.status,
-                    currentNodeId: enrollment.currentNodeId,
-                    variables: enrollment.variables,
-                    enrolledAt: new Date(enrollment.enrolledAt),
-                    lastProcessedAt: enrollment.lastProcessedAt ? new Date(enrollment.lastProcessedAt) : undefined,
-                    nextProcessAt: enrollment.nextProcessAt ? new Date(enrollment.nextProcessAt) : undefined,
-                    history: enrollment.history,
-                });
+                    accountInternalId,
+                }, event.properties as Record<string, unknown>);
+                if (!enrolled) continue;
+
+                enrolledByThisEvent.add(enrolled.enrollmentId);
                 enrollmentsCreated++;
+                actionsDispatched += enrolled.actionsDispatched;
+                result.webhooks.eventsDispatched += enrolled.webhooksDispatched;
+            }
 
-                // Update flow metrics
-                const metrics = flow.metrics ?? {
-                    totalEnrolled: 0,
-                    currentlyActive: 0,
-                    completed: 0,
-                    goalReached: 0,
-                    exitedEarly: 0,
-                    errorCount: 0,
-                };
-                metrics.totalEnrolled++;
-                metrics.currentlyActive++;
-                await dbUpsertFlowDefinition(orgId, {
-                    id: dbFlow.id,
-                    name: dbFlow.name,
-                    description: dbFlow.description,
-                    status: dbFlow.status,
-                    nodes: dbFlow.nodes,
-                    edges: dbFlow.edges,
-                    variables: dbFlow.variables,
-                    settings: dbFlow.settings,
-                    metrics: JSON.parse(JSON.stringify(metrics)),
-                });
+            result.flows = {
+                flowsChecked: activeFlows.length,
+                enrollmentsCreated,
+                enrollmentsAdvanced: 0,
+                actionsDispatched,
+            };
+        }
+    } catch (e) {
+        errors.push(`flows: ${(e as Error).message}`);
+    }
 
-                // Process the enrollment through the trigger node â†’ next nodes
-                const processResult = processEnrollment({
-                    flow,
-                    enrollment,
-                    user: freshUser,
-                });
+    /* ── Stage 5b: Flow Goal Conversion ─────────────────────────────── */
+    try {
+        if (event.userId) {
+            const userEnrollments = await dbGetUserEnrollments(orgId, internalId);
+            const candidates = userEnrollments.filter(
+                (e) => e.status === 'active' && !e.convertedAt && !enrolledByThisEvent.has(e.id),
+            );
 
-                // Save updated enrollment
-                await dbUpsertEnrollment({
-                    id: processResult.enrollment.id,
-                    organizationId: orgId,
-                    flowId: processResult.enrollment.flowId,
-                    trackedUserId: internalId,
-                    accountId: accountInternalId ?? undefined,
-                    flowVersion: processResult.enrollment.flowVersion ?? 1,
-                    status: processResult.enrollment.status,
-                    currentNodeId: processResult.enrollment.currentNodeId,
-                    variables: processResult.enrollment.variables,
-                    enrolledAt: new Date(processResult.enrollment.enrolledAt),
-                    lastProcessedAt: processResult.enrollment.lastProcessedAt
-                        ? new Date(processResult.enrollment.lastProcessedAt)
-                        : undefined,
-                    completedAt: processResult.enrollment.completedAt
-                        ? new Date(processResult.enrollment.completedAt)
-                        : undefined,
-                    nextProcessAt: processResult.enrollment.nextProcessAt
-                        ? new Date(processResult.enrollment.nextProcessAt)
-                        : undefined,
-                    history: processResult.enrollment.history,
-                });
+            for (const dbEnrollment of candidates) {
+                const dbFlow = await dbGetFlowDefinition(orgId, dbEnrollment.flowId);
+                if (!dbFlow) continue;
 
-                // Dispatch actions produced by the flow
-                const dispatched = await dispatchFlowActions(processResult.actions, freshUser, orgId);
-                actionsDispatched += dispatched;
+                const flow = mapFlowDefToUI(dbFlow);
+                const enrollment = mapFlowEnrollToUI(dbEnrollment);
+                if (!isGoalConversion(flow, enrollment, event.event)) continue;
 
-                // Dispatch flow.triggered webhook
-                void dispatchWebhooks('flow.triggered', {
-                    flowId: flow.id,
-                    flowName: flow.name,
-                    userId: freshUser.id,
-                    userName: freshUser.name,
-                    enrollmentId: enrollment.id,
-                }, orgId);
-                result.webhooks.eventsDispatched++;
+                const converted = markGoalReached(flow, enrollment, event.event);
+                await dbUpsertEnrollment({
+                    ...dbEnrollment,
+                    status: converted.status,
+                    convertedAt: new Date(converted.convertedAt!),
+                    completedAt: converted.completedAt ? new Date(converted.completedAt) : undefined,
+                    nextProcessAt: converted.nextProcessAt ? new Date(converted.nextProcessAt) : null,
+                    lastProcessedAt: new Date(converted.lastProcessedAt),
+                    history: converted.history,
+                });
 
-                // Check if flow completed immediately
-                if (processResult.enrollment.status === 'completed') {
-                    metrics.currentlyActive = Math.max(0, metrics.currentlyActive - 1);
-                    metrics.completed++;
-                    await dbUpsertFlowDefinition(orgId, {
-                        id: dbFlow.id,
-                        name: dbFlow.name,
-                        description: dbFlow.description,
-                        status: dbFlow.status,
-                        nodes: dbFlow.nodes,
-                        edges: dbFlow.edges,
-                        variables: dbFlow.variables,
-                        settings: dbFlow.settings,
-                        metrics: JSON.parse(JSON.stringify(metrics)),
-                    });
+                const completes = converted.status === 'completed';
+                await dbIncrementFlowMetrics(orgId, dbFlow.id, {
+                    goalReached: 1,
+                    revenueGenerated: extractEventRevenue(event.properties as Record<string, unknown>),
+                    ...(completes ? { currentlyActive: -1, completed: 1 } : {}),
+                });
+                await recordSplitConversion(orgId, flow.id, converted);
 
+                if (converted.status === 'completed') {
                     void dispatchWebhooks('flow.completed', {
                         flowId: flow.id,
                         flowName: flow.name,
-                        userId: freshUser.id,
+                        userId: event.userId,
                         enrollmentId: enrollment.id,
                         status: 'completed',
+                        goalReached: true,
                     }, orgId);
                     result.webhooks.eventsDispatched++;
                 }
             }
-
-            result.flows = {
-                flowsChecked: activeFlows.length,
-                enrollmentsCreated,
-                enrollmentsAdvanced: 0,
-                actionsDispatched,
-            };
         }
     } catch (e) {
-        errors.push(`flows: ${(e as Error).message}`);
+        errors.push(`flow_goals: ${(e as Error).message}`);
     }
 
     /* â”€â”€ Stage 6: Advance Waiting Flow Enrollments â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
@@ -627,7 +739,7 @@ async function processEventInnerWithUser(
         if (event.userId) {
             const userEnrollments = await dbGetUserEnrollments(orgId, internalId);
             const waitingForEvent = userEnrollments.filter(
-                (e) => e.status === 'active' && e.nextProcessAt,
+                (e) => e.status === 'active' && e.nextProcessAt && !enrolledByThisEvent.has(e.id),
             );
 
             let advanced = 0;
@@ -638,16 +750,26 @@ async function processEventInnerWithUser(
                 const freshUser = await reloadUser(orgId, internalId);
                 if (!freshUser) continue;
 
-                const flow = mapFlowDefToUI(dbFlow);
+                const flow = await loadFlowForEnrollment(orgId, dbFlow, dbEnrollment.flowVersion);
                 const enrollment = mapFlowEnrollToUI(dbEnrollment);
 
+                // Delivering the event lets an `until_event` delay waiting
+                // for it resume right away through its "event" handle
                 const processResult = processEnrollment({
                     flow,
                     enrollment,
                     user: freshUser,
+                    event: {
+                        name: event.event,
+                        properties: event.properties as Record<string, unknown>,
+                    },
+                    deferApiCalls: true,
                 });
 
-                if (processResult.enrollment.currentNodeId !== enrollment.currentNodeId) {
+                const changed = processResult.enrollment.currentNodeId !== enrollment.currentNodeId
+                    || processResult.enrollment.status !== enrollment.status
+                    || processResult.deferred;
+                if (changed) {
                     await dbUpsertEnrollment({
                         id: processResult.enrollment.id,
                         organizationId: orgId,
@@ -670,8 +792,18 @@ async function processEventInnerWithUser(
                             : undefined,
                         history: processResult.enrollment.history,
                     });
-                    await dispatchFlowActions(processResult.actions, freshUser, orgId);
+                    await dispatchFlowActions(processResult.actions, freshUser, orgId, {
+                        flowId: flow.id,
+                        enrollmentId: enrollment.id,
+                    });
                     advanced++;
+
+                    if (processResult.deferred || processResult.autoExited) {
+                        await dbIncrementFlowMetrics(orgId, dbFlow.id, {
+                            ...(processResult.deferred ? { quietHoursDeferrals: 1 } : {}),
+                            ...(processResult.autoExited ? { currentlyActive: -1, exitedEarly: 1, autoExited: 1 } : {}),
+                        });
+                    }
                 }
             }
 
@@ -1080,18 +1212,187 @@ function flattenUserForSegment(user: User): Record<string, unknown> {
         supportTickets30d: user.supportTicketsLast30Days,
         supportEscalations: user.supportEscalations,
         daysUntilRenewal: user.daysUntilRenewal,
+        lastLoginDaysAgo: user.lastLoginDaysAgo,
         accountId: user.account?.id,
     };
 }
 
+/**
+ * The record segment filters evaluate for a tracked user. Time-relative
+ * values (lastLoginDaysAgo, the computed day counts) are derived at call
+ * time, so evaluating again later refreshes them.
+ */
+export function buildSegmentUserRecord(
+    dbUser: NonNullable<Awaited<ReturnType<typeof getTrackedUser>>>,
+    user: User,
+): Record<string, unknown> {
+    return {
+        ...flattenUserForSegment(user),
+        tags: dbUser.tags ?? [],
+        // Computed segment fields count days from these
+        signupDate: dbUser.signupDate ?? dbUser.createdAt,
+        activatedDate: dbUser.activatedDate,
+        lastLoginAt: dbUser.lastLoginAt,
+        stateChangedAt: dbUser.stateChangedAt,
+    };
+}
+
+/** A segment a user entered or left */
+export interface SegmentMembershipChange {
+    segmentId: string;
+    segmentName: string;
+    change: 'entered' | 'exited';
+}
+
+/**
+ * Fire segment.entered / segment.exited webhooks for one user's
+ * membership changes (fire-and-forget).
+ *
+ * @returns the number of webhook events dispatched
+ */
+export function dispatchSegmentWebhooks(orgId: string, user: User, changes: SegmentMembershipChange[]): number {
+    for (const change of changes) {
+        void dispatchWebhooks(change.change === 'entered' ? 'segment.entered' : 'segment.exited', {
+            segmentId: change.segmentId,
+            segmentName: change.segmentName,
+            userId: user.id,
+            userName: user.name,
+            account: user.account,
+        }, orgId);
+    }
+    return changes.length;
+}
+
+export interface SegmentReevaluation {
+    user: User;
+    segmentsEvaluated: number;
+    /** Names of segments the user newly entered */
+    entered: string[];
+    /** Names of segments the user does not (or no longer) match */
+    exited: string[];
+    enteredSegmentIds: string[];
+    /** Memberships that actually opened or closed */
+    changes: SegmentMembershipChange[];
+}
+
+/**
+ * Re-evaluate every active segment for one user and record entries and
+ * exits. Dynamic segments match on their filters, static segments on
+ * their staticUserIds.
+ *
+ * @returns null when the user no longer exists
+ */
+export async function reevaluateUserSegments(orgId: string, internalId: string): Promise<SegmentReevaluation | null> {
+    const dbUser = await getTrackedUser(orgId, internalId);
+    if (!dbUser) return null;
+    const account = dbUser.accountId ? await getTrackedAccount(orgId, dbUser.accountId) : null;
+    const user = mapTrackedUserToUser(dbUser, account?.name ?? undefined);
+    // Built like the scheduled refresh builds it (segment-refresh.ts):
+    // internal IDs, and the account for account-field rules
+    const userRecord = { ...buildSegmentUserRecord(dbUser, user), id: dbUser.id, accountId: dbUser.accountId };
+    const accountRecord = account as unknown as Record<string, unknown> | null;
+
+    const segments = (await getAllSegments(orgId, 'active')).items;
+
+    // Load the user's events once for every segment's event rules
+    const context: SegmentEvalContext = { now: new Date() };
+    const eventScope = getEventConditionScope(
+        segments.filter((seg) => seg.type !== 'static').flatMap((seg) => seg.filters ?? []),
+        context.now,
+    );
+    if (eventScope) {
+        context.events = (await getSegmentEventsByUser(orgId, eventScope, [internalId])).get(internalId) ?? [];
+    }
+
+    const evaluation: SegmentReevaluation = {
+        user,
+        segmentsEvaluated: segments.length,
+        entered: [],
+        exited: [],
+        enteredSegmentIds: [],
+        changes: [],
+    };
+
+    for (const seg of segments) {
+        let matched: boolean;
+        if (seg.type === 'static') {
+            matched = (seg.staticUserIds ?? []).includes(internalId);
+        } else {
+            const filters = seg.filters ?? [];
+            if (!hasRules(filters)) continue;
+            matched = evaluateSegmentFilters(filters, seg.filterLogic ?? 'AND', userRecord, accountRecord, context);
+        }
+
+        if (matched) {
+            // Only a new (or reopened) membership counts as entering
+            if (await upsertSegmentMembership(orgId, seg.id, internalId)) {
+                evaluation.entered.push(seg.name);
+                evaluation.enteredSegmentIds.push(seg.id);
+                evaluation.changes.push({ segmentId: seg.id, segmentName: seg.name, change: 'entered' });
+            }
+        } else {
+            if (await removeSegmentMembership(orgId, seg.id, internalId)) {
+                evaluation.changes.push({ segmentId: seg.id, segmentName: seg.name, change: 'exited' });
+            }
+            evaluation.exited.push(seg.name);
+        }
+    }
+
+    return evaluation;
+}
+
+/** segment_entry enrollments triggered by flow actions nest at most this deep. */
+const MAX_SEGMENT_CASCADE_DEPTH = 3;
+
+/**
+ * Enroll a user in the active segment_entry flows listening on any of the
+ * segments they just entered.
+ *
+ * @returns the number of enrollments created
+ */
+export async function enrollInSegmentEntryFlows(
+    orgId: string,
+    entrant: FlowEntrant,
+    enteredSegmentIds: string[],
+    cascadeDepth = 0,
+): Promise<number> {
+    if (enteredSegmentIds.length === 0) return 0;
+
+    let enrolledCount = 0;
+    const activeFlows = (await getAllFlowDefinitions(orgId, 'active')).items;
+    for (const dbFlow of activeFlows) {
+        const flow = mapFlowDefToUI(dbFlow);
+        const triggerConfig = findTriggerNode(flow)?.data.triggerConfig;
+        if (triggerConfig?.kind !== 'segment_entry') continue;
+
+        const fired = enteredSegmentIds.some((segmentId) => matchesTrigger(triggerConfig, {
+            type: 'segment_entry',
+            segmentId,
+            userId: entrant.user.id,
+            accountId: entrant.user.account?.id,
+        }));
+        if (!fired) continue;
+
+        if (await enrollUserInFlow(orgId, dbFlow, flow, entrant, {}, cascadeDepth)) enrolledCount++;
+    }
+    return enrolledCount;
+}
+
 /* â”€â”€ Helper: Dispatch Flow Actions â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
 
 /**
  * Execute the side-effect actions produced by flow node execution.
  * Returns the count of successfully dispatched actions.
  */
-async function dispatchFlowActions(actions: TickAction[], user: User, orgId: string): Promise<number> {
+async function dispatchFlowActions(
+    actions: TickAction[],
+    user: User,
+    orgId: string,
+    context: { flowId: string; enrollmentId: string; cascadeDepth?: number },
+): Promise<number> {
     let dispatched = 0;
+    // Tracked user whose tags / static segments changed and needs re-segmenting
+    let resegment: { id: string; accountId: string | null } | null = null;
 
     for (const action of actions) {
         try {
@@ -1113,14 +1414,24 @@ async function dispatchFlowActions(actions: TickAction[], user: User, orgId: str
                         }
                     }
 
-                    await sendEmail({
+                    const sent = await sendEmail({
                         to: action.to || user.email,
                         subject,
                         html,
                         fromName: action.fromName,
                         replyTo: action.replyTo,
                         orgId,
+                        flow: {
+                            orgId,
+                            flowId: context.flowId,
+                            nodeId: action.nodeId,
+                            enrollmentId: context.enrollmentId,
+                        },
                     });
+                    if (sent.success) {
+                        await refreshFlowEmailMetrics(orgId, context.flowId).catch((e) =>
+                            console.error('[pipeline] Failed to refresh flow email metrics:', (e as Error).message));
+                    }
                     dispatched++;
                     break;
                 }
@@ -1157,22 +1468,45 @@ async function dispatchFlowActions(actions: TickAction[], user: User, orgId: str
                 }
 
                 case 'add_tag': {
-                    await addActivityEntry(orgId, {
-                        type: 'system',
-                        title: `Tag added: ${action.tag}`,
-                        description: `Tag "${action.tag}" added to user ${action.userId}`,
-                        trackedUserId: undefined,
-                    });
+                    const dbUser = await getTrackedUserByExternalId(orgId, action.userId);
+                    if (dbUser && await addTrackedUserTag(orgId, dbUser.id, action.tag)) {
+                        resegment = { id: dbUser.id, accountId: dbUser.accountId };
+                        await addActivityEntry(orgId, {
+                            type: 'system',
+                            title: `Tag added: ${action.tag}`,
+                            description: `Tag "${action.tag}" added to user ${action.userId}`,
+                            trackedUserId: dbUser.id,
+                        });
+                    }
                     dispatched++;
                     break;
                 }
 
                 case 'remove_tag': {
-                    await addActivityEntry(orgId, {
-                        type: 'system',
-                        title: `Tag removed: ${action.tag}`,
-                        description: `Tag "${action.tag}" removed from user ${action.userId}`,
-                    });
+                    const dbUser = await getTrackedUserByExternalId(orgId, action.userId);
+                    if (dbUser && await removeTrackedUserTag(orgId, dbUser.id, action.tag)) {
+                        resegment = { id: dbUser.id, accountId: dbUser.accountId };
+                        await addActivityEntry(orgId, {
+                            type: 'system',
+                            title: `Tag removed: ${action.tag}`,
+                            description: `Tag "${action.tag}" removed from user ${action.userId}`,
+                            trackedUserId: dbUser.id,
+                        });
+                    }
+                    dispatched++;
+                    break;
+                }
+
+                case 'assign_segment': {
+                    const dbUser = await getTrackedUserByExternalId(orgId, action.userId);
+                    if (dbUser && await addSegmentStaticUser(orgId, action.segmentId, dbUser.id)) {
+                        resegment = { id: dbUser.id, accountId: dbUser.accountId };
+                    } else if (dbUser) {
+                        const segment = await getSegment(orgId, action.segmentId);
+                        if (segment?.type !== 'static') {
+                            throw new Error(`Segment ${action.segmentId} is not a static segment`);
+                        }
+                    }
                     dispatched++;
                     break;
                 }
@@ -1183,15 +1517,11 @@ async function dispatchFlowActions(actions: TickAction[], user: User, orgId: str
                 }
 
                 case 'api_call': {
-                    await fetch(action.url, {
-                        method: action.method || 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                            ...action.headers,
-                        },
-                        body: action.body,
-                        signal: AbortSignal.timeout(10_000),
-                    });
+                    const outcome = await performApiCall(action);
+                    if (!outcome.ok) {
+                        console.warn(`[pipeline] API call in flow ${context.flowId} failed: ${outcome.error}`);
+                    }
+                    await resumeAfterApiCall(orgId, user, context, outcome);
                     dispatched++;
                     break;
                 }
@@ -1206,6 +1536,11 @@ async function dispatchFlowActions(actions: TickAction[], user: User, orgId: str
                     break;
                 }
 
+                case 'split_assigned': {
+                    await recordSplitAssignment(orgId, context.flowId, action.nodeId, action.variantId);
+                    break;
+                }
+
                 case 'create_task': {
                     await addActivityEntry(orgId, {
                         type: 'system',
@@ -1221,9 +1556,136 @@ async function dispatchFlowActions(actions: TickAction[], user: User, orgId: str
         }
     }
 
+    // Tag and static segment changes can move the user between segments;
+    // newly entered segments start their segment_entry flows
+    if (resegment) {
+        try {
+            const evaluation = await reevaluateUserSegments(orgId, resegment.id);
+            if (evaluation) dispatchSegmentWebhooks(orgId, evaluation.user, evaluation.changes);
+            const cascadeDepth = (context.cascadeDepth ?? 0) + 1;
+            if (evaluation && cascadeDepth <= MAX_SEGMENT_CASCADE_DEPTH) {
+                await enrollInSegmentEntryFlows(orgId, {
+                    user: evaluation.user,
+                    trackedUserId: resegment.id,
+                    accountInternalId: resegment.accountId,
+                }, evaluation.enteredSegmentIds, cascadeDepth);
+            } else if (evaluation?.enteredSegmentIds.length) {
+                console.warn(`[pipeline] Segment entry cascade limit reached in flow ${context.flowId}; not enrolling user ${user.id}`);
+            }
+        } catch (e) {
+            console.error('[pipeline] Failed to re-evaluate segments after flow actions:', (e as Error).message);
+        }
+    }
+
     return dispatched;
 }
 
+/* â”€â”€ Helper: API Call Actions â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
+
+/** Send an api_call request. Never throws: failures become the outcome. */
+async function performApiCall(action: Extract<TickAction, { type: 'api_call' }>): Promise<ApiCallOutcome> {
+    const method = action.method || 'POST';
+    try {
+        const res = await fetch(action.url, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...action.headers,
+            },
+            // GET / DELETE requests carry no body
+            ...(method === 'GET' || method === 'DELETE' ? {} : { body: action.body }),
+            signal: AbortSignal.timeout(action.timeoutMs),
+        });
+        const text = await res.text();
+        let body: unknown = text;
+        try {
+            body = text ? JSON.parse(text) : undefined;
+        } catch {
+            // Non-JSON responses are kept as text
+        }
+        return {
+            nodeId: action.nodeId,
+            ok: res.ok,
+            status: res.status,
+            body,
+            ...(res.ok ? {} : { error: `HTTP ${res.status}` }),
+        };
+    } catch (e) {
+        const err = e as Error;
+        return {
+            nodeId: action.nodeId,
+            ok: false,
+            status: 0,
+            error: err.name === 'TimeoutError' ? `Timed out after ${action.timeoutMs / 1000}s` : err.message,
+        };
+    }
+}
+
+/**
+ * Feed an api_call's outcome to the enrollment parked on that node and
+ * run the flow on from there: the response lands in the enrollment's
+ * variables, the next actions are dispatched and the flow metrics are
+ * updated when the enrollment finishes.
+ */
+async function resumeAfterApiCall(
+    orgId: string,
+    user: User,
+    context: { flowId: string; enrollmentId: string; cascadeDepth?: number },
+    outcome: ApiCallOutcome,
+): Promise<void> {
+    const dbEnrollment = await dbGetEnrollment(orgId, context.enrollmentId);
+    // Exited, removed or moved on (e.g. the deadline passed) in the meantime
+    if (!dbEnrollment || dbEnrollment.status !== 'active' || dbEnrollment.currentNodeId !== outcome.nodeId) return;
+
+    const dbFlow = await dbGetFlowDefinition(orgId, dbEnrollment.flowId);
+    if (!dbFlow) return;
+    const flow = await loadFlowForEnrollment(orgId, dbFlow, dbEnrollment.flowVersion);
+
+    const processResult = processEnrollment({
+        flow,
+        enrollment: mapFlowEnrollToUI(dbEnrollment),
+        user,
+        apiResponse: outcome,
+    });
+    const resumed = processResult.enrollment;
+    await dbUpsertEnrollment({
+        id: resumed.id,
+        organizationId: orgId,
+        flowId: resumed.flowId,
+        trackedUserId: dbEnrollment.trackedUserId,
+        accountId: dbEnrollment.accountId ?? undefined,
+        flowVersion: resumed.flowVersion ?? 1,
+        status: resumed.status,
+        currentNodeId: resumed.currentNodeId,
+        variables: resumed.variables,
+        enrolledAt: new Date(resumed.enrolledAt),
+        lastProcessedAt: resumed.lastProcessedAt ? new Date(resumed.lastProcessedAt) : undefined,
+        completedAt: resumed.completedAt ? new Date(resumed.completedAt) : undefined,
+        nextProcessAt: resumed.nextProcessAt ? new Date(resumed.nextProcessAt) : undefined,
+        history: resumed.history,
+    });
+
+    await dispatchFlowActions(processResult.actions, user, orgId, context);
+
+    if (processResult.deferred) {
+        await dbIncrementFlowMetrics(orgId, dbFlow.id, { quietHoursDeferrals: 1 });
+    } else if (resumed.status === 'completed' || resumed.status === 'exited') {
+        await dbIncrementFlowMetrics(orgId, dbFlow.id, {
+            currentlyActive: -1,
+            ...(resumed.status === 'completed' ? { completed: 1 } : { exitedEarly: 1 }),
+        });
+        void dispatchWebhooks('flow.completed', {
+            flowId: flow.id,
+            flowName: flow.name,
+            userId: user.id,
+            enrollmentId: resumed.id,
+            status: resumed.status,
+        }, orgId);
+    } else if (resumed.status === 'error') {
+        await dbIncrementFlowMetrics(orgId, dbFlow.id, { errorCount: 1 });
+    }
+}
+
 /* â”€â”€ Flow Scheduler: Process Due Enrollments â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€ */
 
 /**
@@ -1231,6 +1693,9 @@ async function dispatchFlowActions(actions: TickAction[], user: User, orgId: str
  * This is called by the scheduler endpoint (cron) or can be called
  * manually.
  *
+ * Enrollments that have outlived their flow's autoExitDays are swept in
+ * as well, even while parked on a long delay, so the engine can exit them.
+ *
  * Note: getActiveEnrollmentsDue() is cross-org. Each enrollment
  * carries its orgId so we can operate in the correct tenant context.
  */
@@ -1241,6 +1706,10 @@ export async function processScheduledEnrollments(): Promise<{
     actionsDispatched: number;
 }> {
     const dueEnrollments = await dbGetActiveEnrollmentsDue();
+    const dueIds = new Set(dueEnrollments.map((e) => e.id));
+    for (const stale of await dbGetStaleActiveEnrollments()) {
+        if (!dueIds.has(stale.id)) dueEnrollments.push(stale);
+    }
     let processed = 0;
     let completed = 0;
     let errored = 0;
@@ -1261,7 +1730,7 @@ export async function processScheduledEnrollments(): Promise<{
                 continue;
             }
 
-            const flow = mapFlowDefToUI(dbFlow);
+            const flow = await loadFlowForEnrollment(enrollmentOrgId, dbFlow, dbEnrollment.flowVersion);
             const enrollment = mapFlowEnrollToUI(dbEnrollment);
 
             // Resolve the user for this enrollment
@@ -1276,9 +1745,11 @@ export async function processScheduledEnrollments(): Promise<{
                 user = mapTrackedUserToUser(dbUser, accountName);
             }
 
+            // nextProcessAt is kept so the parked delay node sees that its
+            // wait has elapsed (and an `until_event` delay takes "timeout")
             const processResult = processEnrollment({
                 flow,
-                enrollment: { ...enrollment, nextProcessAt: undefined },
+                enrollment,
                 user,
             });
 
@@ -1308,39 +1779,27 @@ export async function processScheduledEnrollments(): Promise<{
 
             // Dispatch actions
             if (user && processResult.actions.length > 0) {
-                const dispatched = await dispatchFlowActions(processResult.actions, user, enrollmentOrgId);
+                const dispatched = await dispatchFlowActions(processResult.actions, user, enrollmentOrgId, {
+                    flowId: flow.id,
+                    enrollmentId: dbEnrollment.id,
+                });
                 totalActions += dispatched;
             }
 
             processed++;
 
+            if (processResult.deferred) {
+                await dbIncrementFlowMetrics(enrollmentOrgId, dbFlow.id, { quietHoursDeferrals: 1 });
+            }
+
             // Update flow metrics
             if (processResult.enrollment.status === 'completed' || processResult.enrollment.status === 'exited') {
                 completed++;
-                const metrics = flow.metrics ?? {
-                    totalEnrolled: 0,
-                    currentlyActive: 0,
-                    completed: 0,
-                    goalReached: 0,
-                    exitedEarly: 0,
-                    errorCount: 0,
-                };
-                metrics.currentlyActive = Math.max(0, metrics.currentlyActive - 1);
-                if (processResult.enrollment.status === 'completed') {
-                    metrics.completed++;
-                } else {
-                    metrics.exitedEarly++;
-                }
-                await dbUpsertFlowDefinition(enrollmentOrgId, {
-                    id: dbFlow.id,
-                    name: dbFlow.name,
-                    description: dbFlow.description,
-                    status: dbFlow.status,
-                    nodes: dbFlow.nodes,
-                    edges: dbFlow.edges,
-                    variables: dbFlow.variables,
-                    settings: dbFlow.settings,
-                    metrics: JSON.parse(JSON.stringify(metrics)),
+                await dbIncrementFlowMetrics(enrollmentOrgId, dbFlow.id, {
+                    currentlyActive: -1,
+                    ...(processResult.enrollment.status === 'completed'
+                        ? { completed: 1 }
+                        : { exitedEarly: 1, ...(processResult.autoExited ? { autoExited: 1 } : {}) }),
                 });
 
                 void dispatchWebhooks('flow.completed', {
@@ -1354,26 +1813,7 @@ export async function processScheduledEnrollments(): Promise<{
 
             if (processResult.enrollment.status === 'error') {
                 errored++;
-                const metrics = flow.metrics ?? {
-                    totalEnrolled: 0,
-                    currentlyActive: 0,
-                    completed: 0,
-                    goalReached: 0,
-                    exitedEarly: 0,
-                    errorCount: 0,
-                };
-                metrics.errorCount++;
-                await dbUpsertFlowDefinition(enrollmentOrgId, {
-                    id: dbFlow.id,
-                    name: dbFlow.name,
-                    description: dbFlow.description,
-                    status: dbFlow.status,
-                    nodes: dbFlow.nodes,
-                    edges: dbFlow.edges,
-                    variables: dbFlow.variables,
-                    settings: dbFlow.settings,
-                    metrics: JSON.parse(JSON.stringify(metrics)),
-                });
+                await dbIncrementFlowMetrics(enrollmentOrgId, dbFlow.id, { errorCount: 1 });
             }
         } catch (e) {
             errored++;
@@ -1383,3 +1823,139 @@ export async function processScheduledEnrollments(): Promise<{
 
     return { processed, completed, errors: errored, actionsDispatched: totalActions };
 }
+
+/* ── Scheduled Flow Triggers ─────────────────────────────────────────── */
+
+/** Audience members loaded per page when a scheduled trigger fires. */
+const TRIGGER_AUDIENCE_PAGE_SIZE = 200;
+
+/**
+ * Audience members evaluated per scheduler invocation, across all flows.
+ * Larger runs stay pending and continue on the next invocation.
+ */
+export const TRIGGER_RUN_BUDGET = 1000;
+
+interface TriggerAudienceMember extends FlowEntrant {
+    /** Records searched for a date_property field, in priority order */
+    dateSources: (Record<string, unknown> | null | undefined)[];
+}
+
+/**
+ * One page of the users a scheduled trigger evaluates (a segment's
+ * members, or everyone), in tracked-user id order after `afterId`.
+ */
+async function loadTriggerAudiencePage(
+    orgId: string,
+    segmentId: string | undefined,
+    afterId: string | null,
+    limit: number,
+): Promise<TriggerAudienceMember[]> {
+    const dbUsers = segmentId
+        ? await getSegmentMemberUsersPage(orgId, segmentId, afterId, limit)
+        : await getTrackedUsersPage(orgId, afterId, limit);
+    if (!dbUsers.length) return [];
+
+    const accountIds = [...new Set(dbUsers.flatMap((u) => (u.accountId ? [u.accountId] : [])))];
+    const accounts = new Map((await getTrackedAccountsByIds(orgId, accountIds)).map((a) => [a.id, a]));
+
+    return dbUsers.map((dbUser) => {
+        const account = dbUser.accountId ? accounts.get(dbUser.accountId) : undefined;
+        return {
+            user: mapTrackedUserToUser(dbUser, account?.name ?? undefined),
+            trackedUserId: dbUser.id,
+            accountInternalId: dbUser.accountId,
+            dateSources: [dbUser, dbUser.properties, account, account?.properties],
+        };
+    });
+}
+
+/**
+ * Fire `schedule` and `date_property` flow triggers (cross-org).
+ *
+ * - schedule: when the trigger's cronExpression (in its timezone) has an
+ *   occurrence in the last SCHEDULE_CATCH_UP_MINUTES, the flow's audience
+ *   (the trigger's segment, or all tracked users) is enrolled.
+ * - date_property: once a day at DATE_PROPERTY_SCAN_CRON, users whose
+ *   dateProperty + dateOffsetDays is today are enrolled.
+ *
+ * Each occurrence is claimed on the flow row first, so concurrent
+ * scheduler runs cannot fire it twice. The audience is then enrolled a
+ * page at a time within TRIGGER_RUN_BUDGET, recording the last member
+ * enrolled on the flow row; a run that doesn't finish continues on the
+ * next invocation, before the flow's next occurrence is claimed. Members
+ * already enrolled since the occurrence (a page cut short by a timeout)
+ * are skipped. Re-entry rules and enrollment limits apply as for any
+ * other trigger.
+ */
+export async function processScheduledTriggers(at: Date = new Date()): Promise<{
+    flowsFired: number;
+    enrollmentsCreated: number;
+    errors: number;
+}> {
+    const activeFlows = await dbGetActiveFlowDefinitionsAllOrgs();
+    let flowsFired = 0;
+    let enrollmentsCreated = 0;
+    let errored = 0;
+    let budget = TRIGGER_RUN_BUDGET;
+
+    for (const dbFlow of activeFlows) {
+        if (budget <= 0) break;
+        try {
+            const orgId = dbFlow.organizationId;
+            const flow = mapFlowDefToUI(dbFlow);
+            const config = findTriggerNode(flow)?.data.triggerConfig;
+            if (!config || (config.kind !== 'schedule' && config.kind !== 'date_property')) continue;
+
+            let runAt: Date;
+            let cursor: string | null = null;
+            if (dbFlow.triggerRunPending && dbFlow.lastTriggeredAt) {
+                runAt = dbFlow.lastTriggeredAt;
+                cursor = dbFlow.triggerRunCursor;
+            } else {
+                const due = config.kind === 'schedule'
+                    ? latestCronOccurrence(config.cronExpression, config.timezone, at)
+                    : latestCronOccurrence(DATE_PROPERTY_SCAN_CRON, config.timezone, at, 24 * 60);
+                if (!due) continue;
+                if (!(await dbClaimFlowTriggerRun(orgId, dbFlow.id, due))) continue;
+                runAt = due;
+                flowsFired++;
+            }
+
+            while (budget > 0) {
+                const limit = Math.min(TRIGGER_AUDIENCE_PAGE_SIZE, budget);
+                const page = await loadTriggerAudiencePage(orgId, config.segmentId, cursor, limit);
+                budget -= page.length;
+                const enrolled = await dbGetFlowEnrolledUserIdsSince(orgId, flow.id, runAt, page.map((m) => m.trackedUserId));
+
+                for (const member of page) {
+                    if (enrolled.has(member.trackedUserId)) continue;
+                    let triggerProperties: Record<string, unknown>;
+                    if (config.kind === 'date_property') {
+                        if (!isDatePropertyDue(config, member.dateSources, runAt)) continue;
+                        triggerProperties = { dateProperty: config.dateProperty, dateOffsetDays: config.dateOffsetDays ?? 0 };
+                    } else {
+                        triggerProperties = { scheduledAt: runAt.toISOString() };
+                    }
+
+                    try {
+                        if (await enrollUserInFlow(orgId, dbFlow, flow, member, triggerProperties)) enrollmentsCreated++;
+                    } catch (e) {
+                        errored++;
+                        console.error(`[scheduler] Error enrolling ${member.trackedUserId} in flow ${flow.id}:`, (e as Error).message);
+                    }
+                }
+
+                const done = page.length < limit;
+                const next = done ? null : page[page.length - 1].trackedUserId;
+                // Another scheduler instance moved the run on: leave it to them
+                if (!(await dbAdvanceFlowTriggerRun(orgId, dbFlow.id, runAt, cursor, next)) || done) break;
+                cursor = next;
+            }
+        } catch (e) {
+            errored++;
+            console.error(`[scheduler] Error firing trigger for flow ${dbFlow.id}:`, (e as Error).message);
+        }
+    }
+
+    return { flowsFired, enrollmentsCreated, errors: errored };
+}
@@ -0,0 +1,250 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Flow Simulator - Dry Runs on a Virtual Clock
+ *
+ * Runs a flow for one user profile without side effects, so broken
+ * condition rules or delays show up before a flow ships:
+ *  - the engine ticks against a virtual clock that jumps straight to the
+ *    next wake-up time instead of waiting for delays
+ *  - actions are collected instead of dispatched; `update_user` is
+ *    applied to the simulated profile so later conditions see it
+ *  - api_call nodes get a stubbed response (200 `{}` unless one is given)
+ *  - scripted events resume `until_event` delays and count as goal
+ *    conversions, as they would in the event pipeline
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import {
+    createEnrollment,
+    tickEnrollment,
+    isGoalConversion,
+    markGoalReached,
+    type ApiCallOutcome,
+    type TickAction,
+} from './flow';
+import type {
+    EnrollmentHistoryEntry,
+    EnrollmentStatus,
+    FlowDefinition,
+    FlowEnrollment,
+    FlowNodeType,
+    User,
+} from '@/lib/definitions';
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+/** Ticks before a run is stopped (catches goto loops without maxLoops). */
+export const SIMULATION_MAX_TICKS = 200;
+
+/** How far the virtual clock may run ahead of the start. */
+export const SIMULATION_DEFAULT_HORIZON_DAYS = 90;
+export const SIMULATION_MAX_HORIZON_DAYS = 365;
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export interface SimulatedEvent {
+    name: string;
+    /** When the event happens, in minutes after enrollment */
+    afterMinutes: number;
+    properties?: Record<string, unknown>;
+}
+
+export interface SimulationOptions {
+    /** Virtual time of enrollment (default: now) */
+    startAt?: Date;
+    /** Properties of the event that triggered the flow (`event.*` variables) */
+    triggerProperties?: Record<string, unknown>;
+    events?: SimulatedEvent[];
+    /** Stubbed api_call responses by node ID */
+    apiResponses?: Record<string, Omit<ApiCallOutcome, 'nodeId'>>;
+    horizonDays?: number;
+}
+
+export interface SimulationStep {
+    /** Virtual time of the step */
+    at: string;
+    nodeId: string;
+    nodeLabel: string;
+    nodeType: FlowNodeType;
+    outcome: EnrollmentHistoryEntry['action'];
+    details?: string;
+    /** Actions the step would have dispatched */
+    actions: TickAction[];
+    /** Scripted event delivered on this step */
+    event?: string;
+}
+
+export interface SimulatedEmail {
+    nodeId: string;
+    at: string;
+    to: string;
+    subject: string;
+    body: string;
+    templateId?: string;
+}
+
+export interface SimulationResult {
+    status: EnrollmentStatus;
+    /** Node IDs in the order they were visited */
+    path: string[];
+    steps: SimulationStep[];
+    emails: SimulatedEmail[];
+    variables: FlowEnrollment['variables'];
+    converted: boolean;
+    startedAt: string;
+    endedAt: string;
+    /** Set when the run ended before the enrollment finished */
+    stoppedReason?: 'no_trigger' | 'horizon' | 'max_ticks';
+    /** The enrollment errored (e.g. an edge points to a deleted node) */
+    errorMessage?: string;
+}
+
+/* ── Simulation ─────────────────────────────────────────────────────── */
+
+const DEFAULT_API_RESPONSE: Omit<ApiCallOutcome, 'nodeId'> = { ok: true, status: 200, body: {} };
+
+/**
+ * Dry-run `flow` for `user`, fast-forwarding through every wait until the
+ * enrollment finishes or the horizon is reached.
+ */
+export function simulateFlow(
+    flow: FlowDefinition,
+    user: Partial<User>,
+    options: SimulationOptions = {},
+): SimulationResult {
+    const startAt = options.startAt ?? new Date();
+    const horizonDays = Math.min(options.horizonDays ?? SIMULATION_DEFAULT_HORIZON_DAYS, SIMULATION_MAX_HORIZON_DAYS);
+    const horizon = startAt.getTime() + horizonDays * 86_400_000;
+    const events = (options.events ?? [])
+        .map((e) => ({ ...e, time: startAt.getTime() + Math.max(0, e.afterMinutes) * 60_000 }))
+        .sort((a, b) => a.time - b.time);
+
+    const profile: Partial<User> = { ...user };
+    const userId = profile.id || 'simulated_user';
+    const steps: SimulationStep[] = [];
+    const emails: SimulatedEmail[] = [];
+
+    let clock = startAt;
+    let converted = false;
+    let stoppedReason: SimulationResult['stoppedReason'];
+
+    let enrollment = createEnrollment(flow, userId, undefined, profile, options.triggerProperties, startAt);
+    if (!enrollment) {
+        return {
+            status: 'error',
+            path: [],
+            steps,
+            emails,
+            variables: {},
+            converted,
+            startedAt: startAt.toISOString(),
+            endedAt: startAt.toISOString(),
+            stoppedReason: 'no_trigger',
+            errorMessage: 'Flow has no trigger node',
+        };
+    }
+
+    const record = (before: FlowEnrollment, after: FlowEnrollment, actions: TickAction[], event?: string) => {
+        const entries = after.history.slice(before.history.length);
+        entries.forEach((entry, i) => steps.push({
+            at: entry.timestamp,
+            nodeId: entry.nodeId,
+            nodeLabel: entry.nodeName,
+            nodeType: entry.nodeType,
+            outcome: entry.action,
+            ...(entry.details ? { details: entry.details } : {}),
+            actions: i === entries.length - 1 ? actions : [],
+            ...(event && i === 0 ? { event } : {}),
+        }));
+        for (const action of actions) {
+            if (action.type === 'send_email') {
+                emails.push({
+                    nodeId: action.nodeId,
+                    at: clock.toISOString(),
+                    to: action.to,
+                    subject: action.subject,
+                    body: action.body,
+                    ...(action.templateId ? { templateId: action.templateId } : {}),
+                });
+            } else if (action.type === 'update_user') {
+                Object.assign(profile, action.properties);
+            }
+        }
+    };
+
+    record({ ...enrollment, history: [] }, enrollment, []);
+
+    let pendingEvent: SimulatedEvent | undefined;
+    let pendingApi: ApiCallOutcome | undefined;
+    let ticks = 0;
+
+    while (enrollment.status === 'active') {
+        if (++ticks > SIMULATION_MAX_TICKS) {
+            stoppedReason = 'max_ticks';
+            break;
+        }
+
+        const before: FlowEnrollment = enrollment;
+        const result = tickEnrollment({
+            flow,
+            enrollment: before,
+            user: profile,
+            at: clock,
+            ...(pendingEvent ? { event: { name: pendingEvent.name, properties: pendingEvent.properties } } : {}),
+            ...(pendingApi ? { apiResponse: pendingApi } : {}),
+        });
+        enrollment = result.enrollment;
+        record(before, enrollment, result.actions, pendingEvent?.name);
+        pendingEvent = undefined;
+        pendingApi = undefined;
+
+        if (result.continueImmediately || enrollment.status !== 'active') continue;
+
+        // Parked on an api_call: answer it right away with the stub
+        const apiCall = result.actions.find((a) => a.type === 'api_call');
+        if (apiCall) {
+            pendingApi = { ...(options.apiResponses?.[apiCall.nodeId] ?? DEFAULT_API_RESPONSE), nodeId: apiCall.nodeId };
+            continue;
+        }
+
+        if (!enrollment.nextProcessAt) break;
+        const wakeAt = new Date(enrollment.nextProcessAt).getTime();
+
+        // A scripted event before the wake-up time gets delivered first
+        const next = events[0];
+        if (next && next.time <= Math.min(wakeAt, horizon)) {
+            events.shift();
+            clock = new Date(Math.max(next.time, clock.getTime()));
+            if (isGoalConversion(flow, enrollment, next.name, clock)) {
+                const goalBefore: FlowEnrollment = enrollment;
+                enrollment = markGoalReached(flow, enrollment, next.name, clock);
+                converted = true;
+                record(goalBefore, enrollment, [], next.name);
+                if (enrollment.status !== 'active') break;
+            }
+            pendingEvent = next;
+            continue;
+        }
+
+        if (wakeAt > horizon) {
+            stoppedReason = 'horizon';
+            break;
+        }
+        clock = new Date(Math.max(wakeAt, clock.getTime()));
+    }
+
+    const path = steps
+        .map((s) => s.nodeId)
+        .filter((id, i, ids) => i === 0 || ids[i - 1] !== id);
+
+    return {
+        status: enrollment.status,
+        path,
+        steps,
+        emails,
+        variables: enrollment.variables,
+        converted,
+        startedAt: startAt.toISOString(),
+        endedAt: clock.toISOString(),
+        ...(stoppedReason ? { stoppedReason } : {}),
+        ...(enrollment.errorMessage ? { errorMessage: enrollment.errorMessage } : {}),
+    };
+}
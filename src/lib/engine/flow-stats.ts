@@ -0,0 +1,152 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Flow Split & Email Statistics
+ *
+ * Keeps the per-variant stats on A/B split nodes up to date:
+ *  - enrolled     → a split node assigned the enrollee to the variant
+ *  - opens/clicks → first open / click of a flow email sent after the split
+ *  - conversions  → the enrollee reached the flow's goal event
+ *
+ * After every update the split is re-evaluated; once a variant wins with
+ * enough confidence its id is written to SplitNodeConfig.winnerId and the
+ * engine routes all later enrollees to it.
+ *
+ * Flow email engagement (sends, unique opens and clicks per send_email
+ * step) is recounted from the queue and tracking tables into
+ * FlowMetrics.emailSteps / openRate / clickRate.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import {
+    incrementFlowSplitStat,
+    claimFlowSplitWinner,
+    saveFlowEmailMetrics,
+    getEnrollment as dbGetEnrollment,
+    addActivityEntry,
+} from '@/lib/db/operations';
+import { mapFlowEnrollToUI } from '@/lib/db/mappers';
+import { evaluateSplitWinner, splitAssignments, rollupFlowEmailMetrics } from './flow';
+import {
+    countEnrollmentTrackingEvents,
+    countMessageTrackingEvents,
+    getFlowEmailEngagement,
+    type FlowTrackingContext,
+} from './email';
+import type { FlowEnrollment, FlowMetrics, FlowNodeDef, SplitVariantStats } from '@/lib/definitions';
+
+type SplitStat = keyof SplitVariantStats;
+
+interface SplitIncrement {
+    nodeId: string;
+    variantId: string;
+    stat: SplitStat;
+}
+
+/**
+ * Apply stat increments to the split nodes of a flow and pick winners
+ * where the results are significant. Counters are incremented and winners
+ * set in place by the database, so concurrent events and builder saves
+ * don't overwrite each other, and each split is decided once.
+ */
+async function incrementSplitStats(orgId: string, flowId: string, increments: SplitIncrement[]): Promise<void> {
+    let flow: { name: string; nodes: FlowNodeDef[] } | null = null;
+    const touched = new Set<string>();
+
+    for (const inc of increments) {
+        const updated = await incrementFlowSplitStat(orgId, flowId, inc.nodeId, inc.variantId, inc.stat);
+        if (!updated) continue;
+        flow = { name: updated.name, nodes: updated.nodes as FlowNodeDef[] };
+        touched.add(inc.nodeId);
+    }
+    if (!flow) return;
+
+    for (const nodeId of touched) {
+        const node = flow.nodes.find((n) => n.id === nodeId);
+        const cfg = node?.data.splitConfig;
+        const decision = cfg && evaluateSplitWinner(cfg);
+        if (!node || !cfg || !decision) continue;
+
+        const claimed = await claimFlowSplitWinner(orgId, flowId, nodeId, {
+            winnerId: decision.winnerId,
+            winnerDecidedAt: new Date().toISOString(),
+            winnerConfidence: decision.confidence,
+        });
+        if (!claimed) continue;
+
+        const winner = cfg.variants.find((v) => v.id === decision.winnerId);
+        await addActivityEntry(orgId, {
+            type: 'system',
+            title: 'A/B Split Winner Picked',
+            description: `${flow.name} › ${node.data.label}: variant ${winner?.label ?? decision.winnerId} won on ${(cfg.winnerMetric ?? 'conversion_rate').replace('_', ' ')} (${(decision.confidence * 100).toFixed(1)}% confidence)`,
+        });
+    }
+}
+
+/** Count an enrollee entering a split variant. */
+export async function recordSplitAssignment(
+    orgId: string,
+    flowId: string,
+    nodeId: string,
+    variantId: string,
+): Promise<void> {
+    await incrementSplitStats(orgId, flowId, [{ nodeId, variantId, stat: 'enrolled' }]);
+}
+
+/** Credit every split variant the enrollment took with a goal conversion. */
+export async function recordSplitConversion(
+    orgId: string,
+    flowId: string,
+    enrollment: Pick<FlowEnrollment, 'variables' | 'history'>,
+): Promise<void> {
+    const increments = splitAssignments(enrollment)
+        .map((a) => ({ ...a, stat: 'conversions' as const }));
+    await incrementSplitStats(orgId, flowId, increments);
+}
+
+/**
+ * Credit an email open or click to the split variants the enrollee took
+ * before the email was sent. Only the enrollee's first open (or click) of
+ * an email sent after each split counts, so rates stay per-enrollee and
+ * every split in a row gets credited. Call after the tracking event is
+ * recorded.
+ */
+export async function recordSplitEngagement(
+    flow: FlowTrackingContext,
+    type: 'open' | 'click',
+): Promise<void> {
+    const dbEnrollment = await dbGetEnrollment(flow.orgId, flow.enrollmentId);
+    if (!dbEnrollment) return;
+
+    const enrollment = mapFlowEnrollToUI(dbEnrollment);
+    const increments: SplitIncrement[] = [];
+    for (const assignment of splitAssignments(enrollment, flow.nodeId)) {
+        const splitVisit = enrollment.history.findIndex((h) => h.nodeId === assignment.nodeId && h.nodeType === 'split');
+        const nodesAfterSplit = [...new Set(enrollment.history.slice(splitVisit + 1).map((h) => h.nodeId))];
+        const seen = await countEnrollmentTrackingEvents(flow.orgId, flow.enrollmentId, type, nodesAfterSplit);
+        if (seen > 1) continue;
+        increments.push({ ...assignment, stat: type === 'open' ? 'opens' : 'clicks' });
+    }
+    await incrementSplitStats(flow.orgId, flow.flowId, increments);
+}
+
+/**
+ * Recount the email engagement of a flow's send_email steps and store it
+ * in the flow's metrics. Only the email metrics are written.
+ */
+export async function refreshFlowEmailMetrics(orgId: string, flowId: string): Promise<void> {
+    const steps = await getFlowEmailEngagement(orgId, flowId);
+    await saveFlowEmailMetrics(orgId, flowId, rollupFlowEmailMetrics({} as FlowMetrics, steps));
+}
+
+/**
+ * Update a flow's email metrics after an open or click is recorded. Only
+ * the first open (or click) of a message changes the unique counts, so
+ * repeats are skipped.
+ */
+export async function recordFlowEmailEngagement(
+    flow: FlowTrackingContext,
+    messageId: string,
+    type: 'open' | 'click',
+): Promise<void> {
+    const seen = await countMessageTrackingEvents(flow.orgId, messageId, type);
+    if (seen > 1) return;
+    await refreshFlowEmailMetrics(flow.orgId, flow.flowId);
+}
@@ -0,0 +1,195 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Flow Versions - Publishing & Pinned Execution
+ *
+ * Every change to an active flow publishes an immutable version. New
+ * enrollments start on the latest version; in-flight ones stay pinned to
+ * the version they started on until they finish (`drain`) or are moved
+ * onto the new graph by a migration plan (`migrate`).
+ *
+ * Flows that ran before versioning existed get their previous graph
+ * snapshotted on the first publish; their enrollments (whatever version
+ * number they carry) resolve to that snapshot.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import {
+    getPinnedFlowVersion,
+    getFlowVersions,
+    getInFlightEnrollmentCounts,
+    saveFlowDefinition,
+    addActivityEntry,
+    type FlowDef,
+    type FlowVersion,
+    type FlowPublicationWrite,
+} from '@/lib/db/operations';
+import { mapFlowDefToUI } from '@/lib/db/mappers';
+import { flowGraphFingerprint, planVersionMigration, withVersionGraph } from './flow';
+import { redactWebhookSecrets } from './inbound-webhooks';
+import type {
+    FlowDefinition,
+    FlowEdgeDef,
+    FlowNodeDef,
+    FlowVariable,
+    FlowVersionMigration,
+    FlowVersionSummary,
+} from '@/lib/definitions';
+
+export interface FlowPublication {
+    version: number;
+    strategy: FlowVersionMigration['strategy'];
+    migrated: number;
+    draining: number;
+}
+
+type FlowGraph = Pick<FlowDefinition, 'nodes' | 'edges' | 'variables'>;
+
+function graphOf(row: Pick<FlowDef | FlowVersion, 'nodes' | 'edges' | 'variables'>): FlowGraph {
+    return {
+        nodes: (row.nodes ?? []) as unknown as FlowNodeDef[],
+        edges: (row.edges ?? []) as unknown as FlowEdgeDef[],
+        variables: (row.variables ?? []) as unknown as FlowVariable[],
+    };
+}
+
+/** The snapshot an enrollment on `version` runs (smallest version at or above it). */
+function pinnedSnapshot<T extends { version: number }>(versions: T[], version: number): T | undefined {
+    return versions
+        .filter((v) => v.version >= version)
+        .reduce<T | undefined>((best, v) => (!best || v.version < best.version ? v : best), undefined);
+}
+
+/**
+ * The flow an enrollment executes. The definition itself is used while
+ * the flow is active and the enrollment is on its latest version (the two
+ * are identical then); otherwise the pinned snapshot. Enrollments with no
+ * snapshot to resolve to run on the definition, as before versioning.
+ */
+export async function loadFlowForEnrollment(orgId: string, dbFlow: FlowDef, flowVersion: number): Promise<FlowDefinition> {
+    const flow = mapFlowDefToUI(dbFlow);
+    if (dbFlow.status === 'active' && flowVersion === dbFlow.version) return flow;
+
+    const snapshot = await getPinnedFlowVersion(orgId, dbFlow.id, flowVersion);
+    if (!snapshot) return flow;
+    return withVersionGraph(flow, snapshot.version, graphOf(snapshot));
+}
+
+/** The edited fields of a flow definition, as merged by the builder's save. */
+export type FlowEdit = Pick<FlowDef, 'name' | 'description' | 'status' | 'nodes' | 'edges' | 'variables' | 'settings'>
+    & Partial<Pick<FlowDef, 'publishedAt' | 'archivedAt'>>;
+
+/**
+ * Save an edited flow. An active flow whose graph differs from its latest
+ * published version publishes a new version in the same batch, and the
+ * migration plan is applied to the in-flight enrollments of older versions.
+ *
+ * @param previous the flow as the caller read it: its graph is what
+ *   pre-versioning enrollments ran on, and the save is refused if the row
+ *   has changed since
+ * @returns null when the flow was changed in the meantime; otherwise the
+ *   saved row and the publication (null when nothing was published)
+ */
+export async function saveFlow(
+    orgId: string,
+    previous: FlowDef,
+    edit: FlowEdit,
+    migration: FlowVersionMigration = { strategy: 'drain' },
+): Promise<{ flow: FlowDef; publication: FlowPublication | null } | null> {
+    // Versions are published from the live graph of active flows
+    const plan = edit.status === 'active' ? await planPublication(orgId, previous, edit, migration) : null;
+    const flow = await saveFlowDefinition(orgId, previous.id, previous.updatedAt, edit, plan ?? undefined);
+    if (!flow) return null;
+
+    if (plan?.changed) {
+        await addActivityEntry(orgId, {
+            type: 'system',
+            title: 'Flow Version Published',
+            description: `${flow.name} v${plan.publication.version}: ${plan.publication.migrated} enrollment(s) migrated, ${plan.publication.draining} draining on older versions`,
+        });
+    }
+    return { flow, publication: plan?.publication ?? null };
+}
+
+/**
+ * The snapshots a save publishes (none when the graph matches the latest
+ * published one) and the migration plan for in-flight enrollments.
+ */
+async function planPublication(
+    orgId: string,
+    previous: FlowDef,
+    edit: FlowEdit,
+    migration: FlowVersionMigration,
+): Promise<(FlowPublicationWrite & { publication: FlowPublication; changed: boolean }) | null> {
+    const published = await getFlowVersions(orgId, previous.id);
+    const snapshots: Array<FlowGraph & { version: number; migration?: Record<string, unknown> }> = [];
+
+    // Ran before versioning: keep the graph its enrollments started on
+    if (!published.length && previous.publishedAt) {
+        snapshots.push({ version: previous.version, ...graphOf(previous) });
+    }
+
+    const known = [...snapshots, ...published].map((v) => ({ version: v.version, ...graphOf(v) }));
+    const latest = known.reduce<(typeof known)[number] | undefined>(
+        (best, v) => (!best || v.version > best.version ? v : best),
+        undefined,
+    );
+    const graph = graphOf(edit);
+    const changed = !latest || flowGraphFingerprint(latest) !== flowGraphFingerprint(graph);
+
+    if (!changed) {
+        if (!snapshots.length) return null;
+        return {
+            snapshots,
+            moves: [],
+            publication: { version: latest!.version, strategy: migration.strategy, migrated: 0, draining: 0 },
+            changed: false,
+        };
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    const inFlight = await getInFlightEnrollmentCounts(orgId, previous.id);
+    const oldGraphs = new Map<number, FlowNodeDef[]>();
+    for (const group of inFlight) {
+        const pinned = pinnedSnapshot(known, group.flowVersion);
+        oldGraphs.set(group.flowVersion, pinned?.nodes ?? graphOf(previous).nodes);
+    }
+    const plan = planVersionMigration(inFlight, version, graph.nodes, migration, oldGraphs);
+
+    snapshots.push({
+        version,
+        ...graph,
+        migration: {
+            strategy: migration.strategy,
+            ...(migration.nodeMap ? { nodeMap: migration.nodeMap } : {}),
+            migrated: plan.migrated,
+            draining: plan.draining,
+        },
+    });
+    return {
+        snapshots,
+        moves: plan.moves,
+        publication: { version, strategy: migration.strategy, migrated: plan.migrated, draining: plan.draining },
+        changed: true,
+    };
+}
+
+/** Published versions of a flow, newest first, with their in-flight enrollments. */
+export async function getFlowVersionSummaries(orgId: string, flowId: string): Promise<FlowVersionSummary[]> {
+    const [versions, inFlight] = await Promise.all([
+        getFlowVersions(orgId, flowId),
+        getInFlightEnrollmentCounts(orgId, flowId),
+    ]);
+
+    const summaries = versions.map((v): FlowVersionSummary => ({
+        version: v.version,
+        publishedAt: v.publishedAt.toISOString(),
+        inFlight: {},
+        nodes: redactWebhookSecrets(graphOf(v).nodes),
+        ...(v.migration ? { migration: v.migration as unknown as FlowVersionSummary['migration'] } : {}),
+    }));
+
+    for (const group of inFlight) {
+        const summary = pinnedSnapshot(summaries, group.flowVersion);
+        if (!summary) continue;
+        summary.inFlight[group.nodeId] = (summary.inFlight[group.nodeId] ?? 0) + group.count;
+    }
+    return summaries;
+}
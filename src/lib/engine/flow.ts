@@ -22,13 +22,22 @@ import type {
     FlowNodeType,
     ConditionRule,
     ConditionLogic,
+    RuleNode,
     EnrollmentHistoryEntry,
     EnrollmentStatus,
     User,
     LifecycleState,
     FlowVariable,
+    FlowSettings,
+    FlowMetrics,
+    FlowEmailStepMetrics,
+    SplitNodeConfig,
+    SplitVariantStats,
+    FlowVersionMigration,
     TriggerNodeConfig,
+    ActionNodeConfig,
 } from '@/lib/definitions';
+import { evaluateRuleGroup, normalizeRuleGroup } from './rule-groups';
 
 /* ── Variable Resolution ─────────────────────────────────────────────── */
 
@@ -65,16 +74,42 @@ export function resolveTemplate(
     });
 }
 
+/**
+ * Flatten a trigger payload into `event.*` variables
+ * (e.g. `{ plan: { name } }` → `event.plan.name`). Arrays are stored as
+ * JSON; nesting deeper than a few levels is dropped.
+ */
+export function flattenEventVariables(
+    payload: Record<string, unknown> | undefined,
+    prefix = 'event',
+    depth = 0,
+): Record<string, string | number | boolean> {
+    const bag: Record<string, string | number | boolean> = {};
+    if (!payload || depth > 4) return bag;
+    for (const [key, value] of Object.entries(payload)) {
+        const path = `${prefix}.${key}`;
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            bag[path] = value;
+        } else if (Array.isArray(value)) {
+            bag[path] = JSON.stringify(value);
+        } else if (value && typeof value === 'object') {
+            Object.assign(bag, flattenEventVariables(value as Record<string, unknown>, path, depth + 1));
+        }
+    }
+    return bag;
+}
+
 /**
  * Build the initial variable bag for a new enrollment by resolving
- * each FlowVariable from its source.
+ * each FlowVariable from its source. The trigger payload is also exposed
+ * as `event.*` variables for templates and conditions.
  */
 export function buildInitialVariables(
     flowVars: FlowVariable[],
     user?: Partial<User>,
     eventProperties?: Record<string, unknown>,
 ): Record<string, string | number | boolean> {
-    const bag: Record<string, string | number | boolean> = {};
+    const bag: Record<string, string | number | boolean> = flattenEventVariables(eventProperties);
 
     for (const v of flowVars) {
         if (v.source === 'static' || !v.source) {
@@ -170,15 +205,14 @@ export function evaluateRule(
     }
 }
 
+/** Evaluate a condition's rules, which may nest AND/OR groups, under `logic`. */
 export function evaluateCondition(
     logic: ConditionLogic,
-    rules: ConditionRule[],
+    rules: RuleNode<ConditionRule>[],
     user?: Partial<User>,
     variables?: Record<string, string | number | boolean>,
 ): boolean {
-    if (rules.length === 0) return true;
-    if (logic === 'AND') return rules.every((r) => evaluateRule(r, user, variables));
-    return rules.some((r) => evaluateRule(r, user, variables));
+    return evaluateRuleGroup(normalizeRuleGroup<ConditionRule>(logic, rules), (r) => evaluateRule(r, user, variables));
 }
 
 /* ── A/B Split Determinator ──────────────────────────────────────────── */
@@ -205,8 +239,102 @@ export function pickSplitVariant(
     return variants[variants.length - 1]?.id ?? '';
 }
 
+/* ── A/B Split Winner Selection ──────────────────────────────────────── */
+
+/** Confidence required before a split variant is declared the winner */
+export const SPLIT_WINNER_CONFIDENCE = 0.95;
+/** Default for SplitNodeConfig.autoPickAfter (matches the property panel) */
+export const DEFAULT_SPLIT_AUTO_PICK_AFTER = 200;
+
+/** Enrollment variable recording which variant a split node assigned. */
+export function splitVariableKey(nodeId: string): string {
+    return `split:${nodeId}`;
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26 approximation of erf). */
+function normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function splitSuccesses(stats: SplitVariantStats, metric: SplitNodeConfig['winnerMetric']): number {
+    switch (metric) {
+        case 'open_rate': return stats.opens;
+        case 'click_rate': return stats.clicks;
+        default: return stats.conversions;
+    }
+}
+
+/**
+ * Decide whether a split node has a winner. Once `autoPickAfter` enrollees
+ * have passed through, the best variant (by winnerMetric) is compared to
+ * the runner-up with a two-proportion z-test; it wins when the difference
+ * is significant at SPLIT_WINNER_CONFIDENCE. Returns null while undecided.
+ */
+export function evaluateSplitWinner(config: SplitNodeConfig): { winnerId: string; confidence: number } | null {
+    if (config.winnerId || config.variants.length < 2) return null;
+    const threshold = config.autoPickAfter ?? DEFAULT_SPLIT_AUTO_PICK_AFTER;
+    if (threshold <= 0) return null;
+
+    const ranked = config.variants
+        .map((v) => {
+            const stats = v.stats ?? { enrolled: 0, opens: 0, clicks: 0, conversions: 0 };
+            const successes = Math.min(splitSuccesses(stats, config.winnerMetric), stats.enrolled);
+            return { id: v.id, n: stats.enrolled, successes, rate: stats.enrolled ? successes / stats.enrolled : 0 };
+        });
+    const total = ranked.reduce((sum, v) => sum + v.n, 0);
+    if (total < threshold) return null;
+
+    ranked.sort((a, b) => b.rate - a.rate);
+    const [best, runnerUp] = ranked;
+    if (!best.n || !runnerUp.n) return null;
+
+    const pooled = (best.successes + runnerUp.successes) / (best.n + runnerUp.n);
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / best.n + 1 / runnerUp.n));
+    if (se === 0) return null;
+    const z = (best.rate - runnerUp.rate) / se;
+    const confidence = 1 - 2 * (1 - normalCdf(z));
+    return confidence >= SPLIT_WINNER_CONFIDENCE ? { winnerId: best.id, confidence } : null;
+}
+
+/**
+ * Split variants an enrollment was assigned before it reached `nodeId`
+ * (or all assignments when no node is given), read from its variables
+ * and history.
+ */
+export function splitAssignments(
+    enrollment: Pick<FlowEnrollment, 'variables' | 'history'>,
+    beforeNodeId?: string,
+): { nodeId: string; variantId: string }[] {
+    const lastVisit = beforeNodeId
+        ? enrollment.history.map((h) => h.nodeId).lastIndexOf(beforeNodeId)
+        : enrollment.history.length;
+    const assignments: { nodeId: string; variantId: string }[] = [];
+    for (const [key, value] of Object.entries(enrollment.variables)) {
+        if (!key.startsWith('split:')) continue;
+        const nodeId = key.slice('split:'.length);
+        const splitVisit = enrollment.history.findIndex((h) => h.nodeId === nodeId && h.nodeType === 'split');
+        if (splitVisit !== -1 && splitVisit < lastVisit) {
+            assignments.push({ nodeId, variantId: String(value) });
+        }
+    }
+    return assignments;
+}
+
 /* ── Trigger Matching ────────────────────────────────────────────────── */
 
+/**
+ * Match an event name against a pattern. Supports wildcards:
+ * "user.*" matches "user.signed_up". An empty pattern matches anything.
+ */
+export function matchesEventName(pattern: string | undefined, eventName: string | undefined): boolean {
+    if (!pattern) return true;
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(eventName ?? '');
+}
+
 export interface TriggerEvent {
     type: 'lifecycle_change' | 'event_received' | 'schedule' | 'manual' | 'segment_entry' | 'webhook_received' | 'date_property';
     /** For lifecycle_change */
@@ -239,9 +367,7 @@ export function matchesTrigger(
         }
         case 'event_received': {
             if (!config.eventName) return true;
-            // Support wildcard: "user.*" matches "user.signed_up"
-            const pattern = config.eventName.replace(/\*/g, '.*');
-            if (!new RegExp(`^${pattern}$`).test(event.eventName ?? '')) return false;
+            if (!matchesEventName(config.eventName, event.eventName)) return false;
             // Check optional event filters
             if (config.eventFilters?.length) {
                 return evaluateCondition('AND', config.eventFilters);
@@ -251,18 +377,322 @@ export function matchesTrigger(
         case 'manual':
             return true;
         case 'schedule':
-            return true; // cron handling is external
+            return true; // due-ness is decided by latestCronOccurrence in the scheduler
         case 'segment_entry':
-            return config.segmentId === event.segmentId;
+            return !!config.segmentId && config.segmentId === event.segmentId;
         case 'webhook_received':
             return true;
         case 'date_property':
-            return true; // date evaluation is external
+            return true; // due-ness is decided by isDatePropertyDue in the scheduler
         default:
             return false;
     }
 }
 
+/**
+ * Whether a user may (re-)enter a flow given their previous enrollments
+ * in it. Never while an enrollment is still running; after that only when
+ * the trigger allows re-entry and the cooldown since the last finished
+ * enrollment has elapsed.
+ */
+export function canEnterFlow(
+    config: Pick<TriggerNodeConfig, 'allowReEntry' | 'reEntryCooldownMinutes'>,
+    previous: Pick<FlowEnrollment, 'status' | 'enrolledAt' | 'completedAt'>[],
+    at: Date = new Date(),
+): boolean {
+    if (previous.some((e) => e.status === 'active' || e.status === 'paused')) return false;
+    if (!previous.length) return true;
+    if (!config.allowReEntry) return false;
+
+    const cooldownMs = (config.reEntryCooldownMinutes ?? 0) * 60_000;
+    if (cooldownMs <= 0) return true;
+    const lastFinished = Math.max(
+        ...previous.map((e) => new Date(e.completedAt ?? e.enrolledAt).getTime() || 0),
+    );
+    return at.getTime() - lastFinished >= cooldownMs;
+}
+
+/* ── Flow Settings Guards ────────────────────────────────────────────── */
+
+/** Minutes since midnight for an "HH:mm" string. */
+function parseClock(value: string | undefined, fallback: string): number {
+    const [h, m] = (value || fallback).split(':').map(Number);
+    if (isNaN(h)) return parseClock(fallback, fallback);
+    return (h % 24) * 60 + (isNaN(m) ? 0 : m);
+}
+
+/** Minutes since midnight of `at` in the given IANA timezone (UTC if invalid). */
+function minutesInTimezone(at: Date, timeZone?: string): number {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timeZone || 'UTC',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(at);
+    } catch {
+        return at.getUTCHours() * 60 + at.getUTCMinutes();
+    }
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+    return (hour % 24) * 60 + minute;
+}
+
+/**
+ * Whether `at` falls inside the flow's quiet hours (evaluated in the
+ * flow's quiet-hours timezone). Windows may wrap midnight, e.g. 22:00-08:00.
+ */
+export function isWithinQuietHours(settings: FlowSettings | undefined, at: Date = new Date()): boolean {
+    if (!settings?.respectQuietHours) return false;
+    const start = parseClock(settings.quietHoursStart, '22:00');
+    const end = parseClock(settings.quietHoursEnd, '08:00');
+    if (start === end) return false;
+    const current = minutesInTimezone(at, settings.quietHoursTimezone);
+    return start < end
+        ? current >= start && current < end
+        : current >= start || current < end;
+}
+
+/** The next moment quiet hours end, relative to `at`. */
+export function quietHoursEndAfter(settings: FlowSettings, at: Date = new Date()): Date {
+    const end = parseClock(settings.quietHoursEnd, '08:00');
+    const current = minutesInTimezone(at, settings.quietHoursTimezone);
+    const minutesLeft = (end - current + 1440) % 1440 || 1440;
+    const startOfMinute = at.getTime() - (at.getTime() % 60_000);
+    return new Date(startOfMinute + minutesLeft * 60_000);
+}
+
+/**
+ * Check a flow's enrollment cap (lifetime) and concurrency limit before a
+ * new enrollment is created. Limits of 0 (or less) mean unlimited.
+ * Returns the refusal reason, or null when the user may enroll.
+ */
+export function checkEnrollmentLimits(
+    settings: FlowSettings | undefined,
+    counts: Pick<FlowMetrics, 'totalEnrolled' | 'currentlyActive'>,
+): string | null {
+    if (!settings) return null;
+    if (settings.enrollmentCap > 0 && counts.totalEnrolled >= settings.enrollmentCap) {
+        return `Enrollment cap of ${settings.enrollmentCap} reached`;
+    }
+    if (settings.maxConcurrentEnrollments > 0 && counts.currentlyActive >= settings.maxConcurrentEnrollments) {
+        return `Concurrency limit of ${settings.maxConcurrentEnrollments} active enrollments reached`;
+    }
+    return null;
+}
+
+/** Whether an enrollment has outlived the flow's autoExitDays setting. */
+export function shouldAutoExit(
+    settings: FlowSettings | undefined,
+    enrollment: Pick<FlowEnrollment, 'enrolledAt'>,
+    at: Date = new Date(),
+): boolean {
+    if (!settings?.autoExitDays || settings.autoExitDays <= 0) return false;
+    const enrolledAt = new Date(enrollment.enrolledAt).getTime();
+    if (isNaN(enrolledAt)) return false;
+    return at.getTime() - enrolledAt >= settings.autoExitDays * 86_400_000;
+}
+
+/* ── Scheduled Triggers ──────────────────────────────────────────────── */
+
+/** Time of day at which date_property triggers scan their audience. */
+export const DATE_PROPERTY_SCAN_CRON = '0 9 * * *';
+
+/** How far back the scheduler looks for a missed schedule occurrence. */
+export const SCHEDULE_CATCH_UP_MINUTES = 60;
+
+interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number;
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Calendar fields of `at` in the given IANA timezone (UTC if invalid). */
+function zonedParts(at: Date, timeZone?: string): ZonedParts {
+    const tz = timeZone || 'UTC';
+    let fmt = zonedFormatters.get(tz);
+    if (!fmt) {
+        try {
+            fmt = new Intl.DateTimeFormat('en-US', {
+                timeZone: tz,
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+                weekday: 'short',
+                hourCycle: 'h23',
+            });
+        } catch {
+            return zonedParts(at, 'UTC');
+        }
+        zonedFormatters.set(tz, fmt);
+    }
+    const parts = fmt.formatToParts(at);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+    return {
+        year: Number(get('year')),
+        month: Number(get('month')),
+        day: Number(get('day')),
+        hour: Number(get('hour')) % 24,
+        minute: Number(get('minute')),
+        weekday: WEEKDAYS.indexOf(get('weekday').toLowerCase()),
+    };
+}
+
+interface CronSpec {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    anyDay: boolean;
+    anyWeekday: boolean;
+}
+
+function parseCronValue(value: string, names?: string[], offset = 0): number {
+    const idx = names?.indexOf(value.toLowerCase()) ?? -1;
+    return idx >= 0 ? idx + offset : Number(value);
+}
+
+/** Parse one cron field (`*`, lists, ranges, steps and names). */
+function parseCronField(field: string, min: number, max: number, names?: string[], offset = 0): Set<number> | null {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) return null;
+
+        let lo: number;
+        let hi: number;
+        if (range === '*') {
+            lo = min;
+            hi = max;
+        } else if (range.includes('-')) {
+            const [a, b] = range.split('-');
+            lo = parseCronValue(a, names, offset);
+            hi = parseCronValue(b, names, offset);
+        } else {
+            lo = parseCronValue(range, names, offset);
+            hi = stepText === undefined ? lo : max;
+        }
+        if (!Number.isInteger(lo) || !Number.isInteger(hi) || lo < min || hi > max || lo > hi) return null;
+        for (let v = lo; v <= hi; v += step) values.add(v);
+    }
+    return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression
+ * (minute hour day-of-month month day-of-week). Returns null if invalid.
+ */
+export function parseCron(expression: string | undefined): CronSpec | null {
+    const fields = (expression ?? '').trim().split(/\s+/);
+    if (fields.length !== 5) return null;
+    const minutes = parseCronField(fields[0], 0, 59);
+    const hours = parseCronField(fields[1], 0, 23);
+    const days = parseCronField(fields[2], 1, 31);
+    const months = parseCronField(fields[3], 1, 12, MONTHS, 1);
+    const weekdays = parseCronField(fields[4], 0, 7, WEEKDAYS);
+    if (!minutes || !hours || !days || !months || !weekdays) return null;
+    if (weekdays.delete(7)) weekdays.add(0);
+    return {
+        minutes, hours, days, months, weekdays,
+        anyDay: fields[2].startsWith('*'),
+        anyWeekday: fields[4].startsWith('*'),
+    };
+}
+
+function cronMatches(spec: CronSpec, p: ZonedParts): boolean {
+    if (!spec.minutes.has(p.minute) || !spec.hours.has(p.hour) || !spec.months.has(p.month)) return false;
+    // Standard cron: when both day fields are restricted, either may match
+    const dayOk = spec.days.has(p.day);
+    const weekdayOk = spec.weekdays.has(p.weekday);
+    if (spec.anyDay && spec.anyWeekday) return true;
+    if (spec.anyDay) return weekdayOk;
+    if (spec.anyWeekday) return dayOk;
+    return dayOk || weekdayOk;
+}
+
+/**
+ * The most recent minute at or before `at` matched by the cron expression
+ * in the given timezone, looking back at most `lookbackMinutes`.
+ * Returns null for invalid expressions or when nothing matched.
+ */
+export function latestCronOccurrence(
+    expression: string | undefined,
+    timeZone: string | undefined,
+    at: Date = new Date(),
+    lookbackMinutes = SCHEDULE_CATCH_UP_MINUTES,
+): Date | null {
+    const spec = parseCron(expression);
+    if (!spec) return null;
+    const startOfMinute = at.getTime() - (at.getTime() % 60_000);
+    for (let i = 0; i <= lookbackMinutes; i++) {
+        const candidate = new Date(startOfMinute - i * 60_000);
+        if (cronMatches(spec, zonedParts(candidate, timeZone))) return candidate;
+    }
+    return null;
+}
+
+/** Calendar date ("YYYY-MM-DD") of `at` in the given timezone. */
+export function calendarDateInTimezone(at: Date, timeZone?: string): string {
+    const p = zonedParts(at, timeZone);
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+function shiftCalendarDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Look up a date_property field in the given records (e.g. the tracked
+ * user row, its properties, the account row and its properties), first
+ * hit wins. Returns the calendar date in the trigger timezone, or null.
+ */
+export function resolveDateProperty(
+    key: string | undefined,
+    sources: (Record<string, unknown> | null | undefined)[],
+    timeZone?: string,
+): string | null {
+    if (!key) return null;
+    for (const source of sources) {
+        const raw = source?.[key];
+        if (raw === undefined || raw === null || raw === '') continue;
+        if (typeof raw === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+        const date = raw instanceof Date ? raw : new Date(raw as string | number);
+        if (isNaN(date.getTime())) continue;
+        return calendarDateInTimezone(date, timeZone);
+    }
+    return null;
+}
+
+/**
+ * Whether a date_property trigger fires today: the resolved date plus
+ * dateOffsetDays falls on today's date in the trigger timezone. A negative
+ * offset fires before the date (e.g. -30 for a renewal reminder).
+ */
+export function isDatePropertyDue(
+    config: Pick<TriggerNodeConfig, 'dateProperty' | 'dateOffsetDays' | 'timezone'>,
+    sources: (Record<string, unknown> | null | undefined)[],
+    at: Date = new Date(),
+): boolean {
+    const date = resolveDateProperty(config.dateProperty, sources, config.timezone);
+    if (!date) return false;
+    return shiftCalendarDate(date, config.dateOffsetDays ?? 0) === calendarDateInTimezone(at, config.timezone);
+}
+
 /* ── Graph Traversal Helpers ─────────────────────────────────────────── */
 
 export function findNode(flow: FlowDefinition, nodeId: string): FlowNodeDef | undefined {
@@ -281,21 +711,151 @@ export function findNextNode(
     flow: FlowDefinition,
     nodeId: string,
     handle?: string,
+    options: { strict?: boolean } = {},
 ): FlowNodeDef | undefined {
     const edges = findOutgoingEdges(flow, nodeId);
-    const edge = handle
-        ? edges.find((e) => e.sourceHandle === handle) ?? edges[0]
-        : edges[0];
+    const wired = handle ? edges.find((e) => e.sourceHandle === handle) : undefined;
+    const edge = handle && options.strict ? wired : wired ?? edges[0];
     if (!edge) return undefined;
     return findNode(flow, edge.target);
 }
 
+/* ── API Calls ───────────────────────────────────────────────────────── */
+
+export const API_CALL_DEFAULT_TIMEOUT_SECONDS = 10;
+export const API_CALL_MAX_TIMEOUT_SECONDS = 30;
+
+/**
+ * How long an enrollment parked on an api_call node waits for the
+ * dispatcher to report back before the call is treated as timed out
+ * (covers a crash between sending the request and resuming).
+ */
+const API_CALL_RESPONSE_GRACE_MS = 5 * 60_000;
+
+/** Result of an api_call, fed back into the engine through TickContext. */
+export interface ApiCallOutcome {
+    nodeId: string;
+    /** 2xx response received */
+    ok: boolean;
+    /** HTTP status, 0 when no response arrived (timeout, network error) */
+    status: number;
+    /** Parsed JSON body, or the raw text when it isn't JSON */
+    body?: unknown;
+    error?: string;
+}
+
+export function apiCallTimeoutMs(cfg: Pick<ActionNodeConfig, 'apiTimeoutSeconds'>): number {
+    const seconds = cfg.apiTimeoutSeconds && cfg.apiTimeoutSeconds > 0
+        ? Math.min(cfg.apiTimeoutSeconds, API_CALL_MAX_TIMEOUT_SECONDS)
+        : API_CALL_DEFAULT_TIMEOUT_SECONDS;
+    return seconds * 1000;
+}
+
+/**
+ * Enrollment variable marking an api_call whose request is queued for the
+ * scheduler (see TickContext.deferApiCalls).
+ */
+export function apiCallQueuedKey(nodeId: string): string {
+    return `api_call_queued:${nodeId}`;
+}
+
+function walkJsonPath(value: unknown, tokens: string[]): unknown {
+    if (tokens.length === 0) return value;
+    if (value === null || typeof value !== 'object') return undefined;
+    const [head, ...rest] = tokens;
+    if (head === '*') {
+        const items = Array.isArray(value) ? value : Object.values(value);
+        return items.map((item) => walkJsonPath(item, rest)).filter((v) => v !== undefined);
+    }
+    return walkJsonPath((value as Record<string, unknown>)[head], rest);
+}
+
+/**
+ * Evaluate a simple JSONPath against a parsed body: `$.a.b`, `$.items[0]`,
+ * `$['odd key']` and `[*]` / `.*` wildcards (which yield an array). The
+ * leading `$` is optional. Returns undefined for missing paths or
+ * expressions it can't parse.
+ */
+export function extractJsonPath(value: unknown, path: string | undefined): unknown {
+    const expr = (path ?? '').trim().replace(/^\$/, '');
+    if (!expr) return value;
+    const normalized = /^[.[]/.test(expr) ? expr : `.${expr}`;
+
+    const tokens: string[] = [];
+    const tokenRe = /\.([^.[\]]+)|\[(\d+|\*)\]|\[['"]([^'"]+)['"]\]/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRe.exec(normalized))) {
+        if (match.index !== consumed) return undefined;
+        tokens.push(match[1] ?? match[2] ?? match[3]);
+        consumed = tokenRe.lastIndex;
+    }
+    if (consumed !== normalized.length) return undefined;
+    return walkJsonPath(value, tokens);
+}
+
+/**
+ * Variables written by a finished api_call: `api.status` / `api.error`
+ * for the latest call, and on success the response (or its JSONPath
+ * extract) under the node's apiResponseVariable. Objects are stored as
+ * JSON and also flattened (`crm.owner.email`) so templates can reach
+ * individual fields.
+ */
+export function apiResponseVariables(
+    cfg: Pick<ActionNodeConfig, 'apiResponseVariable' | 'apiResponsePath'>,
+    outcome: ApiCallOutcome,
+): Record<string, string | number | boolean> {
+    const vars: Record<string, string | number | boolean> = {
+        'api.status': outcome.status,
+        'api.error': outcome.ok ? '' : (outcome.error ?? `HTTP ${outcome.status}`),
+    };
+    const key = cfg.apiResponseVariable?.trim();
+    if (!key || !outcome.ok) return vars;
+
+    const extracted = extractJsonPath(outcome.body, cfg.apiResponsePath);
+    if (typeof extracted === 'string' || typeof extracted === 'number' || typeof extracted === 'boolean') {
+        vars[key] = extracted;
+    } else if (extracted && typeof extracted === 'object') {
+        vars[key] = JSON.stringify(extracted);
+        if (!Array.isArray(extracted)) {
+            Object.assign(vars, flattenEventVariables(extracted as Record<string, unknown>, key));
+        }
+    } else {
+        vars[key] = '';
+    }
+    return vars;
+}
+
+/**
+ * Next node after an api_call: the "failure" edge when the call failed and
+ * one is wired, otherwise the main path ("success" or unlabeled edge).
+ */
+export function findApiCallNextNode(flow: FlowDefinition, nodeId: string, ok: boolean): FlowNodeDef | undefined {
+    const edges = findOutgoingEdges(flow, nodeId);
+    const failure = edges.find((e) => e.sourceHandle === 'failure');
+    const main = edges.find((e) => e.sourceHandle === 'success') ?? edges.find((e) => e.sourceHandle !== 'failure');
+    const edge = !ok && failure ? failure : main;
+    return edge ? findNode(flow, edge.target) : undefined;
+}
+
 /* ── Node Tick (one-step execution) ──────────────────────────────────── */
 
 export interface TickContext {
     flow: FlowDefinition;
     enrollment: FlowEnrollment;
     user?: Partial<User>;
+    /** The event that woke this enrollment (resumes `until_event` delays) */
+    event?: { name: string; properties?: Record<string, unknown> };
+    /** Result of the api_call the enrollment is parked on */
+    apiResponse?: ApiCallOutcome;
+    /**
+     * Queue api_call requests instead of emitting them: the enrollment is
+     * parked as due now and sends the request on its next scheduled tick,
+     * so request handlers never wait on a third-party API
+     */
+    deferApiCalls?: boolean;
+    /** Clock to execute against (dry runs fast-forward it); defaults to now */
+    at?: Date;
 }
 
 export interface TickResult {
@@ -305,24 +865,27 @@ export interface TickResult {
     actions: TickAction[];
     /** Whether we should immediately tick again (e.g. after condition) */
     continueImmediately: boolean;
+    /** An email/notification step was held back until quiet hours end */
+    deferred?: boolean;
+    /** The enrollment was exited for exceeding the flow's autoExitDays */
+    autoExited?: boolean;
 }
 
 export type TickAction =
-    | { type: 'send_email'; subject: string; body: string; to: string; fromName?: string; replyTo?: string; templateId?: string }
+    | { type: 'send_email'; nodeId: string; subject: string; body: string; to: string; fromName?: string; replyTo?: string; templateId?: string }
     | { type: 'send_webhook'; url: string; method: string; headers: Record<string, string>; payload: string }
     | { type: 'update_user'; userId: string; properties: Record<string, string | number | boolean> }
     | { type: 'add_tag'; userId: string; tag: string }
     | { type: 'remove_tag'; userId: string; tag: string }
+    | { type: 'assign_segment'; userId: string; segmentId: string }
     | { type: 'create_task'; title: string; assignee?: string; priority?: string }
-    | { type: 'api_call'; url: string; method: string; headers: Record<string, string>; body: string; responseVar?: string }
+    | { type: 'api_call'; nodeId: string; url: string; method: string; headers: Record<string, string>; body: string; timeoutMs: number }
     | { type: 'send_notification'; userId: string; title: string; body: string; channel: string }
-    | { type: 'set_variable'; key: string; value: string | number | boolean };
-
-function now(): string {
-    return new Date().toISOString();
-}
+    | { type: 'set_variable'; key: string; value: string | number | boolean }
+    | { type: 'split_assigned'; nodeId: string; variantId: string };
 
 function historyEntry(
+    at: Date,
     node: FlowNodeDef,
     action: EnrollmentHistoryEntry['action'],
     details?: string,
@@ -332,7 +895,7 @@ function historyEntry(
         nodeName: node.data.label,
         nodeType: node.data.nodeType,
         action,
-        timestamp: now(),
+        timestamp: at.toISOString(),
         details,
     };
 }
@@ -342,7 +905,9 @@ function historyEntry(
  * and any side-effect actions to dispatch.
  */
 export function tickEnrollment(ctx: TickContext): TickResult {
-    const { flow, enrollment, user } = ctx;
+    const { flow, enrollment, user, event } = ctx;
+    const at = ctx.at ?? new Date();
+    const stamp = at.toISOString();
     const node = findNode(flow, enrollment.currentNodeId);
 
     if (!node) {
@@ -352,16 +917,38 @@ export function tickEnrollment(ctx: TickContext): TickResult {
                 status: 'error' as EnrollmentStatus,
                 errorMessage: `Node ${enrollment.currentNodeId} not found in flow`,
                 errorNodeId: enrollment.currentNodeId,
-                lastProcessedAt: now(),
+                lastProcessedAt: stamp,
+            },
+            actions: [],
+            continueImmediately: false,
+        };
+    }
+
+    // Stale enrollments leave the flow instead of executing further steps
+    if (shouldAutoExit(flow.settings, enrollment, at)) {
+        return {
+            enrollment: {
+                ...enrollment,
+                status: 'exited',
+                nextProcessAt: undefined,
+                lastProcessedAt: stamp,
+                completedAt: stamp,
+                history: [
+                    ...enrollment.history,
+                    historyEntry(at, node, 'skipped', `Auto-exited after ${flow.settings.autoExitDays} days in flow`),
+                ],
             },
             actions: [],
             continueImmediately: false,
+            autoExited: true,
         };
     }
 
     const data = node.data;
     const actions: TickAction[] = [];
     let nextHandle: string | undefined;
+    // Set by nodes that choose their outgoing edge themselves (api_call, until_event)
+    let routedNext: { node: FlowNodeDef | undefined } | undefined;
     let newStatus: EnrollmentStatus = 'active';
     let newVars = { ...enrollment.variables };
     const history = [...enrollment.history];
@@ -369,7 +956,7 @@ export function tickEnrollment(ctx: TickContext): TickResult {
     switch (data.nodeType) {
         /* ── Trigger ──────────────────────────────────────────── */
         case 'trigger': {
-            history.push(historyEntry(node, 'completed', 'Trigger activated'));
+            history.push(historyEntry(at, node, 'completed', 'Trigger activated'));
             break;
         }
 
@@ -377,15 +964,97 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         case 'action': {
             const cfg = data.actionConfig;
             if (!cfg) {
-                history.push(historyEntry(node, 'failed', 'Missing action config'));
+                history.push(historyEntry(at, node, 'failed', 'Missing action config'));
                 break;
             }
+            // Hold user-facing messages until the flow's quiet hours end
+            if ((cfg.kind === 'send_email' || cfg.kind === 'send_notification') && flow.settings?.respectQuietHours) {
+                if (enrollment.nextProcessAt && new Date(enrollment.nextProcessAt).getTime() > at.getTime()) {
+                    return { enrollment, actions: [], continueImmediately: false };
+                }
+                if (isWithinQuietHours(flow.settings, at)) {
+                    const resumeAt = quietHoursEndAfter(flow.settings, at);
+                    history.push(historyEntry(at, node, 'waiting', `Deferred for quiet hours until ${resumeAt.toISOString()}`));
+                    return {
+                        enrollment: {
+                            ...enrollment,
+                            variables: newVars,
+                            nextProcessAt: resumeAt.toISOString(),
+                            lastProcessedAt: stamp,
+                            history,
+                        },
+                        actions: [],
+                        continueImmediately: false,
+                        deferred: true,
+                    };
+                }
+            }
             const resolve = (tpl: string) => resolveTemplate(tpl, newVars, user);
 
+            // api_call parks the enrollment until the dispatcher reports the
+            // response, so later nodes can use it and branch on failure
+            if (cfg.kind === 'api_call') {
+                const response = ctx.apiResponse?.nodeId === node.id ? ctx.apiResponse : undefined;
+                const queuedKey = apiCallQueuedKey(node.id);
+                const queued = newVars[queuedKey] !== undefined;
+                if (!response && (!enrollment.nextProcessAt || queued)) {
+                    if (ctx.deferApiCalls) {
+                        if (queued) return { enrollment, actions: [], continueImmediately: false };
+                        history.push(historyEntry(at, node, 'waiting', 'API call queued'));
+                        return {
+                            enrollment: {
+                                ...enrollment,
+                                variables: { ...newVars, [queuedKey]: stamp },
+                                nextProcessAt: stamp,
+                                lastProcessedAt: stamp,
+                                history,
+                            },
+                            actions: [],
+                            continueImmediately: false,
+                        };
+                    }
+                    delete newVars[queuedKey];
+                    const timeoutMs = apiCallTimeoutMs(cfg);
+                    actions.push({
+                        type: 'api_call',
+                        nodeId: node.id,
+                        url: resolve(cfg.apiUrl ?? ''),
+                        method: cfg.apiMethod ?? 'POST',
+                        headers: cfg.apiHeaders ?? {},
+                        body: resolve(cfg.apiBodyTemplate ?? '{}'),
+                        timeoutMs,
+                    });
+                    history.push(historyEntry(at, node, 'waiting', 'Waiting for API response'));
+                    return {
+                        enrollment: {
+                            ...enrollment,
+                            variables: newVars,
+                            nextProcessAt: new Date(at.getTime() + timeoutMs + API_CALL_RESPONSE_GRACE_MS).toISOString(),
+                            lastProcessedAt: stamp,
+                            history,
+                        },
+                        actions,
+                        continueImmediately: false,
+                    };
+                }
+                if (!response && new Date(enrollment.nextProcessAt!).getTime() > at.getTime()) {
+                    return { enrollment, actions: [], continueImmediately: false };
+                }
+
+                const outcome = response ?? { nodeId: node.id, ok: false, status: 0, error: 'No response received' };
+                Object.assign(newVars, apiResponseVariables(cfg, outcome));
+                routedNext = { node: findApiCallNextNode(flow, node.id, outcome.ok) };
+                history.push(outcome.ok
+                    ? historyEntry(at, node, 'completed', `API call succeeded (${outcome.status})`)
+                    : historyEntry(at, node, 'failed', `API call failed: ${outcome.error ?? `HTTP ${outcome.status}`}`));
+                break;
+            }
+
             switch (cfg.kind) {
                 case 'send_email':
                     actions.push({
                         type: 'send_email',
+                        nodeId: node.id,
                         subject: resolve(cfg.emailSubject ?? ''),
                         body: resolve(cfg.emailBody ?? ''),
                         to: user?.email ?? '',
@@ -418,6 +1087,9 @@ export function tickEnrollment(ctx: TickContext): TickResult {
                 case 'remove_tag':
                     if (cfg.tag) actions.push({ type: 'remove_tag', userId: enrollment.userId, tag: resolve(cfg.tag) });
                     break;
+                case 'assign_segment':
+                    if (cfg.segmentId) actions.push({ type: 'assign_segment', userId: enrollment.userId, segmentId: cfg.segmentId });
+                    break;
                 case 'set_variable':
                     if (cfg.variableKey) {
                         const val = resolve(cfg.variableValue ?? '');
@@ -425,16 +1097,6 @@ export function tickEnrollment(ctx: TickContext): TickResult {
                         actions.push({ type: 'set_variable', key: cfg.variableKey, value: val });
                     }
                     break;
-                case 'api_call':
-                    actions.push({
-                        type: 'api_call',
-                        url: resolve(cfg.apiUrl ?? ''),
-                        method: cfg.apiMethod ?? 'POST',
-                        headers: cfg.apiHeaders ?? {},
-                        body: resolve(cfg.apiBodyTemplate ?? '{}'),
-                        responseVar: cfg.apiResponseVariable,
-                    });
-                    break;
                 case 'create_task':
                     actions.push({
                         type: 'create_task',
@@ -455,7 +1117,7 @@ export function tickEnrollment(ctx: TickContext): TickResult {
                 default:
                     break;
             }
-            history.push(historyEntry(node, 'completed', `Executed: ${cfg.kind}`));
+            history.push(historyEntry(at, node, 'completed', `Executed: ${cfg.kind}`));
             break;
         }
 
@@ -463,12 +1125,12 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         case 'condition': {
             const cfg = data.conditionConfig;
             if (!cfg) {
-                history.push(historyEntry(node, 'failed', 'Missing condition config'));
+                history.push(historyEntry(at, node, 'failed', 'Missing condition config'));
                 break;
             }
             const pass = evaluateCondition(cfg.logic, cfg.rules, user, newVars);
             nextHandle = pass ? 'yes' : 'no';
-            history.push(historyEntry(node, 'completed', `Condition → ${nextHandle}`));
+            history.push(historyEntry(at, node, 'completed', `Condition → ${nextHandle}`));
             break;
         }
 
@@ -476,7 +1138,7 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         case 'delay': {
             const cfg = data.delayConfig;
             if (!cfg) {
-                history.push(historyEntry(node, 'failed', 'Missing delay config'));
+                history.push(historyEntry(at, node, 'failed', 'Missing delay config'));
                 break;
             }
 
@@ -486,45 +1148,45 @@ export function tickEnrollment(ctx: TickContext): TickResult {
 
                 switch (cfg.kind) {
                     case 'fixed_duration':
-                        waitUntil = new Date(Date.now() + (cfg.durationMinutes ?? 0) * 60_000);
+                        waitUntil = new Date(at.getTime() + (cfg.durationMinutes ?? 0) * 60_000);
                         break;
                     case 'until_time_of_day': {
                         const [h, m] = (cfg.untilTime ?? '09:00').split(':').map(Number);
-                        waitUntil = new Date();
+                        waitUntil = new Date(at);
                         waitUntil.setHours(h, m, 0, 0);
-                        if (waitUntil.getTime() <= Date.now()) waitUntil.setDate(waitUntil.getDate() + 1);
+                        if (waitUntil.getTime() <= at.getTime()) waitUntil.setDate(waitUntil.getDate() + 1);
                         break;
                     }
                     case 'until_date':
                         waitUntil = new Date(resolveTemplate(cfg.untilDate ?? '', newVars, user));
-                        if (isNaN(waitUntil.getTime())) waitUntil = new Date(Date.now() + 3600_000);
+                        if (isNaN(waitUntil.getTime())) waitUntil = new Date(at.getTime() + 3600_000);
                         break;
                     case 'until_event':
                         // Wait for event or timeout
-                        waitUntil = new Date(Date.now() + (cfg.waitTimeoutMinutes ?? 1440) * 60_000);
+                        waitUntil = new Date(at.getTime() + (cfg.waitTimeoutMinutes ?? 1440) * 60_000);
                         break;
                     case 'smart_send_time': {
                         // Pick middle of send window
                         const [sh] = (cfg.sendWindowStart ?? '09:00').split(':').map(Number);
                         const [eh] = (cfg.sendWindowEnd ?? '17:00').split(':').map(Number);
                         const mid = Math.floor((sh + eh) / 2);
-                        waitUntil = new Date();
+                        waitUntil = new Date(at);
                         waitUntil.setHours(mid, 0, 0, 0);
-                        if (waitUntil.getTime() <= Date.now()) waitUntil.setDate(waitUntil.getDate() + 1);
+                        if (waitUntil.getTime() <= at.getTime()) waitUntil.setDate(waitUntil.getDate() + 1);
                         break;
                     }
                     default:
-                        waitUntil = new Date(Date.now() + 3600_000);
+                        waitUntil = new Date(at.getTime() + 3600_000);
                 }
 
-                history.push(historyEntry(node, 'waiting', `Waiting until ${waitUntil.toISOString()}`));
+                history.push(historyEntry(at, node, 'waiting', `Waiting until ${waitUntil.toISOString()}`));
 
                 return {
                     enrollment: {
                         ...enrollment,
                         variables: newVars,
                         nextProcessAt: waitUntil.toISOString(),
-                        lastProcessedAt: now(),
+                        lastProcessedAt: stamp,
                         history,
                     },
                     actions: [],
@@ -532,13 +1194,31 @@ export function tickEnrollment(ctx: TickContext): TickResult {
                 };
             }
 
+            // Waiting for an event: the awaited event resumes us early
+            // through the "event" handle, otherwise the timeout fires
+            // through the "timeout" handle.
+            if (cfg.kind === 'until_event') {
+                // Strictly by handle: an unwired outcome completes the
+                // enrollment rather than taking the other branch
+                if (event && cfg.waitForEvent && matchesEventName(cfg.waitForEvent, event.name)) {
+                    routedNext = { node: findNextNode(flow, node.id, 'event', { strict: true }) };
+                    history.push(historyEntry(at, node, 'completed', `Event received: ${event.name}`));
+                    break;
+                }
+                if (new Date(enrollment.nextProcessAt).getTime() <= at.getTime()) {
+                    routedNext = { node: findNextNode(flow, node.id, 'timeout', { strict: true }) };
+                    history.push(historyEntry(at, node, 'completed', `Timed out waiting for ${cfg.waitForEvent ?? 'event'}`));
+                    break;
+                }
+            }
+
             // We had a wait time set and it's now past - continue
-            if (new Date(enrollment.nextProcessAt).getTime() <= Date.now()) {
-                history.push(historyEntry(node, 'completed', 'Delay elapsed'));
+            if (new Date(enrollment.nextProcessAt).getTime() <= at.getTime()) {
+                history.push(historyEntry(at, node, 'completed', 'Delay elapsed'));
             } else {
                 // Still waiting
                 return {
-                    enrollment: { ...enrollment, variables: newVars, history, lastProcessedAt: now() },
+                    enrollment: { ...enrollment, variables: newVars, history, lastProcessedAt: stamp },
                     actions: [],
                     continueImmediately: false,
                 };
@@ -550,12 +1230,16 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         case 'split': {
             const cfg = data.splitConfig;
             if (!cfg || !cfg.variants.length) {
-                history.push(historyEntry(node, 'failed', 'Missing split config'));
+                history.push(historyEntry(at, node, 'failed', 'Missing split config'));
                 break;
             }
-            const variantId = pickSplitVariant(cfg.variants, enrollment.userId);
+            // Once a winner is picked every later enrollee takes it
+            const winner = cfg.winnerId && cfg.variants.some((v) => v.id === cfg.winnerId) ? cfg.winnerId : undefined;
+            const variantId = winner ?? pickSplitVariant(cfg.variants, enrollment.userId);
             nextHandle = `variant-${variantId}`;
-            history.push(historyEntry(node, 'completed', `Split → variant ${variantId}`));
+            newVars[splitVariableKey(node.id)] = variantId;
+            actions.push({ type: 'split_assigned', nodeId: node.id, variantId });
+            history.push(historyEntry(at, node, 'completed', winner ? `Split → winner ${variantId}` : `Split → variant ${variantId}`));
             break;
         }
 
@@ -563,26 +1247,26 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         case 'filter': {
             const cfg = data.filterConfig;
             if (!cfg) {
-                history.push(historyEntry(node, 'failed', 'Missing filter config'));
+                history.push(historyEntry(at, node, 'failed', 'Missing filter config'));
                 break;
             }
             const pass = evaluateCondition(cfg.logic, cfg.rules, user, newVars);
             if (!pass) {
-                history.push(historyEntry(node, 'skipped', 'Filtered out'));
+                history.push(historyEntry(at, node, 'skipped', 'Filtered out'));
                 return {
                     enrollment: {
                         ...enrollment,
                         status: 'exited',
                         variables: newVars,
-                        lastProcessedAt: now(),
-                        completedAt: now(),
+                        lastProcessedAt: stamp,
+                        completedAt: stamp,
                         history,
                     },
                     actions: [],
                     continueImmediately: false,
                 };
             }
-            history.push(historyEntry(node, 'completed', 'Filter passed'));
+            history.push(historyEntry(at, node, 'completed', 'Filter passed'));
             break;
         }
 
@@ -590,29 +1274,29 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         case 'goto': {
             const cfg = data.goToConfig;
             if (!cfg?.targetNodeId) {
-                history.push(historyEntry(node, 'failed', 'Missing goto target'));
+                history.push(historyEntry(at, node, 'failed', 'Missing goto target'));
                 break;
             }
             // Loop guard
             const loopCount = history.filter((h) => h.nodeId === node.id && h.action === 'completed').length;
             if (cfg.maxLoops && loopCount >= cfg.maxLoops) {
-                history.push(historyEntry(node, 'skipped', `Max loops (${cfg.maxLoops}) reached`));
+                history.push(historyEntry(at, node, 'skipped', `Max loops (${cfg.maxLoops}) reached`));
                 break;
             }
             // Jump directly to target node
             const target = findNode(flow, cfg.targetNodeId);
             if (!target) {
-                history.push(historyEntry(node, 'failed', `GoTo target ${cfg.targetNodeId} not found`));
+                history.push(historyEntry(at, node, 'failed', `GoTo target ${cfg.targetNodeId} not found`));
                 break;
             }
-            history.push(historyEntry(node, 'completed', `Jump to ${target.data.label}`));
+            history.push(historyEntry(at, node, 'completed', `Jump to ${target.data.label}`));
             return {
                 enrollment: {
                     ...enrollment,
                     currentNodeId: cfg.targetNodeId,
                     nextProcessAt: undefined,
                     variables: newVars,
-                    lastProcessedAt: now(),
+                    lastProcessedAt: stamp,
                     history,
                 },
                 actions: [],
@@ -623,14 +1307,14 @@ export function tickEnrollment(ctx: TickContext): TickResult {
         /* ── Exit ─────────────────────────────────────────────── */
         case 'exit': {
             const reason = data.exitConfig?.reason ?? 'Flow completed';
-            history.push(historyEntry(node, 'completed', reason));
+            history.push(historyEntry(at, node, 'completed', reason));
             return {
                 enrollment: {
                     ...enrollment,
                     status: 'completed',
                     variables: newVars,
-                    lastProcessedAt: now(),
-                    completedAt: now(),
+                    lastProcessedAt: stamp,
+                    completedAt: stamp,
                     history,
                 },
                 actions: [],
@@ -640,7 +1324,7 @@ export function tickEnrollment(ctx: TickContext): TickResult {
     }
 
     // ── Advance to next node ──────────────────────────────────
-    const next = findNextNode(flow, node.id, nextHandle);
+    const next = routedNext ? routedNext.node : findNextNode(flow, node.id, nextHandle);
 
     if (!next) {
         // No outgoing edge - flow implicitly complete
@@ -649,8 +1333,8 @@ export function tickEnrollment(ctx: TickContext): TickResult {
                 ...enrollment,
                 status: 'completed',
                 variables: newVars,
-                lastProcessedAt: now(),
-                completedAt: now(),
+                lastProcessedAt: stamp,
+                completedAt: stamp,
                 nextProcessAt: undefined,
                 history,
             },
@@ -668,16 +1352,116 @@ export function tickEnrollment(ctx: TickContext): TickResult {
             currentNodeId: next.id,
             nextProcessAt: undefined,
             variables: newVars,
-            lastProcessedAt: now(),
+            lastProcessedAt: stamp,
             history,
         },
         actions,
-        // Continue immediately for logic nodes (conditions, filters, goto, splits)
-        // but not for delays or actions that need external dispatch
-        continueImmediately: ['condition', 'filter', 'split', 'trigger'].includes(next.data.nodeType),
+        // Keep walking the graph until a delay parks the enrollment.
+        // Actions are collected by processEnrollment and dispatched by the caller.
+        continueImmediately: true,
+    };
+}
+
+/* ── Goal Tracking ───────────────────────────────────────────────────── */
+
+/** Event property keys checked (in order) for revenue attributed to a goal. */
+const REVENUE_PROPERTY_KEYS = ['revenue', 'amount', 'value', 'price', 'mrr'];
+
+/**
+ * Pull a revenue amount out of an event's properties. Accepts numbers and
+ * numeric strings; returns 0 when nothing usable is present.
+ */
+export function extractEventRevenue(properties?: Record<string, unknown>): number {
+    if (!properties) return 0;
+    for (const key of REVENUE_PROPERTY_KEYS) {
+        const raw = properties[key];
+        const amount = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+        if (Number.isFinite(amount)) return amount;
+    }
+    return 0;
+}
+
+/**
+ * Whether an event counts as a goal conversion for an enrollment: the flow
+ * has a goalEvent matching the event, the enrollment is still active and
+ * unconverted, and (if goalTimeout is set) it arrived within that many
+ * minutes of enrollment.
+ */
+export function isGoalConversion(
+    flow: FlowDefinition,
+    enrollment: FlowEnrollment,
+    eventName: string,
+    at: Date = new Date(),
+): boolean {
+    const goal = flow.settings?.goalEvent;
+    if (!goal || !matchesEventName(goal, eventName)) return false;
+    if (enrollment.status !== 'active' || enrollment.convertedAt) return false;
+    const timeout = flow.settings.goalTimeout;
+    if (timeout && timeout > 0) {
+        const deadline = new Date(enrollment.enrolledAt).getTime() + timeout * 60_000;
+        if (at.getTime() > deadline) return false;
+    }
+    return true;
+}
+
+/**
+ * Mark an enrollment as converted. When the flow's exitOnGoal setting is
+ * on, the enrollment also leaves the flow as completed.
+ */
+export function markGoalReached(
+    flow: FlowDefinition,
+    enrollment: FlowEnrollment,
+    eventName: string,
+    at: Date = new Date(),
+): FlowEnrollment {
+    const stamp = at.toISOString();
+    const node = findNode(flow, enrollment.currentNodeId);
+    const exit = !!flow.settings?.exitOnGoal;
+    const details = `Goal reached: ${eventName}${exit ? ' (exited flow)' : ''}`;
+    const entry: EnrollmentHistoryEntry = node
+        ? historyEntry(at, node, 'completed', details)
+        : {
+            nodeId: enrollment.currentNodeId,
+            nodeName: 'Goal',
+            nodeType: 'exit',
+            action: 'completed',
+            timestamp: stamp,
+            details,
+        };
+
+    return {
+        ...enrollment,
+        convertedAt: stamp,
+        lastProcessedAt: stamp,
+        history: [...enrollment.history, entry],
+        ...(exit ? { status: 'completed' as EnrollmentStatus, completedAt: stamp, nextProcessAt: undefined } : {}),
     };
 }
 
+/* ── Email Engagement ────────────────────────────────────────────────── */
+
+/**
+ * Roll per-step email engagement up into the flow's metrics: the
+ * `emailSteps` breakdown plus aggregate open/click rates (unique opens or
+ * clicks over emails sent, in %). Steps that no longer exist in the graph
+ * still count toward the aggregates.
+ */
+export function rollupFlowEmailMetrics(
+    metrics: FlowMetrics,
+    steps: Array<FlowEmailStepMetrics & { nodeId: string }>,
+): FlowMetrics {
+    const emailSteps: Record<string, FlowEmailStepMetrics> = {};
+    let sent = 0, opens = 0, clicks = 0;
+    for (const step of steps) {
+        emailSteps[step.nodeId] = { sent: step.sent, opens: step.opens, clicks: step.clicks };
+        sent += step.sent;
+        opens += step.opens;
+        clicks += step.clicks;
+    }
+    const rate = (n: number) => (sent > 0 ? Math.round((n / sent) * 1000) / 10 : 0);
+    return { ...metrics, emailSteps, openRate: rate(opens), clickRate: rate(clicks) };
+}
+
 /* ── Full Enrollment Processor ───────────────────────────────────────── */
 
 /**
@@ -692,17 +1476,39 @@ export function processEnrollment(ctx: TickContext): TickResult {
 
     while (result.continueImmediately && guard < MAX_TICKS) {
         guard++;
+        // The waking event / API response only applies to the node it was delivered to
         result = tickEnrollment({
             ...ctx,
+            event: undefined,
+            apiResponse: undefined,
             enrollment: result.enrollment,
         });
         allActions.push(...result.actions);
     }
 
+    // Still moving after MAX_TICKS steps: a loop without a wait. Stop it
+    // as an error instead of leaving it active with nothing scheduled.
+    if (result.continueImmediately && result.enrollment.status === 'active') {
+        const stamp = (ctx.at ?? new Date()).toISOString();
+        result = {
+            ...result,
+            enrollment: {
+                ...result.enrollment,
+                status: 'error',
+                errorMessage: `Stopped after ${MAX_TICKS} steps without a wait (loop without a delay?)`,
+                errorNodeId: result.enrollment.currentNodeId,
+                nextProcessAt: undefined,
+                lastProcessedAt: stamp,
+            },
+        };
+    }
+
     return {
         enrollment: result.enrollment,
         actions: allActions,
         continueImmediately: false,
+        deferred: result.deferred,
+        autoExited: result.autoExited,
     };
 }
 
@@ -717,6 +1523,7 @@ export function createEnrollment(
     accountId?: string,
     user?: Partial<User>,
     eventProperties?: Record<string, unknown>,
+    at: Date = new Date(),
 ): FlowEnrollment | null {
     const triggerNode = findTriggerNode(flow);
     if (!triggerNode) return null;
@@ -724,7 +1531,7 @@ export function createEnrollment(
     const variables = buildInitialVariables(flow.variables, user, eventProperties);
 
     return {
-        id: `enr_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        id: crypto.randomUUID(),
         flowId: flow.id,
         flowVersion: flow.version,
         userId,
@@ -732,17 +1539,138 @@ export function createEnrollment(
         status: 'active',
         currentNodeId: triggerNode.id,
         variables,
-        enrolledAt: now(),
-        lastProcessedAt: now(),
+        enrolledAt: at.toISOString(),
+        lastProcessedAt: at.toISOString(),
         history: [
             {
                 nodeId: triggerNode.id,
                 nodeName: triggerNode.data.label,
                 nodeType: 'trigger',
                 action: 'entered',
-                timestamp: now(),
+                timestamp: at.toISOString(),
                 details: 'Enrolled in flow',
             },
         ],
     };
 }
+
+/* ── Flow Versions ───────────────────────────────────────────────────── */
+
+type FlowGraph = Pick<FlowDefinition, 'nodes' | 'edges' | 'variables'>;
+
+/** JSON with sorted keys, so jsonb round-trips compare equal. */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map((v) => stableStringify(v ?? null)).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/** Node data without the stats and split decisions the engine writes at runtime. */
+function executableNodeData(data: FlowNodeData): FlowNodeData {
+    const { metrics: _metrics, ...rest } = data;
+    if (!rest.splitConfig) return rest;
+    const { winnerId: _w, winnerDecidedAt: _d, winnerConfidence: _c, ...split } = rest.splitConfig;
+    return {
+        ...rest,
+        splitConfig: { ...split, variants: split.variants.map(({ stats: _s, ...variant }) => variant) },
+    };
+}
+
+/**
+ * Fingerprint of what a flow graph executes. Node positions, editor
+ * state and runtime stats are ignored, so only real changes publish a
+ * new version.
+ */
+export function flowGraphFingerprint(graph: FlowGraph): string {
+    const nodes = [...graph.nodes]
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .map((n) => ({ id: n.id, type: n.type, data: executableNodeData(n.data) }));
+    const edges = graph.edges
+        .map((e) => `${e.source}|${e.sourceHandle ?? ''}|${e.target}`)
+        .sort();
+    return stableStringify({ nodes, edges, variables: graph.variables ?? [] });
+}
+
+/**
+ * A flow executing the graph of one of its published versions. Runtime
+ * state that lives on the current definition (metrics, split winners)
+ * still applies.
+ */
+export function withVersionGraph(flow: FlowDefinition, version: number, graph: FlowGraph): FlowDefinition {
+    const nodes = graph.nodes.map((node) => {
+        const split = node.data.splitConfig;
+        const liveSplit = split && findNode(flow, node.id)?.data.splitConfig;
+        if (!split || !liveSplit?.winnerId || !split.variants.some((v) => v.id === liveSplit.winnerId)) return node;
+        return { ...node, data: { ...node.data, splitConfig: { ...split, winnerId: liveSplit.winnerId } } };
+    });
+    return { ...flow, version, nodes, edges: graph.edges, variables: graph.variables ?? [] };
+}
+
+/** In-flight enrollments waiting on one node of one version. */
+export interface InFlightEnrollments {
+    flowVersion: number;
+    nodeId: string;
+    count: number;
+}
+
+export interface PlannedEnrollmentMove {
+    fromVersion: number;
+    fromNodeId: string;
+    toNodeId: string;
+    /** The enrollment lands on a different kind of node, so it must not keep its old wait */
+    resetSchedule: boolean;
+}
+
+export interface VersionMigrationPlan {
+    moves: PlannedEnrollmentMove[];
+    /** Enrollments moved to the new version */
+    migrated: number;
+    /** Enrollments left to finish on their pinned version */
+    draining: number;
+}
+
+/**
+ * Work out where the in-flight enrollments of older versions go when
+ * `newVersion` is published. With `migrate`, each node is mapped through
+ * the plan's nodeMap, falling back to a node with the same ID in the new
+ * graph; anything without a target (an empty nodeMap entry, a node that
+ * no longer exists, everything under `drain`) stays on its pinned version.
+ *
+ * @param oldGraphs node lists of the versions the enrollments are pinned to
+ */
+export function planVersionMigration(
+    inFlight: InFlightEnrollments[],
+    newVersion: number,
+    newNodes: FlowNodeDef[],
+    migration: FlowVersionMigration,
+    oldGraphs: Map<number, FlowNodeDef[]>,
+): VersionMigrationPlan {
+    const plan: VersionMigrationPlan = { moves: [], migrated: 0, draining: 0 };
+
+    for (const group of inFlight) {
+        if (group.flowVersion >= newVersion) continue;
+        const mapped = migration.strategy === 'migrate'
+            ? migration.nodeMap?.[group.nodeId] ?? group.nodeId
+            : undefined;
+        const target = mapped ? newNodes.find((n) => n.id === mapped) : undefined;
+        if (!target) {
+            plan.draining += group.count;
+            continue;
+        }
+        const source = oldGraphs.get(group.flowVersion)?.find((n) => n.id === group.nodeId);
+        plan.moves.push({
+            fromVersion: group.flowVersion,
+            fromNodeId: group.nodeId,
+            toNodeId: target.id,
+            resetSchedule: source?.data.nodeType !== target.data.nodeType,
+        });
+        plan.migrated += group.count;
+    }
+
+    return plan;
+}
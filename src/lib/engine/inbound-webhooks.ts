@@ -0,0 +1,173 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Inbound Webhooks - Flow Triggers from External Systems
+ *
+ * Billing, support and other tools start `webhook_received` flows by
+ * POSTing JSON to /api/v1/hooks/{orgId}/{webhookPath}; paths are scoped
+ * to the org, so two orgs may listen on the same one. Each flow has its
+ * own signing secret, and requests are signed exactly like our outbound
+ * webhooks so senders can reuse the same code:
+ *
+ *   X-Lifecycle-Timestamp: <ISO timestamp or unix seconds>
+ *   X-Lifecycle-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${rawBody}`)
+ *
+ * The tracked user is looked up from the body via the trigger's
+ * webhookUserField (a dot path, default "userId"), and the body is
+ * exposed to the flow as `event.*` variables.
+ *
+ * Secrets live in the trigger config, so flow responses mask them
+ * (redactWebhookSecrets): a secret is shown in full only in the response
+ * to the save that issued it. A masked secret sent back on save keeps
+ * the stored one.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { FlowNodeDef } from '@/lib/definitions';
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+/** Requests signed longer ago than this are rejected (replay protection). */
+export const INBOUND_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** Maximum accepted request body. */
+export const MAX_INBOUND_PAYLOAD_BYTES = 256 * 1024; // 256 KB
+
+export const DEFAULT_WEBHOOK_USER_FIELD = 'userId';
+
+/* ── Secrets & Signatures ───────────────────────────────────────────── */
+
+export function generateInboundWebhookSecret(): string {
+    return `whsec_${randomUUID().replace(/-/g, '')}`;
+}
+
+const MASKED_SECRET_PREFIX = 'whsec_••••';
+
+/** A secret as shown once issued: the prefix and its last 4 characters. */
+export function maskWebhookSecret(secret: string): string {
+    return MASKED_SECRET_PREFIX + secret.slice(-4);
+}
+
+export function isMaskedWebhookSecret(secret: string | undefined): boolean {
+    return !!secret && secret.startsWith(MASKED_SECRET_PREFIX);
+}
+
+/** HMAC-SHA256 over `timestamp.body`, formatted like outbound signatures. */
+export function signInboundWebhook(timestamp: string, rawBody: string, secret: string): string {
+    return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+function parseSignatureTimestamp(timestamp: string): number {
+    // Accept unix seconds as well as ISO strings
+    return /^\d+$/.test(timestamp) ? Number(timestamp) * 1000 : new Date(timestamp).getTime();
+}
+
+/**
+ * Verify a signed inbound request.
+ *
+ * @returns null when valid, otherwise the reason it was rejected
+ */
+export function verifyInboundWebhook(
+    rawBody: string,
+    signature: string | null,
+    timestamp: string | null,
+    secret: string | undefined,
+    now: number = Date.now(),
+): string | null {
+    if (!secret) return 'Flow has no signing secret';
+    if (!signature || !timestamp) return 'Missing X-Lifecycle-Signature or X-Lifecycle-Timestamp header';
+
+    const signedAt = parseSignatureTimestamp(timestamp);
+    if (isNaN(signedAt) || Math.abs(now - signedAt) > INBOUND_SIGNATURE_TOLERANCE_MS) {
+        return 'Timestamp outside the allowed window';
+    }
+
+    const expected = Buffer.from(signInboundWebhook(timestamp, rawBody, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return 'Signature mismatch';
+    }
+    return null;
+}
+
+/** Canonical form of a trigger's webhookPath: no surrounding slashes or spaces. */
+export function normalizeWebhookPath(path: string | undefined): string {
+    return (path ?? '').trim().replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Prepare the webhook_received triggers of a node graph for saving:
+ * normalize webhookPath and make sure each has a signing secret.
+ *
+ * A trigger without a secret, or with a masked one, keeps the one its
+ * node had in `previousNodes` (clients only see secrets masked); an empty
+ * string asks for a new secret. With `rotate`, every secret is replaced (used for
+ * copies, so a duplicated flow never shares its original's secret).
+ */
+export function prepareWebhookTriggers(
+    nodes: FlowNodeDef[],
+    previousNodes: FlowNodeDef[] = [],
+    rotate = false,
+): void {
+    for (const node of nodes) {
+        const cfg = node.data?.triggerConfig;
+        if (cfg?.kind !== 'webhook_received') continue;
+        if (cfg.webhookPath !== undefined) cfg.webhookPath = normalizeWebhookPath(cfg.webhookPath);
+        if ((cfg.webhookSecret === undefined || isMaskedWebhookSecret(cfg.webhookSecret)) && !rotate) {
+            cfg.webhookSecret = previousNodes.find((n) => n.id === node.id)?.data?.triggerConfig?.webhookSecret;
+        }
+        if (!cfg.webhookSecret || rotate) cfg.webhookSecret = generateInboundWebhookSecret();
+    }
+}
+
+/**
+ * IDs of the webhook_received triggers whose secret was issued by this
+ * save: new triggers, rotated secrets and (with no `previousNodes`) all.
+ */
+export function issuedWebhookSecrets(nodes: FlowNodeDef[], previousNodes: FlowNodeDef[] = []): Set<string> {
+    const issued = new Set<string>();
+    for (const node of nodes) {
+        const secret = node.data?.triggerConfig?.webhookSecret;
+        if (node.data?.triggerConfig?.kind !== 'webhook_received' || !secret) continue;
+        if (previousNodes.find((n) => n.id === node.id)?.data?.triggerConfig?.webhookSecret !== secret) issued.add(node.id);
+    }
+    return issued;
+}
+
+/**
+ * Copy of `nodes` with every webhook signing secret masked, except on the
+ * triggers in `reveal` (secrets just issued, shown once).
+ */
+export function redactWebhookSecrets(nodes: FlowNodeDef[], reveal: Set<string> = new Set()): FlowNodeDef[] {
+    return nodes.map((node) => {
+        const cfg = node.data?.triggerConfig;
+        if (!cfg?.webhookSecret || reveal.has(node.id)) return node;
+        return { ...node, data: { ...node.data, triggerConfig: { ...cfg, webhookSecret: maskWebhookSecret(cfg.webhookSecret) } } };
+    });
+}
+
+/** A flow (or version) as returned by the API: see redactWebhookSecrets. */
+export function redactFlowSecrets<T extends { nodes: FlowNodeDef[] }>(flow: T, reveal?: Set<string>): T {
+    return { ...flow, nodes: redactWebhookSecrets(flow.nodes, reveal) };
+}
+
+/* ── Payload Helpers ────────────────────────────────────────────────── */
+
+/** Read a dot-path ("customer.id") out of a JSON payload. */
+export function readPayloadPath(payload: unknown, path: string): unknown {
+    let current: unknown = payload;
+    for (const key of path.split('.')) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+}
+
+/**
+ * The user identifier a webhook payload refers to, read from the
+ * trigger's webhookUserField. Numbers are accepted and stringified.
+ */
+export function extractWebhookUserIdentifier(payload: unknown, userField?: string): string | null {
+    const value = readPayloadPath(payload, userField || DEFAULT_WEBHOOK_USER_FIELD);
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string' || !value.trim()) return null;
+    return value.trim();
+}
@@ -19,11 +19,23 @@ export {
   evaluateSegmentBatch,
   evaluateRule,
   resolveFieldValue,
+  getEventConditionScope,
   USER_FIELDS,
   ACCOUNT_FIELDS,
+  COMPUTED_FIELDS,
   ALL_FIELDS,
 } from './segmentation';
-export type { SegmentEvalResult } from './segmentation';
+export type { SegmentEvalResult, SegmentEvalContext, SegmentEventRecord, EventConditionScope } from './segmentation';
+
+export {
+  isRuleGroup,
+  normalizeRuleLogic,
+  normalizeRuleGroup,
+  evaluateRuleGroup,
+  flattenRules,
+  ruleGroupDepth,
+  MAX_RULE_GROUP_DEPTH,
+} from './rule-groups';
 
 export {
   renderTemplate,
@@ -53,13 +65,91 @@ export {
   processEvent,
   processEventBatch,
   processScheduledEnrollments,
+  processScheduledTriggers,
+  enrollUserInFlow,
+  enrollInSegmentEntryFlows,
+  reevaluateUserSegments,
+  buildSegmentUserRecord,
+  dispatchSegmentWebhooks,
 } from './event-pipeline';
-export type { PipelineResult } from './event-pipeline';
+export type {
+  PipelineResult,
+  FlowEntrant,
+  FlowEntryResult,
+  SegmentReevaluation,
+  SegmentMembershipChange,
+} from './event-pipeline';
+
+export {
+  refreshSegmentMemberships,
+  groupMembershipChanges,
+  SEGMENT_REFRESH_INTERVAL_MS,
+  SEGMENT_REFRESH_PAGE_SIZE,
+} from './segment-refresh';
+export type { SegmentRefreshSummary } from './segment-refresh';
+
+export {
+  snapshotSegmentSizes,
+  getSegmentHistory,
+  getSegmentHistorySummaries,
+  buildSegmentSnapshots,
+  fillSegmentSeries,
+  weekOverWeekChange,
+  SNAPSHOT_LOOKBACK_DAYS,
+  SNAPSHOT_INTERVAL_MS,
+} from './segment-history';
+export type {
+  SegmentSizePoint,
+  SegmentWeekOverWeek,
+  SegmentFlapper,
+  SegmentHistory,
+  SegmentHistorySummary,
+  SegmentSnapshotSummary,
+} from './segment-history';
+
+export {
+  previewSegment,
+  tallyPreviewFunnel,
+  buildPreviewFunnel,
+  PREVIEW_SAMPLE_DEFAULT_LIMIT,
+  PREVIEW_SAMPLE_MAX_LIMIT,
+} from './segment-preview';
+export type { SegmentPreview, SegmentPreviewStep, SegmentPreviewUser } from './segment-preview';
+
+export { emitEmailEvent, EMAIL_EVENT_NAMES } from './email-events';
+export type { EmailEngagement, EmailEngagementType } from './email-events';
+
+export {
+  signInboundWebhook,
+  verifyInboundWebhook,
+  prepareWebhookTriggers,
+  issuedWebhookSecrets,
+  redactWebhookSecrets,
+  redactFlowSecrets,
+  extractWebhookUserIdentifier,
+} from './inbound-webhooks';
+
+export {
+  loadFlowForEnrollment,
+  saveFlow,
+  getFlowVersionSummaries,
+} from './flow-versions';
+export type { FlowPublication, FlowEdit } from './flow-versions';
+
+export { simulateFlow } from './flow-simulator';
+export type {
+  SimulatedEvent,
+  SimulationOptions,
+  SimulationStep,
+  SimulatedEmail,
+  SimulationResult,
+} from './flow-simulator';
 
 export {
   sendEmail,
   sendEmailBatch,
   getActiveProvider,
+  checkTransportHealth,
   initEmailSystem,
   shutdownEmailSystem,
   getEmailSystemStatus,
@@ -80,6 +170,9 @@ export {
   filterSuppressed,
   getAllSuppressions,
   getSuppressionStats,
+  getSuppressionHistory,
+  getSuppressionPolicy,
+  updateSuppressionPolicy,
   verifyTrackingToken,
   recordTrackingEvent,
   getCampaignTrackingStats,
@@ -95,9 +188,12 @@ export type {
   QueueMetrics,
   SendRecord,
   EmailPriority,
+  EmailProviderName,
   SuppressionEntry,
   SuppressionStats,
   SuppressionReason,
+  SuppressionPolicy,
+  SuppressionHistoryEntry,
   TrackingEvent,
   TrackingStats,
 } from './email';
@@ -0,0 +1,102 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Rule Groups - Nested AND/OR Logic
+ *
+ * Segment filters, flow condition / filter nodes and campaign trigger
+ * filters are each a root group: one logic plus a list of rules, where any
+ * rule may itself be a group ({ logic, rules }).
+ *
+ * A flat definition (a plain rule list and one logic) is already a valid
+ * root group, so existing definitions keep working. normalizeRuleGroup
+ * upgrades what older builders stored - lowercase 'and' / 'or', missing
+ * logic, empty groups - and runs before every evaluation and on save.
+ *
+ * Pure: callers supply the per-rule test.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import type { ConditionLogic, RuleGroup, RuleNode } from '@/lib/definitions';
+
+/** Deepest nesting the editors offer and the APIs accept (root = 1) */
+export const MAX_RULE_GROUP_DEPTH = 4;
+
+export function isRuleGroup<R extends object>(node: RuleNode<R>): node is RuleGroup<R> {
+    return 'logic' in node && Array.isArray((node as RuleGroup<R>).rules);
+}
+
+/** 'OR' in any case is OR; anything else is AND (the column default) */
+export function normalizeRuleLogic(logic: unknown): ConditionLogic {
+    return String(logic ?? '').toUpperCase() === 'OR' ? 'OR' : 'AND';
+}
+
+/**
+ * Root group for a stored logic + rules pair. Nested groups get their
+ * logic normalized too, and empty ones are dropped so a half-built group
+ * doesn't match everyone.
+ */
+export function normalizeRuleGroup<R extends object>(
+    logic: unknown,
+    rules: RuleNode<R>[] | null | undefined,
+): RuleGroup<R> {
+    const normalized: RuleNode<R>[] = [];
+    for (const node of rules ?? []) {
+        if (!node || typeof node !== 'object') continue;
+        if (!isRuleGroup(node)) {
+            normalized.push(node);
+            continue;
+        }
+        const group = normalizeRuleGroup<R>(node.logic, node.rules);
+        if (group.rules.length > 0) normalized.push(group);
+    }
+    return { logic: normalizeRuleLogic(logic), rules: normalized };
+}
+
+/**
+ * Evaluate a group with `test` deciding each rule.
+ * An empty group matches.
+ */
+export function evaluateRuleGroup<R extends object>(group: RuleGroup<R>, test: (rule: R) => boolean): boolean {
+    if (group.rules.length === 0) return true;
+    const matches = (node: RuleNode<R>) => (isRuleGroup(node) ? evaluateRuleGroup(node, test) : test(node));
+    return group.logic === 'OR' ? group.rules.some(matches) : group.rules.every(matches);
+}
+
+/** Every rule in the tree, depth-first */
+export function flattenRules<R extends object>(rules: RuleNode<R>[] | null | undefined): R[] {
+    return (rules ?? []).flatMap((node) => {
+        if (!node || typeof node !== 'object') return [];
+        return isRuleGroup(node) ? flattenRules(node.rules) : [node];
+    });
+}
+
+/**
+ * Whether a rule list has any rule once empty groups are dropped. Saved
+ * segments without one match no one (an empty root group would match
+ * everyone), so their evaluation is skipped.
+ */
+export function hasRules<R extends object>(rules: RuleNode<R>[] | null | undefined): boolean {
+    return flattenRules(rules).length > 0;
+}
+
+/**
+ * Validate and normalize a rule list received by an API: an array nested
+ * at most MAX_RULE_GROUP_DEPTH deep, stored with empty groups dropped.
+ *
+ * @returns the normalized rules, or why they were rejected
+ */
+export function parseRuleList<R extends object>(rules: unknown): { rules: RuleNode<R>[] } | { error: string } {
+    if (!Array.isArray(rules)) return { error: 'filters must be an array' };
+    if (ruleGroupDepth(rules as RuleNode<R>[]) > MAX_RULE_GROUP_DEPTH) {
+        return { error: `Rule groups can nest at most ${MAX_RULE_GROUP_DEPTH} levels deep` };
+    }
+    return { rules: normalizeRuleGroup<R>('AND', rules as RuleNode<R>[]).rules };
+}
+
+/** Nesting depth of a rule list: 1 when flat, +1 per level of groups */
+export function ruleGroupDepth<R extends object>(rules: RuleNode<R>[] | null | undefined): number {
+    let depth = 1;
+    for (const node of rules ?? []) {
+        if (node && typeof node === 'object' && isRuleGroup(node)) {
+            depth = Math.max(depth, 1 + ruleGroupDepth(node.rules));
+        }
+    }
+    return depth;
+}
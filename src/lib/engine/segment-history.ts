@@ -0,0 +1,356 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Segment History - Membership Log and Daily Size Snapshots
+ *
+ * segmentMemberships keeps one row per (segment, user) and overwrites it
+ * when a user re-enters, and matchedUserCount is a single cached number.
+ * Every membership write in db/operations therefore also appends to
+ * segmentMembershipEvents, and snapshotSegmentSizes() folds that log and
+ * the current memberships into one segmentSizeSnapshots row per segment
+ * and UTC day:
+ *
+ *   memberCount   current members minus the net change logged after the
+ *                 end of that day
+ *   entered       'entered' events that day
+ *   exited        'exited' events that day
+ *
+ * The scheduler calls it every run; it rewrites the last
+ * SNAPSHOT_LOOKBACK_DAYS (so yesterday is closed out after midnight), at
+ * most every SNAPSHOT_INTERVAL_MS unless the UTC day changed.
+ * getSegmentHistory() and getSegmentHistorySummaries() serve the
+ * segment analytics endpoint.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { db } from '@/lib/db';
+import * as schema from '@/lib/db/schema';
+import { and, desc, eq, gte, isNull, lte, ne, sql } from 'drizzle-orm';
+import { utcDay } from './email/warmup';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+/** One day of a segment's size; null where no snapshot was taken */
+export interface SegmentSizePoint {
+    date: string;
+    memberCount: number | null;
+    entered: number | null;
+    exited: number | null;
+}
+
+export interface SegmentWeekOverWeek {
+    /** Size on the latest snapshotted day */
+    current: number | null;
+    /** Size seven days before that */
+    previous: number | null;
+    change: number | null;
+    /** Percent change; null when there is no previous size to compare */
+    changePct: number | null;
+    /** Enters / exits over the last seven days of the range */
+    entered: number;
+    exited: number;
+}
+
+/** A user who both entered and exited the segment within the range */
+export interface SegmentFlapper {
+    trackedUserId: string;
+    userId: string;
+    name: string | null;
+    email: string | null;
+    entered: number;
+    exited: number;
+    lastChangeAt: Date;
+}
+
+export interface SegmentHistory {
+    from: string;
+    to: string;
+    series: SegmentSizePoint[];
+    weekOverWeek: SegmentWeekOverWeek;
+    flappers: SegmentFlapper[];
+}
+
+export interface SegmentHistorySummary {
+    segmentId: string;
+    name: string;
+    entered: number;
+    exited: number;
+    weekOverWeek: SegmentWeekOverWeek;
+}
+
+export interface SegmentSnapshotSummary {
+    skipped: boolean;
+    from: string;
+    to: string;
+    /** Segment-days written */
+    snapshots: number;
+}
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+/** Days rewritten on each run, today included */
+export const SNAPSHOT_LOOKBACK_DAYS = 2;
+
+/** Minimum time between snapshot runs within the same UTC day */
+export const SNAPSHOT_INTERVAL_MS = 60 * 60_000;
+
+const SNAPSHOT_WRITE_CHUNK = 500;
+
+/** Flappers returned by getSegmentHistory */
+const MAX_FLAPPERS = 25;
+
+const DAY_MS = 86_400_000;
+
+/* ── Runtime State ──────────────────────────────────────────────────── */
+
+const runtimeKey = '__lifecycleos_segment_history_runtime__';
+
+interface RuntimeState {
+    lastSnapshotAt: number;
+    lastSnapshotDay: string;
+}
+
+function getRuntime(): RuntimeState {
+    const g = globalThis as unknown as Record<string, RuntimeState>;
+    if (!g[runtimeKey]) {
+        g[runtimeKey] = { lastSnapshotAt: 0, lastSnapshotDay: '' };
+    }
+    return g[runtimeKey];
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Folding (pure)
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/** UTC days from `from` to `to`, both included */
+export function daysInRange(from: string, to: string): string[] {
+    const days: string[] = [];
+    for (let t = Date.parse(`${from}T00:00:00Z`); t <= Date.parse(`${to}T00:00:00Z`); t += DAY_MS) {
+        days.push(utcDay(new Date(t)));
+    }
+    return days;
+}
+
+/**
+ * Snapshot rows for `days` (ascending, ending today) of every segment in
+ * `currentCounts`. `changes` must cover every logged day from the first
+ * of `days` up to now: each day's size is the current size minus the net
+ * change of the days after it.
+ */
+export function buildSegmentSnapshots(
+    currentCounts: Map<string, number>,
+    changes: Array<{ segmentId: string; date: string; entered: number; exited: number }>,
+    days: string[],
+): Array<{ segmentId: string; date: string; memberCount: number; entered: number; exited: number }> {
+    const byDay = new Map<string, { entered: number; exited: number }>();
+    for (const c of changes) byDay.set(`${c.segmentId}|${c.date}`, c);
+
+    const rows: Array<{ segmentId: string; date: string; memberCount: number; entered: number; exited: number }> = [];
+    for (const [segmentId, current] of currentCounts) {
+        let size = current;
+        for (const date of [...days].reverse()) {
+            const day = byDay.get(`${segmentId}|${date}`) ?? { entered: 0, exited: 0 };
+            rows.push({ segmentId, date, memberCount: Math.max(0, size), entered: day.entered, exited: day.exited });
+            size -= day.entered - day.exited;
+        }
+    }
+    return rows.reverse();
+}
+
+/** One point per day of the range; days without a snapshot are null */
+export function fillSegmentSeries(
+    snapshots: Array<{ date: string; memberCount: number; entered: number; exited: number }>,
+    from: string,
+    to: string,
+): SegmentSizePoint[] {
+    const byDate = new Map(snapshots.map((s) => [s.date, s]));
+    return daysInRange(from, to).map((date) => {
+        const s = byDate.get(date);
+        return s
+            ? { date, memberCount: s.memberCount, entered: s.entered, exited: s.exited }
+            : { date, memberCount: null, entered: null, exited: null };
+    });
+}
+
+/** Size change over the seven days up to the latest snapshotted day */
+export function weekOverWeekChange(series: SegmentSizePoint[]): SegmentWeekOverWeek {
+    let last = -1;
+    for (let i = series.length - 1; i >= 0; i--) {
+        if (series[i].memberCount !== null) { last = i; break; }
+    }
+    if (last < 0) return { current: null, previous: null, change: null, changePct: null, entered: 0, exited: 0 };
+
+    const current = series[last].memberCount;
+    const previous = last >= 7 ? series[last - 7].memberCount : null;
+    const week = series.slice(Math.max(0, last - 6), last + 1);
+    const change = current !== null && previous !== null ? current - previous : null;
+    return {
+        current,
+        previous,
+        change,
+        changePct: change !== null && previous ? Math.round((change / previous) * 1000) / 10 : null,
+        entered: week.reduce((n, p) => n + (p.entered ?? 0), 0),
+        exited: week.reduce((n, p) => n + (p.exited ?? 0), 0),
+    };
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Snapshots - called by the scheduler
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Rewrite the last `days` UTC days (today included) of every
+ * non-archived segment, or only `orgId`'s. Runs at most every
+ * SNAPSHOT_INTERVAL_MS per instance unless forced or the day changed; an
+ * org-scoped run is always forced.
+ */
+export async function snapshotSegmentSizes(options: {
+    now?: Date;
+    days?: number;
+    force?: boolean;
+    orgId?: string;
+} = {}): Promise<SegmentSnapshotSummary> {
+    const now = options.now ?? new Date();
+    const today = utcDay(now);
+    const lookback = Math.max(1, Math.floor(options.days ?? SNAPSHOT_LOOKBACK_DAYS));
+    const from = new Date(Date.parse(`${today}T00:00:00Z`) - (lookback - 1) * DAY_MS);
+    const summary: SegmentSnapshotSummary = { skipped: false, from: utcDay(from), to: today, snapshots: 0 };
+
+    // The first run of a new day always goes through, to close out yesterday
+    if (!options.orgId) {
+        const rt = getRuntime();
+        if (!options.force && rt.lastSnapshotDay === today && now.getTime() - rt.lastSnapshotAt < SNAPSHOT_INTERVAL_MS) {
+            return { ...summary, skipped: true };
+        }
+        rt.lastSnapshotAt = now.getTime();
+        rt.lastSnapshotDay = today;
+    }
+
+    const s = schema.segments;
+    const m = schema.segmentMemberships;
+    const e = schema.segmentMembershipEvents;
+
+    const segments = await db.select({
+        segmentId: s.id,
+        orgId: s.organizationId,
+        members: sql<number>`count(${m.id})::int`,
+    })
+        .from(s)
+        .leftJoin(m, and(eq(m.segmentId, s.id), isNull(m.exitedAt)))
+        .where(and(options.orgId ? eq(s.organizationId, options.orgId) : undefined, ne(s.status, 'archived')))
+        .groupBy(s.id, s.organizationId);
+    if (segments.length === 0) return summary;
+
+    const changes = await db.select({
+        segmentId: e.segmentId,
+        date: sql<string>`to_char(${e.occurredAt} at time zone 'UTC', 'YYYY-MM-DD')`,
+        entered: sql<number>`count(*) filter (where ${e.change} = 'entered')::int`,
+        exited: sql<number>`count(*) filter (where ${e.change} = 'exited')::int`,
+    })
+        .from(e)
+        .where(and(options.orgId ? eq(e.organizationId, options.orgId) : undefined, gte(e.occurredAt, from)))
+        .groupBy(sql`1, 2`);
+
+    const orgOf = new Map(segments.map((seg) => [seg.segmentId, seg.orgId]));
+    const rows = buildSegmentSnapshots(
+        new Map(segments.map((seg) => [seg.segmentId, seg.members])),
+        changes,
+        daysInRange(utcDay(from), today),
+    );
+
+    const snap = schema.segmentSizeSnapshots;
+    for (let i = 0; i < rows.length; i += SNAPSHOT_WRITE_CHUNK) {
+        await db.insert(snap)
+            .values(rows.slice(i, i + SNAPSHOT_WRITE_CHUNK).map((row) => ({ organizationId: orgOf.get(row.segmentId)!, ...row })))
+            .onConflictDoUpdate({
+                target: [snap.segmentId, snap.date],
+                set: {
+                    memberCount: sql`excluded.member_count`,
+                    entered: sql`excluded.entered`,
+                    exited: sql`excluded.exited`,
+                },
+            });
+    }
+    summary.snapshots = rows.length;
+    return summary;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+ * Reads
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+/**
+ * A segment's daily size series, week-over-week change and the users
+ * who flapped in and out between `from` and `to` (UTC days).
+ * Null when the segment is not the org's.
+ */
+export async function getSegmentHistory(orgId: string, segmentId: string, range: {
+    from: string;
+    to: string;
+}): Promise<SegmentHistory | null> {
+    const [segment] = await db.select({ id: schema.segments.id })
+        .from(schema.segments)
+        .where(and(eq(schema.segments.organizationId, orgId), eq(schema.segments.id, segmentId)))
+        .limit(1);
+    if (!segment) return null;
+
+    const snap = schema.segmentSizeSnapshots;
+    const snapshots = await db.select()
+        .from(snap)
+        .where(and(eq(snap.segmentId, segmentId), gte(snap.date, range.from), lte(snap.date, range.to)))
+        .orderBy(snap.date);
+    const series = fillSegmentSeries(snapshots, range.from, range.to);
+
+    const e = schema.segmentMembershipEvents;
+    const u = schema.trackedUsers;
+    const entered = sql<number>`count(*) filter (where ${e.change} = 'entered')::int`;
+    const exited = sql<number>`count(*) filter (where ${e.change} = 'exited')::int`;
+    const flappers = await db.select({
+        trackedUserId: e.trackedUserId,
+        userId: u.externalId,
+        name: u.name,
+        email: u.email,
+        entered,
+        exited,
+        lastChangeAt: sql<Date>`max(${e.occurredAt})`.mapWith((v) => new Date(v)),
+    })
+        .from(e)
+        .innerJoin(u, eq(u.id, e.trackedUserId))
+        .where(and(
+            eq(e.segmentId, segmentId),
+            gte(e.occurredAt, new Date(`${range.from}T00:00:00Z`)),
+            lte(e.occurredAt, new Date(Date.parse(`${range.to}T00:00:00Z`) + DAY_MS - 1)),
+        ))
+        .groupBy(e.trackedUserId, u.externalId, u.name, u.email)
+        .having(and(sql`${entered} > 0`, sql`${exited} > 0`))
+        .orderBy(desc(sql`count(*)`), desc(sql`max(${e.occurredAt})`))
+        .limit(MAX_FLAPPERS);
+
+    return { ...range, series, weekOverWeek: weekOverWeekChange(series), flappers };
+}
+
+/** Enters, exits and week-over-week change of every segment of the org */
+export async function getSegmentHistorySummaries(orgId: string, range: {
+    from: string;
+    to: string;
+}): Promise<SegmentHistorySummary[]> {
+    const snap = schema.segmentSizeSnapshots;
+    const [segments, snapshots] = await Promise.all([
+        db.select({ id: schema.segments.id, name: schema.segments.name })
+            .from(schema.segments)
+            .where(eq(schema.segments.organizationId, orgId))
+            .orderBy(schema.segments.name),
+        db.select()
+            .from(snap)
+            .where(and(eq(snap.organizationId, orgId), gte(snap.date, range.from), lte(snap.date, range.to)))
+            .orderBy(snap.date),
+    ]);
+
+    return segments.map((seg) => {
+        const series = fillSegmentSeries(snapshots.filter((s) => s.segmentId === seg.id), range.from, range.to);
+        return {
+            segmentId: seg.id,
+            name: seg.name,
+            entered: series.reduce((n, p) => n + (p.entered ?? 0), 0),
+            exited: series.reduce((n, p) => n + (p.exited ?? 0), 0),
+            weekOverWeek: weekOverWeekChange(series),
+        };
+    });
+}
@@ -0,0 +1,196 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Segment Preview - Reach and Sample Members Before Saving
+ *
+ * Evaluates unsaved segment rules against every tracked user of the org
+ * the way the scheduled refresh does (same user records, accounts and
+ * events) without writing memberships, and reports:
+ *
+ *   matched      users matching the whole definition (none without
+ *                rules, like a saved segment)
+ *   sample       one page of them, in tracked-user id order
+ *   funnel       per top-level rule (or group): users it matches on its
+ *                own, users still in after it, and users it eliminates
+ *   emailable    matches with an address that is not suppressed
+ *
+ * Under AND the funnel is sequential: each rule eliminates the users of
+ * the previous step it rejects. Under OR rules add users instead, so a
+ * rule's `eliminated` is the users it rejects on its own.
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { getAllTrackedAccounts, getTrackedUsersPage, getSegmentEventsByUser } from '@/lib/db/operations';
+import { mapTrackedUserToUser } from '@/lib/db/mappers';
+import type { ConditionLogic } from '@/lib/definitions';
+import type { SegmentFilter, SegmentRuleNode } from '@/lib/db/schema';
+import { evaluateSegmentFilters, getEventConditionScope } from './segmentation';
+import { normalizeRuleGroup } from './rule-groups';
+import { buildSegmentUserRecord } from './event-pipeline';
+import { filterSuppressed } from './email/suppression';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export interface SegmentPreviewStep {
+    /** Position among the top-level rules */
+    index: number;
+    rule: SegmentRuleNode;
+    /** Users matching this rule on its own */
+    matched: number;
+    /** Users in after this step: AND - matched it and every earlier rule; OR - it or any earlier rule */
+    remaining: number;
+    /** AND - users of the previous step this rule drops; OR - users it rejects on its own */
+    eliminated: number;
+}
+
+export interface SegmentPreviewUser {
+    /** Internal tracked user ID */
+    id: string;
+    /** The app's user ID */
+    userId: string;
+    name: string | null;
+    email: string | null;
+    lifecycleState: string;
+    plan: string | null;
+    mrr: number;
+    accountName: string | null;
+}
+
+export interface SegmentPreview {
+    totalUsers: number;
+    matched: number;
+    emailable: number;
+    funnel: SegmentPreviewStep[];
+    sample: {
+        items: SegmentPreviewUser[];
+        total: number;
+        limit: number;
+        offset: number;
+        hasMore: boolean;
+    };
+}
+
+/* ── Constants ──────────────────────────────────────────────────────── */
+
+export const PREVIEW_SAMPLE_DEFAULT_LIMIT = 25;
+export const PREVIEW_SAMPLE_MAX_LIMIT = 100;
+
+/** Tracked users evaluated (and their events loaded) per page */
+const PREVIEW_PAGE_SIZE = 500;
+
+/* ── Funnel (pure) ──────────────────────────────────────────────────── */
+
+/**
+ * Add one user's per-rule results to the running counts; returns whether
+ * they match the whole definition. `counts` has one entry per rule.
+ */
+export function tallyPreviewFunnel(
+    counts: Array<{ matched: number; remaining: number }>,
+    logic: ConditionLogic,
+    results: boolean[],
+): boolean {
+    // A saved segment without rules matches no one (it is never evaluated)
+    if (results.length === 0) return false;
+    let isIn = logic === 'AND';
+    results.forEach((ok, i) => {
+        isIn = logic === 'AND' ? isIn && ok : isIn || ok;
+        if (ok) counts[i].matched++;
+        if (isIn) counts[i].remaining++;
+    });
+    return isIn;
+}
+
+export function buildPreviewFunnel(
+    rules: SegmentRuleNode[],
+    counts: Array<{ matched: number; remaining: number }>,
+    logic: ConditionLogic,
+    totalUsers: number,
+): SegmentPreviewStep[] {
+    return rules.map((rule, index) => {
+        const { matched, remaining } = counts[index];
+        const before = index === 0 ? totalUsers : counts[index - 1].remaining;
+        return {
+            index,
+            rule,
+            matched,
+            remaining,
+            eliminated: logic === 'AND' ? before - remaining : totalUsers - matched,
+        };
+    });
+}
+
+/* ── Preview ────────────────────────────────────────────────────────── */
+
+/** Evaluate `filters` against the org's tracked users without persisting anything */
+export async function previewSegment(orgId: string, definition: {
+    filters: SegmentRuleNode[];
+    filterLogic?: string;
+    limit?: number;
+    offset?: number;
+    now?: Date;
+}): Promise<SegmentPreview> {
+    const now = definition.now ?? new Date();
+    const limit = Math.min(Math.max(1, Math.floor(definition.limit ?? PREVIEW_SAMPLE_DEFAULT_LIMIT)), PREVIEW_SAMPLE_MAX_LIMIT);
+    const offset = Math.max(0, Math.floor(definition.offset ?? 0));
+    const { logic, rules } = normalizeRuleGroup<SegmentFilter>(definition.filterLogic ?? 'AND', definition.filters);
+
+    const accounts = new Map<string, Record<string, unknown>>();
+    for (const a of await getAllTrackedAccounts(orgId)) accounts.set(a.id, a as unknown as Record<string, unknown>);
+    const eventScope = getEventConditionScope(rules, now);
+
+    const counts = rules.map(() => ({ matched: 0, remaining: 0 }));
+    const emails: string[] = [];
+    const sample: SegmentPreviewUser[] = [];
+    let totalUsers = 0;
+    let matched = 0;
+
+    let afterId: string | null = null;
+    for (;;) {
+        const page = await getTrackedUsersPage(orgId, afterId, PREVIEW_PAGE_SIZE);
+        if (page.length === 0) break;
+        afterId = page[page.length - 1].id;
+
+        const eventsByUser = eventScope
+            ? await getSegmentEventsByUser(orgId, eventScope, page.map((u) => u.id))
+            : undefined;
+
+        for (const dbUser of page) {
+            const account = dbUser.accountId ? accounts.get(dbUser.accountId) ?? null : null;
+            const accountName = (account?.name as string | undefined) ?? null;
+            const record = {
+                ...buildSegmentUserRecord(dbUser, mapTrackedUserToUser(dbUser, accountName ?? undefined)),
+                id: dbUser.id,
+                accountId: dbUser.accountId,
+            };
+            const context = { events: eventsByUser?.get(dbUser.id), now };
+            const results = rules.map((rule) => evaluateSegmentFilters([rule], 'AND', record, account, context));
+
+            totalUsers++;
+            if (!tallyPreviewFunnel(counts, logic, results)) continue;
+
+            if (matched >= offset && sample.length < limit) {
+                sample.push({
+                    id: dbUser.id,
+                    userId: dbUser.externalId,
+                    name: dbUser.name,
+                    email: dbUser.email,
+                    lifecycleState: dbUser.lifecycleState,
+                    plan: dbUser.plan,
+                    mrr: dbUser.mrr,
+                    accountName,
+                });
+            }
+            matched++;
+            if (dbUser.email) emails.push(dbUser.email);
+        }
+
+        if (page.length < PREVIEW_PAGE_SIZE) break;
+    }
+
+    const emailable = emails.length > 0 ? (await filterSuppressed(emails, orgId)).length : 0;
+
+    return {
+        totalUsers,
+        matched,
+        emailable,
+        funnel: buildPreviewFunnel(rules, counts, logic, totalUsers),
+        sample: { items: sample, total: matched, limit, offset, hasMore: offset + sample.length < matched },
+    };
+}
@@ -0,0 +1,218 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * Segment Refresh - Scheduled Batch Re-evaluation
+ *
+ * processEvent re-evaluates a user's segments only when they send an
+ * event, so rules on time-relative values - "last login more than 14
+ * days ago", "no report_exported in the last 30 days", days since signup
+ * - never catch the users who have gone quiet. The scheduler runs this
+ * periodically:
+ *
+ *  1. Claims the active dynamic segments of every org whose
+ *     lastEvaluatedAt is SEGMENT_REFRESH_INTERVAL_MS old (static segments
+ *     only change when their user list does). The claim is a conditional
+ *     update in the database, so every instance of a serverless or
+ *     multi-instance deployment shares one schedule
+ *  2. Pages through each org's tracked users in id order, building every
+ *     record at the run's time and loading the events the rules look at
+ *  3. Evaluates each segment with evaluateSegmentBatch against its current
+ *     members and writes the enters / exits in bulk
+ *  4. Updates matchedUserCount and lastEvaluatedAt
+ *  5. Fires segment.entered / segment.exited webhooks and starts
+ *     segment_entry flows for entrants, as processEvent does
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import {
+    claimSegmentsDueForRefresh,
+    getAllTrackedAccounts,
+    getTrackedUsersPage,
+    getSegmentMemberIds,
+    getSegmentEventsByUser,
+    applySegmentMembershipChanges,
+    updateSegmentCount,
+} from '@/lib/db/operations';
+import { mapTrackedUserToUser } from '@/lib/db/mappers';
+import type { Segment } from '@/lib/db/operations';
+import type { User } from '@/lib/definitions';
+import { evaluateSegmentBatch, getEventConditionScope } from './segmentation';
+import { hasRules } from './rule-groups';
+import {
+    buildSegmentUserRecord,
+    dispatchSegmentWebhooks,
+    enrollInSegmentEntryFlows,
+    type SegmentMembershipChange,
+} from './event-pipeline';
+
+/* ── Configuration ──────────────────────────────────────────────────── */
+
+/** How often the scheduler re-evaluates each segment */
+export const SEGMENT_REFRESH_INTERVAL_MS = 15 * 60_000;
+
+/** Tracked users evaluated (and their events loaded) per page */
+export const SEGMENT_REFRESH_PAGE_SIZE = 500;
+
+export interface SegmentRefreshSummary {
+    skipped: boolean;
+    orgs: number;
+    segments: number;
+    usersEvaluated: number;
+    entered: number;
+    exited: number;
+    flowEnrollments: number;
+    webhooksDispatched: number;
+    errors: number;
+}
+
+/* ── Change Grouping (pure) ─────────────────────────────────────────── */
+
+/**
+ * Regroup per-segment enters / exits by user, so each user's webhooks and
+ * segment_entry flows are handled together. Segments keep `segments` order.
+ */
+export function groupMembershipChanges(
+    segments: Array<{ id: string; name: string }>,
+    bySegment: Map<string, { entered: string[]; exited: string[] }>,
+): Map<string, SegmentMembershipChange[]> {
+    const byUser = new Map<string, SegmentMembershipChange[]>();
+    const add = (userId: string, change: SegmentMembershipChange) => {
+        const changes = byUser.get(userId) ?? [];
+        changes.push(change);
+        byUser.set(userId, changes);
+    };
+
+    for (const seg of segments) {
+        const changes = bySegment.get(seg.id);
+        if (!changes) continue;
+        for (const userId of changes.entered) add(userId, { segmentId: seg.id, segmentName: seg.name, change: 'entered' });
+        for (const userId of changes.exited) add(userId, { segmentId: seg.id, segmentName: seg.name, change: 'exited' });
+    }
+    return byUser;
+}
+
+/* ── Refresh ────────────────────────────────────────────────────────── */
+
+/**
+ * Re-evaluate the active dynamic segments of every org, or only `orgId`.
+ * Each segment is re-evaluated at most every SEGMENT_REFRESH_INTERVAL_MS
+ * (by its lastEvaluatedAt) unless forced; an org-scoped run is always
+ * forced. `skipped` means no segment was due.
+ */
+export async function refreshSegmentMemberships(options: {
+    now?: Date;
+    force?: boolean;
+    orgId?: string;
+} = {}): Promise<SegmentRefreshSummary> {
+    const now = options.now ?? new Date();
+    const summary: SegmentRefreshSummary = {
+        skipped: false,
+        orgs: 0,
+        segments: 0,
+        usersEvaluated: 0,
+        entered: 0,
+        exited: 0,
+        flowEnrollments: 0,
+        webhooksDispatched: 0,
+        errors: 0,
+    };
+
+    // Segments without rules are never claimed: like per-event evaluation,
+    // they match no one
+    const forced = options.force || !!options.orgId;
+    const dueBefore = forced ? now : new Date(now.getTime() - SEGMENT_REFRESH_INTERVAL_MS);
+    const claimed = await claimSegmentsDueForRefresh(dueBefore, now, options.orgId);
+    if (claimed.length === 0) return { ...summary, skipped: !forced };
+
+    const byOrg = new Map<string, Segment[]>();
+    for (const seg of claimed) {
+        // Rules saved as nothing but empty groups count as none
+        if (!hasRules(seg.filters)) continue;
+        byOrg.set(seg.organizationId, [...(byOrg.get(seg.organizationId) ?? []), seg]);
+    }
+
+    for (const [orgId, segments] of byOrg) {
+        try {
+            await refreshOrg(orgId, segments, now, summary);
+            summary.orgs++;
+            summary.segments += segments.length;
+        } catch (e) {
+            summary.errors++;
+            console.error(`[segments] Refresh failed for org ${orgId}:`, (e as Error).message);
+        }
+    }
+    return summary;
+}
+
+async function refreshOrg(orgId: string, segments: Segment[], now: Date, summary: SegmentRefreshSummary): Promise<void> {
+    const accounts = new Map<string, Record<string, unknown>>();
+    for (const a of await getAllTrackedAccounts(orgId)) accounts.set(a.id, a as unknown as Record<string, unknown>);
+
+    const members = new Map<string, Set<string>>();
+    const matchedCounts = new Map<string, number>();
+    for (const seg of segments) {
+        members.set(seg.id, await getSegmentMemberIds(orgId, seg.id));
+        matchedCounts.set(seg.id, 0);
+    }
+    const eventScope = getEventConditionScope(segments.flatMap((seg) => seg.filters ?? []), now);
+
+    let afterId: string | null = null;
+    for (;;) {
+        const page = await getTrackedUsersPage(orgId, afterId, SEGMENT_REFRESH_PAGE_SIZE);
+        if (page.length === 0) break;
+        afterId = page[page.length - 1].id;
+
+        const users = new Map<string, { user: User; accountId: string | null }>();
+        const records = page.map((dbUser) => {
+            const accountName = dbUser.accountId ? accounts.get(dbUser.accountId)?.name as string | undefined : undefined;
+            const user = mapTrackedUserToUser(dbUser, accountName);
+            users.set(dbUser.id, { user, accountId: dbUser.accountId });
+            // Memberships and accounts are keyed by the internal IDs
+            return { ...buildSegmentUserRecord(dbUser, user), id: dbUser.id, accountId: dbUser.accountId };
+        });
+        const eventsByUser = eventScope
+            ? await getSegmentEventsByUser(orgId, eventScope, page.map((u) => u.id))
+            : undefined;
+
+        const applied = new Map<string, { entered: string[]; exited: string[] }>();
+        for (const seg of segments) {
+            const result = evaluateSegmentBatch(
+                seg.filters ?? [],
+                seg.filterLogic,
+                records,
+                accounts,
+                members.get(seg.id)!,
+                { eventsByUser, now },
+            );
+            matchedCounts.set(seg.id, matchedCounts.get(seg.id)! + result.matched.length);
+
+            const changes = await applySegmentMembershipChanges(orgId, seg.id, result);
+            applied.set(seg.id, changes);
+            summary.entered += changes.entered.length;
+            summary.exited += changes.exited.length;
+        }
+        summary.usersEvaluated += page.length;
+
+        for (const [trackedUserId, changes] of groupMembershipChanges(segments, applied)) {
+            const entry = users.get(trackedUserId);
+            if (!entry) continue;
+            summary.webhooksDispatched += dispatchSegmentWebhooks(orgId, entry.user, changes);
+
+            const enteredSegmentIds = changes.filter((c) => c.change === 'entered').map((c) => c.segmentId);
+            if (enteredSegmentIds.length === 0) continue;
+            try {
+                summary.flowEnrollments += await enrollInSegmentEntryFlows(orgId, {
+                    user: entry.user,
+                    trackedUserId,
+                    accountInternalId: entry.accountId,
+                }, enteredSegmentIds);
+            } catch (e) {
+                summary.errors++;
+                console.error(`[segments] segment_entry enrollment failed for ${trackedUserId}:`, (e as Error).message);
+            }
+        }
+
+        if (page.length < SEGMENT_REFRESH_PAGE_SIZE) break;
+    }
+
+    for (const seg of segments) {
+        await updateSegmentCount(orgId, seg.id, matchedCounts.get(seg.id)!);
+    }
+}
@@ -6,7 +6,7 @@
  * JSONB custom properties.
  *
  * The engine:
- *  1. Takes a segment's filters + logic (AND / OR)
+ *  1. Takes a segment's filters + logic (AND / OR), with nested groups
  *  2. Fetches all tracked users for the org
  *  3. Evaluates each user against the filter rules
  *  4. Updates segment memberships (enter/exit)
@@ -15,9 +15,19 @@
  * Designed for real-time evaluation on event ingestion: when an SDK
  * event arrives, the engine re-evaluates all active segments for the
  * affected user.
+ *
+ * Rule sources:
+ *   • user / account   properties of the tracked user and account rows
+ *   • computed         values derived at evaluation time (COMPUTED_FIELDS)
+ *   • event            behavioral conditions on the user's events - did /
+ *                      did not, how often, first / last occurrence - with
+ *                      property filters inside a rolling window. The
+ *                      caller loads the events (see getEventConditionScope)
+ *                      and passes them in the evaluation context.
  * ═══════════════════════════════════════════════════════════════════════ */
 
-import type { SegmentFilter } from '@/lib/db/schema';
+import type { SegmentEventCondition, SegmentEventPropertyFilter, SegmentFilter, SegmentRuleNode } from '@/lib/db/schema';
+import { evaluateRuleGroup, flattenRules, normalizeRuleGroup } from './rule-groups';
 
 /* ── Available User Fields (real SDK properties) ─────────────────────── */
 
@@ -31,6 +41,7 @@ export const USER_FIELDS = [
     { key: 'expansionScore', label: 'Expansion Score', type: 'number', source: 'user' as const },
     { key: 'loginFrequency7d', label: 'Logins (7d)', type: 'number', source: 'user' as const },
     { key: 'loginFrequency30d', label: 'Logins (30d)', type: 'number', source: 'user' as const },
+    { key: 'lastLoginDaysAgo', label: 'Last Login (days ago)', type: 'number', source: 'user' as const },
     { key: 'sessionDepthMinutes', label: 'Session Depth (min)', type: 'number', source: 'user' as const },
     { key: 'npsScore', label: 'NPS Score', type: 'number', source: 'user' as const },
     { key: 'seatCount', label: 'Seat Count', type: 'number', source: 'user' as const },
@@ -57,20 +68,119 @@ export const ACCOUNT_FIELDS = [
     { key: 'tags', label: 'Account Tags', type: 'array', source: 'account' as const },
 ] as const;
 
-export const ALL_FIELDS = [...USER_FIELDS, ...ACCOUNT_FIELDS];
+/* ── Computed Fields (derived at evaluation time) ────────────────────── */
+
+export const COMPUTED_FIELDS = [
+    { key: 'daysSinceSignup', label: 'Days Since Signup', type: 'number', source: 'computed' as const },
+    { key: 'daysSinceLastLogin', label: 'Days Since Last Login', type: 'number', source: 'computed' as const },
+    { key: 'daysSinceActivation', label: 'Days Since Activation', type: 'number', source: 'computed' as const },
+    { key: 'daysInLifecycleState', label: 'Days in Lifecycle State', type: 'number', source: 'computed' as const },
+    { key: 'seatUtilization', label: 'Seat Utilization (%)', type: 'number', source: 'computed' as const },
+    { key: 'apiUtilization', label: 'API Utilization (%)', type: 'number', source: 'computed' as const },
+] as const;
+
+export const ALL_FIELDS = [...USER_FIELDS, ...ACCOUNT_FIELDS, ...COMPUTED_FIELDS];
+
+/* ── Evaluation Context ──────────────────────────────────────────────── */
+
+/** One of the user's events, as seen by 'event' rules */
+export interface SegmentEventRecord {
+    name: string;
+    properties: Record<string, unknown> | null;
+    occurredAt: Date;
+}
+
+export interface SegmentEvalContext {
+    /** The user's events within getEventConditionScope(); 'event' rules see none without them */
+    events?: SegmentEventRecord[];
+    /** Reference time for rolling windows and computed fields */
+    now?: Date;
+}
+
+const DAY_MS = 86_400_000;
 
 /* ── Value Resolver ──────────────────────────────────────────────────── */
 
+function resolvePath(obj: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, key) => {
+        if (value && typeof value === 'object') return (value as Record<string, unknown>)[key];
+        return undefined;
+    }, obj);
+}
+
+function daysSince(value: unknown, now: Date): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const time = value instanceof Date ? value.getTime() : new Date(value as string).getTime();
+    if (Number.isNaN(time)) return undefined;
+    return Math.floor((now.getTime() - time) / DAY_MS);
+}
+
+function percentOf(used: unknown, limit: unknown): number | undefined {
+    const max = Number(limit);
+    if (!max || Number.isNaN(max)) return undefined;
+    return Math.round((Number(used ?? 0) / max) * 100);
+}
+
+/** Resolve a COMPUTED_FIELDS value from the user row */
+function resolveComputedValue(field: string, user: Record<string, unknown>, now: Date): unknown {
+    switch (field) {
+        case 'daysSinceSignup': return daysSince(user.signupDate ?? user.createdAt, now);
+        case 'daysSinceLastLogin': return daysSince(user.lastLoginAt, now);
+        case 'daysSinceActivation': return daysSince(user.activatedDate, now);
+        case 'daysInLifecycleState': return daysSince(user.stateChangedAt, now);
+        case 'seatUtilization': return percentOf(user.seatCount, user.seatLimit);
+        case 'apiUtilization': return percentOf(user.apiCalls30d, user.apiLimit);
+        default: return undefined;
+    }
+}
+
+function matchesEventProperties(event: SegmentEventRecord, where: SegmentEventPropertyFilter[]): boolean {
+    return where.every(({ property, ...rule }) =>
+        evaluateRule({ field: property, fieldSource: 'event', ...rule }, resolvePath(event.properties ?? {}, property)),
+    );
+}
+
+/**
+ * Resolve an 'event' rule: the number of the user's events named
+ * `filter.field` within the window that pass the property filters, or
+ * the days since the first / last one (undefined when there is none).
+ */
+function resolveEventValue(filter: SegmentFilter, events: SegmentEventRecord[], now: Date): unknown {
+    const condition: SegmentEventCondition = filter.event ?? { measure: 'count' };
+    const since = condition.withinDays ? now.getTime() - condition.withinDays * DAY_MS : -Infinity;
+    const where = condition.where ?? [];
+
+    const matching = events.filter((event) =>
+        event.name === filter.field
+        && event.occurredAt.getTime() >= since
+        && event.occurredAt.getTime() <= now.getTime()
+        && matchesEventProperties(event, where));
+
+    if (condition.measure === 'count') return matching.length;
+    if (matching.length === 0) return undefined;
+
+    const times = matching.map((event) => event.occurredAt.getTime());
+    const at = condition.measure === 'first_occurred' ? Math.min(...times) : Math.max(...times);
+    return daysSince(new Date(at), now);
+}
+
 /**
- * Resolve a field value from a user row or account row.
+ * Resolve a field value from a user row or account row, the computed
+ * fields, or the user's events (from `context`).
  * Supports nested properties via dot notation in the `properties` JSONB.
  */
 export function resolveFieldValue(
     filter: SegmentFilter,
     user: Record<string, unknown>,
     account?: Record<string, unknown> | null,
+    context: SegmentEvalContext = {},
 ): unknown {
     const { field, fieldSource } = filter;
+    const now = context.now ?? new Date();
+
+    if (fieldSource === 'event') return resolveEventValue(filter, context.events ?? [], now);
+    if (fieldSource === 'computed') return resolveComputedValue(field, user, now);
+
     const source = fieldSource === 'account' ? (account ?? {}) : user;
 
     // Direct column field
@@ -78,13 +188,9 @@ export function resolveFieldValue(
 
     // Nested in properties JSONB  (e.g. "properties.company_size")
     if (field.startsWith('properties.')) {
-        const path = field.slice(11);
         const props = source.properties as Record<string, unknown> | undefined;
         if (!props) return undefined;
-        return path.split('.').reduce<unknown>((obj, key) => {
-            if (obj && typeof obj === 'object') return (obj as Record<string, unknown>)[key];
-            return undefined;
-        }, props);
+        return resolvePath(props, field.slice(11));
     }
 
     // Tags array field
@@ -186,25 +292,20 @@ export function evaluateRule(filter: SegmentFilter, value: unknown): boolean {
 /* ── Full Segment Evaluation ─────────────────────────────────────────── */
 
 /**
- * Evaluate all filters for a segment against a user (+account).
+ * Evaluate all filters for a segment against a user (+account, +events).
+ * `filters` may nest AND/OR groups under the top-level `filterLogic`.
  * Returns true if the user matches the segment.
  */
 export function evaluateSegmentFilters(
-    filters: SegmentFilter[],
+    filters: SegmentRuleNode[],
     filterLogic: string,
     user: Record<string, unknown>,
     account?: Record<string, unknown> | null,
+    context?: SegmentEvalContext,
 ): boolean {
-    if (filters.length === 0) return true; // empty filter = match all
-
-    const results = filters.map((filter) => {
-        const value = resolveFieldValue(filter, user, account);
-        return evaluateRule(filter, value);
-    });
-
-    return filterLogic === 'OR'
-        ? results.some(Boolean)
-        : results.every(Boolean);
+    // empty filter = match all
+    return evaluateRuleGroup(normalizeRuleGroup<SegmentFilter>(filterLogic, filters), (filter) =>
+        evaluateRule(filter, resolveFieldValue(filter, user, account, context)));
 }
 
 /* ── Batch Segment Evaluation ────────────────────────────────────────── */
@@ -221,11 +322,12 @@ export interface SegmentEvalResult {
  * Returns the matched user IDs and enter/exit diffs.
  */
 export function evaluateSegmentBatch(
-    filters: SegmentFilter[],
+    filters: SegmentRuleNode[],
     filterLogic: string,
     users: Record<string, unknown>[],
     accounts: Map<string, Record<string, unknown>>,
     existingMemberIds: Set<string>,
+    options: { eventsByUser?: Map<string, SegmentEventRecord[]>; now?: Date } = {},
 ): SegmentEvalResult {
     const matched: string[] = [];
     const entered: string[] = [];
@@ -236,7 +338,10 @@ export function evaluateSegmentBatch(
         const accountId = user.accountId as string | undefined;
         const account = accountId ? accounts.get(accountId) : null;
 
-        const isMatch = evaluateSegmentFilters(filters, filterLogic, user, account);
+        const isMatch = evaluateSegmentFilters(filters, filterLogic, user, account, {
+            events: options.eventsByUser?.get(userId),
+            now: options.now,
+        });
 
         if (isMatch) {
             matched.push(userId);
@@ -250,3 +355,28 @@ export function evaluateSegmentBatch(
 
     return { matched, entered, exited, total: users.length };
 }
+
+/* ── Event Condition Scope ───────────────────────────────────────────── */
+
+/** Events the 'event' rules of `filters` can see */
+export interface EventConditionScope {
+    names: string[];
+    /** Earliest event any rule looks at; null = all time */
+    since: Date | null;
+}
+
+/**
+ * The event names and time range to load for the 'event' rules of
+ * `filters`, or null when there are none.
+ */
+export function getEventConditionScope(filters: SegmentRuleNode[], now: Date = new Date()): EventConditionScope | null {
+    const eventFilters = flattenRules(filters).filter((f) => f.fieldSource === 'event' && f.field);
+    if (eventFilters.length === 0) return null;
+
+    const windows = eventFilters.map((f) => f.event?.withinDays);
+    const since = windows.every((days): days is number => typeof days === 'number' && days > 0)
+        ? new Date(now.getTime() - Math.max(...windows) * DAY_MS)
+        : null;
+
+    return { names: [...new Set(eventFilters.map((f) => f.field))], since };
+}
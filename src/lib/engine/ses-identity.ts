@@ -105,7 +105,7 @@ export function isSesConfigured(): boolean {
 /**
  * Get or create the SES v2 client. Returns null if not configured.
  */
-function getClient(): SESv2Client | null {
+export function getSesClient(): SESv2Client | null {
     if (!isSesConfigured()) return null;
 
     const region = process.env.AWS_SES_REGION ?? process.env.AWS_REGION ?? 'us-east-1';
@@ -161,7 +161,7 @@ export function getSesConfigurationSet(): string | undefined {
 export async function registerDomainIdentity(domain: string): Promise<SesIdentityResult> {
     const normalizedDomain = domain.toLowerCase().trim();
 
-    const client = getClient();
+    const client = getSesClient();
     if (!client) {
         console.warn(`[ses-identity] SES not configured - domain "${normalizedDomain}" registered locally only.`);
         return {
@@ -243,7 +243,7 @@ export async function registerDomainIdentity(domain: string): Promise<SesIdentit
 export async function getDomainIdentityStatus(domain: string): Promise<SesIdentityStatus> {
     const normalizedDomain = domain.toLowerCase().trim();
 
-    const client = getClient();
+    const client = getSesClient();
     if (!client) {
         return {
             exists: false,
@@ -315,7 +315,7 @@ export async function configureMailFromDomain(
     const normalizedDomain = domain.toLowerCase().trim();
     const mailFromDomain = `${mailFromSubdomain}.${normalizedDomain}`;
 
-    const client = getClient();
+    const client = getSesClient();
     if (!client) {
         return { success: false, mailFromDomain, error: 'SES not configured.' };
     }
@@ -345,7 +345,7 @@ export async function configureMailFromDomain(
 export async function deleteDomainIdentity(domain: string): Promise<{ success: boolean; error?: string }> {
     const normalizedDomain = domain.toLowerCase().trim();
 
-    const client = getClient();
+    const client = getSesClient();
     if (!client) {
         return { success: true }; // Nothing to delete if SES not configured
     }
@@ -0,0 +1,335 @@
+/* ═══════════════════════════════════════════════════════════════════════
+ * SES Notifications - Bounce, Complaint & Delivery Feedback via SNS
+ *
+ * Amazon SES publishes delivery feedback to an SNS topic, which POSTs it
+ * to /api/v1/email/sns. This module:
+ *   • verifies the SNS message signature (SignatureVersion 1 and 2)
+ *     against the signing certificate SNS points to, which must be
+ *     served from sns.<region>.amazonaws.com
+ *   • confirms topic subscriptions by visiting the SubscribeURL
+ *   • parses SES Bounce / Complaint / Delivery notifications (both the
+ *     identity-notification `notificationType` and the configuration-set
+ *     event `eventType` shapes)
+ *   • matches them to the original send by provider message ID, stamps
+ *     emailQueue / emailSends, feeds the suppression list and emits
+ *     `email.bounced` / `email.complained` events
+ *
+ * The org comes from the matched send - notifications for mail we have
+ * no record of are acknowledged and ignored.
+ *
+ * Environment Variables (all optional):
+ *   SES_SNS_TOPIC_ARNS         - Comma-separated allowlist of topic ARNs
+ *   SES_SNS_VERIFY_SIGNATURES  - "false" skips signature checks outside
+ *                                production (for the fixture poster)
+ * ═══════════════════════════════════════════════════════════════════════ */
+
+import { createVerify } from 'crypto';
+import { updateEmailSendsByProviderMessageId } from '@/lib/db/operations';
+import {
+    recordBounce,
+    recordComplaint,
+    recordProviderOutcome,
+    providerMessageIdVariants,
+    type ProviderOutcomeMatch,
+} from './email';
+import { emitEmailEvent } from './email-events';
+
+/* ── Types ──────────────────────────────────────────────────────────── */
+
+export type SnsMessageType = 'Notification' | 'SubscriptionConfirmation' | 'UnsubscribeConfirmation';
+
+export interface SnsEnvelope {
+    Type: SnsMessageType;
+    MessageId: string;
+    TopicArn: string;
+    Message: string;
+    Timestamp: string;
+    SignatureVersion: string;
+    Signature: string;
+    SigningCertURL: string;
+    Subject?: string;
+    SubscribeURL?: string;
+    UnsubscribeURL?: string;
+    Token?: string;
+}
+
+export interface SesMail {
+    messageId: string;
+    timestamp: string;
+    source: string;
+    destination: string[];
+    commonHeaders?: { messageId?: string; subject?: string };
+}
+
+export interface SesBouncedRecipient {
+    emailAddress: string;
+    action?: string;
+    status?: string;
+    diagnosticCode?: string;
+}
+
+export interface SesNotification {
+    type: 'Bounce' | 'Complaint' | 'Delivery';
+    mail: SesMail;
+    bounce?: {
+        bounceType: 'Permanent' | 'Transient' | 'Undetermined';
+        bounceSubType?: string;
+        bouncedRecipients: SesBouncedRecipient[];
+        timestamp: string;
+    };
+    complaint?: {
+        complainedRecipients: Array<{ emailAddress: string }>;
+        complaintFeedbackType?: string;
+        timestamp: string;
+    };
+    delivery?: {
+        recipients: string[];
+        timestamp: string;
+        smtpResponse?: string;
+    };
+}
+
+export interface SesNotificationResult {
+    type: SesNotification['type'];
+    sesMessageId: string;
+    /** False when no send matches the notification's message IDs */
+    matched: boolean;
+    orgId?: string;
+    recipients: Array<{ email: string; action: 'delivered' | 'bounced' | 'complained' }>;
+}
+
+/* ── Envelope Parsing & Signature Verification ──────────────────────── */
+
+const SNS_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+const SIGNED_KEYS: Record<SnsMessageType, Array<keyof SnsEnvelope>> = {
+    Notification: ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'],
+    SubscriptionConfirmation: ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'],
+    UnsubscribeConfirmation: ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'],
+};
+
+/** Parse an SNS HTTP(S) delivery body. Returns null when it isn't one. */
+export function parseSnsEnvelope(body: unknown): SnsEnvelope | null {
+    if (!body || typeof body !== 'object') return null;
+    const env = body as Record<string, unknown>;
+    if (typeof env.Type !== 'string' || !(env.Type in SIGNED_KEYS)) return null;
+    for (const key of ['MessageId', 'TopicArn', 'Message', 'Timestamp', 'Signature', 'SigningCertURL']) {
+        if (typeof env[key] !== 'string') return null;
+    }
+    return env as unknown as SnsEnvelope;
+}
+
+/** The canonical "Key\nValue\n" string SNS signs; absent optional keys are skipped. */
+export function snsStringToSign(env: SnsEnvelope): string {
+    return SIGNED_KEYS[env.Type]
+        .filter((key) => env[key] !== undefined)
+        .map((key) => `${key}\n${env[key]}\n`)
+        .join('');
+}
+
+/** SNS certificates and subscribe links must be HTTPS on an SNS host. */
+export function isSnsUrl(value: string | undefined, pemOnly = false): boolean {
+    if (!value) return false;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' && SNS_HOST.test(url.hostname) && (!pemOnly || url.pathname.endsWith('.pem'));
+    } catch {
+        return false;
+    }
+}
+
+const certCache = new Map<string, string>();
+
+async function fetchSigningCert(url: string): Promise<string> {
+    const cached = certCache.get(url);
+    if (cached) return cached;
+    const res = await fetch(url, { signal: AbortSignal.timeout(5_000) });
+    if (!res.ok) throw new Error(`Signing certificate fetch failed (${res.status})`);
+    const pem = await res.text();
+    certCache.set(url, pem);
+    return pem;
+}
+
+/**
+ * Verify an SNS message signature.
+ *
+ * @returns null when valid, otherwise the reason it was rejected
+ */
+export async function verifySnsSignature(
+    env: SnsEnvelope,
+    fetchCert: (url: string) => Promise<string> = fetchSigningCert,
+): Promise<string | null> {
+    if (!isSnsUrl(env.SigningCertURL, true)) return 'SigningCertURL is not an SNS certificate URL';
+    const algorithm = env.SignatureVersion === '1' ? 'RSA-SHA1' : env.SignatureVersion === '2' ? 'RSA-SHA256' : null;
+    if (!algorithm) return `Unsupported SignatureVersion '${env.SignatureVersion}'`;
+
+    let cert: string;
+    try {
+        cert = await fetchCert(env.SigningCertURL);
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Signing certificate fetch failed';
+    }
+
+    try {
+        const valid = createVerify(algorithm).update(snsStringToSign(env), 'utf8').verify(cert, env.Signature, 'base64');
+        return valid ? null : 'Signature mismatch';
+    } catch {
+        return 'Signature could not be verified';
+    }
+}
+
+/** Whether signatures are checked (always in production). */
+export function snsSignatureVerificationEnabled(): boolean {
+    return process.env.NODE_ENV === 'production' || process.env.SES_SNS_VERIFY_SIGNATURES !== 'false';
+}
+
+/** Whether the topic may post to us (any topic when no allowlist is set). */
+export function isAllowedSnsTopic(topicArn: string): boolean {
+    const allowed = (process.env.SES_SNS_TOPIC_ARNS ?? '').split(',').map((arn) => arn.trim()).filter(Boolean);
+    return allowed.length === 0 || allowed.includes(topicArn);
+}
+
+/** Confirm a topic subscription by visiting its SubscribeURL. */
+export async function confirmSnsSubscription(env: SnsEnvelope): Promise<void> {
+    if (!isSnsUrl(env.SubscribeURL)) throw new Error('SubscribeURL is not an SNS URL');
+    const res = await fetch(env.SubscribeURL!, { signal: AbortSignal.timeout(10_000) });
+    if (!res.ok) throw new Error(`Subscription confirmation failed (${res.status})`);
+}
+
+/* ── SES Notification Parsing ───────────────────────────────────────── */
+
+/** Parse the SES notification carried in an SNS Message. */
+export function parseSesNotification(message: string): SesNotification | null {
+    let raw: Record<string, unknown>;
+    try {
+        raw = JSON.parse(message);
+    } catch {
+        return null;
+    }
+    const type = raw.notificationType ?? raw.eventType;
+    if (type !== 'Bounce' && type !== 'Complaint' && type !== 'Delivery') return null;
+    const mail = raw.mail as SesMail | undefined;
+    if (!mail || typeof mail.messageId !== 'string') return null;
+
+    return {
+        type,
+        mail,
+        ...(raw.bounce ? { bounce: raw.bounce as SesNotification['bounce'] } : {}),
+        ...(raw.complaint ? { complaint: raw.complaint as SesNotification['complaint'] } : {}),
+        ...(raw.delivery ? { delivery: raw.delivery as SesNotification['delivery'] } : {}),
+    };
+}
+
+export function sesBounceType(bounceType: string | undefined): 'hard' | 'soft' | 'undetermined' {
+    if (bounceType === 'Permanent') return 'hard';
+    if (bounceType === 'Transient') return 'soft';
+    return 'undetermined';
+}
+
+/**
+ * Message IDs the send may have been recorded under: the SES message ID
+ * and the Message-ID header (what SMTP transports report), with and
+ * without angle brackets.
+ */
+export function sesProviderMessageIds(mail: SesMail): string[] {
+    return providerMessageIdVariants(mail.messageId, mail.commonHeaders?.messageId);
+}
+
+/* ── Processing ─────────────────────────────────────────────────────── */
+
+/**
+ * Apply an SES notification: stamp the original send, suppress bounced
+ * and complaining addresses, and emit engagement events.
+ */
+export async function processSesNotification(notification: SesNotification): Promise<SesNotificationResult> {
+    const ids = sesProviderMessageIds(notification.mail);
+    const result: SesNotificationResult = {
+        type: notification.type,
+        sesMessageId: notification.mail.messageId,
+        matched: false,
+        recipients: [],
+    };
+
+    if (notification.type === 'Delivery') {
+        const at = new Date(notification.delivery?.timestamp ?? Date.now());
+        const [queued, sends] = await Promise.all([
+            recordProviderOutcome(ids, 'delivered', at),
+            updateEmailSendsByProviderMessageId(ids, 'delivered', { at }),
+        ]);
+        result.orgId = queued?.orgId ?? sends[0]?.organizationId;
+        result.matched = !!result.orgId;
+        for (const email of notification.delivery?.recipients ?? notification.mail.destination) {
+            result.recipients.push({ email, action: 'delivered' });
+        }
+        return result;
+    }
+
+    if (notification.type === 'Bounce') {
+        const bounce = notification.bounce;
+        const bounceType = sesBounceType(bounce?.bounceType);
+        const recipients = bounce?.bouncedRecipients ?? [];
+        const at = new Date(bounce?.timestamp ?? Date.now());
+        const reason = recipients.map((r) => r.diagnosticCode).find(Boolean)
+            ?? `${bounce?.bounceType ?? 'Undetermined'}${bounce?.bounceSubType ? ` / ${bounce.bounceSubType}` : ''} bounce`;
+
+        const [queued, sends] = await Promise.all([
+            recordProviderOutcome(ids, 'bounced', at),
+            updateEmailSendsByProviderMessageId(ids, 'bounced', { at, failureReason: reason }),
+        ]);
+        const match = matchedSend(queued, sends);
+        if (!match) return result;
+        Object.assign(result, { matched: true, orgId: match.orgId });
+
+        for (const recipient of recipients) {
+            await recordBounce(recipient.emailAddress, bounceType, recipient.diagnosticCode, 'ses_sns', match.orgId);
+            void emitEmailEvent({
+                type: 'bounce',
+                recipientEmail: recipient.emailAddress,
+                messageId: notification.mail.messageId,
+                campaignId: match.campaignId,
+                flow: match.flow,
+                bounceType,
+                diagnosticCode: recipient.diagnosticCode,
+                at,
+            }, match.orgId).catch((err) => console.error('[ses-notifications] Email event error:', err));
+            result.recipients.push({ email: recipient.emailAddress, action: 'bounced' });
+        }
+        return result;
+    }
+
+    const complaint = notification.complaint;
+    const at = new Date(complaint?.timestamp ?? Date.now());
+    const [queued, sends] = await Promise.all([
+        recordProviderOutcome(ids, 'complained', at),
+        updateEmailSendsByProviderMessageId(ids, 'complained', { at }),
+    ]);
+    const match = matchedSend(queued, sends);
+    if (!match) return result;
+    Object.assign(result, { matched: true, orgId: match.orgId });
+
+    for (const recipient of complaint?.complainedRecipients ?? []) {
+        await recordComplaint(recipient.emailAddress, complaint?.complaintFeedbackType, 'ses_sns', match.orgId);
+        void emitEmailEvent({
+            type: 'complaint',
+            recipientEmail: recipient.emailAddress,
+            messageId: notification.mail.messageId,
+            campaignId: match.campaignId,
+            flow: match.flow,
+            feedbackType: complaint?.complaintFeedbackType,
+            at,
+        }, match.orgId).catch((err) => console.error('[ses-notifications] Email event error:', err));
+        result.recipients.push({ email: recipient.emailAddress, action: 'complained' });
+    }
+    return result;
+}
+
+/** Org, campaign and flow step of the matched send (queue row first). */
+function matchedSend(
+    queued: ProviderOutcomeMatch | null,
+    sends: Array<{ organizationId: string; campaignId: string | null }>,
+): Pick<ProviderOutcomeMatch, 'orgId' | 'campaignId' | 'flow'> | null {
+    if (queued) return queued;
+    const send = sends[0];
+    if (!send) return null;
+    return { orgId: send.organizationId, campaignId: send.campaignId ?? undefined };
+}
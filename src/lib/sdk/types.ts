@@ -203,7 +203,9 @@ export type WebhookEventType =
   | 'account.expansion_signal'
   | 'event.tracked'
   | 'flow.triggered'
-  | 'flow.completed';
+  | 'flow.completed'
+  | 'segment.entered'
+  | 'segment.exited';
 
 /** Webhook delivery payload */
 export interface WebhookDeliveryPayload {